@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, TextInput, Pressable, FlatList, ActivityIndicator, Keyboard } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useTaskStore } from '@/store/taskStore';
+import useSearchStore from '@/store/searchStore';
+import { highlightText, tokenizeSearch, SearchField, TaskSearchResult } from '@/lib/utils/search';
+import { isOpenStatus } from '@/lib/utils/taskStatus';
+import { searchStyles } from '@/lib/styles/search';
+import { useTheme } from '@/lib/styles/useTheme';
+
+// Wait for a pause in typing before searching the database
+const REMOTE_SEARCH_DELAY_MS = 300;
+
+const MATCH_ICONS: Record<Exclude<SearchField, 'title'>, string> = {
+  tag: 'pricetag-outline',
+  list: 'list-outline',
+  description: 'document-text-outline',
+};
+
+export default function SearchScreen() {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const tasks = useTaskStore((state) => state.tasks);
+  const searchTasks = useTaskStore((state) => state.searchTasks);
+  const { recentSearches, addRecentSearch, removeRecentSearch, clearRecentSearches } = useSearchStore();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<TaskSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const latestRequest = useRef(0);
+
+  const terms = useMemo(() => tokenizeSearch(query), [query]);
+
+  // Re-run on every change to the query, and when the cached tasks change
+  useEffect(() => {
+    const request = ++latestRequest.current;
+
+    if (terms.length === 0) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    const run = () => {
+      setSearching(true);
+      searchTasks(query).then((found) => {
+        // Drop responses that arrive after a newer search started
+        if (request !== latestRequest.current) return;
+        setResults(found);
+        setSearching(false);
+      });
+    };
+
+    if (useTaskStore.getState().areTasksLoaded()) {
+      run();
+      return;
+    }
+
+    const timer = setTimeout(run, REMOTE_SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, terms.length, tasks, searchTasks]);
+
+  const handleResultPress = (result: TaskSearchResult) => {
+    addRecentSearch(query);
+    Keyboard.dismiss();
+    router.push(`/(task-details)/${result.task.id}?source=search`);
+  };
+
+  const renderHighlighted = (text: string, style: any) => (
+    <Text style={style} numberOfLines={1}>
+      {highlightText(text, terms).map((segment, index) =>
+        segment.match ? (
+          <Text key={index} style={searchStyles.highlight}>{segment.text}</Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+
+  const renderResult = ({ item }: { item: TaskSearchResult }) => {
+    const isOpen = isOpenStatus(item.task.status);
+
+    return (
+      <Pressable style={searchStyles.resultItem} onPress={() => handleResultPress(item)}>
+        <View style={searchStyles.resultContent}>
+          {renderHighlighted(item.task.title, [searchStyles.resultTitle, !isOpen && searchStyles.completedTitle])}
+          {item.matches
+            .filter((match) => match.field !== 'title')
+            .map((match) => (
+              <View key={`${match.field}-${match.text}`} style={searchStyles.matchRow}>
+                <Ionicons
+                  name={MATCH_ICONS[match.field as Exclude<SearchField, 'title'>] as any}
+                  size={14}
+                  color={theme.colors.text.secondary}
+                />
+                {renderHighlighted(match.text, searchStyles.matchText)}
+              </View>
+            ))}
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={theme.colors.text.placeholder} />
+      </Pressable>
+    );
+  };
+
+  const renderRecentSearches = () => {
+    if (recentSearches.length === 0) {
+      return (
+        <View style={searchStyles.emptyState}>
+          <Text style={searchStyles.emptyStateText}>{t('search.hint')}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View>
+        <View style={searchStyles.sectionHeader}>
+          <Text style={searchStyles.sectionTitle}>{t('search.recent')}</Text>
+          <Pressable onPress={clearRecentSearches}>
+            <Text style={searchStyles.clearText}>{t('search.clear')}</Text>
+          </Pressable>
+        </View>
+        {recentSearches.map((recent) => (
+          <Pressable key={recent} style={searchStyles.recentItem} onPress={() => setQuery(recent)}>
+            <Ionicons name="time-outline" size={18} color={theme.colors.text.secondary} />
+            <Text style={searchStyles.recentText} numberOfLines={1}>{recent}</Text>
+            <Pressable onPress={() => removeRecentSearch(recent)} hitSlop={8}>
+              <Ionicons name="close" size={18} color={theme.colors.text.placeholder} />
+            </Pressable>
+          </Pressable>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={searchStyles.container}>
+      <View style={searchStyles.header}>
+        <Pressable style={searchStyles.backButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={theme.colors.text.primary} />
+        </Pressable>
+        <View style={searchStyles.searchBar}>
+          <Ionicons name="search" size={18} color={theme.colors.text.placeholder} />
+          <TextInput
+            style={searchStyles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            onSubmitEditing={() => addRecentSearch(query)}
+            placeholder={t('search.placeholder')}
+            placeholderTextColor={theme.colors.text.placeholder}
+            autoFocus
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {query !== '' && (
+            <Pressable onPress={() => setQuery('')} hitSlop={8}>
+              <Ionicons name="close-circle" size={18} color={theme.colors.text.placeholder} />
+            </Pressable>
+          )}
+        </View>
+      </View>
+
+      {terms.length === 0 ? (
+        renderRecentSearches()
+      ) : searching && results.length === 0 ? (
+        <View style={searchStyles.emptyState}>
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.task.id}
+          renderItem={renderResult}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <View style={searchStyles.emptyState}>
+              <Text style={searchStyles.emptyStateText}>{t('search.no_results')}</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, Switch, ScrollView, Pressable, Alert, ActivityIndicator } from 'react-native';
+import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { contentStyles } from '@/lib/styles/content';
+import { useTheme } from '@/lib/styles/useTheme';
+import { BackupFile, deleteBackup, exportBackup, listBackups, readBackup, restoreBackup, shareBackup } from '@/lib/backup';
+import { exportCalendar } from '@/lib/calendar';
+import { BACKUP_COLLECTIONS, BackupCollection, RestoreReport } from '@/lib/utils/backup';
+import { CalendarEntryKind } from '@/lib/utils/ical';
+
+const COLLECTION_LABELS: Record<BackupCollection, string> = {
+  tasks: 'Tasks',
+  tags: 'Tags',
+  lists: 'Lists',
+  task_tags: 'Task tags',
+  task_lists: 'Task lists',
+  task_reminders: 'Reminders',
+};
+
+// Rejections listed on screen; the rest are only counted
+const MAX_PROBLEMS_SHOWN = 10;
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+export default function BackupScreen() {
+  const theme = useTheme();
+  const [includeDeleted, setIncludeDeleted] = useState(false);
+  const [backups, setBackups] = useState<BackupFile[]>([]);
+  const [pastedBackup, setPastedBackup] = useState('');
+  const [working, setWorking] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const trackColor = { false: theme.colors.border.medium, true: theme.colors.text.success };
+
+  const refreshBackups = async () => {
+    try {
+      setBackups(await listBackups());
+    } catch (error) {
+      console.error('[Backup] Failed to list backups:', error);
+    }
+  };
+
+  useEffect(() => {
+    refreshBackups();
+  }, []);
+
+  const handleExport = async () => {
+    setWorking(true);
+    try {
+      const file = await exportBackup({ includeDeleted });
+      await refreshBackups();
+      await shareBackup(file);
+    } catch (error) {
+      Alert.alert('Backup Failed', errorMessage(error, 'The backup could not be created.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCalendarExport = async (kind: CalendarEntryKind) => {
+    try {
+      await exportCalendar(kind);
+    } catch (error) {
+      Alert.alert('Export Failed', errorMessage(error, 'The calendar file could not be created.'));
+    }
+  };
+
+  const handleShare = async (file: BackupFile) => {
+    try {
+      await shareBackup(file);
+    } catch (error) {
+      Alert.alert('Share Failed', errorMessage(error, 'The backup could not be shared.'));
+    }
+  };
+
+  const runRestore = async (getJson: () => Promise<string>) => {
+    setWorking(true);
+    setReport(null);
+    try {
+      setReport(await restoreBackup(await getJson()));
+      setPastedBackup('');
+    } catch (error) {
+      Alert.alert('Restore Failed', errorMessage(error, 'The backup could not be restored.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const confirmRestore = (description: string, getJson: () => Promise<string>) => {
+    Alert.alert(
+      'Restore Backup',
+      `Add the tasks, tags and lists from ${description} to your account? Anything you already have is kept, and items that are already there are skipped.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', onPress: () => runRestore(getJson) },
+      ]
+    );
+  };
+
+  const handleDelete = (file: BackupFile) => {
+    Alert.alert('Delete Backup', `Delete "${file.name}" from this device?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteBackup(file);
+          await refreshBackups();
+        },
+      },
+    ]);
+  };
+
+  const renderReport = (result: RestoreReport) => (
+    <View style={contentStyles.section}>
+      <Text style={contentStyles.sectionTitle}>Last restore</Text>
+      {BACKUP_COLLECTIONS.map((collection, index) => {
+        const { created, skipped, rejected } = result.counts[collection];
+        return (
+          <View
+            key={collection}
+            style={[contentStyles.settingItem, index === BACKUP_COLLECTIONS.length - 1 && { borderBottomWidth: 0 }]}
+          >
+            <Text style={contentStyles.settingTitle}>{COLLECTION_LABELS[collection]}</Text>
+            <Text style={contentStyles.settingDescription}>
+              {`${created} created · ${skipped} skipped · ${rejected} rejected`}
+            </Text>
+          </View>
+        );
+      })}
+      {result.problems.length > 0 && (
+        <View style={contentStyles.listItem}>
+          {result.problems.slice(0, MAX_PROBLEMS_SHOWN).map((problem) => (
+            <Text key={problem} style={contentStyles.settingDescription}>{problem}</Text>
+          ))}
+          {result.problems.length > MAX_PROBLEMS_SHOWN && (
+            <Text style={contentStyles.settingDescription}>
+              {`and ${result.problems.length - MAX_PROBLEMS_SHOWN} more`}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={contentStyles.container}
+      contentContainerStyle={{ paddingBottom: 32 }}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Stack.Screen options={{ title: 'Backup & Restore' }} />
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Back up</Text>
+        <View style={contentStyles.settingItem}>
+          <View style={contentStyles.settingInfo}>
+            <Text style={contentStyles.settingTitle}>Include Deleted Tasks</Text>
+            <Text style={contentStyles.settingDescription}>
+              Deleted tasks are kept on the server, so this needs a connection
+            </Text>
+          </View>
+          <Switch value={includeDeleted} onValueChange={setIncludeDeleted} trackColor={trackColor} />
+        </View>
+        <Pressable style={[contentStyles.settingItem, { borderBottomWidth: 0 }]} onPress={handleExport} disabled={working}>
+          <View style={contentStyles.settingInfo}>
+            <Text style={[contentStyles.settingTitle, { color: theme.colors.primary }]}>Create Backup</Text>
+            <Text style={contentStyles.settingDescription}>
+              Tasks, subtasks, tags, lists, reminders and your profile, as a JSON file
+            </Text>
+          </View>
+          {working ? (
+            <ActivityIndicator color={theme.colors.primary} />
+          ) : (
+            <Ionicons name="download-outline" size={22} color={theme.colors.primary} />
+          )}
+        </Pressable>
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Calendar</Text>
+        <Pressable style={contentStyles.settingItem} onPress={() => handleCalendarExport('todo')}>
+          <View style={contentStyles.settingInfo}>
+            <Text style={[contentStyles.settingTitle, { color: theme.colors.primary }]}>Export as To-dos</Text>
+            <Text style={contentStyles.settingDescription}>
+              An .ics file with deadlines, repeats and reminders, for reminders apps
+            </Text>
+          </View>
+          <Ionicons name="checkbox-outline" size={22} color={theme.colors.primary} />
+        </Pressable>
+        <Pressable style={[contentStyles.settingItem, { borderBottomWidth: 0 }]} onPress={() => handleCalendarExport('event')}>
+          <View style={contentStyles.settingInfo}>
+            <Text style={[contentStyles.settingTitle, { color: theme.colors.primary }]}>Export as Events</Text>
+            <Text style={contentStyles.settingDescription}>
+              Tasks with a deadline as calendar events, with reminders as alerts
+            </Text>
+          </View>
+          <Ionicons name="calendar-outline" size={22} color={theme.colors.primary} />
+        </Pressable>
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Backups on this device</Text>
+        {backups.length === 0 ? (
+          <View style={contentStyles.listItem}>
+            <Text style={contentStyles.settingDescription}>No backups yet</Text>
+          </View>
+        ) : (
+          backups.map((file, index) => (
+            <View key={file.uri} style={[contentStyles.tabItem, index < backups.length - 1 && contentStyles.borderBottom]}>
+              <View style={contentStyles.settingInfo}>
+                <Text style={contentStyles.tabName} numberOfLines={1}>{format(file.modifiedAt, 'PPp')}</Text>
+                <Text style={contentStyles.settingDescription}>{formatSize(file.size)}</Text>
+              </View>
+              <View style={contentStyles.tabActions}>
+                <Pressable style={contentStyles.tabActionButton} onPress={() => handleShare(file)}>
+                  <Ionicons name="share-outline" size={20} color={theme.colors.text.secondary} />
+                </Pressable>
+                <Pressable
+                  style={contentStyles.tabActionButton}
+                  onPress={() => confirmRestore('this backup', () => readBackup(file))}
+                  disabled={working}
+                >
+                  <Ionicons name="refresh-outline" size={20} color={theme.colors.primary} />
+                </Pressable>
+                <Pressable style={contentStyles.tabActionButton} onPress={() => handleDelete(file)}>
+                  <Ionicons name="trash-outline" size={20} color={theme.colors.text.secondary} />
+                </Pressable>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Restore from another device</Text>
+        <View style={contentStyles.listItem}>
+          <Text style={contentStyles.settingDescription}>Open a backup file, copy its contents and paste them here.</Text>
+          <TextInput
+            style={[contentStyles.textInput, { minHeight: 96, textAlignVertical: 'top' }]}
+            value={pastedBackup}
+            onChangeText={setPastedBackup}
+            placeholder="Paste backup JSON"
+            placeholderTextColor={theme.colors.text.placeholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+          <Pressable
+            onPress={() => confirmRestore('the pasted backup', async () => pastedBackup)}
+            disabled={working || !pastedBackup.trim()}
+          >
+            <Text
+              style={[
+                contentStyles.noteText,
+                { color: pastedBackup.trim() ? theme.colors.primary : theme.colors.text.placeholder },
+              ]}
+            >
+              Restore
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {report && renderReport(report)}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,367 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, Switch, ScrollView, Pressable, Alert, ActivityIndicator } from 'react-native';
+import { Stack } from 'expo-router';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { contentStyles } from '@/lib/styles/content';
+import { useTheme } from '@/lib/styles/useTheme';
+import { ImportPreview, importTasks, previewImport } from '@/lib/import';
+import { BACKUP_COLLECTIONS, BackupCollection, RestoreReport } from '@/lib/utils/backup';
+import {
+  CSV_FIELDS,
+  CsvField,
+  CsvMapping,
+  IMPORTERS,
+  ImportOptions,
+  ImportSource,
+  guessCsvMapping,
+  readCsvHeaders,
+} from '@/lib/utils/importers';
+import { useTaskStore } from '@/store/taskStore';
+
+const SOURCES: ImportSource[] = ['todoist', 'ticktick', 'csv', 'ical'];
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  title: 'Title',
+  description: 'Description',
+  deadline: 'Due date',
+  priority: 'Priority',
+  list: 'List',
+  tags: 'Tags',
+  status: 'Status',
+  indent: 'Indent',
+  id: 'Id',
+  parentId: 'Parent id',
+};
+
+const COLLECTION_LABELS: Record<BackupCollection, string> = {
+  tasks: 'Tasks',
+  tags: 'Tags',
+  lists: 'Lists',
+  task_tags: 'Task tags',
+  task_lists: 'Task lists',
+  task_reminders: 'Reminders',
+};
+
+const PLACEHOLDERS: Record<ImportSource, string> = {
+  todoist: 'Paste CSV or JSON',
+  ticktick: 'Paste CSV',
+  csv: 'Paste CSV',
+  ical: 'Paste .ics contents',
+};
+
+// What the list name is used for; TickTick always names the list
+const LIST_HINTS: Partial<Record<ImportSource, string>> = {
+  todoist: 'For a CSV export, which holds one project; defaults to "Todoist"',
+  csv: 'For rows without a list column',
+  ical: "Defaults to the calendar's name, if the file has one",
+};
+
+// Tasks, warnings and problems listed in the preview; the rest are only counted
+const MAX_TASKS_SHOWN = 30;
+const MAX_NOTES_SHOWN = 10;
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+export default function ImportScreen() {
+  const theme = useTheme();
+  const { i18n } = useTranslation();
+  const { lists, tags } = useTaskStore();
+  const [source, setSource] = useState<ImportSource>('todoist');
+  const [text, setText] = useState('');
+  const [listName, setListName] = useState('');
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [includeCompleted, setIncludeCompleted] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const trackColor = { false: theme.colors.border.medium, true: theme.colors.text.success };
+
+  const headers = useMemo(() => (source === 'csv' ? readCsvHeaders(text) : []), [source, text]);
+  const csvMapping = useMemo(() => mapping ?? guessCsvMapping(headers), [mapping, headers]);
+
+  // A preview is only good for the input it was made from
+  useEffect(() => {
+    setPreview(null);
+  }, [source, text, listName, csvMapping, includeCompleted]);
+
+  const options: ImportOptions = {
+    listName,
+    mapping: source === 'csv' ? csvMapping : undefined,
+    includeCompleted,
+    languages: [i18n.language],
+  };
+
+  const handleSourceChange = (next: ImportSource) => {
+    setSource(next);
+    setMapping(null);
+    setReport(null);
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    // New columns, so guess them again
+    setMapping(null);
+  };
+
+  const handlePreview = async () => {
+    setWorking(true);
+    setReport(null);
+    try {
+      setPreview(await previewImport(source, text, options));
+    } catch (error) {
+      Alert.alert('Import Failed', errorMessage(error, 'The file could not be read.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const runImport = async () => {
+    setWorking(true);
+    try {
+      setReport(await importTasks(source, text, options));
+      setText('');
+      setMapping(null);
+    } catch (error) {
+      Alert.alert('Import Failed', errorMessage(error, 'The tasks could not be imported.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const confirmImport = (result: ImportPreview) => {
+    const count = result.report.counts.tasks.created;
+    Alert.alert('Import Tasks', `Add ${count} task${count === 1 ? '' : 's'} from ${IMPORTERS[source].name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Import', onPress: runImport },
+    ]);
+  };
+
+  const renderCounts = (title: string, result: RestoreReport) => (
+    <View style={contentStyles.section}>
+      <Text style={contentStyles.sectionTitle}>{title}</Text>
+      {BACKUP_COLLECTIONS.map((collection, index) => {
+        const { created, skipped, rejected } = result.counts[collection];
+        return (
+          <View
+            key={collection}
+            style={[contentStyles.settingItem, index === BACKUP_COLLECTIONS.length - 1 && { borderBottomWidth: 0 }]}
+          >
+            <Text style={contentStyles.settingTitle}>{COLLECTION_LABELS[collection]}</Text>
+            <Text style={contentStyles.settingDescription}>
+              {`${created} new · ${skipped} already there · ${rejected} rejected`}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderNotes = (title: string, notes: string[]) =>
+    notes.length > 0 && (
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>{title}</Text>
+        <View style={contentStyles.listItem}>
+          {notes.slice(0, MAX_NOTES_SHOWN).map((note) => (
+            <Text key={note} style={contentStyles.settingDescription}>{note}</Text>
+          ))}
+          {notes.length > MAX_NOTES_SHOWN && (
+            <Text style={contentStyles.settingDescription}>{`and ${notes.length - MAX_NOTES_SHOWN} more`}</Text>
+          )}
+        </View>
+      </View>
+    );
+
+  const renderPreview = (result: ImportPreview) => {
+    const { rows } = result;
+    const listNames = new Map([...lists, ...rows.lists].map((list) => [list.id, list.name]));
+    const tagNames = new Map([...tags, ...rows.tags].map((tag) => [tag.id, tag.name]));
+
+    return (
+      <>
+        {renderCounts('Preview', result.report)}
+        {renderNotes('Left out', result.warnings)}
+        {renderNotes('Rejected', result.report.problems)}
+
+        {rows.tasks.length > 0 && (
+          <View style={contentStyles.section}>
+            <Text style={contentStyles.sectionTitle}>New tasks</Text>
+            {rows.tasks.slice(0, MAX_TASKS_SHOWN).map((task, index) => {
+              const list = rows.taskListRelations.find((relation) => relation.task_id === task.id);
+              const details = [
+                task.deadline && format(new Date(task.deadline), 'PPp'),
+                task.is_recursive && 'Repeats',
+                task.priority && `P${task.priority}`,
+                list && listNames.get(list.list_id),
+                ...rows.taskTagRelations
+                  .filter((relation) => relation.task_id === task.id)
+                  .map((relation) => `#${tagNames.get(relation.tag_id)}`),
+                task.status !== 'ongoing' && task.status,
+              ].filter(Boolean);
+
+              return (
+                <View
+                  key={task.id}
+                  style={[
+                    contentStyles.listItem,
+                    task.parent_task_id && { paddingLeft: 40 },
+                    index < Math.min(rows.tasks.length, MAX_TASKS_SHOWN) - 1 && contentStyles.borderBottom,
+                  ]}
+                >
+                  <Text style={contentStyles.settingTitle} numberOfLines={1}>{task.title}</Text>
+                  {details.length > 0 && (
+                    <Text style={contentStyles.settingDescription} numberOfLines={1}>{details.join(' · ')}</Text>
+                  )}
+                </View>
+              );
+            })}
+            {rows.tasks.length > MAX_TASKS_SHOWN && (
+              <View style={contentStyles.listItem}>
+                <Text style={contentStyles.settingDescription}>{`and ${rows.tasks.length - MAX_TASKS_SHOWN} more`}</Text>
+              </View>
+            )}
+          </View>
+        )}
+
+        <View style={contentStyles.section}>
+          <Pressable
+            style={[contentStyles.settingItem, { borderBottomWidth: 0 }]}
+            onPress={() => confirmImport(result)}
+            disabled={working || rows.tasks.length === 0}
+          >
+            <View style={contentStyles.settingInfo}>
+              <Text
+                style={[
+                  contentStyles.settingTitle,
+                  { color: rows.tasks.length > 0 ? theme.colors.primary : theme.colors.text.placeholder },
+                ]}
+              >
+                Import
+              </Text>
+              <Text style={contentStyles.settingDescription}>
+                {rows.tasks.length > 0 ? 'Nothing is written until you import' : 'Everything in the file is already here'}
+              </Text>
+            </View>
+            {working && <ActivityIndicator color={theme.colors.primary} />}
+          </Pressable>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={contentStyles.container}
+      contentContainerStyle={{ paddingBottom: 32 }}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Stack.Screen options={{ title: 'Import' }} />
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Import from</Text>
+        <View style={contentStyles.listItem}>
+          <View style={contentStyles.chipGroup}>
+            {SOURCES.map((option) => (
+              <Pressable
+                key={option}
+                style={[contentStyles.chip, source === option && contentStyles.selectedWeightOption]}
+                onPress={() => handleSourceChange(option)}
+              >
+                <Text style={[contentStyles.weightOptionText, source === option && contentStyles.selectedWeightOptionText]}>
+                  {IMPORTERS[option].name}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text style={contentStyles.settingDescription}>{IMPORTERS[source].description}</Text>
+        </View>
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>File</Text>
+        <View style={contentStyles.listItem}>
+          <Text style={contentStyles.settingDescription}>Open the exported file, copy its contents and paste them here.</Text>
+          <TextInput
+            style={[contentStyles.textInput, { minHeight: 96, textAlignVertical: 'top' }]}
+            value={text}
+            onChangeText={handleTextChange}
+            placeholder={PLACEHOLDERS[source]}
+            placeholderTextColor={theme.colors.text.placeholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+        </View>
+        {LIST_HINTS[source] && (
+          <View style={contentStyles.listItem}>
+            <Text style={contentStyles.settingTitle}>List</Text>
+            <Text style={contentStyles.settingDescription}>{LIST_HINTS[source]}</Text>
+            <TextInput
+              style={contentStyles.textInput}
+              value={listName}
+              onChangeText={setListName}
+              placeholder="List name"
+              placeholderTextColor={theme.colors.text.placeholder}
+            />
+          </View>
+        )}
+        <View style={[contentStyles.settingItem, { borderBottomWidth: 0 }]}>
+          <View style={contentStyles.settingInfo}>
+            <Text style={contentStyles.settingTitle}>Include Completed Tasks</Text>
+          </View>
+          <Switch value={includeCompleted} onValueChange={setIncludeCompleted} trackColor={trackColor} />
+        </View>
+      </View>
+
+      {source === 'csv' && headers.length > 0 && (
+        <View style={contentStyles.section}>
+          <Text style={contentStyles.sectionTitle}>Columns</Text>
+          {CSV_FIELDS.map((field, index) => (
+            <View key={field} style={[contentStyles.listItem, index < CSV_FIELDS.length - 1 && contentStyles.borderBottom]}>
+              <Text style={contentStyles.settingTitle}>{FIELD_LABELS[field]}</Text>
+              <View style={contentStyles.chipGroup}>
+                {[null, ...headers].map((header) => {
+                  const selected = (csvMapping[field] ?? null) === header;
+                  return (
+                    <Pressable
+                      key={header ?? ''}
+                      style={[contentStyles.chip, selected && contentStyles.selectedWeightOption]}
+                      onPress={() => setMapping({ ...csvMapping, [field]: header ?? undefined })}
+                    >
+                      <Text style={[contentStyles.weightOptionText, selected && contentStyles.selectedWeightOptionText]}>
+                        {header || 'None'}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={contentStyles.section}>
+        <Pressable
+          style={[contentStyles.settingItem, { borderBottomWidth: 0 }]}
+          onPress={handlePreview}
+          disabled={working || !text.trim()}
+        >
+          <View style={contentStyles.settingInfo}>
+            <Text
+              style={[contentStyles.settingTitle, { color: text.trim() ? theme.colors.primary : theme.colors.text.placeholder }]}
+            >
+              Preview
+            </Text>
+            <Text style={contentStyles.settingDescription}>See what would be created before importing</Text>
+          </View>
+          {working && !preview && <ActivityIndicator color={theme.colors.primary} />}
+        </Pressable>
+      </View>
+
+      {preview && renderPreview(preview)}
+      {report && renderCounts('Last import', report)}
+      {report && renderNotes('Rejected', report.problems)}
+    </ScrollView>
+  );
+}
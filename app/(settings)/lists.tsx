@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, ScrollView, Pressable, Alert } from 'react-native';
+import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { contentStyles } from '@/lib/styles/content';
+import { useTheme } from '@/lib/styles/useTheme';
+import { useTaskStore, List } from '@/store/taskStore';
+import { ReorderableList } from '@/components/ReorderableList';
+import {
+  DEFAULT_LIST_COLOR,
+  DEFAULT_LIST_ICON,
+  getActiveLists,
+  getOpenTaskCounts,
+  LIST_COLORS,
+  LIST_ICONS,
+  sortLists,
+} from '@/lib/utils/lists';
+
+const LIST_ROW_HEIGHT = 56;
+
+const describeOpenTasks = (count: number) => (count === 1 ? '1 open task' : `${count} open tasks`);
+
+export default function ListsScreen() {
+  const theme = useTheme();
+  const { lists, tasks, taskListRelations, addList, updateList, deleteList, reorderLists } = useTaskStore();
+  const [newListName, setNewListName] = useState('');
+  const [newListColor, setNewListColor] = useState(DEFAULT_LIST_COLOR);
+  const [newListIcon, setNewListIcon] = useState(DEFAULT_LIST_ICON);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const activeLists = useMemo(() => getActiveLists(lists), [lists]);
+  const archivedLists = useMemo(() => sortLists(lists.filter((list) => list.is_archived)), [lists]);
+  const openCounts = useMemo(() => getOpenTaskCounts(tasks, taskListRelations), [tasks, taskListRelations]);
+  const editingList = lists.find((list) => list.id === editingId);
+
+  const handleCreate = async () => {
+    const name = newListName.trim();
+    if (!name) return;
+
+    await addList({ name, color: newListColor, icon: newListIcon });
+    setNewListName('');
+  };
+
+  const handleEdit = (list: List) => {
+    setEditingId(editingId === list.id ? null : list.id);
+    setEditingName(list.name);
+  };
+
+  const handleRename = (list: List) => {
+    const name = editingName.trim();
+    if (!name || name === list.name) {
+      setEditingName(list.name);
+      return;
+    }
+    updateList(list.id, { name });
+  };
+
+  const handleArchive = (list: List, isArchived: boolean) => {
+    updateList(list.id, { is_archived: isArchived });
+    setEditingId(null);
+  };
+
+  const handleDelete = (list: List) => {
+    const count = taskListRelations.filter((relation) => relation.list_id === list.id).length;
+    Alert.alert(
+      'Delete List',
+      count > 0
+        ? `"${list.name}" has ${count === 1 ? '1 task' : `${count} tasks`}. They'll be kept, just without a list. Archive the list instead to keep it together.`
+        : `Delete "${list.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteList(list.id);
+            setEditingId(null);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderColorSwatches = (selected: string, onSelect: (color: string) => void) => (
+    <View style={contentStyles.chipGroup}>
+      {LIST_COLORS.map((color) => (
+        <Pressable
+          key={color}
+          style={[
+            contentStyles.colorSwatch,
+            { backgroundColor: color },
+            selected === color && contentStyles.selectedColorSwatch,
+          ]}
+          onPress={() => onSelect(color)}
+        />
+      ))}
+    </View>
+  );
+
+  const renderIconChoices = (selected: string, color: string, onSelect: (icon: string) => void) => (
+    <View style={contentStyles.chipGroup}>
+      {LIST_ICONS.map((icon) => (
+        <Pressable
+          key={icon}
+          style={[contentStyles.chip, selected === icon && { backgroundColor: `${color}1A` }]}
+          onPress={() => onSelect(icon)}
+        >
+          <Ionicons
+            name={icon as any}
+            size={20}
+            color={selected === icon ? color : theme.colors.text.secondary}
+          />
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  const renderListRow = (list: List, dragHandle?: React.ReactNode) => {
+    const color = list.color ?? DEFAULT_LIST_COLOR;
+
+    return (
+      <View style={[contentStyles.tabItem, { flex: 1, paddingLeft: dragHandle ? 8 : undefined }]}>
+        {dragHandle}
+        <Pressable style={[contentStyles.tabActions, { flex: 1 }]} onPress={() => handleEdit(list)}>
+          <Ionicons name={(list.icon ?? DEFAULT_LIST_ICON) as any} size={22} color={color} />
+          <Text style={contentStyles.tabName} numberOfLines={1}>{list.name}</Text>
+          <Text style={contentStyles.settingDescription}>{describeOpenTasks(openCounts[list.id] ?? 0)}</Text>
+          <Ionicons
+            name={editingId === list.id ? 'chevron-up' : 'chevron-down'}
+            size={18}
+            color={theme.colors.text.secondary}
+            style={{ marginLeft: 8 }}
+          />
+        </Pressable>
+      </View>
+    );
+  };
+
+  const renderListEditor = (list: List) => {
+    const color = list.color ?? DEFAULT_LIST_COLOR;
+
+    return (
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Edit list</Text>
+        <View style={contentStyles.tagEditor}>
+          <TextInput
+            style={contentStyles.textInput}
+            value={editingName}
+            onChangeText={setEditingName}
+            onSubmitEditing={() => handleRename(list)}
+            onBlur={() => handleRename(list)}
+            returnKeyType="done"
+            maxLength={50}
+          />
+          {renderColorSwatches(color, (value) => updateList(list.id, { color: value }))}
+          {renderIconChoices(list.icon ?? DEFAULT_LIST_ICON, color, (icon) => updateList(list.id, { icon }))}
+
+          <Pressable onPress={() => handleArchive(list, !list.is_archived)}>
+            <Text style={[contentStyles.noteText, { color: theme.colors.primary }]}>
+              {list.is_archived ? 'Restore List' : 'Archive List'}
+            </Text>
+          </Pressable>
+          <Pressable onPress={() => handleDelete(list)}>
+            <Text style={[contentStyles.dangerText, { marginTop: 16 }]}>Delete List</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={contentStyles.container}
+      contentContainerStyle={{ paddingBottom: 32 }}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Stack.Screen options={{ title: 'Lists' }} />
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>New list</Text>
+        <View style={contentStyles.listItem}>
+          <View style={contentStyles.tabActions}>
+            <Ionicons name={newListIcon as any} size={22} color={newListColor} />
+            <TextInput
+              style={[contentStyles.textInput, { flex: 1, marginLeft: 12, marginTop: 0 }]}
+              value={newListName}
+              onChangeText={setNewListName}
+              onSubmitEditing={handleCreate}
+              placeholder="List name"
+              placeholderTextColor={theme.colors.text.placeholder}
+              returnKeyType="done"
+              maxLength={50}
+            />
+            <Pressable style={contentStyles.tabActionButton} onPress={handleCreate} disabled={!newListName.trim()}>
+              <Ionicons
+                name="add-circle"
+                size={28}
+                color={newListName.trim() ? theme.colors.primary : theme.colors.text.placeholder}
+              />
+            </Pressable>
+          </View>
+          {renderColorSwatches(newListColor, setNewListColor)}
+          {renderIconChoices(newListIcon, newListColor, setNewListIcon)}
+        </View>
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Your lists</Text>
+        {activeLists.length === 0 ? (
+          <View style={contentStyles.listItem}>
+            <Text style={contentStyles.settingDescription}>No lists yet</Text>
+          </View>
+        ) : (
+          <ReorderableList
+            items={activeLists}
+            keyExtractor={(list) => list.id}
+            rowHeight={LIST_ROW_HEIGHT}
+            renderItem={renderListRow}
+            onReorder={reorderLists}
+          />
+        )}
+      </View>
+
+      {editingList && renderListEditor(editingList)}
+
+      {archivedLists.length > 0 && (
+        <View style={contentStyles.section}>
+          <Text style={contentStyles.sectionTitle}>Archived</Text>
+          {archivedLists.map((list, index) => (
+            <View key={list.id} style={index < archivedLists.length - 1 && contentStyles.borderBottom}>
+              {renderListRow(list)}
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Text style={contentStyles.noteText}>
+        Drag lists to change the order of their tabs. Archived lists keep their tasks.
+      </Text>
+    </ScrollView>
+  );
+}
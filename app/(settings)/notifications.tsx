@@ -1,16 +1,78 @@
-import React from 'react';
-import { View, Text, Switch } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, Switch, ScrollView, Pressable, Platform } from 'react-native';
 import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { contentStyles } from '@/lib/styles/content';
 import { useTheme } from '@/lib/styles/useTheme';
+import useNotificationPreferencesStore from '@/store/notificationPreferencesStore';
+import { useTaskStore } from '@/store/taskStore';
+import { formatReminderOffset } from '@/lib/utils/notificationPreferences';
+
+type QuietHoursBound = 'start' | 'end';
+
+// Offsets offered for the reminder added to new tasks, in minutes before the deadline
+const REMINDER_OFFSETS: (number | null)[] = [null, 5, 15, 30, 60, 180, 60 * 24];
+
+const timeToDate = (time: string): Date => {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  const date = new Date();
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+};
+
+const dateToTime = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
 
 export default function NotificationsScreen() {
   const theme = useTheme();
+  const { preferences, updatePreferences, toggleListMuted, loadPreferences } = useNotificationPreferencesStore();
+  const lists = useTaskStore((state) => state.lists);
+  const [editingBound, setEditingBound] = useState<QuietHoursBound | null>(null);
+
+  useEffect(() => {
+    loadPreferences();
+    useTaskStore.getState().fetchLists();
+  }, [loadPreferences]);
+
+  const trackColor = { false: theme.colors.border.medium, true: theme.colors.text.success };
+  const remindersActive = preferences.push_enabled && preferences.reminders_enabled;
+
+  const handleQuietHoursChange = (bound: QuietHoursBound) => (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setEditingBound(null);
+    }
+    if (event.type !== 'dismissed' && selectedDate) {
+      updatePreferences({
+        quiet_hours: { ...preferences.quiet_hours, [bound]: dateToTime(selectedDate) },
+      });
+    }
+  };
+
+  const renderQuietHoursBound = (bound: QuietHoursBound, label: string, isLast: boolean) => (
+    <View style={[contentStyles.settingItem, isLast && { borderBottomWidth: 0 }]}>
+      <View style={contentStyles.settingInfo}>
+        <Text style={contentStyles.settingTitle}>{label}</Text>
+      </View>
+      {Platform.OS === 'ios' ? (
+        <DateTimePicker
+          value={timeToDate(preferences.quiet_hours[bound])}
+          mode="time"
+          display="compact"
+          onChange={handleQuietHoursChange(bound)}
+        />
+      ) : (
+        <Pressable onPress={() => setEditingBound(bound)}>
+          <Text style={contentStyles.settingTitle}>{preferences.quiet_hours[bound]}</Text>
+        </Pressable>
+      )}
+    </View>
+  );
 
   return (
-    <View style={contentStyles.container}>
+    <ScrollView style={contentStyles.container} contentContainerStyle={{ paddingBottom: 32 }}>
       <Stack.Screen options={{ title: 'Notifications' }} />
-      
+
       <View style={contentStyles.section}>
         <View style={contentStyles.settingItem}>
           <View style={contentStyles.settingInfo}>
@@ -20,9 +82,9 @@ export default function NotificationsScreen() {
             </Text>
           </View>
           <Switch
-            value={true}
-            onValueChange={() => {}}
-            trackColor={{ false: theme.colors.border.medium, true: theme.colors.text.success }}
+            value={preferences.push_enabled}
+            onValueChange={(value) => updatePreferences({ push_enabled: value })}
+            trackColor={trackColor}
           />
         </View>
 
@@ -34,9 +96,10 @@ export default function NotificationsScreen() {
             </Text>
           </View>
           <Switch
-            value={true}
-            onValueChange={() => {}}
-            trackColor={{ false: theme.colors.border.medium, true: theme.colors.text.success }}
+            value={preferences.reminders_enabled}
+            onValueChange={(value) => updatePreferences({ reminders_enabled: value })}
+            disabled={!preferences.push_enabled}
+            trackColor={trackColor}
           />
         </View>
 
@@ -48,12 +111,91 @@ export default function NotificationsScreen() {
             </Text>
           </View>
           <Switch
-            value={false}
-            onValueChange={() => {}}
-            trackColor={{ false: theme.colors.border.medium, true: theme.colors.text.success }}
+            value={preferences.email_enabled}
+            onValueChange={(value) => updatePreferences({ email_enabled: value })}
+            trackColor={trackColor}
           />
         </View>
       </View>
-    </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Quiet Hours</Text>
+        <View style={[contentStyles.settingItem, !preferences.quiet_hours.enabled && { borderBottomWidth: 0 }]}>
+          <View style={contentStyles.settingInfo}>
+            <Text style={contentStyles.settingTitle}>Silence Reminders</Text>
+            <Text style={contentStyles.settingDescription}>
+              Reminders that fall in this window are not shown
+            </Text>
+          </View>
+          <Switch
+            value={preferences.quiet_hours.enabled}
+            onValueChange={(value) => updatePreferences({ quiet_hours: { ...preferences.quiet_hours, enabled: value } })}
+            disabled={!remindersActive}
+            trackColor={trackColor}
+          />
+        </View>
+
+        {preferences.quiet_hours.enabled && (
+          <>
+            {renderQuietHoursBound('start', 'From', false)}
+            {renderQuietHoursBound('end', 'Until', true)}
+          </>
+        )}
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Default Reminder</Text>
+        {REMINDER_OFFSETS.map((offset, index) => (
+          <Pressable
+            key={String(offset)}
+            style={[contentStyles.settingItem, index === REMINDER_OFFSETS.length - 1 && { borderBottomWidth: 0 }]}
+            onPress={() => updatePreferences({ default_reminder_offset: offset })}
+            disabled={!remindersActive}
+          >
+            <View style={contentStyles.settingInfo}>
+              <Text style={contentStyles.settingTitle}>{formatReminderOffset(offset)}</Text>
+            </View>
+            {preferences.default_reminder_offset === offset && (
+              <Ionicons name="checkmark" size={20} color={theme.colors.text.success} />
+            )}
+          </Pressable>
+        ))}
+      </View>
+
+      {lists.length > 0 && (
+        <View style={contentStyles.section}>
+          <Text style={contentStyles.sectionTitle}>Lists</Text>
+          {lists.map((list, index) => (
+            <View
+              key={list.id}
+              style={[contentStyles.settingItem, index === lists.length - 1 && { borderBottomWidth: 0 }]}
+            >
+              <View style={contentStyles.settingInfo}>
+                <Text style={contentStyles.settingTitle}>{list.name}</Text>
+                <Text style={contentStyles.settingDescription}>
+                  {preferences.muted_list_ids.includes(list.id) ? 'Muted' : 'Reminders on'}
+                </Text>
+              </View>
+              <Switch
+                value={!preferences.muted_list_ids.includes(list.id)}
+                onValueChange={() => toggleListMuted(list.id)}
+                disabled={!remindersActive}
+                trackColor={trackColor}
+              />
+            </View>
+          ))}
+        </View>
+      )}
+
+      {editingBound && Platform.OS === 'android' && (
+        <DateTimePicker
+          value={timeToDate(preferences.quiet_hours[editingBound])}
+          mode="time"
+          is24Hour={true}
+          display="default"
+          onChange={handleQuietHoursChange(editingBound)}
+        />
+      )}
+    </ScrollView>
   );
 }
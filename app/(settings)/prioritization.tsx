@@ -0,0 +1,63 @@
+import React from 'react';
+import { View, Text, ScrollView, Pressable } from 'react-native';
+import { Stack } from 'expo-router';
+import { contentStyles } from '@/lib/styles/content';
+import usePriorityWeightsStore from '@/store/priorityWeightsStore';
+import type { PriorityFactor } from '@/lib/utils/priority';
+
+const FACTORS: { factor: PriorityFactor; title: string; description: string }[] = [
+  { factor: 'deadline', title: 'Deadline', description: 'Tasks due soon or overdue come first' },
+  { factor: 'priority', title: 'Priority', description: 'Tasks marked high priority come first' },
+  { factor: 'value', title: 'Outcome Value', description: 'Tasks with a valuable outcome come first' },
+  { factor: 'difficulty', title: 'Effort', description: 'Quick, easy tasks come first' },
+];
+
+const WEIGHT_OPTIONS = [
+  { label: 'Off', weight: 0 },
+  { label: 'Low', weight: 0.5 },
+  { label: 'Normal', weight: 1 },
+  { label: 'High', weight: 2 },
+];
+
+export default function PrioritizationScreen() {
+  const { weights, setWeight, resetWeights } = usePriorityWeightsStore();
+
+  return (
+    <ScrollView style={contentStyles.container} contentContainerStyle={{ paddingBottom: 32 }}>
+      <Stack.Screen options={{ title: 'Prioritization' }} />
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>What matters most</Text>
+        {FACTORS.map(({ factor, title, description }, index) => (
+          <View
+            key={factor}
+            style={[contentStyles.listItem, index < FACTORS.length - 1 && contentStyles.borderBottom]}
+          >
+            <Text style={contentStyles.settingTitle}>{title}</Text>
+            <Text style={contentStyles.settingDescription}>{description}</Text>
+            <View style={contentStyles.weightOptions}>
+              {WEIGHT_OPTIONS.map(({ label, weight }) => {
+                const isSelected = weights[factor] === weight;
+                return (
+                  <Pressable
+                    key={label}
+                    style={[contentStyles.weightOption, isSelected && contentStyles.selectedWeightOption]}
+                    onPress={() => setWeight(factor, weight)}
+                  >
+                    <Text style={[contentStyles.weightOptionText, isSelected && contentStyles.selectedWeightOptionText]}>
+                      {label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <Pressable onPress={resetWeights}>
+        <Text style={contentStyles.noteText}>Reset to defaults</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,329 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, ScrollView, Pressable, Alert } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { contentStyles } from '@/lib/styles/content';
+import { useTheme } from '@/lib/styles/useTheme';
+import { useTaskStore } from '@/store/taskStore';
+import useSmartListStore from '@/store/smartListStore';
+import { DEFAULT_SMART_LIST_ICON } from '@/lib/utils/taskTabs';
+import { getActiveLists } from '@/lib/utils/lists';
+import { isOpenStatus, OPEN_STATUSES } from '@/lib/utils/taskStatus';
+import { and, DuePeriod, parseTaskQuery, TaskCondition, TaskQuery } from '@/lib/utils/taskQuery';
+
+type StatusOption = 'any' | 'open' | 'completed';
+type PriorityOption = 'any' | 'high' | 'medium';
+type DueOption = 'any' | 'overdue' | 'none' | DuePeriod;
+
+// The criteria the editor can express, all of which must match
+interface SmartListForm {
+  name: string;
+  icon: string;
+  status: StatusOption;
+  priority: PriorityOption;
+  due: DueOption;
+  tagIds: string[];
+  tagMatch: 'any' | 'all';
+  listIds: string[];
+  text: string;
+}
+
+const ICONS = [
+  DEFAULT_SMART_LIST_ICON,
+  'star-outline',
+  'flag-outline',
+  'flash-outline',
+  'briefcase-outline',
+  'home-outline',
+  'cart-outline',
+  'book-outline',
+  'heart-outline',
+  'time-outline',
+];
+
+const STATUS_OPTIONS: { label: string; value: StatusOption }[] = [
+  { label: 'Any', value: 'any' },
+  { label: 'Open', value: 'open' },
+  { label: 'Completed', value: 'completed' },
+];
+
+const PRIORITY_OPTIONS: { label: string; value: PriorityOption }[] = [
+  { label: 'Any', value: 'any' },
+  { label: 'High', value: 'high' },
+  { label: 'Medium or higher', value: 'medium' },
+];
+
+const DUE_OPTIONS: { label: string; value: DueOption }[] = [
+  { label: 'Any time', value: 'any' },
+  { label: 'Overdue', value: 'overdue' },
+  { label: 'Today', value: 'today' },
+  { label: 'Tomorrow', value: 'tomorrow' },
+  { label: 'This week', value: 'this_week' },
+  { label: 'Next 7 days', value: 'next_7_days' },
+  { label: 'No deadline', value: 'none' },
+];
+
+const EMPTY_FORM: SmartListForm = {
+  name: '',
+  icon: DEFAULT_SMART_LIST_ICON,
+  status: 'open',
+  priority: 'any',
+  due: 'any',
+  tagIds: [],
+  tagMatch: 'any',
+  listIds: [],
+  text: '',
+};
+
+const formToQuery = (form: SmartListForm): TaskQuery => {
+  const conditions: TaskCondition[] = [];
+
+  if (form.status !== 'any') conditions.push({ field: 'status', in: form.status === 'open' ? OPEN_STATUSES : ['completed'] });
+  // Priority 1 is high, 3 is low
+  if (form.priority === 'high') conditions.push({ field: 'priority', min: 1, max: 1 });
+  if (form.priority === 'medium') conditions.push({ field: 'priority', min: 1, max: 2 });
+  if (form.due === 'overdue') conditions.push({ field: 'overdue', value: true });
+  else if (form.due === 'none') conditions.push({ field: 'hasDeadline', value: false });
+  else if (form.due !== 'any') conditions.push({ field: 'dueWithin', period: form.due });
+  if (form.tagIds.length > 0) conditions.push({ field: 'tags', tagIds: form.tagIds, match: form.tagMatch });
+  if (form.listIds.length > 0) conditions.push({ field: 'lists', listIds: form.listIds });
+  if (form.text.trim()) conditions.push({ field: 'text', contains: form.text.trim() });
+
+  return conditions.length > 0 ? { where: and(...conditions) } : {};
+};
+
+// Read back a query saved by this editor
+const queryToForm = (name: string, icon: string | null, query: TaskQuery): SmartListForm => {
+  const form: SmartListForm = { ...EMPTY_FORM, name, icon: icon ?? DEFAULT_SMART_LIST_ICON, status: 'any' };
+  const where = query.where;
+  const conditions = !where ? [] : 'op' in where ? where.conditions : [where];
+
+  conditions.forEach((condition) => {
+    if ('op' in condition) return;
+
+    switch (condition.field) {
+      case 'status':
+        // Lists saved before tasks could be in progress only name 'ongoing'
+        form.status = condition.in.length > 0 && condition.in.every(isOpenStatus)
+          ? 'open'
+          : condition.in.length === 1 && condition.in[0] === 'completed' ? 'completed' : 'any';
+        break;
+      case 'priority':
+        form.priority = condition.max === 1 ? 'high' : 'medium';
+        break;
+      case 'overdue':
+        form.due = 'overdue';
+        break;
+      case 'hasDeadline':
+        form.due = condition.value ? 'any' : 'none';
+        break;
+      case 'dueWithin':
+        form.due = condition.period;
+        break;
+      case 'tags':
+        form.tagIds = condition.tagIds;
+        form.tagMatch = condition.match;
+        break;
+      case 'lists':
+        form.listIds = condition.listIds;
+        break;
+      case 'text':
+        form.text = condition.contains;
+        break;
+    }
+  });
+
+  return form;
+};
+
+const toggleId = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+export default function SmartListScreen() {
+  const theme = useTheme();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { tags, lists } = useTaskStore();
+  const { smartLists, addSmartList, updateSmartList, deleteSmartList } = useSmartListStore();
+  const smartList = useMemo(() => smartLists.find((list) => list.id === id), [smartLists, id]);
+  const activeLists = useMemo(() => getActiveLists(lists), [lists]);
+
+  const [form, setForm] = useState<SmartListForm>(() =>
+    smartList ? queryToForm(smartList.name ?? '', smartList.icon, parseTaskQuery(smartList.query)) : EMPTY_FORM
+  );
+
+  const update = (updates: Partial<SmartListForm>) => setForm((current) => ({ ...current, ...updates }));
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      Alert.alert('Name required', 'Give your smart list a name.');
+      return;
+    }
+
+    if (smartList) {
+      await updateSmartList(smartList.id, { name, icon: form.icon, query: formToQuery(form) });
+    } else {
+      await addSmartList({ name, icon: form.icon, query: formToQuery(form) });
+    }
+    router.back();
+  };
+
+  const handleDelete = () => {
+    if (!smartList) return;
+
+    Alert.alert('Delete Smart List', `Delete "${smartList.name}"? Your tasks won't be affected.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteSmartList(smartList.id);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void, color?: string) => (
+    <Pressable
+      key={key}
+      style={[contentStyles.chip, isSelected && contentStyles.selectedWeightOption]}
+      onPress={onPress}
+    >
+      <Text
+        style={[
+          contentStyles.weightOptionText,
+          color && { color },
+          isSelected && contentStyles.selectedWeightOptionText,
+        ]}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const renderOptions = <T extends string>(
+    title: string,
+    options: { label: string; value: T }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={[contentStyles.listItem, contentStyles.borderBottom]}>
+      <Text style={contentStyles.settingTitle}>{title}</Text>
+      <View style={contentStyles.chipGroup}>
+        {options.map(({ label, value }) => renderChip(value, label, selected === value, () => onSelect(value)))}
+      </View>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={contentStyles.container}
+      contentContainerStyle={{ paddingBottom: 32 }}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Stack.Screen
+        options={{
+          title: smartList ? 'Edit Smart List' : 'New Smart List',
+          headerRight: () => (
+            <Pressable onPress={handleSave}>
+              <Text style={{ color: theme.colors.primary, fontWeight: '600' }}>Save</Text>
+            </Pressable>
+          ),
+        }}
+      />
+
+      <View style={contentStyles.section}>
+        <View style={[contentStyles.listItem, contentStyles.borderBottom]}>
+          <Text style={contentStyles.settingTitle}>Name</Text>
+          <TextInput
+            style={contentStyles.textInput}
+            value={form.name}
+            onChangeText={(name) => update({ name })}
+            placeholder="e.g. Urgent work"
+            placeholderTextColor={theme.colors.text.placeholder}
+          />
+        </View>
+        <View style={contentStyles.listItem}>
+          <Text style={contentStyles.settingTitle}>Icon</Text>
+          <View style={contentStyles.chipGroup}>
+            {ICONS.map((icon) => (
+              <Pressable
+                key={icon}
+                style={[contentStyles.chip, form.icon === icon && contentStyles.selectedWeightOption]}
+                onPress={() => update({ icon })}
+              >
+                <Ionicons
+                  name={icon as any}
+                  size={20}
+                  color={form.icon === icon ? theme.colors.text.success : theme.colors.text.secondary}
+                />
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Show tasks that match all of</Text>
+        {renderOptions('Status', STATUS_OPTIONS, form.status, (status) => update({ status }))}
+        {renderOptions('Priority', PRIORITY_OPTIONS, form.priority, (priority) => update({ priority }))}
+        {renderOptions('Due', DUE_OPTIONS, form.due, (due) => update({ due }))}
+
+        {tags.length > 0 && (
+          <View style={[contentStyles.listItem, contentStyles.borderBottom]}>
+            <Text style={contentStyles.settingTitle}>Tags</Text>
+            <View style={contentStyles.chipGroup}>
+              {tags.map((tag) =>
+                renderChip(
+                  tag.id,
+                  tag.name,
+                  form.tagIds.includes(tag.id),
+                  () => update({ tagIds: toggleId(form.tagIds, tag.id) }),
+                  tag.color ?? undefined
+                )
+              )}
+            </View>
+            {form.tagIds.length > 1 && (
+              <View style={contentStyles.weightOptions}>
+                {renderChip('any', 'Any of these', form.tagMatch === 'any', () => update({ tagMatch: 'any' }))}
+                {renderChip('all', 'All of these', form.tagMatch === 'all', () => update({ tagMatch: 'all' }))}
+              </View>
+            )}
+          </View>
+        )}
+
+        {activeLists.length > 0 && (
+          <View style={[contentStyles.listItem, contentStyles.borderBottom]}>
+            <Text style={contentStyles.settingTitle}>Lists</Text>
+            <View style={contentStyles.chipGroup}>
+              {activeLists.map((list) =>
+                renderChip(list.id, list.name, form.listIds.includes(list.id), () =>
+                  update({ listIds: toggleId(form.listIds, list.id) })
+                )
+              )}
+            </View>
+          </View>
+        )}
+
+        <View style={contentStyles.listItem}>
+          <Text style={contentStyles.settingTitle}>Contains text</Text>
+          <TextInput
+            style={contentStyles.textInput}
+            value={form.text}
+            onChangeText={(text) => update({ text })}
+            placeholder="Title or description"
+            placeholderTextColor={theme.colors.text.placeholder}
+            autoCorrect={false}
+          />
+        </View>
+      </View>
+
+      {smartList && (
+        <Pressable onPress={handleDelete}>
+          <Text style={contentStyles.dangerText}>Delete Smart List</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
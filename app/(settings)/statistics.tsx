@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, Pressable, RefreshControl } from 'react-native';
+import { Stack } from 'expo-router';
+import { subDays } from 'date-fns';
+import { contentStyles } from '@/lib/styles/content';
+import { useTaskStore } from '@/store/taskStore';
+import { formatCycleTime, getStatusStatistics, TASK_STATUSES, TASK_STATUS_LABELS } from '@/lib/utils/taskStatus';
+
+// Days back to count completions over; null counts all of them
+const PERIOD_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'All time' },
+];
+
+export default function StatisticsScreen() {
+  const tasks = useTaskStore((state) => state.tasks);
+  const statusHistory = useTaskStore((state) => state.statusHistory);
+  const error = useTaskStore((state) => state.error);
+  const [periodDays, setPeriodDays] = useState<number | null>(30);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    useTaskStore.getState().fetchStatusHistory();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await useTaskStore.getState().fetchStatusHistory();
+    setRefreshing(false);
+  };
+
+  const activeTasks = useMemo(() => tasks.filter((task) => !task.is_deleted), [tasks]);
+
+  const stats = useMemo(
+    () => getStatusStatistics(statusHistory, activeTasks, periodDays === null ? undefined : subDays(new Date(), periodDays)),
+    [statusHistory, activeTasks, periodDays]
+  );
+
+  const statusCounts = useMemo(
+    () => TASK_STATUSES.map((status) => ({
+      status,
+      count: activeTasks.filter((task) => task.status === status).length,
+    })),
+    [activeTasks]
+  );
+
+  const rows = [
+    { title: 'Completed', value: String(stats.completedCount) },
+    { title: 'Average Cycle Time', value: stats.averageCycleTimeMs === null ? '—' : formatCycleTime(stats.averageCycleTimeMs) },
+    { title: 'Median Cycle Time', value: stats.medianCycleTimeMs === null ? '—' : formatCycleTime(stats.medianCycleTimeMs) },
+  ];
+
+  const renderRow = (title: string, value: string, isLast: boolean, description?: string) => (
+    <View key={title} style={[contentStyles.settingItem, isLast && { borderBottomWidth: 0 }]}>
+      <View style={contentStyles.settingInfo}>
+        <Text style={contentStyles.settingTitle}>{title}</Text>
+        {description && <Text style={contentStyles.settingDescription}>{description}</Text>}
+      </View>
+      <Text style={contentStyles.settingTitle}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={contentStyles.container}
+      contentContainerStyle={{ paddingBottom: 32 }}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+    >
+      <Stack.Screen options={{ title: 'Statistics' }} />
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Completed In The Last</Text>
+        <View style={contentStyles.listItem}>
+          <View style={contentStyles.chipGroup}>
+            {PERIOD_OPTIONS.map((option) => (
+              <Pressable
+                key={option.label}
+                style={[contentStyles.chip, periodDays === option.days && contentStyles.selectedWeightOption]}
+                onPress={() => setPeriodDays(option.days)}
+              >
+                <Text style={[contentStyles.weightOptionText, periodDays === option.days && contentStyles.selectedWeightOptionText]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text style={contentStyles.settingDescription}>
+            Cycle time runs from when a task was started, or created if it never was, to when it was completed
+          </Text>
+        </View>
+        {rows.map((row, index) => renderRow(row.title, row.value, index === rows.length - 1))}
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Reopened</Text>
+        {renderRow('Tasks Reopened', String(stats.reopenedTaskCount), false, 'Completed or cancelled, then opened again')}
+        {renderRow('Times Reopened', String(stats.reopenCount), true)}
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Tasks By Status</Text>
+        {statusCounts.map(({ status, count }, index) =>
+          renderRow(TASK_STATUS_LABELS[status], String(count), index === statusCounts.length - 1)
+        )}
+      </View>
+
+      {error && <Text style={contentStyles.dangerText}>{error}</Text>}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, ScrollView, Pressable, Alert } from 'react-native';
+import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { contentStyles } from '@/lib/styles/content';
+import { useTheme } from '@/lib/styles/useTheme';
+import { useTaskStore, Tag } from '@/store/taskStore';
+import {
+  DEFAULT_TAG_COLOR,
+  findTagByName,
+  getTagUsageCounts,
+  normalizeTagName,
+  sortTagsByName,
+  TAG_COLORS,
+} from '@/lib/utils/tags';
+
+const describeUsage = (count: number) => (count === 1 ? '1 task' : `${count} tasks`);
+
+export default function TagsScreen() {
+  const theme = useTheme();
+  const { tags, taskTagRelations, addTag, updateTag, deleteTag, mergeTags } = useTaskStore();
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState(DEFAULT_TAG_COLOR);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const sortedTags = useMemo(() => sortTagsByName(tags), [tags]);
+  const usageCounts = useMemo(() => getTagUsageCounts(taskTagRelations), [taskTagRelations]);
+
+  const handleCreate = async () => {
+    const name = normalizeTagName(newTagName);
+    if (!name) return;
+
+    if (findTagByName(tags, name)) {
+      Alert.alert('Tag Exists', `You already have a tag called "${name}".`);
+      return;
+    }
+
+    await addTag({ name, color: newTagColor });
+    setNewTagName('');
+  };
+
+  const handleEdit = (tag: Tag) => {
+    if (editingId === tag.id) {
+      setEditingId(null);
+      return;
+    }
+    setEditingId(tag.id);
+    setEditingName(tag.name);
+  };
+
+  const handleRename = (tag: Tag) => {
+    const name = normalizeTagName(editingName);
+    if (!name || name === tag.name) {
+      setEditingName(tag.name);
+      return;
+    }
+
+    const existing = findTagByName(tags, name);
+    if (existing && existing.id !== tag.id) {
+      Alert.alert('Tag Exists', `You already have a tag called "${name}". Merge them instead.`);
+      setEditingName(tag.name);
+      return;
+    }
+
+    updateTag(tag.id, { name });
+  };
+
+  const handleMerge = (source: Tag, target: Tag) => {
+    Alert.alert(
+      'Merge Tags',
+      `Move ${describeUsage(usageCounts[source.id] ?? 0)} from "${source.name}" to "${target.name}" and delete "${source.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          onPress: async () => {
+            await mergeTags(source.id, target.id);
+            setEditingId(null);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDelete = (tag: Tag) => {
+    const count = usageCounts[tag.id] ?? 0;
+    Alert.alert(
+      'Delete Tag',
+      count > 0
+        ? `"${tag.name}" will be removed from ${describeUsage(count)}. The tasks themselves are kept.`
+        : `Delete "${tag.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteTag(tag.id);
+            setEditingId(null);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderColorSwatches = (selected: string, onSelect: (color: string) => void) => (
+    <View style={contentStyles.chipGroup}>
+      {TAG_COLORS.map((color) => (
+        <Pressable
+          key={color}
+          style={[
+            contentStyles.colorSwatch,
+            { backgroundColor: color },
+            selected === color && contentStyles.selectedColorSwatch,
+          ]}
+          onPress={() => onSelect(color)}
+        />
+      ))}
+    </View>
+  );
+
+  const renderTagEditor = (tag: Tag) => {
+    const otherTags = sortedTags.filter((other) => other.id !== tag.id);
+
+    return (
+      <View style={contentStyles.tagEditor}>
+        <TextInput
+          style={contentStyles.textInput}
+          value={editingName}
+          onChangeText={setEditingName}
+          onSubmitEditing={() => handleRename(tag)}
+          onBlur={() => handleRename(tag)}
+          returnKeyType="done"
+          maxLength={40}
+        />
+        {renderColorSwatches(tag.color ?? DEFAULT_TAG_COLOR, (color) => updateTag(tag.id, { color }))}
+
+        {otherTags.length > 0 && (
+          <>
+            <Text style={[contentStyles.settingDescription, { marginTop: 8 }]}>Merge into</Text>
+            <View style={contentStyles.chipGroup}>
+              {otherTags.map((other) => (
+                <Pressable key={other.id} style={contentStyles.chip} onPress={() => handleMerge(tag, other)}>
+                  <Text style={[contentStyles.weightOptionText, { color: other.color ?? DEFAULT_TAG_COLOR }]}>
+                    {other.name}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Pressable onPress={() => handleDelete(tag)}>
+          <Text style={[contentStyles.dangerText, { marginTop: 16 }]}>Delete Tag</Text>
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={contentStyles.container}
+      contentContainerStyle={{ paddingBottom: 32 }}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Stack.Screen options={{ title: 'Tags' }} />
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>New tag</Text>
+        <View style={contentStyles.listItem}>
+          <View style={contentStyles.tabActions}>
+            <View style={[contentStyles.colorDot, { backgroundColor: newTagColor }]} />
+            <TextInput
+              style={[contentStyles.textInput, { flex: 1, marginLeft: 12, marginTop: 0 }]}
+              value={newTagName}
+              onChangeText={setNewTagName}
+              onSubmitEditing={handleCreate}
+              placeholder="Tag name"
+              placeholderTextColor={theme.colors.text.placeholder}
+              returnKeyType="done"
+              maxLength={40}
+            />
+            <Pressable style={contentStyles.tabActionButton} onPress={handleCreate} disabled={!newTagName.trim()}>
+              <Ionicons
+                name="add-circle"
+                size={28}
+                color={newTagName.trim() ? theme.colors.primary : theme.colors.text.placeholder}
+              />
+            </Pressable>
+          </View>
+          {renderColorSwatches(newTagColor, setNewTagColor)}
+        </View>
+      </View>
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Your tags</Text>
+        {sortedTags.length === 0 ? (
+          <View style={contentStyles.listItem}>
+            <Text style={contentStyles.settingDescription}>No tags yet</Text>
+          </View>
+        ) : (
+          sortedTags.map((tag, index) => (
+            <View key={tag.id} style={index < sortedTags.length - 1 && contentStyles.borderBottom}>
+              <Pressable style={contentStyles.tabItem} onPress={() => handleEdit(tag)}>
+                <View style={[contentStyles.colorDot, { backgroundColor: tag.color ?? DEFAULT_TAG_COLOR }]} />
+                <Text style={contentStyles.tabName}>{tag.name}</Text>
+                <Text style={contentStyles.settingDescription}>{describeUsage(usageCounts[tag.id] ?? 0)}</Text>
+                <Ionicons
+                  name={editingId === tag.id ? 'chevron-up' : 'chevron-down'}
+                  size={18}
+                  color={theme.colors.text.secondary}
+                  style={{ marginLeft: 8 }}
+                />
+              </Pressable>
+              {editingId === tag.id && renderTagEditor(tag)}
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+}
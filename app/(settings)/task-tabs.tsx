@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView, Pressable } from 'react-native';
+import { Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { contentStyles } from '@/lib/styles/content';
+import { useTheme } from '@/lib/styles/useTheme';
+import useSmartListStore from '@/store/smartListStore';
+import { buildTaskTabs, TaskTab } from '@/lib/utils/taskTabs';
+
+export default function TaskTabsScreen() {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const { smartLists, moveTab, setTabPinned, setTabHidden } = useSmartListStore();
+
+  const tabs = useMemo(() => buildTaskTabs(smartLists), [smartLists]);
+
+  const renderTab = (tab: TaskTab, index: number) => {
+    const previous = tabs[index - 1];
+    const next = tabs[index + 1];
+    const canMoveUp = !!previous && previous.isPinned === tab.isPinned;
+    const canMoveDown = !!next && next.isPinned === tab.isPinned;
+    const iconColor = (enabled: boolean) => (enabled ? theme.colors.text.primary : theme.colors.text.placeholder);
+
+    return (
+      <View
+        key={tab.key}
+        style={[contentStyles.tabItem, index < tabs.length - 1 && contentStyles.borderBottom]}
+      >
+        <Ionicons name={tab.icon as any} size={22} color={iconColor(!tab.isHidden)} />
+        <Pressable
+          style={{ flex: 1 }}
+          disabled={!!tab.builtin}
+          onPress={() => router.push(`/(settings)/smart-list?id=${tab.key}`)}
+        >
+          <Text style={[contentStyles.tabName, tab.isHidden && { color: theme.colors.text.placeholder }]}>
+            {tab.builtin ? t(`browse.tabs.${tab.builtin}`) : tab.name}
+          </Text>
+        </Pressable>
+        <View style={contentStyles.tabActions}>
+          <Pressable style={contentStyles.tabActionButton} onPress={() => setTabPinned(tab.key, !tab.isPinned)}>
+            <Ionicons
+              name={tab.isPinned ? 'pin' : 'pin-outline'}
+              size={20}
+              color={tab.isPinned ? theme.colors.primary : theme.colors.text.secondary}
+            />
+          </Pressable>
+          <Pressable style={contentStyles.tabActionButton} onPress={() => setTabHidden(tab.key, !tab.isHidden)}>
+            <Ionicons
+              name={tab.isHidden ? 'eye-off-outline' : 'eye-outline'}
+              size={20}
+              color={theme.colors.text.secondary}
+            />
+          </Pressable>
+          <Pressable
+            style={contentStyles.tabActionButton}
+            disabled={!canMoveUp}
+            onPress={() => moveTab(tab.key, -1)}
+          >
+            <Ionicons name="chevron-up" size={20} color={iconColor(canMoveUp)} />
+          </Pressable>
+          <Pressable
+            style={contentStyles.tabActionButton}
+            disabled={!canMoveDown}
+            onPress={() => moveTab(tab.key, 1)}
+          >
+            <Ionicons name="chevron-down" size={20} color={iconColor(canMoveDown)} />
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={contentStyles.container} contentContainerStyle={{ paddingBottom: 32 }}>
+      <Stack.Screen options={{ title: 'Tabs' }} />
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Your tabs</Text>
+        {tabs.map(renderTab)}
+      </View>
+
+      <Pressable style={contentStyles.settingItem} onPress={() => router.push('/(settings)/smart-list')}>
+        <View style={contentStyles.settingInfo}>
+          <Text style={contentStyles.settingTitle}>New Smart List</Text>
+          <Text style={contentStyles.settingDescription}>Save a filter as a tab of its own</Text>
+        </View>
+        <Ionicons name="add" size={22} color={theme.colors.primary} />
+      </Pressable>
+
+      <Text style={contentStyles.noteText}>
+        Pinned tabs always come first. Tap a smart list to edit it.
+      </Text>
+    </ScrollView>
+  );
+}
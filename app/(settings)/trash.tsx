@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, ScrollView, Pressable, Alert, ActivityIndicator, RefreshControl } from 'react-native';
+import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { contentStyles } from '@/lib/styles/content';
+import { useTheme } from '@/lib/styles/useTheme';
+import { fetchTrash, purgeTrash, restoreFromTrash } from '@/lib/trash';
+import useTrashStore, { TRASH_RETENTION_OPTIONS, TrashRetention } from '@/store/trashStore';
+import { Task } from '@/store/taskStore';
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+const describeRetention = (days: TrashRetention) => (days === null ? 'Never' : `${days} days`);
+
+const describeCount = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+export default function TrashScreen() {
+  const theme = useTheme();
+  const { retentionDays, setRetentionDays } = useTrashStore();
+  const [trash, setTrash] = useState<Task[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await fetchTrash());
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(errorMessage(error, 'The trash could not be loaded.'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadTrash();
+    setRefreshing(false);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const removeFromTrash = (ids: string[]) => {
+    const removed = new Set(ids);
+    setTrash((current) => current?.filter((task) => !removed.has(task.id)) ?? null);
+    setSelectedIds(new Set());
+  };
+
+  const handleRestore = async () => {
+    if (!trash) return;
+    setWorking(true);
+    try {
+      const restored = await restoreFromTrash(Array.from(selectedIds), trash);
+      removeFromTrash(restored.map((task) => task.id));
+    } catch (error) {
+      Alert.alert('Restore Failed', errorMessage(error, 'The tasks could not be restored.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const runPurge = async (ids: string[]) => {
+    setWorking(true);
+    try {
+      await purgeTrash(ids);
+      removeFromTrash(ids);
+    } catch (error) {
+      Alert.alert('Delete Failed', errorMessage(error, 'The tasks could not be deleted.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const confirmPurge = (ids: string[]) => {
+    Alert.alert(
+      'Delete Forever',
+      `${describeCount(ids.length)} will be deleted with their tags, lists and reminders. This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => runPurge(ids) },
+      ]
+    );
+  };
+
+  const describeDeletion = (task: Task) => {
+    if (!task.deleted_at) return 'Deleted';
+    const deletedAt = new Date(task.deleted_at);
+    const deleted = `Deleted ${format(deletedAt, 'MMM d, yyyy')}`;
+    if (retentionDays === null) return deleted;
+
+    const daysLeft = differenceInCalendarDays(addDays(deletedAt, retentionDays), new Date());
+    return `${deleted} · ${daysLeft > 0 ? `gone in ${daysLeft} day${daysLeft === 1 ? '' : 's'}` : 'gone today'}`;
+  };
+
+  const renderTask = (task: Task, index: number) => {
+    const selected = selectedIds.has(task.id);
+    return (
+      <Pressable
+        key={task.id}
+        style={[contentStyles.settingItem, index === trash!.length - 1 && { borderBottomWidth: 0 }]}
+        onPress={() => toggleSelected(task.id)}
+        disabled={working}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: selected }}
+      >
+        <View style={contentStyles.settingInfo}>
+          <Text style={contentStyles.settingTitle} numberOfLines={1}>{task.title}</Text>
+          <Text style={contentStyles.settingDescription}>{describeDeletion(task)}</Text>
+        </View>
+        <Ionicons
+          name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+          size={24}
+          color={selected ? theme.colors.primary : theme.colors.text.placeholder}
+        />
+      </Pressable>
+    );
+  };
+
+  const renderActions = (tasks: Task[]) => {
+    const selected = Array.from(selectedIds);
+    const rows = selected.length > 0
+      ? [
+          { title: `Restore ${describeCount(selected.length)}`, description: 'Along with any deleted tasks they belong to', onPress: handleRestore, destructive: false },
+          { title: `Delete ${describeCount(selected.length)} Forever`, description: "Can't be undone", onPress: () => confirmPurge(selected), destructive: true },
+        ]
+      : [
+          { title: 'Empty Trash', description: `Delete all ${describeCount(tasks.length)} forever`, onPress: () => confirmPurge(tasks.map((task) => task.id)), destructive: true },
+        ];
+
+    return (
+      <View style={contentStyles.section}>
+        {rows.map((row, index) => (
+          <Pressable
+            key={row.title}
+            style={[contentStyles.settingItem, index === rows.length - 1 && { borderBottomWidth: 0 }]}
+            onPress={row.onPress}
+            disabled={working}
+          >
+            <View style={contentStyles.settingInfo}>
+              <Text style={[contentStyles.settingTitle, { color: row.destructive ? theme.colors.text.error : theme.colors.primary }]}>
+                {row.title}
+              </Text>
+              <Text style={contentStyles.settingDescription}>{row.description}</Text>
+            </View>
+            {working && index === 0 && <ActivityIndicator color={theme.colors.primary} />}
+          </Pressable>
+        ))}
+      </View>
+    );
+  };
+
+  const renderTrash = () => {
+    if (loadError) {
+      return <Text style={contentStyles.dangerText}>{loadError}</Text>;
+    }
+    if (!trash) {
+      return <ActivityIndicator style={{ marginTop: 32 }} color={theme.colors.primary} />;
+    }
+    if (trash.length === 0) {
+      return <Text style={contentStyles.noteText}>The trash is empty</Text>;
+    }
+
+    return (
+      <>
+        {renderActions(trash)}
+        <View style={contentStyles.section}>
+          <Text style={contentStyles.sectionTitle}>Deleted Tasks</Text>
+          {trash.map(renderTask)}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={contentStyles.container}
+      contentContainerStyle={{ paddingBottom: 32 }}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+    >
+      <Stack.Screen options={{ title: 'Trash' }} />
+
+      <View style={contentStyles.section}>
+        <Text style={contentStyles.sectionTitle}>Delete Forever After</Text>
+        <View style={contentStyles.listItem}>
+          <View style={contentStyles.chipGroup}>
+            {TRASH_RETENTION_OPTIONS.map((option) => (
+              <Pressable
+                key={String(option)}
+                style={[contentStyles.chip, retentionDays === option && contentStyles.selectedWeightOption]}
+                onPress={() => setRetentionDays(option)}
+              >
+                <Text style={[contentStyles.weightOptionText, retentionDays === option && contentStyles.selectedWeightOptionText]}>
+                  {describeRetention(option)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text style={contentStyles.settingDescription}>
+            Deleted tasks are kept this long, then deleted with their tags, lists and reminders
+          </Text>
+        </View>
+      </View>
+
+      {renderTrash()}
+    </ScrollView>
+  );
+}
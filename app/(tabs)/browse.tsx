@@ -10,7 +10,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
+import { router } from 'expo-router';
 import { useTaskStore, Task } from '../../store/taskStore';
+import { DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON, getActiveLists, getOpenTaskCounts } from '../../lib/utils/lists';
 import { layoutStyles } from '../../lib/styles/layout';
 import { browseStyles } from '../../lib/styles/browse';
 
@@ -22,6 +24,8 @@ interface CategoryCard {
   icon: string;
   color: string;
   count: number;
+  // Set for cards that open one of the user's lists
+  listId?: string;
 }
 
 export default function BrowseScreen() {
@@ -32,7 +36,7 @@ export default function BrowseScreen() {
 
   useEffect(() => {
     loadCategories();
-  }, []);
+  }, [taskStore.lists, taskStore.taskListRelations]);
 
   const loadCategories = async () => {
     setIsLoading(true);
@@ -79,6 +83,19 @@ export default function BrowseScreen() {
         },
       ];
 
+      // Each list is a category of its own, counting its open tasks
+      const listCounts = getOpenTaskCounts(tasks, taskStore.taskListRelations);
+      getActiveLists(taskStore.lists).forEach((list) => {
+        categoryCards.push({
+          id: list.id,
+          title: list.name,
+          icon: list.icon ?? DEFAULT_LIST_ICON,
+          color: list.color ?? DEFAULT_LIST_COLOR,
+          count: listCounts[list.id] || 0,
+          listId: list.id,
+        });
+      });
+
       setCategories(categoryCards);
     } catch (error) {
       console.error('Error loading categories:', error);
@@ -100,7 +117,9 @@ export default function BrowseScreen() {
         key={category.id}
         style={cardStyle}
         onPress={() => {
-          // Handle category press
+          if (category.listId) {
+            router.push(`/(tabs)/task-list?list=${category.listId}`);
+          }
         }}
       >
         <View style={browseStyles.cardContent}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -19,7 +19,12 @@ import Animated, {
 import { supabase } from '@/data/supabase';
 import FeaturedTaskCard from '@/components/FeaturedTaskCard';
 import useProfileStore from '@/store/profileStore';
-import { useTaskStore, Task } from '@/store/taskStore';
+import usePriorityWeightsStore from '@/store/priorityWeightsStore';
+import useRecommendationStore, { isTaskSkipped } from '@/store/recommendationStore';
+import useFocusStore from '@/store/focusStore';
+import { getFocusSecondsOn } from '@/lib/utils/focus';
+import { calculatePriorityScore, explainPriority, rankTasks } from '@/lib/utils/priority';
+import { useTaskStore, Task, TaskStatus } from '@/store/taskStore';
 import { useTranslation } from 'react-i18next';
 import { homeStyles, homeResponsive, STATUS_COLORS, STATUS_ICON_COLORS } from '@/lib/styles/home';
 import { useTheme } from '@/lib/styles/useTheme';
@@ -27,24 +32,19 @@ import { useTheme } from '@/lib/styles/useTheme';
 // Get responsive variables from the centralized home styles
 const { sizing, statusSectionHeight } = homeResponsive;
 
+// How many recommended tasks the Upcoming section lists
+const UPCOMING_TASK_COUNT = 10;
+
+// How often the featured task is re-ranked as deadlines approach and skips run out
+const FEATURED_REFRESH_MS = 60 * 1000;
+
 // Calculate status counts from tasks
 const calculateStatusCounts = (tasks: Task[]) => {
-  const completed = tasks.filter(task => task.status === 'completed').length;
-  const ongoing = tasks.filter(task => task.status === 'ongoing').length;
-  
-  return {
-    ongoing,
-    inprogress: 0,
-    canceled: 0,
-    completed,
-  };
-};
-
-const featuredTaskData = {
-  taskTitle: 'Design New Landing Page',
-  taskDescription: 'Create a visually appealing and user-friendly landing page for our new product launch. Focus on a clean design that converts visitors.',
-  categories: ['Design', 'UI/UX', 'Web'],
-  deadline: new Date(2024, 4, 30), // May 30, 2024
+  const counts: Record<TaskStatus, number> = { ongoing: 0, inprogress: 0, cancelled: 0, completed: 0 };
+  tasks.forEach(task => {
+    counts[task.status] += 1;
+  });
+  return counts;
 };
 
 // Create a mapping of monster images for dynamic loading
@@ -63,7 +63,11 @@ const monsterImages: Record<number, any> = {
 
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
-  const { tasks, isLoading: todosLoading, error: todosError, fetchTasks } = useTaskStore();
+  const { tasks, tags, taskTagRelations, isLoading: todosLoading, error: todosError, fetchTasks } = useTaskStore();
+  const priorityWeights = usePriorityWeightsStore((state) => state.weights);
+  const { skippedUntil, skipForNow, skipForToday } = useRecommendationStore();
+  const focusSessions = useFocusStore((state) => state.sessions);
+  const [now, setNow] = useState(() => new Date());
   const { profile, loading: profileLoading, error: profileError, loadProfile, getDefaultAvatar } = useProfileStore();
   const [statusSectionCollapsed, setStatusSectionCollapsed] = useState(false);
   const { t } = useTranslation();
@@ -77,6 +81,12 @@ export default function HomeScreen() {
   useEffect(() => {
     initializeProfile();
     fetchTasks();
+    useFocusStore.getState().fetchSessions();
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), FEATURED_REFRESH_MS);
+    return () => clearInterval(timer);
   }, []);
 
   const initializeProfile = async () => {
@@ -101,6 +111,14 @@ export default function HomeScreen() {
     // Add focus mode logic here
   };
 
+  const handleSkipPress = () => {
+    if (featuredTask) skipForNow(featuredTask.id);
+  };
+
+  const handleNotTodayPress = () => {
+    if (featuredTask) skipForToday(featuredTask.id);
+  };
+
   const handleProfilePress = () => {
     router.push('/(tabs)/profile');
   };
@@ -165,7 +183,7 @@ export default function HomeScreen() {
                 ? 'time-outline'
                 : status === 'inprogress'
                   ? 'reload-outline'
-                  : status === 'canceled'
+                  : status === 'cancelled'
                     ? 'close-outline'
                     : 'checkmark-outline'
             }
@@ -203,6 +221,19 @@ export default function HomeScreen() {
   );
 
   const statusCounts = calculateStatusCounts(tasks);
+  const focusMinutesToday = Math.floor(getFocusSecondsOn(focusSessions, now) / 60);
+  const nextTasks = useMemo(() => rankTasks(tasks, priorityWeights).slice(0, UPCOMING_TASK_COUNT), [tasks, priorityWeights]);
+
+  // The best-ranked task the user hasn't skipped
+  const featuredTask = useMemo(
+    () => rankTasks(tasks, priorityWeights, now).find((task) => !isTaskSkipped(skippedUntil, task.id, now)) ?? null,
+    [tasks, priorityWeights, skippedUntil, now]
+  );
+  const featuredCategories = featuredTask
+    ? tags
+        .filter((tag) => taskTagRelations.some((rel) => rel.task_id === featuredTask.id && rel.tag_id === tag.id))
+        .map((tag) => tag.name)
+    : [];
 
   return (
     <View style={homeStyles.container}>
@@ -219,17 +250,24 @@ export default function HomeScreen() {
             <View>
               <Text style={homeStyles.greeting}>{t('greeting', { name: profile.name || 'User' })} 👋</Text>
               <Text style={homeStyles.subtitle}>{t('home.subtitle')}</Text>
+              <View style={homeStyles.focusToday}>
+                <Ionicons name="timer-outline" size={14} color={theme.colors.text.placeholder} />
+                <Text style={homeStyles.focusTodayText}>{t('home.focus_today', { count: focusMinutesToday })}</Text>
+              </View>
             </View>
           </View>
         </View>
 
         {/* Featured Task with consistent left alignment */}
         <FeaturedTaskCard
-          taskTitle={featuredTaskData.taskTitle}
-          taskDescription={featuredTaskData.taskDescription}
-          categories={featuredTaskData.categories}
-          deadline={featuredTaskData.deadline}
+          task={featuredTask}
+          score={featuredTask ? calculatePriorityScore(featuredTask, priorityWeights, now) : 0}
+          reasons={featuredTask ? explainPriority(featuredTask, priorityWeights, now) : []}
+          categories={featuredCategories}
+          onPress={() => featuredTask && handleTaskPress(featuredTask.id)}
           onFocusPress={handleFocusPress}
+          onSkipPress={handleSkipPress}
+          onNotTodayPress={handleNotTodayPress}
         />
 
         {/* Fixed Status Overview title with consistent left alignment */}
@@ -298,14 +336,12 @@ export default function HomeScreen() {
             <View style={homeStyles.loadingContainer}>
               <ActivityIndicator size="large" color={theme.colors.primary} />
             </View>
-          ) : tasks.length === 0 ? (
+          ) : nextTasks.length === 0 ? (
             <Text style={homeStyles.emptyStateText}>{t('home.empty_tasks')}</Text>
           ) : (
-            tasks
-              .filter(task => task.status !== 'completed')
-              .map((task) => (
-                <TaskCard key={task.id} task={task} />
-              ))
+            nextTasks.map((task) => (
+              <TaskCard key={task.id} task={task} />
+            ))
           )}
         </View>
       </Animated.ScrollView>
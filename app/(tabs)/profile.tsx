@@ -14,6 +14,10 @@ import { router } from 'expo-router';
 import { getAvatarUrl } from '@/lib/avatarUrl';
 import { format } from 'date-fns';
 import useProfileStore from '@/store/profileStore';
+import useHistoryStore from '@/store/historyStore';
+import useFocusStore from '@/store/focusStore';
+import useFocusTimerStore from '@/store/focusTimerStore';
+import { useTaskStore } from '@/store/taskStore';
 import { Profile } from '@/store/models/profile';
 import { useTranslation } from 'react-i18next';
 import { profileStyles } from '@/lib/styles/profile';
@@ -113,6 +117,11 @@ export default function ProfileScreen() {
     await supabase.auth.signOut();
     // Clear the profile from the store
     useProfileStore.getState().clearProfile();
+    // Undo history belongs to the signed-out user's tasks
+    useHistoryStore.getState().clear();
+    useFocusStore.getState().clearSessions();
+    useFocusTimerStore.getState().clearTimer();
+    useTaskStore.getState().resetRelations();
     router.replace('/sign-in');
   };
 
@@ -171,6 +180,13 @@ export default function ProfileScreen() {
 
       <View style={profileStyles.menuSection}>
         <MenuItem icon="notifications-outline" label="Notifications" route="notifications" translationKey="profile.notifications" />
+        <MenuItem icon="options-outline" label="Prioritization" route="prioritization" translationKey="profile.prioritization" />
+        <MenuItem icon="list-outline" label="Lists" route="lists" translationKey="profile.lists" />
+        <MenuItem icon="pricetags-outline" label="Tags" route="tags" translationKey="profile.tags" />
+        <MenuItem icon="archive-outline" label="Backup & Restore" route="backup" translationKey="profile.backup" />
+        <MenuItem icon="cloud-upload-outline" label="Import" route="import" translationKey="profile.import" />
+        <MenuItem icon="trash-outline" label="Trash" route="trash" translationKey="profile.trash" />
+        <MenuItem icon="stats-chart-outline" label="Statistics" route="statistics" translationKey="profile.statistics" />
         <MenuItem icon="shield-checkmark-outline" label="Security" route="security" translationKey="profile.security" />
         <MenuItem icon="globe-outline" label="Language & Region" route="language" translationKey="profile.language_region" />
         <MenuItem icon="star-outline" label="Go Premium" route="premium" translationKey="profile.go_premium" />
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -9,70 +9,124 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useTaskStore, Task, TaskStatus } from '../../store/taskStore';
 import { TaskList } from '../../components/TaskList';
+import { useCompleteTask } from '../../lib/useCompleteTask';
+import useSmartListStore from '../../store/smartListStore';
+import { and, runTaskQuery, TaskCondition, TaskQuery } from '../../lib/utils/taskQuery';
+import { DEFAULT_TAG_COLOR } from '../../lib/utils/tags';
+import { buildListTabs, buildTaskTabs, TaskTab } from '../../lib/utils/taskTabs';
 import { layoutStyles } from '../../lib/styles/layout';
 import { taskListStyles } from '../../lib/styles/task-list';
 
-interface Tab {
-  id: string;
-  name: string;
-  icon: string;
-}
-
 export default function TasksScreen() {
   const { t } = useTranslation();
   const taskStore = useTaskStore();
-  const [selectedTab, setSelectedTab] = useState('today');
+  const { areTasksLoaded, filterTasks } = taskStore;
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const { tag, list } = useLocalSearchParams<{ tag?: string; list?: string }>();
+  const [selectedTab, setSelectedTab] = useState(list ?? 'today');
+  // Narrows the selected tab to tasks with this tag
+  const [tagFilter, setTagFilter] = useState<string | null>(tag ?? null);
+  const completeTask = useCompleteTask();
+  const { smartLists, fetchSmartLists } = useSmartListStore();
+
+  const tabs = useMemo(
+    () => [...buildTaskTabs(smartLists).filter((tab) => !tab.isHidden), ...buildListTabs(taskStore.lists)],
+    [smartLists, taskStore.lists]
+  );
+
+  // Live counts from the local cache; skipped until it has loaded
+  const tabCounts = useMemo(() => {
+    if (!areTasksLoaded()) return {};
+    const relations = {
+      taskTagRelations: taskStore.taskTagRelations,
+      taskListRelations: taskStore.taskListRelations,
+    };
+    return Object.fromEntries(
+      tabs.map((tab) => [
+        tab.key,
+        runTaskQuery(taskStore.tasks, { where: tab.query.where }, relations).length,
+      ])
+    );
+  }, [tabs, areTasksLoaded, taskStore.tasks, taskStore.taskTagRelations, taskStore.taskListRelations]);
 
-  const defaultTabs: Tab[] = [
-    { id: 'today', name: t('browse.tabs.today'), icon: 'today-outline' },
-    { id: 'all', name: t('browse.tabs.all'), icon: 'list-outline' },
-    { id: 'completed', name: t('browse.tabs.completed'), icon: 'checkmark-circle-outline' },
-    { id: 'tomorrow', name: t('browse.tabs.tomorrow'), icon: 'calendar-outline' },
-    { id: 'week', name: t('browse.tabs.week'), icon: 'calendar-number-outline' },
-  ];
+  useEffect(() => {
+    fetchSmartLists();
+  }, [fetchSmartLists]);
+
+  // Fall back to the first tab when the selected one is hidden or deleted
+  useEffect(() => {
+    if (tabs.length === 0) return;
+    setSelectedTab((current) => (tabs.some((tab) => tab.key === current) ? current : tabs[0].key));
+  }, [tabs]);
+
+  // Follow tag chips tapped on other screens
+  useEffect(() => {
+    if (tag) {
+      setTagFilter(tag);
+    }
+  }, [tag]);
 
+  // Open a list picked on the browse screen
   useEffect(() => {
-    loadTasks();
-  }, [selectedTab]);
+    if (list) {
+      setSelectedTab(list);
+    }
+  }, [list]);
+
+  const loadTasks = useCallback(async (showSpinner = true) => {
+    const withTagFilter = (query: TaskQuery): TaskQuery => {
+      if (!tagFilter) return query;
+      const condition: TaskCondition = { field: 'tags', tagIds: [tagFilter], match: 'any' };
+      return { ...query, where: query.where ? and(query.where, condition) : condition };
+    };
 
-  const loadTasks = async () => {
-    setIsLoading(true);
+    if (showSpinner) {
+      setIsLoading(true);
+    }
     try {
-      let loadedTasks: Task[] = [];
-      const today = new Date();
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-
-      switch (selectedTab) {
-        case 'today':
-          loadedTasks = await taskStore.filterTasks({ date: today });
-          break;
-        case 'all':
-          loadedTasks = await taskStore.filterTasks({ status: 'ongoing' });
-          break;
-        case 'completed':
-          loadedTasks = await taskStore.filterTasks({ status: 'completed' });
-          break;
-        case 'tomorrow':
-          loadedTasks = await taskStore.filterTasks({ date: tomorrow });
-          break;
-        case 'week':
-          loadedTasks = await taskStore.filterTasks({ weekOf: today });
-          break;
-        default:
-          // If it's a list ID, fetch tasks for that list
-          loadedTasks = await taskStore.filterTasks({ listId: selectedTab });
-      }
+      const tab = tabs.find((t) => t.key === selectedTab);
+      const loadedTasks = tab
+        ? await filterTasks(withTagFilter(tab.query))
+        // If it's a list ID, fetch tasks for that list
+        : await filterTasks(withTagFilter({ where: { field: 'lists', listIds: [selectedTab] } }));
       setTasks(loadedTasks);
     } catch (error) {
       console.error('Error loading tasks:', error);
     } finally {
       setIsLoading(false);
     }
+  }, [filterTasks, selectedTab, tabs, tagFilter]);
+
+  // Re-run the filter when it changes, and quietly when the store changes under it, e.g. from realtime sync
+  const lastLoadTasks = useRef(loadTasks);
+  useEffect(() => {
+    loadTasks(lastLoadTasks.current !== loadTasks);
+    lastLoadTasks.current = loadTasks;
+  }, [loadTasks, taskStore.tasks, taskStore.relationsVersion]);
+
+  const getTabName = (tab: TaskTab) => (tab.builtin ? t(`browse.tabs.${tab.builtin}`) : tab.name);
+
+  const renderTagFilter = () => {
+    const filterTag = taskStore.tags.find((t) => t.id === tagFilter);
+    if (!filterTag) return null;
+
+    const color = filterTag.color ?? DEFAULT_TAG_COLOR;
+    return (
+      <View style={taskListStyles.tagFilterRow}>
+        <Pressable
+          style={[taskListStyles.tagFilterChip, { backgroundColor: `${color}1A` }]}
+          onPress={() => setTagFilter(null)}
+        >
+          <Ionicons name="pricetag" size={14} color={color} />
+          <Text style={[taskListStyles.tagFilterText, { color }]}>{filterTag.name}</Text>
+          <Ionicons name="close" size={14} color={color} />
+        </Pressable>
+      </View>
+    );
   };
 
   const renderTabContent = () => {
@@ -99,11 +153,16 @@ export default function TasksScreen() {
       <TaskList
         tasks={tasks}
         onTaskPress={(task: Task) => {
-          // Handle task press
+          router.push(`/(task-details)/${task.id}?source=task-list`);
         }}
         onTaskStatusChange={(taskId: string, status: TaskStatus) => {
-          taskStore.toggleTaskStatus(taskId, status);
+          if (status === 'completed') {
+            completeTask(taskId);
+          } else {
+            taskStore.toggleTaskStatus(taskId, status);
+          }
         }}
+        onTagPress={setTagFilter}
       />
     );
   };
@@ -114,6 +173,12 @@ export default function TasksScreen() {
         <Text style={[taskListStyles.title, { color: '#000000' }]}>
           {t('task_list.title')}
         </Text>
+        <Pressable
+          style={taskListStyles.headerButton}
+          onPress={() => router.push('/(search)/search')}
+        >
+          <Ionicons name="search" size={24} color="#000000" />
+        </Pressable>
       </View>
 
       <ScrollView
@@ -122,32 +187,50 @@ export default function TasksScreen() {
         style={taskListStyles.tabsContainer}
         contentContainerStyle={taskListStyles.tabsContent}
       >
-        {defaultTabs.map((tab) => (
+        {tabs.map((tab) => (
           <Pressable
-            key={tab.id}
+            key={tab.key}
             style={[
               taskListStyles.tab,
-              selectedTab === tab.id && { backgroundColor: '#007AFF' },
+              selectedTab === tab.key && { backgroundColor: tab.color ?? '#007AFF' },
             ]}
-            onPress={() => setSelectedTab(tab.id)}
+            onPress={() => setSelectedTab(tab.key)}
           >
             <Ionicons
               name={tab.icon as any}
               size={24}
-              color={selectedTab === tab.id ? '#FFFFFF' : '#000000'}
+              color={selectedTab === tab.key ? '#FFFFFF' : tab.color ?? '#000000'}
             />
             <Text
               style={[
                 taskListStyles.tabText,
-                selectedTab === tab.id && { color: '#FFFFFF' },
+                selectedTab === tab.key && { color: '#FFFFFF' },
               ]}
             >
-              {tab.name}
+              {getTabName(tab)}
             </Text>
+            {tabCounts[tab.key] !== undefined && (
+              <Text
+                style={[
+                  taskListStyles.tabCount,
+                  selectedTab === tab.key && { color: '#FFFFFF' },
+                ]}
+              >
+                {tabCounts[tab.key]}
+              </Text>
+            )}
           </Pressable>
         ))}
+        <Pressable
+          style={taskListStyles.manageTabsButton}
+          onPress={() => router.push('/(settings)/task-tabs')}
+        >
+          <Ionicons name="options-outline" size={24} color="#000000" />
+        </Pressable>
       </ScrollView>
 
+      {renderTagFilter()}
+
       <View style={taskListStyles.content}>
         {renderTabContent()}
       </View>
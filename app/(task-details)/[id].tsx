@@ -1,16 +1,25 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, TextInput, Alert, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, TextInput, Alert, TouchableOpacity, Modal } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/data/supabase';
-import { format, isAfter, startOfDay, differenceInDays, addDays, formatDistance } from 'date-fns';
-import { Task } from '@/lib/store/models/task';
-import { calculatePriorityScore } from '@/lib/utils/priority';
+import { format, isAfter, startOfDay, formatDistance } from 'date-fns';
+import { calculatePriorityScore, isActionableTask } from '@/lib/utils/priority';
 import { useTaskEntry } from '@/contexts/TaskEntryContext';
-import { getUserTasks, updateTask, hardDeleteTask } from '@/data/taskService';
-import type { Task as ServiceTask } from '@/data/taskService';
-import useProfileStore from '@/store/profileStore';
+import usePriorityWeightsStore from '@/store/priorityWeightsStore';
+import { useTaskStore, ConflictChoice, describeStatusChange } from '@/store/taskStore';
+import type { Task, TaskActivity, TaskStatus } from '@/store/taskStore';
+import { describeRecurrenceRule, getUpcomingOccurrences, parseRecurrenceRule } from '@/lib/utils/recurrence';
+import { buildTaskTree, compareSiblings, flattenTaskTree, getDescendants, getTaskProgress } from '@/lib/utils/subtasks';
+import { useCompleteTask } from '@/lib/useCompleteTask';
+import { TagPicker } from '@/components/TagPicker';
+import { DEFAULT_TAG_COLOR } from '@/lib/utils/tags';
+import { DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON, getActiveLists } from '@/lib/utils/lists';
+import { describeActivity } from '@/lib/utils/taskActivity';
+import { formatFocusTime, getTaskFocusSummary } from '@/lib/utils/focus';
+import useFocusStore from '@/store/focusStore';
+import { canTransition, formatCycleTime, isOpenStatus, STATUS_TRANSITIONS, summarizeStatusHistory, TASK_STATUS_LABELS } from '@/lib/utils/taskStatus';
 
 interface EditableFields {
   title: boolean;
@@ -24,33 +33,21 @@ interface EditableFields {
   difficulty: boolean;
 }
 
-const STATUS_COLORS = {
+const STATUS_COLORS: Record<TaskStatus, string> = {
   ongoing: '#007AFF',
   inprogress: '#FF9F1C',
-  canceled: '#FF3B30',
+  cancelled: '#FF3B30',
   completed: '#34C759',
 };
 
-const STATUS_LABELS = {
-  ongoing: 'Ongoing',
-  inprogress: 'In Process',
-  canceled: 'Canceled',
-  completed: 'Completed',
-};
-
-const STATUSES = Object.keys(STATUS_LABELS) as Task['status'][];
-
-// Extended Task interface that includes ServiceTask properties
-interface ExtendedTask extends Task {
-  deadline?: string | null;
-  priority?: number;
-}
+// Activity entries shown before "Show all"
+const ACTIVITY_PREVIEW_COUNT = 5;
 
 export default function TaskDetailsScreen() {
   const insets = useSafeAreaInsets();
   const { id, source } = useLocalSearchParams();
-  const [task, setTask] = useState<ExtendedTask | null>(null);
-  const [editedTask, setEditedTask] = useState<Partial<ExtendedTask>>({});
+  const [task, setTask] = useState<Task | null>(null);
+  const [editedTask, setEditedTask] = useState<Partial<Task>>({});
   const [editableFields, setEditableFields] = useState<EditableFields>({
     title: false,
     description: false,
@@ -67,6 +64,22 @@ export default function TaskDetailsScreen() {
   const [error, setError] = useState<string | null>(null);
   const { taskVersion, onTaskUpdated, onTaskDeleted } = useTaskEntry();
   const [confirmDelete, setConfirmDelete] = useState(false);
+  const [conflictChoices, setConflictChoices] = useState<Record<string, ConflictChoice>>({});
+  const storeTask = useTaskStore((state) => state.tasks.find((t) => t.id === id));
+  const priorityWeights = usePriorityWeightsStore((state) => state.weights);
+  const conflict = useTaskStore((state) => state.conflicts.find((c) => c.taskId === id));
+  const allTasks = useTaskStore((state) => state.tasks);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+  const [showTagPicker, setShowTagPicker] = useState(false);
+  const tags = useTaskStore((state) => state.tags);
+  const taskTagRelations = useTaskStore((state) => state.taskTagRelations);
+  const lists = useTaskStore((state) => state.lists);
+  const taskListRelations = useTaskStore((state) => state.taskListRelations);
+  const statusHistory = useTaskStore((state) => state.statusHistory);
+  const activity = useTaskStore((state) => state.activity);
+  const focusSessions = useFocusStore((state) => state.sessions);
+  const [showAllActivity, setShowAllActivity] = useState(false);
+  const completeTask = useCompleteTask();
 
   // Track where the user navigated from
   const navigatedFrom = source || 'unknown';
@@ -75,27 +88,51 @@ export default function TaskDetailsScreen() {
     fetchTask();
   }, [id, taskVersion]);
 
+  useEffect(() => {
+    useTaskStore.getState().fetchStatusHistory();
+    if (typeof id === 'string') useTaskStore.getState().fetchTaskActivity(id);
+    useFocusStore.getState().fetchSessions();
+  }, [id]);
+
+  // Follow the local copy so offline edits and merged changes show up immediately
+  useEffect(() => {
+    if (storeTask) {
+      setTask(storeTask);
+    }
+  }, [storeTask]);
+
+  // Default every contested field to the user's own value
+  useEffect(() => {
+    if (conflict) {
+      const choices: Record<string, ConflictChoice> = {};
+      conflict.fields.forEach(({ field }) => {
+        choices[field] = 'local';
+      });
+      setConflictChoices(choices);
+    }
+  }, [conflict]);
+
   const fetchTask = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      // Get the current user
-      const user = await useProfileStore.getState().getCurrentUser();
-      if (!user) throw new Error('No user found');
+      // Prefer the local copy, which includes changes that haven't synced yet
+      const localTask = useTaskStore.getState().tasks.find((t) => t.id === id);
+      if (localTask) {
+        setTask(localTask);
+        setEditedTask(localTask);
+        return;
+      }
 
-      // Use the taskService function to get the task
-      const { data, error } = await getUserTasks(user.id);
+      // Otherwise load the user's tasks into the store and find it there
+      await useTaskStore.getState().fetchTasks();
+      const { tasks, error: fetchError } = useTaskStore.getState();
+      const taskData = tasks.find((t) => t.id === id);
+      if (!taskData) throw new Error(fetchError || 'Task not found');
 
-      if (error) throw error;
-      if (!data || !data.length) throw new Error('Task not found');
-      
-      // Find the specific task by ID
-      const taskData = data.find((task: ServiceTask) => task.id === id);
-      if (!taskData) throw new Error('Task not found');
-
-      setTask(taskData as unknown as ExtendedTask);
-      setEditedTask(taskData as unknown as Partial<ExtendedTask>);
+      setTask(taskData);
+      setEditedTask(taskData);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -103,32 +140,7 @@ export default function TaskDetailsScreen() {
     }
   };
 
-  const calculatePriority = (taskData: Partial<ExtendedTask>) => {
-    // Use task data or edited task data
-    const valueImpact = taskData.value_impact ?? task?.value_impact ?? 50;
-    const difficulty = taskData.difficulty ?? task?.difficulty ?? 5;
-    const deadlineDate = taskData.deadlineHours ? new Date(taskData.deadlineHours) : 
-                       (task?.deadlineHours ? new Date(task.deadlineHours) : addDays(new Date(), 7));
-    
-    // Calculate deadline score (higher for closer deadlines)
-    const today = startOfDay(new Date());
-    const daysUntilDeadline = Math.max(0, differenceInDays(deadlineDate, today));
-    const maxDays = 365;
-    const deadlineScore = 100 - Math.min(100, (daysUntilDeadline / maxDays) * 100);
-    
-    // Value impact is already on a 1-100 scale
-    const valueScore = valueImpact;
-    
-    // Convert difficulty (1-10) to a 1-100 scale
-    const difficultyScore = (difficulty / 10) * 100;
-    
-    // Calculate priority score (weighted average)
-    const priorityScore = (deadlineScore * 0.4) + (valueScore * 0.4) + ((100 - difficultyScore) * 0.2);
-    
-    return Math.round(priorityScore);
-  };
-
-  const validateField = (field: keyof ExtendedTask, value: any): string | null => {
+  const validateField = (field: keyof EditableFields, value: any): string | null => {
     switch (field) {
       case 'title':
         if (!value?.trim()) return 'Title is required';
@@ -150,12 +162,6 @@ export default function TaskDetailsScreen() {
           return 'Date cannot be in the past';
         }
         break;
-      case 'deadlineHours':
-        const deadlineHours = Number(value);
-        if (isNaN(deadlineHours) || deadlineHours < 0) {
-          return 'Deadline must be a positive number';
-        }
-        break;
       case 'value_impact':
         const impact = Number(value);
         if (isNaN(impact) || impact < 1 || impact > 100) {
@@ -176,21 +182,21 @@ export default function TaskDetailsScreen() {
     setEditableFields(prev => ({ ...prev, [field]: true }));
   };
 
-  const handleChange = (field: keyof ExtendedTask, value: any) => {
+  const handleChange = (field: keyof Task, value: any) => {
     setEditedTask(prev => ({ ...prev, [field]: value }));
   };
 
   const handleCancel = (field: keyof EditableFields) => {
     setEditableFields(prev => ({ ...prev, [field]: false }));
     if (task) {
-      setEditedTask(prev => ({ ...prev, [field]: task[field as keyof ExtendedTask] }));
+      setEditedTask(prev => ({ ...prev, [field]: task[field as keyof Task] }));
     }
   };
 
   const handleSave = async (field: keyof EditableFields) => {
     if (!task || !editedTask) return;
 
-    const validationError = validateField(field as keyof ExtendedTask, editedTask[field as keyof ExtendedTask]);
+    const validationError = validateField(field, editedTask[field as keyof Task]);
     if (validationError) {
       Alert.alert('Validation Error', validationError);
       return;
@@ -200,17 +206,13 @@ export default function TaskDetailsScreen() {
       setSaving(true);
       setError(null);
 
-      // If we're updating a priority-related field, recalculate the priority score
-      let updates: any = { [field]: editedTask[field as keyof ExtendedTask] };
-      
-      if (field === 'deadline' || field === 'value_impact' || field === 'difficulty') {
-        updates.priority_score = calculatePriority(editedTask);
-      }
-
-      // Use the taskService updateTask function
-      const { error: updateError } = await updateTask(task.id, updates);
+      const updates: any = { [field]: editedTask[field as keyof Task] };
 
-      if (updateError) throw updateError;
+      // Guard the update on the version this screen loaded, so edits from
+      // another device are merged instead of overwritten
+      await useTaskStore.getState().updateTask(task.id, updates, {
+        base: task,
+      });
 
       setTask(prev => prev ? { ...prev, ...updates } : null);
       setEditableFields(prev => ({ ...prev, [field]: false }));
@@ -225,20 +227,29 @@ export default function TaskDetailsScreen() {
     }
   };
 
-  const handleStatusChange = async (newStatus: ExtendedTask['status']) => {
+  const handleStatusChange = async (newStatus: TaskStatus) => {
     if (!task) return;
 
     try {
       setSaving(true);
       setError(null);
 
-      // Use the taskService updateTask function
-      const { error: updateError } = await updateTask(task.id, { status: newStatus });
-
-      if (updateError) throw updateError;
+      if (newStatus === 'completed') {
+        // Asks what to do with open subtasks before completing
+        await completeTask(task.id);
+      } else {
+        const { trackHistory, updateTask } = useTaskStore.getState();
+        await trackHistory(describeStatusChange(newStatus), () =>
+          updateTask(task.id, { status: newStatus }, {
+            base: task,
+          })
+        );
+      }
 
-      setTask(prev => prev ? { ...prev, status: newStatus } : null);
-      setEditedTask(prev => ({ ...prev, status: newStatus }));
+      const updated = useTaskStore.getState().tasks.find((t) => t.id === task.id);
+      const status = updated?.status ?? newStatus;
+      setTask(prev => prev ? { ...prev, status } : null);
+      setEditedTask(prev => ({ ...prev, status }));
       
       // Notify other components about the update
       onTaskUpdated();
@@ -250,6 +261,343 @@ export default function TaskDetailsScreen() {
     }
   };
 
+  const handleAddSubtask = async () => {
+    const title = newSubtaskTitle.trim();
+    if (!task || !title) return;
+
+    const subtask = await useTaskStore.getState().addSubtask(task.id, title);
+    if (!subtask) {
+      Alert.alert('Error', 'Failed to add subtask. Please try again.');
+      return;
+    }
+
+    setNewSubtaskTitle('');
+    onTaskUpdated();
+  };
+
+  const handleSubtaskToggle = async (subtask: Task) => {
+    if (subtask.status === 'completed') {
+      await useTaskStore.getState().toggleTaskStatus(subtask.id, 'ongoing');
+    } else {
+      await completeTask(subtask.id);
+    }
+    onTaskUpdated();
+  };
+
+  const taskTagIds = taskTagRelations.filter((relation) => relation.task_id === id).map((relation) => relation.tag_id);
+
+  // Apply the picker's selection as it changes
+  const handleTagsChange = async (tagIds: string[]) => {
+    if (!task) return;
+
+    const { addTaskTag, removeTaskTag } = useTaskStore.getState();
+    await Promise.all([
+      ...tagIds.filter((tagId) => !taskTagIds.includes(tagId)).map((tagId) => addTaskTag(task.id, tagId)),
+      ...taskTagIds.filter((tagId) => !tagIds.includes(tagId)).map((tagId) => removeTaskTag(task.id, tagId)),
+    ]);
+    onTaskUpdated();
+  };
+
+  const renderTags = () => {
+    const taskTags = tags.filter((tag) => taskTagIds.includes(tag.id));
+
+    return (
+      <View style={styles.subtaskSection}>
+        <View style={styles.subtaskHeader}>
+          <Text style={styles.sectionTitle}>Tags</Text>
+          <Pressable onPress={() => setShowTagPicker(true)}>
+            <Ionicons name="pencil-outline" size={18} color="#8E8E93" />
+          </Pressable>
+        </View>
+
+        {taskTags.length === 0 ? (
+          <Pressable onPress={() => setShowTagPicker(true)}>
+            <Text style={styles.subtaskCount}>No tags. Tap to add some.</Text>
+          </Pressable>
+        ) : (
+          <View style={styles.tagList}>
+            {taskTags.map((tag) => {
+              const color = tag.color ?? DEFAULT_TAG_COLOR;
+              return (
+                <Pressable
+                  key={tag.id}
+                  style={[styles.tagChip, { backgroundColor: `${color}1A` }]}
+                  onPress={() => router.push(`/(tabs)/task-list?tag=${tag.id}`)}
+                >
+                  <Text style={[styles.tagChipText, { color }]}>{tag.name}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+
+        <TagPicker
+          visible={showTagPicker}
+          selectedTagIds={taskTagIds}
+          onChange={handleTagsChange}
+          onClose={() => setShowTagPicker(false)}
+        />
+      </View>
+    );
+  };
+
+  const renderLists = () => {
+    if (!task) return null;
+
+    const activeLists = getActiveLists(lists);
+    if (activeLists.length === 0) return null;
+
+    const currentListId = taskListRelations.find((relation) => relation.task_id === task.id)?.list_id ?? null;
+
+    const handleMove = async (listId: string | null) => {
+      if (listId === currentListId) return;
+      await useTaskStore.getState().moveTaskToList(task.id, listId);
+      onTaskUpdated();
+    };
+
+    return (
+      <View style={styles.subtaskSection}>
+        <Text style={styles.sectionTitle}>List</Text>
+        <View style={styles.tagList}>
+          <Pressable
+            style={[styles.tagChip, styles.listChip, currentListId === null && styles.selectedListChip]}
+            onPress={() => handleMove(null)}
+          >
+            <Text style={[styles.tagChipText, { color: '#8E8E93' }]}>None</Text>
+          </Pressable>
+          {activeLists.map((list) => {
+            const color = list.color ?? DEFAULT_LIST_COLOR;
+            const isSelected = list.id === currentListId;
+            return (
+              <Pressable
+                key={list.id}
+                style={[styles.tagChip, styles.listChip, isSelected && { borderColor: color, backgroundColor: `${color}1A` }]}
+                onPress={() => handleMove(list.id)}
+              >
+                <Ionicons name={(list.icon ?? DEFAULT_LIST_ICON) as any} size={14} color={color} />
+                <Text style={[styles.tagChipText, { color: isSelected ? color : '#1C1C1E', marginLeft: 4 }]}>
+                  {list.name}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const renderSubtasks = () => {
+    if (!task) return null;
+
+    const descendants = getDescendants(task.id, allTasks).sort(compareSiblings);
+    const rows = flattenTaskTree(buildTaskTree(descendants), new Set());
+    const progress = getTaskProgress(task.id, allTasks);
+
+    return (
+      <View style={styles.subtaskSection}>
+        <View style={styles.subtaskHeader}>
+          <Text style={styles.sectionTitle}>Subtasks</Text>
+          {progress && (
+            <Text style={styles.subtaskCount}>
+              {progress.completed}/{progress.total}
+            </Text>
+          )}
+        </View>
+
+        {progress && (
+          <View style={styles.priorityBar}>
+            <View style={[styles.priorityFill, styles.subtaskProgressFill, { width: `${Math.round(progress.ratio * 100)}%` }]} />
+          </View>
+        )}
+
+        {rows.map(({ task: subtask, depth }) => {
+          const siblings = descendants.filter((t) => t.parent_task_id === subtask.parent_task_id);
+          const index = siblings.findIndex((t) => t.id === subtask.id);
+          const isDone = subtask.status === 'completed';
+
+          return (
+            <View key={subtask.id} style={[styles.subtaskRow, { paddingLeft: depth * 20 }]}>
+              <Pressable onPress={() => handleSubtaskToggle(subtask)} style={styles.subtaskCheckbox}>
+                <Ionicons
+                  name={isDone ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={22}
+                  color={isDone ? '#34C759' : '#8E8E93'}
+                />
+              </Pressable>
+              <Pressable
+                style={styles.subtaskTitleContainer}
+                onPress={() => router.push(`/(task-details)/${subtask.id}?source=subtask`)}
+              >
+                <Text
+                  style={[
+                    styles.subtaskTitle,
+                    isDone && styles.subtaskTitleDone,
+                    subtask.status === 'cancelled' && styles.subtaskTitleDone,
+                  ]}
+                  numberOfLines={1}
+                >
+                  {subtask.title}
+                </Text>
+              </Pressable>
+              <Pressable
+                style={styles.subtaskMoveButton}
+                onPress={() => useTaskStore.getState().moveSubtask(subtask.id, -1)}
+                disabled={index === 0}
+              >
+                <Ionicons name="chevron-up" size={18} color={index === 0 ? '#D1D1D6' : '#8E8E93'} />
+              </Pressable>
+              <Pressable
+                style={styles.subtaskMoveButton}
+                onPress={() => useTaskStore.getState().moveSubtask(subtask.id, 1)}
+                disabled={index === siblings.length - 1}
+              >
+                <Ionicons name="chevron-down" size={18} color={index === siblings.length - 1 ? '#D1D1D6' : '#8E8E93'} />
+              </Pressable>
+            </View>
+          );
+        })}
+
+        <View style={styles.subtaskInputRow}>
+          <TextInput
+            style={styles.subtaskInput}
+            value={newSubtaskTitle}
+            onChangeText={setNewSubtaskTitle}
+            placeholder="Add a subtask"
+            placeholderTextColor="#8E8E93"
+            returnKeyType="done"
+            onSubmitEditing={handleAddSubtask}
+            maxLength={100}
+          />
+          <Pressable onPress={handleAddSubtask} disabled={!newSubtaskTitle.trim()}>
+            <Ionicons name="add-circle" size={28} color={newSubtaskTitle.trim() ? '#FF9F1C' : '#D1D1D6'} />
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  const confirmRevert = (entry: TaskActivity, description: string) => {
+    Alert.alert('Revert Change', `${description}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revert',
+        onPress: async () => {
+          const reverted = await useTaskStore.getState().revertActivity(entry);
+          if (!reverted) {
+            Alert.alert("Can't Revert", useTaskStore.getState().error ?? 'This change could not be reverted.');
+            return;
+          }
+          onTaskUpdated();
+        },
+      },
+    ]);
+  };
+
+  // Newest first, each with a button to undo just that change
+  const renderActivity = () => {
+    if (!task) return null;
+
+    const entries = activity
+      .filter((entry) => entry.task_id === task.id)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    const shown = showAllActivity ? entries : entries.slice(0, ACTIVITY_PREVIEW_COUNT);
+
+    return (
+      <View style={styles.subtaskSection}>
+        <View style={styles.subtaskHeader}>
+          <Text style={styles.sectionTitle}>Activity</Text>
+          {entries.length > ACTIVITY_PREVIEW_COUNT && (
+            <Pressable onPress={() => setShowAllActivity((value) => !value)}>
+              <Text style={styles.activityToggle}>{showAllActivity ? 'Show less' : `Show all ${entries.length}`}</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {entries.length === 0 && <Text style={styles.activityTime}>No changes yet</Text>}
+
+        {shown.map((entry) => {
+          const description = describeActivity(entry, { tags, lists, tasks: allTasks });
+          return (
+            <View key={entry.id} style={styles.activityRow}>
+              <View style={styles.activityContent}>
+                <Text style={styles.activityText}>{description}</Text>
+                <Text style={styles.activityTime}>
+                  {formatDistance(new Date(entry.created_at), new Date(), { addSuffix: true })}
+                </Text>
+              </View>
+              <Pressable style={styles.subtaskMoveButton} onPress={() => confirmRevert(entry, `Revert "${description}"`)}>
+                <Ionicons name="arrow-undo-outline" size={18} color="#8E8E93" />
+              </Pressable>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const formatConflictValue = (field: string, value: any): string => {
+    if (value === null || value === undefined || value === '') return 'Empty';
+    if (field === 'deadline' || field === 'recursion_end') {
+      return format(new Date(value), 'MMM d, yyyy h:mm a');
+    }
+    return String(value);
+  };
+
+  const handleResolveConflict = async () => {
+    if (!task) return;
+    await useTaskStore.getState().resolveConflict(task.id, conflictChoices);
+    onTaskUpdated();
+  };
+
+  const renderConflictPrompt = () => {
+    if (!conflict) return null;
+
+    return (
+      <Modal transparent animationType="fade" visible>
+        <View style={styles.conflictBackdrop}>
+          <View style={styles.conflictCard}>
+            <Text style={styles.conflictTitle}>Edited on another device</Text>
+            <Text style={styles.conflictSubtitle}>
+              These fields were changed here and somewhere else. Choose which version to keep.
+            </Text>
+            {conflict.fields.map(({ field, local, remote }) => (
+              <View key={field} style={styles.conflictField}>
+                <Text style={styles.conflictFieldName}>{field.replace(/_/g, ' ')}</Text>
+                {(['local', 'remote'] as ConflictChoice[]).map((choice) => (
+                  <Pressable
+                    key={choice}
+                    style={[
+                      styles.conflictOption,
+                      conflictChoices[field] === choice && styles.conflictOptionSelected,
+                    ]}
+                    onPress={() => setConflictChoices(prev => ({ ...prev, [field]: choice }))}
+                  >
+                    <Ionicons
+                      name={conflictChoices[field] === choice ? 'radio-button-on' : 'radio-button-off'}
+                      size={18}
+                      color={conflictChoices[field] === choice ? '#FF9F1C' : '#8E8E93'}
+                    />
+                    <View style={styles.conflictOptionContent}>
+                      <Text style={styles.conflictOptionLabel}>
+                        {choice === 'local' ? 'Keep mine' : 'Keep theirs'}
+                      </Text>
+                      <Text style={styles.conflictOptionValue} numberOfLines={2}>
+                        {formatConflictValue(field, choice === 'local' ? local : remote)}
+                      </Text>
+                    </View>
+                  </Pressable>
+                ))}
+              </View>
+            ))}
+            <Pressable style={[styles.button, styles.conflictButton]} onPress={handleResolveConflict}>
+              <Text style={styles.buttonText}>Apply</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
   const handleDeleteTask = async () => {
     if (!task) return;
     
@@ -262,10 +610,8 @@ export default function TaskDetailsScreen() {
     try {
       setSaving(true);
       
-      // Use the taskService deleteTask function
-      const { error } = await hardDeleteTask(task.id);
-      
-      if (error) throw error;
+      // Soft delete through the store, so the task can be undone or restored from the trash
+      await useTaskStore.getState().deleteTask(task.id);
       
       // Notify other components that a task was deleted
       onTaskDeleted();
@@ -302,12 +648,22 @@ export default function TaskDetailsScreen() {
 
   const isCompleted = task.status === 'completed';
   const isPastDue = task.deadline && new Date(task.deadline) < new Date();
+  const recurrenceRule = task.is_recursive ? parseRecurrenceRule(task.recurrence_rule) : null;
+  const upcomingOccurrences = recurrenceRule ? getUpcomingOccurrences(task) : [];
+  const priorityScore = isActionableTask(task) ? calculatePriorityScore(task, priorityWeights) : null;
+  const statusSummary = summarizeStatusHistory(
+    statusHistory.filter((change) => change.task_id === task.id),
+    task
+  );
+  const canComplete = canTransition(task.status, 'completed');
+  const focusSummary = getTaskFocusSummary(focusSessions, task.id);
 
   return (
     <ScrollView 
       style={[styles.container, { paddingTop: insets.top }]}
       showsVerticalScrollIndicator={false}
     >
+      {renderConflictPrompt()}
       <View style={styles.header}>
         <Pressable
           style={styles.backButton}
@@ -360,19 +716,22 @@ export default function TaskDetailsScreen() {
 
           <View style={styles.statusSection}>
             <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[task.status] }]}>
-              <Text style={styles.statusText}>{STATUS_LABELS[task.status]}</Text>
+              <Text style={styles.statusText}>{TASK_STATUS_LABELS[task.status]}</Text>
             </View>
             <Pressable
               style={styles.statusButton}
               onPress={() => {
+                // Only the statuses this one can change to; finished tasks must be reopened first
                 Alert.alert(
                   'Update Status',
                   'Select new status:',
-                  STATUSES.map(status => ({
-                    text: STATUS_LABELS[status],
-                    onPress: () => handleStatusChange(status),
-                    style: status === task.status ? 'cancel' : 'default',
-                  })),
+                  [
+                    ...STATUS_TRANSITIONS[task.status].map(status => ({
+                      text: status === 'ongoing' && !isOpenStatus(task.status) ? 'Reopen' : TASK_STATUS_LABELS[status],
+                      onPress: () => handleStatusChange(status),
+                    })),
+                    { text: 'Cancel', style: 'cancel' as const },
+                  ],
                   { cancelable: true }
                 );
               }}
@@ -423,6 +782,12 @@ export default function TaskDetailsScreen() {
           )}
         </View>
 
+        {renderTags()}
+
+        {renderLists()}
+
+        {renderSubtasks()}
+
         <View style={styles.metadataSection}>
           <Text style={styles.sectionTitle}>Details</Text>
 
@@ -451,6 +816,42 @@ export default function TaskDetailsScreen() {
               </View>
             )}
 
+            {recurrenceRule && (
+              <View style={styles.infoRow}>
+                <Ionicons name="repeat-outline" size={20} color="#8E8E93" />
+                <View style={styles.infoContent}>
+                  <Text style={styles.infoLabel}>Repeats</Text>
+                  <Text style={styles.infoValue}>{describeRecurrenceRule(recurrenceRule)}</Text>
+                  {task.recursion_count !== null && (
+                    <Text style={styles.infoSubtext}>
+                      {task.recursion_count === 1
+                        ? 'This is the last occurrence'
+                        : `${task.recursion_count - 1} more after this one`}
+                    </Text>
+                  )}
+                  {task.recursion_end && (
+                    <Text style={styles.infoSubtext}>
+                      Until {format(new Date(task.recursion_end), 'MMM d, yyyy')}
+                    </Text>
+                  )}
+                  {upcomingOccurrences.length > 0 && (
+                    <View style={styles.occurrenceList}>
+                      <Text style={styles.infoSubtext}>
+                        {recurrenceRule.frequency === 'after_completion'
+                          ? 'Next occurrences if completed on time'
+                          : 'Next occurrences'}
+                      </Text>
+                      {upcomingOccurrences.map((occurrence) => (
+                        <Text key={occurrence.toISOString()} style={styles.occurrenceText}>
+                          {format(occurrence, 'EEE, MMM d, yyyy')}
+                        </Text>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              </View>
+            )}
+
             <View style={styles.infoRow}>
               <Ionicons name="flag-outline" size={20} color="#8E8E93" />
               <View style={styles.infoContent}>
@@ -463,20 +864,20 @@ export default function TaskDetailsScreen() {
               </View>
             </View>
 
-            {calculatePriorityScore(task) !== undefined && (
+            {priorityScore !== null && (
               <View style={styles.infoRow}>
                 <Ionicons name="star-outline" size={20} color="#8E8E93" />
                 <View style={styles.priorityContainer}>
                   <Text style={styles.infoText}>
-                    Priority Score: {calculatePriorityScore(task)}/100
+                    Priority Score: {priorityScore}/100
                   </Text>
                   <View style={styles.priorityBar}>
                     <View 
                       style={[
                         styles.priorityFill, 
-                        { width: `${calculatePriorityScore(task)}%` },
-                        calculatePriorityScore(task) < 40 ? styles.lowPriority :
-                        calculatePriorityScore(task) < 70 ? styles.mediumPriority :
+                        { width: `${priorityScore}%` },
+                        priorityScore < 40 ? styles.lowPriority :
+                        priorityScore < 70 ? styles.mediumPriority :
                         styles.highPriority
                       ]} 
                     />
@@ -497,25 +898,71 @@ export default function TaskDetailsScreen() {
                 </Text>
               </View>
             </View>
+
+            {statusSummary.completedAt && (
+              <View style={styles.infoRow}>
+                <Ionicons name="checkmark-done-outline" size={20} color="#8E8E93" />
+                <View style={styles.infoContent}>
+                  <Text style={styles.infoLabel}>Completed</Text>
+                  <Text style={styles.infoValue}>
+                    {format(new Date(statusSummary.completedAt), 'MMM d, yyyy')}
+                  </Text>
+                  {statusSummary.cycleTimeMs !== null && (
+                    <Text style={styles.infoSubtext}>
+                      Took {formatCycleTime(statusSummary.cycleTimeMs)}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            )}
+
+            {focusSummary.focusedSeconds > 0 && (
+              <View style={styles.infoRow}>
+                <Ionicons name="timer-outline" size={20} color="#8E8E93" />
+                <View style={styles.infoContent}>
+                  <Text style={styles.infoLabel}>Focused</Text>
+                  <Text style={styles.infoValue}>{formatFocusTime(focusSummary.focusedSeconds)}</Text>
+                  {focusSummary.pomodoros > 0 && (
+                    <Text style={styles.infoSubtext}>
+                      {focusSummary.pomodoros} pomodoro{focusSummary.pomodoros === 1 ? '' : 's'}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            )}
+
+            {statusSummary.reopenCount > 0 && (
+              <View style={styles.infoRow}>
+                <Ionicons name="refresh-outline" size={20} color="#8E8E93" />
+                <View style={styles.infoContent}>
+                  <Text style={styles.infoLabel}>Reopened</Text>
+                  <Text style={styles.infoValue}>
+                    {statusSummary.reopenCount} time{statusSummary.reopenCount === 1 ? '' : 's'}
+                  </Text>
+                </View>
+              </View>
+            )}
           </View>
         </View>
 
+        {renderActivity()}
+
         {/* Action Buttons */}
         <View style={styles.actionButtons}>
           <TouchableOpacity 
             style={[
               styles.actionButton, 
-              isCompleted ? styles.disabledButton : styles.completeButton
+              canComplete ? styles.completeButton : styles.disabledButton
             ]}
             onPress={() => handleStatusChange('completed')}
-            disabled={isCompleted}
+            disabled={!canComplete}
           >
-            <Ionicons name="checkmark-circle-outline" size={22} color={isCompleted ? "#8E8E93" : "#FFF"} />
+            <Ionicons name="checkmark-circle-outline" size={22} color={canComplete ? "#FFF" : "#8E8E93"} />
             <Text style={[
               styles.actionButtonText, 
-              isCompleted ? styles.disabledButtonText : {}
+              canComplete ? {} : styles.disabledButtonText
             ]}>
-              {isCompleted ? 'Completed' : 'Mark Complete'}
+              {canComplete ? 'Mark Complete' : TASK_STATUS_LABELS[task.status]}
             </Text>
           </TouchableOpacity>
 
@@ -823,4 +1270,184 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
+  subtaskSection: {
+    marginBottom: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subtaskHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  subtaskCount: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  tagList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tagChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  tagChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  listChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  selectedListChip: {
+    borderColor: '#8E8E93',
+    backgroundColor: '#F2F2F7',
+  },
+  subtaskProgressFill: {
+    backgroundColor: '#34C759',
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  subtaskCheckbox: {
+    marginRight: 10,
+  },
+  subtaskTitleContainer: {
+    flex: 1,
+  },
+  subtaskTitle: {
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  subtaskTitleDone: {
+    color: '#8E8E93',
+    textDecorationLine: 'line-through',
+  },
+  subtaskMoveButton: {
+    padding: 4,
+  },
+  activityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  activityContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  activityText: {
+    fontSize: 15,
+    color: '#1C1C1E',
+  },
+  activityTime: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  activityToggle: {
+    fontSize: 14,
+    color: '#FF9F1C',
+    fontWeight: '500',
+  },
+  subtaskInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  subtaskInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1C1C1E',
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  occurrenceList: {
+    marginTop: 6,
+  },
+  occurrenceText: {
+    fontSize: 14,
+    color: '#3C3C43',
+    marginTop: 2,
+  },
+  conflictBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  conflictCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+  },
+  conflictTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  conflictSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  conflictField: {
+    marginBottom: 12,
+  },
+  conflictFieldName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    textTransform: 'capitalize',
+    marginBottom: 6,
+  },
+  conflictOption: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+    marginBottom: 6,
+  },
+  conflictOptionSelected: {
+    backgroundColor: '#FFF4E5',
+  },
+  conflictOptionContent: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  conflictOptionLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  conflictOptionValue: {
+    fontSize: 13,
+    color: '#3C3C43',
+    marginTop: 2,
+  },
+  conflictButton: {
+    alignItems: 'center',
+    marginTop: 4,
+  },
 });
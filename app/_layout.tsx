@@ -1,9 +1,16 @@
 import React, { useEffect } from 'react';
 import { Redirect, Stack, useNavigationContainerRef } from 'expo-router';
 import { useAuth } from '../lib/useAuth';
+import { useOutboxSync } from '../lib/useOutboxSync';
+import { useRealtimeSync } from '../lib/useRealtimeSync';
+import { useReminderNotifications } from '../lib/useReminderNotifications';
+import { useUndoShortcuts } from '../lib/useUndoShortcuts';
+import { useTrashPurge } from '../lib/useTrashPurge';
+import { useFocusTimerSync } from '../lib/useFocusTimerSync';
 import { StoreProvider } from '../lib/store/StoreContext';
 import { TaskEntryProvider, useTaskEntry } from '../contexts/TaskEntryContext';
 import { TaskEntryBottomSheet } from '../components/TaskEntryBottomSheet';
+import { UndoSnackbar } from '../components/UndoSnackbar';
 import { ThemeProvider } from '../contexts/ThemeContext';
 import useLanguageStore from '@/store/languageStore';
 import i18n from '@/i18n/i18n';
@@ -46,11 +53,22 @@ Sentry.init({
 function AppWithTaskEntry() {
   const { isTaskEntryVisible, hideTaskEntry, onTaskAdded } = useTaskEntry();
 
+  // Replay task changes made offline
+  useOutboxSync();
+  // Stream changes from other devices
+  useRealtimeSync();
+  useReminderNotifications();
+  useTrashPurge();
+  // Keep a running pomodoro moving while the focus view is closed
+  useFocusTimerSync();
+  useUndoShortcuts();
+
   return (
     <>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="(tabs)" />
         <Stack.Screen name="(task-details)" />
+        <Stack.Screen name="(search)" />
         <Stack.Screen name="(settings)" />
         <Stack.Screen name="profile" />
         <Stack.Screen name="(auth)" />
@@ -65,6 +83,8 @@ function AppWithTaskEntry() {
           hideTaskEntry();
         }}
       />
+
+      <UndoSnackbar />
     </>
   );
 }
@@ -7,6 +7,7 @@ import { format, isAfter, startOfDay } from 'date-fns';
 import { AnimatedCircularProgress } from 'react-native-circular-progress';
 import { DatePicker } from '@/components/DatePicker';
 import { useTaskStore, Task, TaskStatus } from '@/store/taskStore';
+import { isOpenStatus, STATUS_TRANSITIONS, TASK_STATUS_LABELS } from '@/lib/utils/taskStatus';
 
 interface EditableFields {
   title: boolean;
@@ -17,21 +18,13 @@ interface EditableFields {
   difficulty: boolean;
 }
 
-const STATUS_COLORS = {
+const STATUS_COLORS: Record<TaskStatus, string> = {
   ongoing: '#007AFF',
   inprogress: '#FF9F1C',
   cancelled: '#FF3B30',
   completed: '#34C759',
 };
 
-const STATUS_LABELS = {
-  ongoing: 'Ongoing',
-  inprogress: 'In Process',
-  cancelled: 'Cancelled',
-  completed: 'Completed',
-};
-
-const STATUSES = Object.keys(STATUS_LABELS) as TaskStatus[];
 
 export default function TaskDetailsScreen() {
   const insets = useSafeAreaInsets();
@@ -209,7 +202,7 @@ export default function TaskDetailsScreen() {
 
           <View style={styles.statusSection}>
             <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[task.status] }]}>
-              <Text style={styles.statusText}>{STATUS_LABELS[task.status]}</Text>
+              <Text style={styles.statusText}>{TASK_STATUS_LABELS[task.status]}</Text>
             </View>
             <Pressable
               style={styles.statusButton}
@@ -217,11 +210,13 @@ export default function TaskDetailsScreen() {
                 Alert.alert(
                   'Update Status',
                   'Select new status:',
-                  STATUSES.map(status => ({
-                    text: STATUS_LABELS[status],
-                    onPress: () => handleStatusChange(status),
-                    style: status === task.status ? 'cancel' : 'default',
-                  })),
+                  [
+                    ...STATUS_TRANSITIONS[task.status].map(status => ({
+                      text: status === 'ongoing' && !isOpenStatus(task.status) ? 'Reopen' : TASK_STATUS_LABELS[status],
+                      onPress: () => handleStatusChange(status),
+                    })),
+                    { text: 'Cancel', style: 'cancel' as const },
+                  ],
                   { cancelable: true }
                 );
               }}
@@ -1,33 +1,66 @@
 import React from 'react';
-import { View, Text, TouchableOpacity } from 'react-native';
+import { View, Text, TouchableOpacity, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { FocusTaskView } from './FocusTaskView';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTranslation } from 'react-i18next';
 import { featuredTaskCardStyles, featureCardColors } from '@/lib/styles/featured-task-card';
+import type { Task } from '@/store/taskStore';
+import type { PriorityFactor, PriorityReason } from '@/lib/utils/priority';
 
 interface FeaturedTaskCardProps {
-  taskTitle: string;
-  taskDescription: string;
+  // The top-ranked task, or null when there is nothing left to recommend
+  task: Task | null;
+  score: number;
+  reasons: PriorityReason[];
   categories: string[];
-  deadline: Date;
+  onPress: () => void;
   onFocusPress: () => void;
+  onSkipPress: () => void;
+  onNotTodayPress: () => void;
 }
 
+const REASON_ICONS: Record<PriorityFactor, string> = {
+  deadline: 'time-outline',
+  priority: 'flag-outline',
+  value: 'trophy-outline',
+  difficulty: 'leaf-outline',
+};
+
 const FeaturedTaskCard: React.FC<FeaturedTaskCardProps> = ({
-  taskTitle,
-  taskDescription,
+  task,
+  score,
+  reasons,
   categories,
-  deadline,
+  onPress,
   onFocusPress,
+  onSkipPress,
+  onNotTodayPress,
 }) => {
   const [showFocusView, setShowFocusView] = React.useState(false);
-  const truncatedDescription = taskDescription.length > 80 
-    ? taskDescription.substring(0, 80) + '...' 
+  const { t } = useTranslation();
+
+  if (!task) {
+    return (
+      <LinearGradient
+        colors={['#1A2151', '#1B3976', '#2C5F9B']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={featuredTaskCardStyles.cardContainer}
+      >
+        <Text style={featuredTaskCardStyles.featuredLabel}>{t('task.featured_task')}</Text>
+        <Text style={featuredTaskCardStyles.taskTitle}>{t('task.all_caught_up')}</Text>
+        <Text style={featuredTaskCardStyles.emptyText}>{t('task.all_caught_up_description')}</Text>
+      </LinearGradient>
+    );
+  }
+
+  const taskDescription = task.description ?? '';
+  const truncatedDescription = taskDescription.length > 80
+    ? taskDescription.substring(0, 80) + '...'
     : taskDescription;
   const visibleCategories = categories.slice(0, 3);
-  const { t } = useTranslation();
 
   const handleFocusPress = () => {
     setShowFocusView(true);
@@ -42,40 +75,67 @@ const FeaturedTaskCard: React.FC<FeaturedTaskCardProps> = ({
         end={{ x: 1, y: 1 }}
         style={featuredTaskCardStyles.cardContainer}
       >
-        <View style={featuredTaskCardStyles.header}>
+        <Pressable style={featuredTaskCardStyles.header} onPress={onPress}>
           <View style={featuredTaskCardStyles.headerLeft}>
             <Text style={featuredTaskCardStyles.featuredLabel}>{t('task.featured_task')}</Text>
-            <Text style={featuredTaskCardStyles.taskTitle}>{taskTitle}</Text>
+            <Text style={featuredTaskCardStyles.taskTitle}>{task.title}</Text>
           </View>
           <View style={featuredTaskCardStyles.priorityBadge}>
             <Ionicons name="star" size={12} color={featureCardColors.accent} />
-            <Text style={featuredTaskCardStyles.priorityText}>{t('task.priority')}</Text>
+            <Text style={featuredTaskCardStyles.priorityText}>{score}</Text>
           </View>
-        </View>
+        </Pressable>
 
-        <Text style={featuredTaskCardStyles.taskDescription}>{truncatedDescription}</Text>
+        {truncatedDescription !== '' && (
+          <Text style={featuredTaskCardStyles.taskDescription}>{truncatedDescription}</Text>
+        )}
 
-        <View style={featuredTaskCardStyles.categoriesContainer}>
-          {visibleCategories.map((category, index) => (
-            <View key={index} style={featuredTaskCardStyles.categoryBadge}>
-              <Text style={featuredTaskCardStyles.categoryText}>{category}</Text>
+        {reasons.length > 0 && (
+          <>
+            <Text style={featuredTaskCardStyles.reasonsLabel}>{t('task.why_this_task')}</Text>
+            <View style={featuredTaskCardStyles.reasonsContainer}>
+              {reasons.map((reason) => (
+                <View key={reason.factor} style={featuredTaskCardStyles.reasonBadge}>
+                  <Ionicons name={REASON_ICONS[reason.factor] as any} size={12} color={featureCardColors.accent} />
+                  <Text style={featuredTaskCardStyles.reasonText}>{t(`priority_reasons.${reason.key}`)}</Text>
+                </View>
+              ))}
             </View>
-          ))}
-        </View>
+          </>
+        )}
+
+        {visibleCategories.length > 0 && (
+          <View style={featuredTaskCardStyles.categoriesContainer}>
+            {visibleCategories.map((category, index) => (
+              <View key={index} style={featuredTaskCardStyles.categoryBadge}>
+                <Text style={featuredTaskCardStyles.categoryText}>{category}</Text>
+              </View>
+            ))}
+          </View>
+        )}
 
         <View style={featuredTaskCardStyles.footer}>
           <View style={featuredTaskCardStyles.deadlineContainer}>
             <Ionicons name="calendar-outline" size={16} color={featureCardColors.text.secondary} />
             <Text style={featuredTaskCardStyles.deadlineText}>
-              {format(deadline, 'MMM d, yyyy')}
+              {task.deadline ? format(new Date(task.deadline), 'MMM d, yyyy') : t('task.no_deadline')}
             </Text>
           </View>
-          <TouchableOpacity 
-            style={featuredTaskCardStyles.focusButton} 
+          <TouchableOpacity
+            style={featuredTaskCardStyles.focusButton}
             onPress={handleFocusPress}
           >
             <Ionicons name="flash-outline" size={16} color={featureCardColors.accent} />
-            <Text style={featuredTaskCardStyles.focusButtonText}>{t('common.focus')}</Text>
+            <Text style={featuredTaskCardStyles.focusButtonText}>{t('task.start_focus')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={featuredTaskCardStyles.actionsRow}>
+          <TouchableOpacity style={featuredTaskCardStyles.secondaryButton} onPress={onSkipPress}>
+            <Text style={featuredTaskCardStyles.secondaryButtonText}>{t('task.skip_for_now')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={featuredTaskCardStyles.secondaryButton} onPress={onNotTodayPress}>
+            <Text style={featuredTaskCardStyles.secondaryButtonText}>{t('task.not_today')}</Text>
           </TouchableOpacity>
         </View>
       </LinearGradient>
@@ -84,7 +144,8 @@ const FeaturedTaskCard: React.FC<FeaturedTaskCardProps> = ({
         visible={showFocusView}
         onClose={() => setShowFocusView(false)}
         task={{
-          title: taskTitle,
+          id: task.id,
+          title: task.title,
           description: taskDescription,
         }}
       />
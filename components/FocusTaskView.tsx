@@ -24,18 +24,25 @@ import Svg, { Circle, Line } from 'react-native-svg';
 import { useTheme } from '../contexts/ThemeContext';
 import { Audio } from 'expo-av';
 import { focusTaskViewStyles, focusViewColors } from '@/lib/styles/focus-task-view';
+import useFocusTimerStore from '@/store/focusTimerStore';
+import {
+  PHASE_LABELS,
+  POMODORO_DURATIONS_MS,
+  getElapsedMs,
+  getRemainingMs,
+  isRunning as isClockRunning,
+} from '@/lib/utils/focusTimer';
 
 interface FocusTaskViewProps {
   visible: boolean;
   onClose: () => void;
   task: {
+    id: string;
     title: string;
     description: string;
   };
 }
 
-type Mode = 'pomo' | 'stopwatch';
-
 const formatTime = (totalSeconds: number) => {
   const hours = Math.floor(totalSeconds / 3600);
   const minutes = Math.floor((totalSeconds % 3600) / 60);
@@ -53,28 +60,21 @@ const { width } = Dimensions.get('window');
 
 export function FocusTaskView({ visible, onClose, task }: FocusTaskViewProps) {
   const insets = useSafeAreaInsets();
-  const [mode, setMode] = useState<Mode>('pomo');
-  const [isRunning, setIsRunning] = useState(false);
-  const [time, setTime] = useState(25 * 60); // Default 25 minutes for Pomodoro
-  const [totalTime, setTotalTime] = useState(25 * 60); // Keep track of total time for progress
-  const [sessionCount, setSessionCount] = useState(0);
-  const [isBreak, setIsBreak] = useState(false);
-  const [workDuration, setWorkDuration] = useState(25 * 60);
-  const [shortBreakDuration, setShortBreakDuration] = useState(5 * 60);
-  const [longBreakDuration, setLongBreakDuration] = useState(15 * 60);
-  const maxSessionsBeforeLongBreak = 4;
+  const timerTask = useFocusTimerStore((state) => state.task);
+  const mode = useFocusTimerStore((state) => state.mode);
+  const pomodoro = useFocusTimerStore((state) => state.pomodoro);
+  const stopwatch = useFocusTimerStore((state) => state.stopwatch);
+  const { setMode, start, pause, reset } = useFocusTimerStore.getState();
   const [soundEnabled, setSoundEnabled] = useState(true);
-  
-  // Store separate state for pomo and stopwatch modes
-  const [pomoTime, setPomoTime] = useState(workDuration);
-  const [pomoTotalTime, setPomoTotalTime] = useState(workDuration);
-  const [stopwatchTime, setStopwatchTime] = useState(0);
-  const [stopwatchTotalTime, setStopwatchTotalTime] = useState(60);
-  
-  // Store separate progress values for each mode
-  const [pomoProgress, setPomoProgress] = useState(0);
-  const [stopwatchProgress, setStopwatchProgress] = useState(0);
-  
+
+  // The timer keeps its own start times; this only re-renders the clock
+  const [now, setNow] = useState(Date.now());
+  const clock = mode === 'pomo' ? pomodoro : stopwatch;
+  const isRunning = isClockRunning(clock);
+  const time = mode === 'pomo'
+    ? Math.ceil(getRemainingMs(pomodoro, now) / 1000)
+    : Math.floor(getElapsedMs(stopwatch, now) / 1000);
+
   // Sound reference and status
   const tickingSound = useRef<Audio.Sound | null>(null);
   const [soundLoaded, setSoundLoaded] = useState(false);
@@ -269,176 +269,53 @@ export function FocusTaskView({ visible, onClose, task }: FocusTaskViewProps) {
     }
   };
 
-  // Initialize the component once
+  // Point the timer at this task, unless it's running for another one
   useEffect(() => {
-    // Initial setup - only runs once when component mounts
-    setPomoTime(workDuration);
-    setPomoTotalTime(workDuration);
-    setStopwatchTime(0);
-    setStopwatchTotalTime(60);
-    setPomoProgress(0);
-    setStopwatchProgress(0);
-    
-    // Set initial values based on mode
-    if (mode === 'pomo') {
-      setTime(pomoTime);
-      setTotalTime(pomoTotalTime);
-      progress.value = pomoProgress;
-    } else {
-      setTime(stopwatchTime);
-      setTotalTime(stopwatchTotalTime);
-      progress.value = stopwatchProgress;
-    }
-    
-    // Update progress value
-    updateProgressValue();
-  }, []);
+    if (!visible) return;
+    useFocusTimerStore.getState().setTask({ id: task.id, title: task.title });
+    useFocusTimerStore.getState().sync();
+    setNow(Date.now());
+  }, [visible, task.id, task.title]);
 
-  // Handle closing the modal - reset all states
+  // Keep the clock moving on screen, catching up if the app was in the background
+  useEffect(() => {
+    if (!visible || !isRunning) return;
+    const interval = setInterval(() => {
+      useFocusTimerStore.getState().sync();
+      setNow(Date.now());
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [visible, isRunning]);
+
+  // Closing the view leaves the timer running; it's stopped with reset
   const handleClose = () => {
     // Stop sound when closing
     if (tickingSound.current && soundLoaded) {
       console.log('Stopping sound on close');
       tickingSound.current.stopAsync().catch(err => console.error('Error stopping sound', err));
     }
-    
-    // Reset all states before closing
-    setIsRunning(false);
-    setIsBreak(false);
-    setSessionCount(0);
-    setPomoTime(workDuration);
-    setPomoTotalTime(workDuration);
-    setStopwatchTime(0);
-    setStopwatchTotalTime(60);
-    setPomoProgress(0);
-    setStopwatchProgress(0);
-    progress.value = 0;
-    
-    // Call the original onClose
+
     onClose();
   };
 
-  // Update progress value based on current mode and time
-  const updateProgressValue = () => {
-    let newProgressValue = 0;
-    
-    if (mode === 'pomo') {
-      newProgressValue = 1 - time / totalTime;
-      setPomoProgress(newProgressValue);
-    } else if (mode === 'stopwatch') {
-      // For stopwatch, reset progress every minute
-      const secondsInCurrentMinute = time % 60;
-      newProgressValue = secondsInCurrentMinute / 60;
-      setStopwatchProgress(newProgressValue);
-    }
-    
+  // The pomodoro fills up as its period runs out; the stopwatch goes round once a minute
+  useEffect(() => {
+    const newProgressValue = mode === 'pomo'
+      ? getElapsedMs(pomodoro, now) / POMODORO_DURATIONS_MS[pomodoro.phase]
+      : (time % 60) / 60;
+
     // Use a shorter duration for smoother updates during active timing
     const animationDuration = isRunning ? 100 : 300;
-    progress.value = withTiming(newProgressValue, { duration: animationDuration });
-  };
+    progress.value = withTiming(Math.min(1, newProgressValue), { duration: animationDuration });
+  }, [mode, pomodoro, time, now, isRunning, progress]);
 
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
+  const handleStartStop = () => {
     if (isRunning) {
-      interval = setInterval(() => {
-        setTime((prev) => {
-          const newTime = mode === 'stopwatch' ? prev + 1 : prev - 1;
-          
-          // Update the mode-specific time state
-          if (mode === 'pomo') {
-            setPomoTime(newTime);
-          } else {
-            setStopwatchTime(newTime);
-          }
-          
-          return newTime;
-        });
-      }, 1000);
-    }
-    return () => clearInterval(interval);
-  }, [isRunning, mode]);
-
-  // Handle mode toggle without resetting the clock
-  useEffect(() => {
-    // Stop the timer when switching modes
-    setIsRunning(false);
-    
-    // Switch to the appropriate saved state
-    if (mode === 'pomo') {
-      setTime(pomoTime);
-      setTotalTime(pomoTotalTime);
-      
-      // Calculate and apply the correct progress angle based on current time
-      const newProgress = 1 - pomoTime / pomoTotalTime;
-      setPomoProgress(newProgress);
-      progress.value = withTiming(newProgress, { duration: 300 });
+      pause();
     } else {
-      setTime(stopwatchTime);
-      setTotalTime(stopwatchTotalTime);
-      
-      // Calculate and apply the correct progress angle based on current time
-      const secondsInCurrentMinute = stopwatchTime % 60;
-      const newProgress = secondsInCurrentMinute / 60;
-      setStopwatchProgress(newProgress);
-      progress.value = withTiming(newProgress, { duration: 300 });
+      start();
     }
-  }, [mode]);
-
-  useEffect(() => {
-    // Update progress for circle
-    updateProgressValue();
-    
-    // Handle completion of timer
-    if (isRunning && time === 0 && mode === 'pomo') {
-      if (!isBreak) {
-        setSessionCount((prev) => prev + 1);
-        if (sessionCount + 1 < maxSessionsBeforeLongBreak) {
-          setIsBreak(true);
-          const newTime = shortBreakDuration;
-          setTime(newTime);
-          setPomoTime(newTime);
-          const newTotalTime = shortBreakDuration;
-          setTotalTime(newTotalTime);
-          setPomoTotalTime(newTotalTime);
-          // Reset progress for new break session
-          const newProgress = 0;
-          setPomoProgress(newProgress);
-          progress.value = newProgress;
-        } else {
-          setIsBreak(true);
-          setSessionCount(0);
-          const newTime = longBreakDuration;
-          setTime(newTime);
-          setPomoTime(newTime);
-          const newTotalTime = longBreakDuration;
-          setTotalTime(newTotalTime);
-          setPomoTotalTime(newTotalTime);
-          // Reset progress for new break session
-          const newProgress = 0;
-          setPomoProgress(newProgress);
-          progress.value = newProgress;
-        }
-      } else {
-        setIsBreak(false);
-        const newTime = workDuration;
-        setTime(newTime);
-        setPomoTime(newTime);
-        const newTotalTime = workDuration;
-        setTotalTime(newTotalTime);
-        setPomoTotalTime(newTotalTime);
-        // Reset progress for new work session
-        const newProgress = 0;
-        setPomoProgress(newProgress);
-        progress.value = newProgress;
-      }
-    }
-  }, [time, isRunning, mode, sessionCount, isBreak]);
-
-  const handleStartStop = () => {
-    if (mode === 'pomo' && time === 0) {
-      return; // Prevent starting when timer is at 0
-    }
-    setIsRunning(!isRunning);
+    setNow(Date.now());
   };
 
   const handleReset = () => {
@@ -446,34 +323,9 @@ export function FocusTaskView({ visible, onClose, task }: FocusTaskViewProps) {
     if (tickingSound.current && isRunning) {
       tickingSound.current.pauseAsync();
     }
-    
-    setIsRunning(false);
-    
-    if (mode === 'pomo') {
-      setIsBreak(false);
-      setSessionCount(0);
-      const newTime = workDuration;
-      setTime(newTime);
-      setPomoTime(newTime);
-      const newTotalTime = workDuration;
-      setTotalTime(newTotalTime);
-      setPomoTotalTime(newTotalTime);
-      // Reset progress for pomo mode
-      const newProgress = 0;
-      setPomoProgress(newProgress);
-      progress.value = newProgress;
-    } else {
-      const newTime = 0;
-      setTime(newTime);
-      setStopwatchTime(newTime);
-      const newTotalTime = 60;
-      setTotalTime(newTotalTime);
-      setStopwatchTotalTime(newTotalTime);
-      // Reset progress for stopwatch mode
-      const newProgress = 0;
-      setStopwatchProgress(newProgress);
-      progress.value = newProgress;
-    }
+
+    reset();
+    setNow(Date.now());
   };
 
   return (
@@ -537,7 +389,7 @@ export function FocusTaskView({ visible, onClose, task }: FocusTaskViewProps) {
         </View>
 
         {/* Task Title */}
-        <Text style={[focusTaskViewStyles.taskTitle, { color: theme.subText }]}>{task.title}</Text>
+        <Text style={[focusTaskViewStyles.taskTitle, { color: theme.subText }]}>{(timerTask ?? task).title}</Text>
 
         {/* Circle Timer */}
         <View style={focusTaskViewStyles.clockSection}>
@@ -591,9 +443,7 @@ export function FocusTaskView({ visible, onClose, task }: FocusTaskViewProps) {
             <View style={focusTaskViewStyles.clockTextContainer}>
               <Text style={[focusTaskViewStyles.clockText, { color: theme.text }]}>{formatTime(time)}</Text>
               <Text style={[focusTaskViewStyles.statusText, { color: theme.subText }]}>
-                {mode === 'pomo' ? 
-                  (isBreak ? (sessionCount === maxSessionsBeforeLongBreak - 1 ? 'Long Break' : 'Short Break') : 'Focus Time') : 
-                  'Elapsed Time'}
+                {mode === 'pomo' ? PHASE_LABELS[pomodoro.phase] : 'Elapsed Time'}
               </Text>
             </View>
           </View>
@@ -0,0 +1,283 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { format } from 'date-fns';
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  Weekday,
+  describeRecurrenceRule,
+} from '../lib/utils/recurrence';
+import { recurrenceRuleEditorStyles as styles } from '../lib/styles/recurrence-rule-editor';
+import { taskEntryColors } from '../lib/styles/task-entry-bottom-sheet';
+
+// A rule together with the limits that end the series
+export interface RecurrenceSettings {
+  rule: RecurrenceRule;
+  count: number | null;
+  until: Date | null;
+}
+
+interface RecurrenceRuleEditorProps {
+  visible: boolean;
+  value: RecurrenceSettings | null;
+  // First occurrence, used to preselect weekdays and the week of the month
+  anchorDate: Date;
+  onSave: (value: RecurrenceSettings | null) => void;
+  onClose: () => void;
+}
+
+type EndMode = 'never' | 'count' | 'until';
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'after_completion', label: 'After completion' },
+];
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  after_completion: 'day',
+};
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const MONTH_WEEK_OPTIONS = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+// Week of the month the anchor date falls in, treating a fifth week as the last one
+const getMonthWeek = (date: Date): number => {
+  const week = Math.ceil(date.getDate() / 7);
+  return week > 4 ? -1 : week;
+};
+
+export function RecurrenceRuleEditor({ visible, value, anchorDate, onSave, onClose }: RecurrenceRuleEditorProps) {
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('daily');
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+  const [monthWeek, setMonthWeek] = useState(1);
+  const [monthWeekday, setMonthWeekday] = useState<Weekday>(0);
+  const [endMode, setEndMode] = useState<EndMode>('never');
+  const [count, setCount] = useState(5);
+  const [until, setUntil] = useState<Date>(new Date());
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  // Read through a ref so a parent re-rendering doesn't reset edits while open
+  const latest = useRef({ value, anchorDate });
+  latest.current = { value, anchorDate };
+
+  // Load the current settings, or defaults derived from the anchor date, when opened
+  useEffect(() => {
+    if (!visible) return;
+
+    const { value, anchorDate } = latest.current;
+    const anchorWeekday = anchorDate.getDay() as Weekday;
+    const rule = value?.rule;
+
+    setFrequency(rule?.frequency ?? 'daily');
+    setRepeatInterval(rule?.interval ?? 1);
+    setWeekdays(rule?.weekdays?.length ? rule.weekdays : [anchorWeekday]);
+    setMonthWeek(rule?.monthWeek ?? getMonthWeek(anchorDate));
+    setMonthWeekday(rule?.monthWeekday ?? anchorWeekday);
+    setEndMode(value?.until ? 'until' : value?.count ? 'count' : 'never');
+    setCount(value?.count ?? 5);
+    setUntil(value?.until ?? new Date(anchorDate.getTime() + 30 * 24 * 60 * 60 * 1000));
+    setShowUntilPicker(false);
+  }, [visible]);
+
+  const buildRule = (): RecurrenceRule => {
+    switch (frequency) {
+      case 'weekly':
+        return { frequency, interval: repeatInterval, weekdays };
+      case 'monthly':
+        return { frequency, interval: repeatInterval, monthWeek, monthWeekday };
+      default:
+        return { frequency, interval: repeatInterval };
+    }
+  };
+
+  const handleDone = () => {
+    onSave({
+      rule: buildRule(),
+      count: endMode === 'count' ? count : null,
+      until: endMode === 'until' ? until : null,
+    });
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    if (weekdays.includes(day)) {
+      // Keep at least one day selected
+      if (weekdays.length > 1) {
+        setWeekdays(weekdays.filter((d) => d !== day));
+      }
+    } else {
+      setWeekdays([...weekdays, day]);
+    }
+  };
+
+  const handleUntilChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowUntilPicker(false);
+    }
+    if (event.type !== 'dismissed' && selectedDate) {
+      setUntil(selectedDate);
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (current: number, onChange: (next: number) => void, label: string) => (
+    <View style={styles.stepperRow}>
+      <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(Math.max(1, current - 1))}>
+        <Ionicons name="remove" size={18} color={taskEntryColors.text.secondary} />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{current}</Text>
+      <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(current + 1)}>
+        <Ionicons name="add" size={18} color={taskEntryColors.text.secondary} />
+      </TouchableOpacity>
+      <Text style={styles.stepperLabel}>{label}</Text>
+    </View>
+  );
+
+  const renderWeekdayPicker = (isSelected: (day: Weekday) => boolean, onPress: (day: Weekday) => void) => (
+    <View style={styles.weekdayRow}>
+      {WEEKDAY_LABELS.map((label, index) => {
+        const day = index as Weekday;
+        const selected = isSelected(day);
+        return (
+          <TouchableOpacity
+            key={index}
+            style={[styles.weekday, selected && styles.weekdaySelected]}
+            onPress={() => onPress(day)}
+          >
+            <Text style={[styles.weekdayText, selected && styles.weekdayTextSelected]}>{label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const unit = INTERVAL_UNITS[frequency];
+
+  return (
+    <Modal transparent visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <TouchableOpacity style={{ flex: 1 }} activeOpacity={1} onPress={onClose} />
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Repeat</Text>
+            <TouchableOpacity onPress={handleDone}>
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            <Text style={styles.summary}>{describeRecurrenceRule(buildRule())}</Text>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Frequency</Text>
+              <View style={styles.chipRow}>
+                {FREQUENCY_OPTIONS.map((option) =>
+                  renderChip(option.value, option.label, frequency === option.value, () => setFrequency(option.value))
+                )}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>
+                {frequency === 'after_completion' ? 'Repeat after' : 'Every'}
+              </Text>
+              {renderStepper(repeatInterval, setRepeatInterval, repeatInterval === 1 ? unit : `${unit}s`)}
+            </View>
+
+            {frequency === 'weekly' && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>On</Text>
+                {renderWeekdayPicker((day) => weekdays.includes(day), toggleWeekday)}
+              </View>
+            )}
+
+            {frequency === 'monthly' && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>On the</Text>
+                <View style={[styles.chipRow, { marginBottom: 12 }]}>
+                  {MONTH_WEEK_OPTIONS.map((option) =>
+                    renderChip(String(option.value), option.label, monthWeek === option.value, () => setMonthWeek(option.value))
+                  )}
+                </View>
+                {renderWeekdayPicker((day) => day === monthWeekday, setMonthWeekday)}
+              </View>
+            )}
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Ends</Text>
+              <View style={styles.chipRow}>
+                {renderChip('never', 'Never', endMode === 'never', () => setEndMode('never'))}
+                {renderChip('count', 'After', endMode === 'count', () => setEndMode('count'))}
+                {renderChip('until', 'On date', endMode === 'until', () => {
+                  setEndMode('until');
+                  setShowUntilPicker(true);
+                })}
+              </View>
+
+              {endMode === 'count' && (
+                <View style={styles.section}>
+                  {renderStepper(count, setCount, count === 1 ? 'time' : 'times')}
+                </View>
+              )}
+
+              {endMode === 'until' && (
+                <TouchableOpacity onPress={() => setShowUntilPicker(true)}>
+                  <Text style={styles.endValue}>{format(until, 'MMM d, yyyy')}</Text>
+                </TouchableOpacity>
+              )}
+
+              {endMode === 'until' && showUntilPicker && (
+                <DateTimePicker
+                  value={until}
+                  mode="date"
+                  minimumDate={anchorDate}
+                  display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                  onChange={handleUntilChange}
+                  themeVariant="light"
+                />
+              )}
+            </View>
+
+            {value && (
+              <TouchableOpacity style={styles.clearButton} onPress={() => onSave(null)}>
+                <Text style={styles.clearButtonText}>Don't repeat</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
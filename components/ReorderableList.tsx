@@ -0,0 +1,116 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, Animated } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+
+interface ReorderableListProps<T> {
+  items: T[];
+  keyExtractor: (item: T) => string;
+  // Every row must be this tall for drop positions to line up
+  rowHeight: number;
+  // The drag handle is passed in so each row decides where it goes
+  renderItem: (item: T, dragHandle: React.ReactNode) => React.ReactNode;
+  onReorder: (keys: string[]) => void;
+}
+
+/**
+ * A plain list whose rows can be dragged into a new order by their handle.
+ * Rows between the dragged row and its drop position slide out of the way
+ * while dragging; the new order is reported once the row is dropped.
+ */
+export function ReorderableList<T>({ items, keyExtractor, rowHeight, renderItem, onReorder }: ReorderableListProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const dragY = useRef(new Animated.Value(0)).current;
+
+  // Gestures outlive renders while a drag is active, so read props through a ref
+  const latest = useRef({ items, keyExtractor, onReorder });
+  latest.current = { items, keyExtractor, onReorder };
+
+  const gestures = useMemo(() => {
+    const getTargetIndex = (index: number, translationY: number) =>
+      Math.max(0, Math.min(latest.current.items.length - 1, index + Math.round(translationY / rowHeight)));
+
+    return Array.from({ length: items.length }, (_, index) =>
+      Gesture.Pan()
+        .onStart(() => {
+          dragY.setValue(0);
+          setDragIndex(index);
+          setHoverIndex(index);
+        })
+        .onUpdate((event) => {
+          dragY.setValue(event.translationY);
+          setHoverIndex(getTargetIndex(index, event.translationY));
+        })
+        .onEnd((event) => {
+          const target = getTargetIndex(index, event.translationY);
+          if (target === index) return;
+
+          const keys = latest.current.items.map(latest.current.keyExtractor);
+          const [moved] = keys.splice(index, 1);
+          keys.splice(target, 0, moved);
+          latest.current.onReorder(keys);
+        })
+        .onFinalize(() => {
+          setDragIndex(null);
+          setHoverIndex(null);
+          dragY.setValue(0);
+        })
+        .runOnJS(true)
+    );
+  }, [items.length, rowHeight, dragY]);
+
+  // How far a row moves aside for the dragged one
+  const getOffset = (index: number) => {
+    if (dragIndex === null || hoverIndex === null) return 0;
+    if (dragIndex < hoverIndex && index > dragIndex && index <= hoverIndex) return -rowHeight;
+    if (dragIndex > hoverIndex && index < dragIndex && index >= hoverIndex) return rowHeight;
+    return 0;
+  };
+
+  return (
+    <GestureHandlerRootView>
+      {items.map((item, index) => {
+        const isDragging = index === dragIndex;
+        const dragHandle = (
+          <GestureDetector gesture={gestures[index]}>
+            <View style={styles.handle} accessibilityLabel="Drag to reorder">
+              <Ionicons name="reorder-three" size={24} color="#C7C7CC" />
+            </View>
+          </GestureDetector>
+        );
+
+        return (
+          <Animated.View
+            key={keyExtractor(item)}
+            style={[
+              { height: rowHeight },
+              isDragging
+                ? [styles.dragging, { transform: [{ translateY: dragY }] }]
+                : { transform: [{ translateY: getOffset(index) }] },
+            ]}
+          >
+            {renderItem(item, dragHandle)}
+          </Animated.View>
+        );
+      })}
+    </GestureHandlerRootView>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    paddingHorizontal: 8,
+    justifyContent: 'center',
+    alignSelf: 'stretch',
+  },
+  dragging: {
+    zIndex: 1,
+    backgroundColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+});
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTaskStore } from '../store/taskStore';
+import { DEFAULT_TAG_COLOR, findTagByName, normalizeTagName, sortTagsByName, TAG_COLORS } from '../lib/utils/tags';
+import { tagPickerStyles as styles } from '../lib/styles/tag-picker';
+import { taskEntryColors } from '../lib/styles/task-entry-bottom-sheet';
+
+interface TagPickerProps {
+  visible: boolean;
+  selectedTagIds: string[];
+  // Called on every change, with the full selection
+  onChange: (tagIds: string[]) => void;
+  onClose: () => void;
+}
+
+export function TagPicker({ visible, selectedTagIds, onChange, onClose }: TagPickerProps) {
+  const tags = useTaskStore((state) => state.tags);
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState(DEFAULT_TAG_COLOR);
+
+  const sortedTags = useMemo(() => sortTagsByName(tags), [tags]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setNewTagName('');
+    setNewTagColor(DEFAULT_TAG_COLOR);
+  }, [visible]);
+
+  const toggleTag = (tagId: string) => {
+    onChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter((id) => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+  };
+
+  const handleCreate = async () => {
+    const name = normalizeTagName(newTagName);
+    if (!name) return;
+
+    // Typing the name of an existing tag selects it rather than adding a duplicate
+    const existing = findTagByName(tags, name);
+    const tag = existing ?? (await useTaskStore.getState().addTag({ name, color: newTagColor }));
+    if (!tag) return;
+
+    if (!selectedTagIds.includes(tag.id)) {
+      onChange([...selectedTagIds, tag.id]);
+    }
+    setNewTagName('');
+  };
+
+  return (
+    <Modal transparent visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <TouchableOpacity style={{ flex: 1 }} activeOpacity={1} onPress={onClose} />
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View style={{ width: 40 }} />
+            <Text style={styles.headerTitle}>Tags</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <Text style={styles.sectionTitle}>New tag</Text>
+            <View style={styles.createRow}>
+              <View style={[styles.colorDot, { backgroundColor: newTagColor }]} />
+              <TextInput
+                style={styles.createInput}
+                value={newTagName}
+                onChangeText={setNewTagName}
+                placeholder="Tag name"
+                placeholderTextColor={taskEntryColors.placeholder}
+                returnKeyType="done"
+                onSubmitEditing={handleCreate}
+                maxLength={40}
+              />
+              <TouchableOpacity onPress={handleCreate} disabled={!newTagName.trim()}>
+                <Ionicons
+                  name="add-circle"
+                  size={26}
+                  color={newTagName.trim() ? taskEntryColors.primary : taskEntryColors.text.disabled}
+                />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.colorRow}>
+              {TAG_COLORS.map((color) => (
+                <TouchableOpacity
+                  key={color}
+                  style={[
+                    styles.colorSwatch,
+                    { backgroundColor: color },
+                    newTagColor === color && styles.colorSwatchSelected,
+                  ]}
+                  onPress={() => setNewTagColor(color)}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Your tags</Text>
+            {sortedTags.length === 0 ? (
+              <Text style={styles.emptyText}>No tags yet</Text>
+            ) : (
+              <View style={styles.tagRow}>
+                {sortedTags.map((tag) => {
+                  const selected = selectedTagIds.includes(tag.id);
+                  const color = tag.color ?? DEFAULT_TAG_COLOR;
+
+                  return (
+                    <TouchableOpacity
+                      key={tag.id}
+                      style={[styles.tagChip, selected && { borderColor: color, backgroundColor: `${color}1A` }]}
+                      onPress={() => toggleTag(tag.id)}
+                    >
+                      <View style={[styles.colorDot, { backgroundColor: color }]} />
+                      <Text style={[styles.tagChipText, selected && { color, fontWeight: '500' }]}>{tag.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, ScrollView, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import { addDays } from 'date-fns';
+import { BulkResult, useTaskStore } from '../store/taskStore';
+import { PRIORITY_LEVELS } from '../data/taskService';
+import { DEFAULT_TAG_COLOR, sortTagsByName } from '../lib/utils/tags';
+import { TASK_STATUSES } from '../lib/utils/taskStatus';
+import { DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON, getActiveLists } from '../lib/utils/lists';
+import { taskBulkActionsStyles as styles } from '../lib/styles/task-bulk-actions';
+import { taskEntryColors } from '../lib/styles/task-entry-bottom-sheet';
+
+export type BulkAction = 'complete' | 'status' | 'priority' | 'reschedule' | 'tags' | 'list' | 'delete';
+
+type BulkSheet = Exclude<BulkAction, 'complete' | 'delete'>;
+
+interface TaskBulkActionsProps {
+  taskIds: string[];
+  // Called after each batch, with what happened to every selected task
+  onApplied: (action: BulkAction, result: BulkResult) => void;
+}
+
+// Labels are keys under bulk_actions in the i18n files
+const ACTIONS: { action: BulkAction; icon: string; label: string }[] = [
+  { action: 'complete', icon: 'checkmark-done-outline', label: 'complete' },
+  { action: 'status', icon: 'swap-horizontal-outline', label: 'status' },
+  { action: 'priority', icon: 'flag-outline', label: 'priority' },
+  { action: 'reschedule', icon: 'calendar-outline', label: 'date' },
+  { action: 'tags', icon: 'pricetags-outline', label: 'tags' },
+  { action: 'list', icon: 'list-outline', label: 'list' },
+  { action: 'delete', icon: 'trash-outline', label: 'delete' },
+];
+
+const SHEET_TITLES: Record<BulkSheet, string> = {
+  status: 'change_status',
+  priority: 'set_priority',
+  reschedule: 'reschedule',
+  tags: 'tags',
+  list: 'move_to_list',
+};
+
+const PRIORITY_LABELS: Record<number, string> = {
+  0: 'priority_none',
+  1: 'priority_high',
+  2: 'priority_medium',
+  3: 'priority_low',
+};
+
+// Days from today; null clears the deadline
+const RESCHEDULE_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 0, label: 'today' },
+  { days: 1, label: 'tomorrow' },
+  { days: 7, label: 'next_week' },
+  { days: null, label: 'no_date' },
+];
+
+// A date without a time is due at the end of that day, like in quick add
+const getDeadline = (days: number | null) => {
+  if (days === null) return null;
+  const deadline = addDays(new Date(), days);
+  deadline.setHours(23, 59, 0, 0);
+  return deadline.toISOString();
+};
+
+// Tasks that couldn't be changed are listed rather than silently left out
+const reportFailures = (result: BulkResult, t: TFunction) => {
+  if (result.failed.length === 0) return;
+
+  const reasons = Array.from(new Set(result.failed.map((failure) => failure.reason)));
+  const total = result.changed.length + result.unchanged.length + result.failed.length;
+  Alert.alert(
+    t('bulk_actions.skipped_title'),
+    t('bulk_actions.skipped_message', { failed: result.failed.length, count: total, reasons: reasons.join('. ') })
+  );
+};
+
+/**
+ * The action bar shown while tasks are selected, with the sheets for picking
+ * a status, priority, date, tags or list for all of them at once.
+ */
+export function TaskBulkActions({ taskIds, onApplied }: TaskBulkActionsProps) {
+  const { t } = useTranslation();
+  const tags = useTaskStore((state) => state.tags);
+  const lists = useTaskStore((state) => state.lists);
+  const taskTagRelations = useTaskStore((state) => state.taskTagRelations);
+  const [sheet, setSheet] = useState<BulkSheet | null>(null);
+
+  const sortedTags = useMemo(() => sortTagsByName(tags), [tags]);
+  const activeLists = useMemo(() => getActiveLists(lists), [lists]);
+
+  // How many of the selected tasks have each tag
+  const tagCounts = useMemo(() => {
+    const selected = new Set(taskIds);
+    const counts: Record<string, number> = {};
+    taskTagRelations.forEach((relation) => {
+      if (selected.has(relation.task_id)) {
+        counts[relation.tag_id] = (counts[relation.tag_id] ?? 0) + 1;
+      }
+    });
+    return counts;
+  }, [taskIds, taskTagRelations]);
+
+  const run = async (action: BulkAction, batch: () => Promise<BulkResult>, keepSheetOpen = false) => {
+    if (!keepSheetOpen) setSheet(null);
+    const result = await batch();
+    reportFailures(result, t);
+    onApplied(action, result);
+  };
+
+  const confirmDelete = () => {
+    const count = taskIds.length;
+    Alert.alert(t('bulk_actions.delete_title'), t('bulk_actions.delete_message', { count }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('bulk_actions.delete'),
+        style: 'destructive',
+        onPress: () => run('delete', () => useTaskStore.getState().bulkDeleteTasks(taskIds)),
+      },
+    ]);
+  };
+
+  const handleAction = (action: BulkAction) => {
+    if (taskIds.length === 0) return;
+
+    if (action === 'complete') {
+      run(action, () => useTaskStore.getState().bulkSetStatus(taskIds, 'completed'));
+    } else if (action === 'delete') {
+      confirmDelete();
+    } else {
+      setSheet(action);
+    }
+  };
+
+  const renderOption = (key: string, label: string, onPress: () => void, leading?: React.ReactNode, trailing?: React.ReactNode) => (
+    <TouchableOpacity key={key} style={styles.option} onPress={onPress}>
+      {leading}
+      <Text style={styles.optionText}>{label}</Text>
+      {trailing}
+    </TouchableOpacity>
+  );
+
+  const renderTagOption = (tagId: string, name: string, color: string) => {
+    const count = tagCounts[tagId] ?? 0;
+    const hasAll = count === taskIds.length;
+    const { bulkAddTag, bulkRemoveTag } = useTaskStore.getState();
+
+    return renderOption(
+      tagId,
+      name,
+      () => run('tags', () => (hasAll ? bulkRemoveTag(taskIds, tagId) : bulkAddTag(taskIds, tagId)), true),
+      <View style={[styles.colorDot, { backgroundColor: color }]} />,
+      <Ionicons
+        name={hasAll ? 'checkmark-circle' : count > 0 ? 'remove-circle' : 'ellipse-outline'}
+        size={22}
+        color={count > 0 ? taskEntryColors.primary : taskEntryColors.text.disabled}
+      />
+    );
+  };
+
+  const renderSheetOptions = () => {
+    const store = useTaskStore.getState();
+
+    switch (sheet) {
+      case 'status':
+        return TASK_STATUSES.map((status) =>
+          renderOption(status, t(`status.${status}`), () => run('status', () => store.bulkSetStatus(taskIds, status)))
+        );
+      case 'priority':
+        return PRIORITY_LEVELS.map(({ level }) =>
+          renderOption(String(level), t(`bulk_actions.${PRIORITY_LABELS[level]}`), () => run('priority', () => store.bulkUpdateTasks(taskIds, { priority: level })))
+        );
+      case 'reschedule':
+        return RESCHEDULE_OPTIONS.map(({ days, label }) =>
+          renderOption(label, t(`bulk_actions.${label}`), () =>
+            run('reschedule', () => store.bulkUpdateTasks(taskIds, { deadline: getDeadline(days) }))
+          )
+        );
+      case 'tags':
+        return sortedTags.length > 0
+          ? sortedTags.map((tag) => renderTagOption(tag.id, tag.name, tag.color ?? DEFAULT_TAG_COLOR))
+          : <Text style={styles.emptyText}>{t('bulk_actions.no_tags')}</Text>;
+      case 'list':
+        return [
+          ...activeLists.map((list) =>
+            renderOption(
+              list.id,
+              list.name,
+              () => run('list', () => store.bulkMoveToList(taskIds, list.id)),
+              <Ionicons
+                name={(list.icon ?? DEFAULT_LIST_ICON) as any}
+                size={20}
+                color={list.color ?? DEFAULT_LIST_COLOR}
+                style={{ marginRight: 10 }}
+              />
+            )
+          ),
+          renderOption('none', t('bulk_actions.no_list'), () => run('list', () => store.bulkMoveToList(taskIds, null))),
+        ];
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <>
+      <View style={styles.actionBar}>
+        {ACTIONS.map(({ action, icon, label }) => (
+          <TouchableOpacity
+            key={action}
+            style={styles.actionButton}
+            onPress={() => handleAction(action)}
+            disabled={taskIds.length === 0}
+            accessibilityLabel={t(`bulk_actions.${label}`)}
+          >
+            <Ionicons
+              name={icon as any}
+              size={22}
+              color={taskIds.length > 0 ? taskEntryColors.text.primary : taskEntryColors.text.disabled}
+            />
+            <Text style={styles.actionLabel}>{t(`bulk_actions.${label}`)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Modal transparent visible={sheet !== null} animationType="slide" onRequestClose={() => setSheet(null)}>
+        <View style={styles.backdrop}>
+          <TouchableOpacity style={{ flex: 1 }} activeOpacity={1} onPress={() => setSheet(null)} />
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <View style={{ width: 40 }} />
+              <Text style={styles.sheetTitle}>{sheet ? t(`bulk_actions.${SHEET_TITLES[sheet]}`) : ''}</Text>
+              <TouchableOpacity onPress={() => setSheet(null)}>
+                <Text style={styles.doneText}>{t('common.done')}</Text>
+              </TouchableOpacity>
+            </View>
+            <ScrollView>{renderSheetOptions()}</ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -21,19 +21,35 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import { useTranslation } from 'react-i18next';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { supabase } from '../data/supabase';
-import { createTask, PRIORITY_LEVELS } from '../data/taskService';
-import { createTaskReminder } from '../data/taskReminderService';
+import { PRIORITY_LEVELS } from '../data/taskService';
+import { useTaskStore } from '../store/taskStore';
 import { RichEditor, RichToolbar, actions } from 'react-native-pell-rich-editor';
 import { usePostHog } from 'posthog-react-native';
 import logger, { EventName } from '../lib/logger';
 import * as Sentry from '@sentry/react-native';
 import { taskEntryStyles, taskEntryColors } from '../lib/styles/task-entry-bottom-sheet';
-import useProfileStore from '../store/profileStore';
+import { RecurrenceRuleEditor, RecurrenceSettings } from './RecurrenceRuleEditor';
+import { TagPicker } from './TagPicker';
+import { describeRecurrenceRule, serializeRecurrenceRule } from '../lib/utils/recurrence';
+import { getQuickAddSegments, parseQuickAdd } from '../lib/utils/quickAdd';
+import { DEFAULT_TAG_COLOR, findTagByName } from '../lib/utils/tags';
+import { getActiveLists } from '../lib/utils/lists';
+import useNotificationPreferencesStore from '../store/notificationPreferencesStore';
 
 const { height } = Dimensions.get('window');
 const MARGIN = 16; // Margin for the backdrop effect
 const SHEET_MAX_HEIGHT = height * 0.9; // 90% of screen height
 
+const REMINDER_OPTIONS = [
+  { label: '5 minutes before', value: '5min', offsetMinutes: 5 },
+  { label: '15 minutes before', value: '15min', offsetMinutes: 15 },
+  { label: '30 minutes before', value: '30min', offsetMinutes: 30 },
+  { label: '1 hour before', value: '1hour', offsetMinutes: 60 },
+  { label: '3 hours before', value: '3hours', offsetMinutes: 180 },
+  { label: '1 day before', value: '1day', offsetMinutes: 60 * 24 },
+  { label: '2 days before', value: '2days', offsetMinutes: 60 * 24 * 2 },
+];
+
 interface TaskEntryBottomSheetProps {
   isVisible: boolean;
   onClose: () => void;
@@ -67,28 +83,36 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
   const [submitting, setSubmitting] = useState(false);
   const [useRichEditor, setUseRichEditor] = useState(true);
   const [editorError, setEditorError] = useState<Error | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceSettings | null>(null);
+  const [showRecurrenceEditor, setShowRecurrenceEditor] = useState(false);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [showTagPicker, setShowTagPicker] = useState(false);
   
   const translateY = useRef(new Animated.Value(height)).current;
   const titleInputRef = useRef<TextInput>(null);
   const richEditorRef = useRef<RichEditor>(null);
   const plainTextEditorRef = useRef<TextInput>(null);
   const reminderButtonRef = useRef<View>(null);
+  // Set once the user picks reminders themselves, so the default offset no longer applies
+  const remindersTouchedRef = useRef(false);
   const opacity = useRef(new Animated.Value(0)).current;
   const scale = useRef(new Animated.Value(1)).current;
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { top } = useSafeAreaInsets();
   const posthog = usePostHog();
+  const lists = useTaskStore((state) => state.lists);
 
-  // Define reminder options
-  const reminderOptions = [
-    { label: '5 minutes before', value: '5min', offsetMinutes: 5 },
-    { label: '15 minutes before', value: '15min', offsetMinutes: 15 },
-    { label: '30 minutes before', value: '30min', offsetMinutes: 30 },
-    { label: '1 hour before', value: '1hour', offsetMinutes: 60 },
-    { label: '3 hours before', value: '3hours', offsetMinutes: 180 },
-    { label: '1 day before', value: '1day', offsetMinutes: 60 * 24 },
-    { label: '2 days before', value: '2days', offsetMinutes: 60 * 24 * 2 },
-  ];
+  // Dates, tags, lists and the like typed into the title, applied when the task is added
+  const quickAdd = useMemo(
+    () =>
+      parseQuickAdd(title, {
+        languages: [i18n.language],
+        listNames: getActiveLists(lists).map((list) => list.name),
+      }),
+    [title, i18n.language, lists]
+  );
+  const deadline = quickAdd.deadline ?? date;
+  const displayPriority = quickAdd.priority ?? priority;
 
   useEffect(() => {
     if (isVisible) {
@@ -195,7 +219,12 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
     setReminders([]);
     setShowReminderOptions(false);
     setShowAdvancedOptions(false);
+    setRecurrence(null);
+    setShowRecurrenceEditor(false);
+    setTagIds([]);
+    setShowTagPicker(false);
     setHasChanges(false);
+    remindersTouchedRef.current = false;
   };
 
   const handleClose = () => {
@@ -314,27 +343,44 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
   };
 
   const handleTitleChange = (text: string) => {
-    // Check if title starts with priority notation (e.g., !!3)
-    const priorityMatch = text.match(/^!!([1-3])\s(.*)/);
-    
-    if (priorityMatch) {
-      const extractedPriority = parseInt(priorityMatch[1], 10);
-      const extractedTitle = priorityMatch[2];
-      
-      setPriority(extractedPriority);
-      setTitle(extractedTitle);
-    } else {
-      setTitle(text);
-    }
-    
+    // Quick add tokens such as "!!3" or "tomorrow 5pm" stay in the text, highlighted, until submit
+    setTitle(text);
     setHasChanges(true);
   };
 
+  // Tags typed as "#name" reuse an existing tag with that name, or create one
+  const resolveQuickAddTags = async (): Promise<string[]> => {
+    const { tags, addTag } = useTaskStore.getState();
+    const resolved = await Promise.all(
+      quickAdd.tagNames.map(async (name) => (findTagByName(tags, name) ?? (await addTag({ name, color: DEFAULT_TAG_COLOR })))?.id)
+    );
+    return resolved.filter((tagId): tagId is string => !!tagId && !tagIds.includes(tagId));
+  };
+
+  // Minutes before the deadline for every reminder, picked or typed
+  const getReminderOffsets = (): number[] => {
+    const offsets = new Set([
+      ...reminders
+        .map((value) => REMINDER_OPTIONS.find((opt) => opt.value === value)?.offsetMinutes)
+        .filter((offset): offset is number => offset !== undefined),
+      ...quickAdd.reminderOffsets,
+    ]);
+
+    // A deadline typed into the title gets the default reminder, as one picked would
+    if (offsets.size === 0 && quickAdd.deadline && !date && !remindersTouchedRef.current) {
+      const { preferences } = useNotificationPreferencesStore.getState();
+      if (preferences.push_enabled && preferences.reminders_enabled && preferences.default_reminder_offset !== null) {
+        offsets.add(preferences.default_reminder_offset);
+      }
+    }
+    return Array.from(offsets);
+  };
+
   const handleSubmit = async () => {
     console.log('[TaskEntry] Submit button pressed');
     
     // Step 1: Perform all validations upfront
-    if (!title.trim()) {
+    if (!quickAdd.title) {
       Alert.alert('Error', 'Please enter a task title');
       return;
     }
@@ -343,8 +389,9 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
     console.log('[TaskEntry] Submission started');
 
     try {
-      // Get the current user
-      const user = await useProfileStore.getState().getCurrentUser();
+      // Get the current user from the stored session so tasks can be added offline
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       if (!user) {
         Alert.alert('Error', 'You must be logged in to create a task');
         setSubmitting(false);
@@ -361,30 +408,40 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
       });
       
       // Track analytics event for task creation attempt
+      // Anything typed into the title wins over what was picked with the buttons
+      const taskRecurrence: RecurrenceSettings | null = quickAdd.recurrence
+        ? { rule: quickAdd.recurrence, count: null, until: null }
+        : recurrence;
+      const reminderOffsets = getReminderOffsets();
+
       logger.trackEvent(posthog, EventName.TASK_CREATION_STARTED, {
-        has_deadline: !!date,
+        has_deadline: !!deadline,
         has_description: !!descriptionHTML,
-        priority_level: priority,
+        priority_level: displayPriority,
         uses_rich_editor: useRichEditor,
-        has_reminders: reminders.length > 0,
-        reminders_count: reminders.length,
+        has_reminders: reminderOffsets.length > 0,
+        reminders_count: reminderOffsets.length,
+        is_recurring: !!taskRecurrence,
+        quick_add_tokens: quickAdd.tokens.length,
       });
       
       // Prepare task data with all required fields
       const taskData = {
         user_id: user.id,
-        title: title.trim(),
+        title: quickAdd.title,
         description: descriptionHTML || null,
         parent_task_id: null,
-        priority: priority,
-        is_recursive: false,
-        recursion_count: null,
-        recursion_end: null,
+        priority: displayPriority,
+        is_recursive: !!taskRecurrence,
+        recurrence_rule: taskRecurrence ? serializeRecurrenceRule(taskRecurrence.rule) : null,
+        recursion_count: taskRecurrence?.count ?? null,
+        recursion_end: taskRecurrence?.until ? taskRecurrence.until.toISOString() : null,
+        position: null,
         outcome_value: null,
-        difficulty: null,
+        difficulty: quickAdd.difficulty,
         is_deleted: false,
         status: 'ongoing' as 'ongoing',
-        deadline: date ? date.toISOString() : null,
+        deadline: deadline ? deadline.toISOString() : null,
       };
       
       console.log('[TaskEntry] Task data prepared:', {
@@ -394,120 +451,58 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
         deadline: taskData.deadline
       });
       
-      // Step 2: Create a temporary ID for the task (for optimistic UI updates)
-      const tempTaskId = `temp-${Date.now()}`;
-      const tempTaskData = {
-        ...taskData,
-        id: tempTaskId,
-        created_at: new Date().toISOString(),
-      };
-      
-      // Step 3: Update UI state immediately - this feels instant to the user
+      // Step 2: Save through the task store - the task is applied locally right away
+      // and synced in the background, so this also works while offline
+      const { addTask, addTaskReminder, addTaskTag, addTaskToList } = useTaskStore.getState();
+      const createdTask = await addTask(taskData);
+
+      if (!createdTask) {
+        throw new Error(useTaskStore.getState().error || 'Failed to add task');
+      }
+
+      console.log('[TaskEntry] Task saved locally and queued for sync:', createdTask.id);
+
+      // Track successful task creation in analytics
+      logger.trackEvent(posthog, EventName.TASK_CREATED, {
+        task_id: createdTask.id,
+        has_deadline: !!taskData.deadline,
+        priority_level: taskData.priority,
+      });
+
+      const quickAddTagIds = await resolveQuickAddTags();
+      await Promise.all([...tagIds, ...quickAddTagIds].map((tagId) => addTaskTag(createdTask.id, tagId)));
+
+      // Only lists the user already has are recognized after "@"
+      const list = quickAdd.listName ? lists.find((item) => item.name === quickAdd.listName) : undefined;
+      if (list) {
+        await addTaskToList(createdTask.id, list.id);
+      }
+
+      // Create reminders if enabled and we have a date
+      if (reminderOffsets.length > 0 && deadline) {
+        const reminderTimes = reminderOffsets.map((offsetMinutes) => calculateReminderTime(deadline, offsetMinutes));
+
+        await Promise.all(reminderTimes.map((reminderTime) => addTaskReminder(createdTask.id, reminderTime)));
+
+        // Track reminder creation analytics
+        logger.trackEvent(posthog, EventName.REMINDER_ADDED, {
+          task_id: createdTask.id,
+          reminders_count: reminderTimes.length,
+        });
+      }
+
+      // Step 3: Notify the parent and close the form
       if (onTaskAdded) {
-        // Create a temp task object for optimistic UI updates
-        const optimisticTask = {
-          ...tempTaskData,
-          // Add any required fields that might be used by the task list
-        };
-        
-        // Notify parent that a task was added - parent can immediately update UI
         onTaskAdded();
       }
-      
-      // Step 4: Close the form immediately to improve perceived performance
+
       setHasChanges(false);
       resetForm();
       safelyClose();
-      
-      // UI is now updated, reset submitting state
       setSubmitting(false);
       
-      // Step 5: Perform the actual backend save in the background
-      const saveToBackend = async (retryCount = 0, maxRetries = 3) => {
-        try {
-          const { data, error } = await createTask(taskData);
-          
-          if (error) {
-            throw error;
-          }
-          
-          // Successfully saved to backend!
-          console.log('[TaskEntry] Task successfully saved to backend:', data?.id || 'unknown ID');
-          
-          // Track successful task creation in analytics
-          logger.trackEvent(posthog, EventName.TASK_CREATED, {
-            task_id: data?.id,
-            has_deadline: !!taskData.deadline,
-            priority_level: taskData.priority,
-          });
-          
-          // Create reminders if enabled and we have a task ID and date
-          if (reminders.length > 0 && date && data && data.id) {
-            const reminderPromises = reminders.map(async (reminderValue) => {
-              const reminderTime = calculateReminderTime(reminderValue);
-              if (reminderTime) {
-                const reminderData = {
-                  task_id: data.id,
-                  reminder_time: reminderTime,
-                };
-                return createTaskReminder(reminderData);
-              }
-              return null;
-            });
-            
-            await Promise.all(reminderPromises.filter(p => p !== null));
-            
-            // Track reminder creation analytics
-            logger.trackEvent(posthog, EventName.REMINDER_ADDED, {
-              task_id: data.id,
-              reminders_count: reminders.length,
-            });
-          }
-          
-        } catch (error) {
-          console.error(`[TaskEntry] Error saving task (attempt ${retryCount + 1}):`, error);
-          
-          // Log error to Sentry with context
-          Sentry.withScope(scope => {
-            scope.setTag('action', 'task_creation');
-            scope.setTag('retry_count', String(retryCount));
-            scope.setExtra('task_title', taskData.title);
-            scope.setExtra('priority', taskData.priority);
-            scope.setExtra('has_reminders', reminders.length > 0);
-            Sentry.captureException(error);
-          });
-          
-          // Track failed task creation in analytics
-          logger.trackEvent(posthog, EventName.TASK_CREATION_FAILED, {
-            error_message: (error as Error).message,
-            retry_count: retryCount,
-          });
-          
-          // Retry on failure if we haven't reached max retries
-          if (retryCount < maxRetries) {
-            // Exponential backoff: wait longer between each retry
-            const backoffTime = Math.pow(2, retryCount) * 1000;
-            setTimeout(() => {
-              saveToBackend(retryCount + 1, maxRetries);
-            }, backoffTime);
-          } else {
-            // If all retries fail, show a background notification
-            // This doesn't block the app, just informs the user
-            Alert.alert(
-              'Sync Issue',
-              'We had trouble saving your task to the cloud. Please check your connection and try again later.',
-              [{ text: 'OK' }],
-              { cancelable: true }
-            );
-          }
-        }
-      };
-      
-      // Start the background save process
-      saveToBackend();
-      
     } catch (error) {
-      // This only catches errors in the initial validation/preparation phase
+      // Syncing happens in the background, so this only catches local preparation errors
       console.error('[TaskEntry] Error preparing task submission:', error);
       
       // Log error to Sentry with context
@@ -574,6 +569,47 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
     setShowAdvancedOptions(!showAdvancedOptions);
   };
 
+  // Open the recurrence rule editor from the advanced options menu
+  const handleOpenRecurrenceEditor = () => {
+    setShowAdvancedOptions(false);
+    setShowRecurrenceEditor(true);
+  };
+
+  const handleOpenTagPicker = () => {
+    setShowAdvancedOptions(false);
+    setShowTagPicker(true);
+  };
+
+  const handleTagsChange = (value: string[]) => {
+    setTagIds(value);
+    setHasChanges(true);
+  };
+
+  const handleRecurrenceSave = (value: RecurrenceSettings | null) => {
+    setRecurrence(value);
+    setShowRecurrenceEditor(false);
+    setHasChanges(true);
+
+    // The series is scheduled from the deadline, so start it today when none is set
+    if (value && !date) {
+      setDate(new Date());
+    }
+  };
+
+  // Preselect the default reminder once the task has a deadline, unless the user chose their own
+  useEffect(() => {
+    if (!date || remindersTouchedRef.current) return;
+
+    const { preferences } = useNotificationPreferencesStore.getState();
+    if (!preferences.push_enabled || !preferences.reminders_enabled) return;
+
+    const option = REMINDER_OPTIONS.find(opt => opt.offsetMinutes === preferences.default_reminder_offset);
+    if (option) {
+      setIsReminderEnabled(true);
+      setReminders([option.value]);
+    }
+  }, [date]);
+
   // Add a handler to close the menu when tapping anywhere else
   const handleBackdropPress = () => {
     if (showAdvancedOptions) {
@@ -590,22 +626,17 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
   };
 
   // Calculate reminder time based on deadline and offset
-  const calculateReminderTime = (reminderValue: string): string | null => {
-    if (!date) return null;
-    
-    // Find the reminder option
-    const option = reminderOptions.find(opt => opt.value === reminderValue);
-    if (!option) return null;
-    
+  const calculateReminderTime = (deadline: Date, offsetMinutes: number): string => {
     // Calculate the time by subtracting minutes from the deadline
-    const reminderDate = new Date(date.getTime());
-    reminderDate.setMinutes(reminderDate.getMinutes() - option.offsetMinutes);
+    const reminderDate = new Date(deadline.getTime());
+    reminderDate.setMinutes(reminderDate.getMinutes() - offsetMinutes);
     
     return reminderDate.toISOString();
   };
 
   // Toggle a reminder option
   const toggleReminderOption = (value: string) => {
+    remindersTouchedRef.current = true;
     setHasChanges(true);
     setIsReminderEnabled(true);
     
@@ -786,12 +817,20 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
                       ref={titleInputRef}
                       style={taskEntryStyles.titleInput}
                       placeholder="Task title"
-                      value={title}
                       onChangeText={handleTitleChange}
                       returnKeyType="next"
                       placeholderTextColor={taskEntryColors.placeholder}
                       selectionColor={taskEntryColors.primary}
-                    />
+                    >
+                      {getQuickAddSegments(title, quickAdd.tokens).map((segment, index) => (
+                        <Text
+                          key={index}
+                          style={segment.type && [taskEntryStyles.quickAddToken, { color: taskEntryColors.quickAdd[segment.type] }]}
+                        >
+                          {segment.text}
+                        </Text>
+                      ))}
+                    </TextInput>
                   </View>
                 </View>
                 
@@ -913,10 +952,10 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
                     <MaterialIcons 
                       name="calendar-today" 
                       size={20} 
-                      color={date ? taskEntryColors.calendar.active : taskEntryColors.calendar.inactive} 
+                      color={deadline ? taskEntryColors.calendar.active : taskEntryColors.calendar.inactive} 
                     />
-                    <Text style={[taskEntryStyles.metadataText, date && taskEntryStyles.metadataActive]}>
-                      {formatDisplayDate(date)}
+                    <Text style={[taskEntryStyles.metadataText, deadline && taskEntryStyles.metadataActive]}>
+                      {formatDisplayDate(deadline)}
                     </Text>
                   </TouchableOpacity>
                   
@@ -927,10 +966,10 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
                     <Ionicons 
                       name="flag-outline" 
                       size={22} 
-                      color={priority > 0 ? taskEntryColors.flag.active : taskEntryColors.flag.inactive} 
+                      color={displayPriority > 0 ? taskEntryColors.flag.active : taskEntryColors.flag.inactive} 
                     />
-                    <Text style={[taskEntryStyles.metadataText, priority > 0 && taskEntryStyles.metadataActive]}>
-                      {priority > 0 ? `P${priority}` : 'Priority'}
+                    <Text style={[taskEntryStyles.metadataText, displayPriority > 0 && taskEntryStyles.metadataActive]}>
+                      {displayPriority > 0 ? `P${displayPriority}` : 'Priority'}
                     </Text>
                   </TouchableOpacity>
                   
@@ -939,7 +978,7 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
                       ref={reminderButtonRef}
                       style={taskEntryStyles.metadataButton}
                       onPress={() => {
-                        if (!date) {
+                        if (!deadline) {
                           Alert.alert('Set a date first', 'Please set a deadline date before adding reminders.');
                           return;
                         }
@@ -962,7 +1001,7 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
                         taskEntryStyles.advancedOptionsMenu,
                         { right: -40, bottom: 60, width: 220 }
                       ]}>
-                        {reminderOptions.map((option) => (
+                        {REMINDER_OPTIONS.map((option) => (
                           <TouchableOpacity
                             key={option.value}
                             style={taskEntryStyles.advancedOption}
@@ -1006,9 +1045,24 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
                           <Text style={taskEntryStyles.advancedOptionText}>Set due time</Text>
                         </TouchableOpacity>
                         
-                        <TouchableOpacity style={taskEntryStyles.advancedOption}>
-                          <Ionicons name="repeat-outline" size={18} color={taskEntryColors.text.secondary} />
-                          <Text style={taskEntryStyles.advancedOptionText}>Make recurring</Text>
+                        <TouchableOpacity
+                          style={taskEntryStyles.advancedOption}
+                          onPress={handleOpenRecurrenceEditor}
+                        >
+                          <Ionicons
+                            name="repeat-outline"
+                            size={18}
+                            color={recurrence ? taskEntryColors.primary : taskEntryColors.text.secondary}
+                          />
+                          <Text
+                            style={[
+                              taskEntryStyles.advancedOptionText,
+                              recurrence && { color: taskEntryColors.primary, fontWeight: '500' }
+                            ]}
+                            numberOfLines={1}
+                          >
+                            {recurrence ? describeRecurrenceRule(recurrence.rule) : 'Make recurring'}
+                          </Text>
                         </TouchableOpacity>
                         
                         <TouchableOpacity style={taskEntryStyles.advancedOption}>
@@ -1016,9 +1070,23 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
                           <Text style={taskEntryStyles.advancedOptionText}>Add subtasks</Text>
                         </TouchableOpacity>
                         
-                        <TouchableOpacity style={taskEntryStyles.advancedOption}>
-                          <Ionicons name="bookmark-outline" size={18} color={taskEntryColors.text.secondary} />
-                          <Text style={taskEntryStyles.advancedOptionText}>Add tags</Text>
+                        <TouchableOpacity
+                          style={taskEntryStyles.advancedOption}
+                          onPress={handleOpenTagPicker}
+                        >
+                          <Ionicons
+                            name="bookmark-outline"
+                            size={18}
+                            color={tagIds.length > 0 ? taskEntryColors.primary : taskEntryColors.text.secondary}
+                          />
+                          <Text
+                            style={[
+                              taskEntryStyles.advancedOptionText,
+                              tagIds.length > 0 && { color: taskEntryColors.primary, fontWeight: '500' }
+                            ]}
+                          >
+                            {tagIds.length > 0 ? `${tagIds.length} tag${tagIds.length === 1 ? '' : 's'}` : 'Add tags'}
+                          </Text>
                         </TouchableOpacity>
                       </View>
                     )}
@@ -1027,6 +1095,21 @@ export const TaskEntryBottomSheet: React.FC<TaskEntryBottomSheetProps> = ({
                 
                 {/* Date picker - platform specific */}
                 {renderDatePicker()}
+
+                <RecurrenceRuleEditor
+                  visible={showRecurrenceEditor}
+                  value={recurrence}
+                  anchorDate={date || new Date()}
+                  onSave={handleRecurrenceSave}
+                  onClose={() => setShowRecurrenceEditor(false)}
+                />
+
+                <TagPicker
+                  visible={showTagPicker}
+                  selectedTagIds={tagIds}
+                  onChange={handleTagsChange}
+                  onClose={() => setShowTagPicker(false)}
+                />
               </KeyboardAvoidingView>
             </Animated.View>
           </GestureDetector>
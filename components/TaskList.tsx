@@ -1,64 +1,320 @@
-import React from 'react';
-import { View, Text, StyleSheet, FlatList, Pressable } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, Pressable, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
 import { useTheme } from '../lib/styles/useTheme';
-import { Task, TaskStatus } from '../store/taskStore';
+import { Task, TaskStatus, useTaskStore } from '../store/taskStore';
+import { useOutboxStore, TaskSyncState, getMutationTaskIds } from '../store/outboxStore';
+import { buildTaskTree, flattenTaskTree, getTaskProgress, TaskTreeRow } from '../lib/utils/subtasks';
+import { DEFAULT_TAG_COLOR } from '../lib/utils/tags';
+import { isOpenStatus } from '../lib/utils/taskStatus';
+import { taskBulkActionsStyles } from '../lib/styles/task-bulk-actions';
+import { TaskBulkActions } from './TaskBulkActions';
+
+// Horizontal offset per level of subtask nesting
+const INDENT_WIDTH = 20;
 
 interface TaskListProps {
   tasks: Task[];
   onTaskPress: (task: Task) => void;
   onTaskStatusChange: (taskId: string, status: TaskStatus) => void;
+  onTagPress?: (tagId: string) => void;
 }
 
-export function TaskList({ tasks, onTaskPress, onTaskStatusChange }: TaskListProps) {
+export function TaskList({ tasks, onTaskPress, onTaskStatusChange, onTagPress }: TaskListProps) {
   const theme = useTheme();
+  const { t } = useTranslation();
+  const queue = useOutboxStore((state) => state.queue);
+  const failed = useOutboxStore((state) => state.failed);
+  const allTasks = useTaskStore((state) => state.tasks);
+  const tags = useTaskStore((state) => state.tags);
+  const taskTagRelations = useTaskStore((state) => state.taskTagRelations);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  // Null outside selection mode, which a long press starts
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  // Where a range selection starts: the row last long-pressed or tapped
+  const [anchorId, setAnchorId] = useState<string | null>(null);
 
-  const renderTask = ({ item: task }: { item: Task }) => (
-    <Pressable
-      style={[styles.taskItem, { backgroundColor: theme.colors.background.primary }]}
-      onPress={() => onTaskPress(task)}
-    >
-      <Pressable
-        style={styles.checkbox}
-        onPress={() => onTaskStatusChange(task.id, task.status === 'completed' ? 'ongoing' : 'completed')}
-      >
+  const rows = useMemo(
+    () => flattenTaskTree(buildTaskTree(tasks), collapsedIds),
+    [tasks, collapsedIds]
+  );
+
+  const isSelecting = selectedIds !== null;
+  const selectedTaskIds = useMemo(() => Array.from(selectedIds ?? []), [selectedIds]);
+
+  // Tasks that leave the list, like deleted ones, leave the selection too
+  useEffect(() => {
+    setSelectedIds((current) => {
+      if (!current) return current;
+      const visibleIds = new Set(tasks.map((task) => task.id));
+      const kept = Array.from(current).filter((id) => visibleIds.has(id));
+      return kept.length === current.size ? current : new Set(kept);
+    });
+  }, [tasks]);
+
+  const exitSelection = () => {
+    setSelectedIds(null);
+    setAnchorId(null);
+  };
+
+  const toggleSelected = (taskId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+    setAnchorId(taskId);
+  };
+
+  // The first long press starts selecting; later ones select every row from the anchor
+  const handleLongPress = (taskId: string) => {
+    if (!selectedIds || !anchorId) {
+      setSelectedIds(new Set([taskId]));
+      setAnchorId(taskId);
+      return;
+    }
+
+    const ids = rows.map((row) => row.task.id);
+    const from = ids.indexOf(anchorId);
+    const to = ids.indexOf(taskId);
+    const range = from === -1 ? [taskId] : ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+    setSelectedIds(new Set([...Array.from(selectedIds), ...range]));
+    setAnchorId(taskId);
+  };
+
+  const isAllSelected = isSelecting && rows.length > 0 && rows.every((row) => selectedIds.has(row.task.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(isAllSelected ? new Set() : new Set(rows.map((row) => row.task.id)));
+  };
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const getSyncState = (taskId: string): TaskSyncState => {
+    if (failed.some((m) => getMutationTaskIds(m).includes(taskId))) return 'failed';
+    if (queue.some((m) => getMutationTaskIds(m).includes(taskId))) return 'pending';
+    return 'synced';
+  };
+
+  const handleFailedPress = (task: Task) => {
+    const lastError = failed.find((m) => getMutationTaskIds(m).includes(task.id))?.lastError;
+    Alert.alert(
+      t('task_list.sync_failed'),
+      lastError
+        ? t('task_list.sync_failed_error', { title: task.title, error: lastError })
+        : t('task_list.sync_failed_message', { title: task.title }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('task_list.discard_changes'),
+          style: 'destructive',
+          onPress: () => {
+            useOutboxStore.getState().discardFailed(task.id);
+            useTaskStore.getState().fetchTasks();
+          },
+        },
+        { text: t('task_list.retry'), onPress: () => useOutboxStore.getState().retryFailed(task.id) },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  const renderSyncState = (task: Task) => {
+    const syncState = getSyncState(task.id);
+
+    if (syncState === 'pending') {
+      return (
         <Ionicons
-          name={task.status === 'completed' ? 'checkmark-circle' : 'ellipse-outline'}
-          size={24}
-          color={task.status === 'completed' ? theme.colors.text.success : theme.colors.text.placeholder}
+          name="cloud-upload-outline"
+          size={18}
+          color={theme.colors.text.placeholder}
+          style={styles.syncIcon}
+          accessibilityLabel="Pending sync"
         />
-      </Pressable>
-      <View style={styles.taskContent}>
-        <Text
-          style={[
-            styles.taskTitle,
-            task.status === 'completed' && styles.completedTask,
-            { color: theme.colors.text.primary },
-          ]}
-        >
-          {task.title}
-        </Text>
-        {task.deadline && (
-          <Text style={[styles.deadline, { color: theme.colors.text.secondary }]}>
-            {new Date(task.deadline).toLocaleDateString()}
-          </Text>
-        )}
+      );
+    }
+
+    if (syncState === 'failed') {
+      return (
+        <Pressable style={styles.syncIcon} onPress={() => handleFailedPress(task)} accessibilityLabel="Sync failed">
+          <Ionicons name="alert-circle-outline" size={18} color={theme.colors.text.error} />
+        </Pressable>
+      );
+    }
+
+    return null;
+  };
+
+  const renderTags = (taskId: string) => {
+    const taskTags = taskTagRelations
+      .filter((relation) => relation.task_id === taskId)
+      .map((relation) => tags.find((tag) => tag.id === relation.tag_id))
+      .filter((tag) => tag !== undefined);
+
+    if (taskTags.length === 0) return null;
+
+    return (
+      <View style={styles.tagRow}>
+        {taskTags.map((tag) => {
+          const color = tag.color ?? DEFAULT_TAG_COLOR;
+          return (
+            <Pressable
+              key={tag.id}
+              style={[styles.tagChip, { backgroundColor: `${color}1A` }]}
+              onPress={() => onTagPress?.(tag.id)}
+              disabled={!onTagPress}
+            >
+              <Text style={[styles.tagText, { color }]}>{tag.name}</Text>
+            </Pressable>
+          );
+        })}
       </View>
-    </Pressable>
-  );
+    );
+  };
+
+  const renderTask = ({ item: { task, depth, hasChildren, isCollapsed } }: { item: TaskTreeRow<Task> }) => {
+    // Progress counts every subtask in the store, not just the ones this list shows
+    const progress = getTaskProgress(task.id, allTasks);
+    const isSelected = selectedIds?.has(task.id) ?? false;
+
+    return (
+      <Pressable
+        style={[
+          styles.taskItem,
+          { backgroundColor: theme.colors.background.primary, marginLeft: depth * INDENT_WIDTH },
+          isSelected && { backgroundColor: `${theme.colors.primary}1A` },
+        ]}
+        onPress={() => (isSelecting ? toggleSelected(task.id) : onTaskPress(task))}
+        onLongPress={() => handleLongPress(task.id)}
+        accessibilityState={isSelecting ? { selected: isSelected } : undefined}
+      >
+        {hasChildren ? (
+          <Pressable
+            style={styles.collapseToggle}
+            onPress={() => toggleCollapsed(task.id)}
+            accessibilityLabel={isCollapsed ? 'Expand subtasks' : 'Collapse subtasks'}
+          >
+            <Ionicons
+              name={isCollapsed ? 'chevron-forward' : 'chevron-down'}
+              size={18}
+              color={theme.colors.text.secondary}
+            />
+          </Pressable>
+        ) : (
+          <View style={styles.collapseToggle} />
+        )}
+        {isSelecting ? (
+          <Pressable style={styles.checkbox} onPress={() => toggleSelected(task.id)}>
+            <Ionicons
+              name={isSelected ? 'checkbox' : 'square-outline'}
+              size={24}
+              color={isSelected ? theme.colors.primary : theme.colors.text.placeholder}
+            />
+          </Pressable>
+        ) : (
+          <Pressable
+            style={styles.checkbox}
+            // Completed and cancelled tasks both reopen; neither can go straight to the other
+            onPress={() => onTaskStatusChange(task.id, isOpenStatus(task.status) ? 'completed' : 'ongoing')}
+          >
+            <Ionicons
+              name={
+                task.status === 'completed'
+                  ? 'checkmark-circle'
+                  : task.status === 'cancelled'
+                    ? 'close-circle-outline'
+                    : 'ellipse-outline'
+              }
+              size={24}
+              color={task.status === 'completed' ? theme.colors.text.success : theme.colors.text.placeholder}
+            />
+          </Pressable>
+        )}
+        <View style={styles.taskContent}>
+          <Text
+            style={[
+              styles.taskTitle,
+              task.status === 'completed' && styles.completedTask,
+              { color: theme.colors.text.primary },
+            ]}
+          >
+            {task.title}
+          </Text>
+          {(task.deadline || progress) && (
+            <View style={styles.metaRow}>
+              {task.deadline && (
+                <Text style={[styles.deadline, { color: theme.colors.text.secondary }]}>
+                  {new Date(task.deadline).toLocaleDateString()}
+                </Text>
+              )}
+              {progress && (
+                <Text style={[styles.progress, { color: theme.colors.text.secondary }]}>
+                  {progress.completed}/{progress.total} · {Math.round(progress.ratio * 100)}%
+                </Text>
+              )}
+            </View>
+          )}
+          {renderTags(task.id)}
+        </View>
+        {renderSyncState(task)}
+      </Pressable>
+    );
+  };
 
   return (
-    <FlatList
-      data={tasks}
-      renderItem={renderTask}
-      keyExtractor={(task) => task.id}
-      contentContainerStyle={styles.container}
-      showsVerticalScrollIndicator={false}
-    />
+    <View style={styles.wrapper}>
+      {isSelecting && (
+        <View style={taskBulkActionsStyles.selectionHeader}>
+          <Text style={taskBulkActionsStyles.selectionCount}>{t('task_list.selected', { count: selectedTaskIds.length })}</Text>
+          <View style={taskBulkActionsStyles.selectionActions}>
+            <Pressable onPress={toggleSelectAll}>
+              <Text style={taskBulkActionsStyles.selectionActionText}>{isAllSelected ? t('task_list.select_none') : t('task_list.select_all')}</Text>
+            </Pressable>
+            <Pressable onPress={exitSelection}>
+              <Text style={taskBulkActionsStyles.selectionActionText}>{t('common.done')}</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+      <FlatList
+        data={rows}
+        renderItem={renderTask}
+        keyExtractor={(row) => row.task.id}
+        extraData={selectedIds}
+        contentContainerStyle={styles.container}
+        showsVerticalScrollIndicator={false}
+      />
+      {isSelecting && (
+        <TaskBulkActions
+          taskIds={selectedTaskIds}
+          onApplied={(action) => {
+            if (action === 'delete') exitSelection();
+          }}
+        />
+      )}
+    </View>
   );
 }
 
 const styles = StyleSheet.create({
+  wrapper: {
+    flex: 1,
+  },
   container: {
     padding: 16,
   },
@@ -74,6 +330,10 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  collapseToggle: {
+    width: 22,
+    marginRight: 4,
+  },
   checkbox: {
     marginRight: 12,
   },
@@ -87,8 +347,35 @@ const styles = StyleSheet.create({
   completedTask: {
     textDecorationLine: 'line-through',
   },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
   deadline: {
     fontSize: 14,
-    marginTop: 4,
+    marginRight: 12,
+  },
+  progress: {
+    fontSize: 14,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  tagChip: {
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    marginRight: 6,
+    marginBottom: 2,
+    borderRadius: 10,
+  },
+  tagText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  syncIcon: {
+    marginLeft: 8,
   },
 }); 
@@ -0,0 +1,46 @@
+import React, { useEffect } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import useHistoryStore from '@/store/historyStore';
+import { useTaskStore } from '@/store/taskStore';
+import { undoSnackbarStyles as styles, UNDO_SNACKBAR_OFFSET } from '@/lib/styles/undo-snackbar';
+
+// How long the snackbar offers to undo, in milliseconds
+const UNDO_SNACKBAR_DURATION = 5000;
+
+/**
+ * Offers to undo the latest task change for a few seconds, and to redo it
+ * right after undoing.
+ */
+export function UndoSnackbar() {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const notice = useHistoryStore((state) => state.notice);
+  const dismissNotice = useHistoryStore((state) => state.dismissNotice);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(dismissNotice, UNDO_SNACKBAR_DURATION);
+    return () => clearTimeout(timeout);
+  }, [notice, dismissNotice]);
+
+  if (!notice) return null;
+
+  const isUndo = notice.action === 'undo';
+  const handlePress = () => {
+    const { undo, redo } = useTaskStore.getState();
+    (isUndo ? undo : redo)();
+  };
+
+  return (
+    <View style={[styles.container, { bottom: UNDO_SNACKBAR_OFFSET + insets.bottom }]} accessibilityLiveRegion="polite">
+      <Text style={styles.label} numberOfLines={1}>
+        {isUndo ? notice.label : t('history.undone', { label: notice.label })}
+      </Text>
+      <Pressable style={styles.actionButton} onPress={handlePress} accessibilityRole="button">
+        <Text style={styles.actionText}>{isUndo ? t('history.undo') : t('history.redo')}</Text>
+      </Pressable>
+    </View>
+  );
+}
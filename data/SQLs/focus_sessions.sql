@@ -0,0 +1,27 @@
+-- Timed work on a task, written by the focus timer. Breaks between
+-- pomodoros aren't recorded.
+create table public.focus_sessions (
+  id uuid not null default extensions.uuid_generate_v4 (),
+  user_id uuid not null,
+  task_id uuid not null,
+  mode text not null,
+  started_at timestamp with time zone not null,
+  ended_at timestamp with time zone not null,
+  focused_seconds integer not null default 0,
+  interruptions integer not null default 0,
+  completed boolean not null default false,
+  created_at timestamp with time zone not null default now(),
+  constraint focus_sessions_pkey primary key (id),
+  constraint focus_sessions_task_id_fkey foreign KEY (task_id) references tasks (id) on delete cascade,
+  constraint focus_sessions_user_id_fkey foreign KEY (user_id) references auth.users (id),
+  constraint focus_sessions_mode_check check (mode in ('pomodoro', 'stopwatch')),
+  constraint focus_sessions_time_check check (ended_at >= started_at and focused_seconds >= 0)
+) TABLESPACE pg_default;
+
+create index focus_sessions_user_id_idx on public.focus_sessions (user_id, started_at);
+create index focus_sessions_task_id_idx on public.focus_sessions (task_id);
+
+alter table public.focus_sessions enable row level security;
+
+create policy "Users manage their own focus sessions" on public.focus_sessions
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,14 @@
+-- Lists get a color, an icon and a manual order, and can be archived instead of deleted
+alter table public.lists add column color text null;
+alter table public.lists add column icon text null;
+alter table public.lists add column position integer not null default 0;
+alter table public.lists add column is_archived boolean not null default false;
+
+-- Keep existing lists in the order they were created
+update public.lists l
+set position = ordered.row_number - 1
+from (
+  select id, row_number() over (partition by user_id order by created_at) as row_number
+  from public.lists
+) ordered
+where l.id = ordered.id;
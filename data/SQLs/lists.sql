@@ -2,6 +2,10 @@ create table public.lists (
   id uuid not null default extensions.uuid_generate_v4 (),
   user_id uuid not null,
   name text not null,
+  color text null,
+  icon text null,
+  position integer not null default 0,
+  is_archived boolean not null default false,
   created_at timestamp with time zone null default now(),
   constraint lists_pkey primary key (id),
   constraint lists_user_id_fkey foreign KEY (user_id) references auth.users (id)
@@ -0,0 +1,3 @@
+-- Notification preferences roam with the profile; missing keys fall back to app defaults
+alter table public.profiles
+  add column notification_preferences jsonb not null default '{}'::jsonb;
@@ -2,6 +2,7 @@ create table public.profiles (
   id uuid not null,
   name text null,
   avatar_url text null,
+  notification_preferences jsonb not null default '{}'::jsonb,
   created_at timestamp with time zone null default now(),
   updated_at timestamp with time zone null default now(),
   constraint profiles_pkey primary key (id),
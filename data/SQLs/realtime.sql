@@ -0,0 +1,13 @@
+-- Stream row changes to clients for multi-device sync
+alter publication supabase_realtime add table
+  public.tasks,
+  public.tags,
+  public.lists,
+  public.task_lists,
+  public.task_tags,
+  public.task_reminders;
+
+-- Include the full old row in delete events so junction rows can be matched
+alter table public.task_lists replica identity full;
+alter table public.task_tags replica identity full;
+alter table public.task_reminders replica identity full;
@@ -0,0 +1,8 @@
+-- Recurring tasks keep their deadline and store an RRULE describing the series
+alter table public.tasks drop constraint tasks_check;
+
+alter table public.tasks add column recurrence_rule text null;
+
+alter table public.tasks add constraint tasks_recurrence_check check (
+  (not is_recursive) or (recurrence_rule is not null)
+);
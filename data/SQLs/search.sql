@@ -0,0 +1,44 @@
+-- Full-text task search over titles, tag names, list names and descriptions
+-- (with rich editor HTML removed). Every word of the query has to match,
+-- as a prefix so results appear while typing. Best matches come first.
+create or replace function public.search_tasks(search_query text, result_limit integer default 50)
+returns setof public.tasks
+language sql
+stable
+security invoker
+as $$
+  with terms as (
+    select to_tsquery('simple', string_agg(term || ':*', ' & ')) as query
+    from (
+      select regexp_replace(word, '[^[:alnum:]]', '', 'g') as term
+      from regexp_split_to_table(lower(search_query), '\s+') as word
+    ) words
+    where term <> ''
+  )
+  select t.*
+  from public.tasks t
+  cross join terms
+  cross join lateral (
+    select
+      setweight(to_tsvector('simple', t.title), 'A') ||
+      setweight(to_tsvector('simple', coalesce((
+        select string_agg(g.name, ' ')
+        from public.task_tags tt
+        join public.tags g on g.id = tt.tag_id
+        where tt.task_id = t.id
+      ), '')), 'B') ||
+      setweight(to_tsvector('simple', coalesce((
+        select string_agg(l.name, ' ')
+        from public.task_lists tl
+        join public.lists l on l.id = tl.list_id
+        where tl.task_id = t.id
+      ), '')), 'C') ||
+      setweight(to_tsvector('simple', regexp_replace(coalesce(t.description, ''), '<[^>]*>', ' ', 'g')), 'D')
+      as document
+  ) d
+  where t.user_id = auth.uid()
+    and t.is_deleted = false
+    and d.document @@ terms.query
+  order by t.status in ('ongoing', 'inprogress') desc, ts_rank(d.document, terms.query) desc, t.updated_at desc
+  limit result_limit;
+$$;
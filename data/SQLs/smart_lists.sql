@@ -0,0 +1,22 @@
+-- Tabs of the task list screen. Saved filters carry a task query; rows for
+-- the built-in tabs only record where the user placed them.
+create table public.smart_lists (
+  id uuid not null default extensions.uuid_generate_v4 (),
+  user_id uuid not null,
+  builtin text null,
+  name text null,
+  icon text null,
+  query jsonb null,
+  position integer not null default 0,
+  is_pinned boolean not null default false,
+  is_hidden boolean not null default false,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint smart_lists_pkey primary key (id),
+  constraint smart_lists_user_id_fkey foreign KEY (user_id) references auth.users (id),
+  constraint smart_lists_user_id_builtin_key unique (user_id, builtin),
+  constraint smart_lists_kind_check check (
+    (builtin is null and name is not null and query is not null)
+    or (builtin is not null and query is null)
+  )
+) TABLESPACE pg_default;
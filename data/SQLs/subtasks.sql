@@ -0,0 +1,5 @@
+-- Manual ordering of subtasks within their parent
+alter table public.tasks add column position integer null;
+
+create index tasks_parent_task_id_idx on public.tasks (parent_task_id)
+  where is_deleted = false;
@@ -0,0 +1,31 @@
+-- Field-level changes to tasks, written by the app as it makes them so edits
+-- made offline are logged too. field is a task column, or 'tag', 'list' or
+-- 'reminder' with target_id naming which one.
+create table public.task_activity (
+  id uuid not null default extensions.uuid_generate_v4 (),
+  task_id uuid not null,
+  user_id uuid not null,
+  field text not null,
+  target_id uuid null,
+  old_value jsonb null,
+  new_value jsonb null,
+  created_at timestamp with time zone not null default now(),
+  constraint task_activity_pkey primary key (id),
+  constraint task_activity_task_id_fkey foreign KEY (task_id) references tasks (id) on delete cascade,
+  constraint task_activity_user_id_fkey foreign KEY (user_id) references auth.users (id)
+) TABLESPACE pg_default;
+
+create index task_activity_task_id_idx on public.task_activity (task_id, created_at);
+
+alter table public.task_activity enable row level security;
+
+create policy "Users read the activity of their tasks" on public.task_activity
+  for select using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create policy "Users log activity on their tasks" on public.task_activity
+  for insert with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
@@ -0,0 +1,14 @@
+-- Tasks with their tag and list ids flattened into arrays, so that task
+-- queries can filter on relations inside and/or groups in a single request.
+-- security_invoker keeps the row level security of the underlying tables.
+create or replace view public.task_query_rows
+with (security_invoker = true) as
+select
+  t.*,
+  array(select tt.tag_id from public.task_tags tt where tt.task_id = t.id) as tag_ids,
+  array(select tl.list_id from public.task_lists tl where tl.task_id = t.id) as list_ids,
+  exists (
+    select 1 from public.tasks c
+    where c.parent_task_id = t.id and c.is_deleted = false
+  ) as has_subtasks
+from public.tasks t;
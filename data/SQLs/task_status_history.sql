@@ -0,0 +1,68 @@
+-- One set of task statuses: ongoing, inprogress, completed and cancelled.
+-- Older builds wrote "canceled", so that value is renamed where it exists.
+do $$
+begin
+  if exists (
+    select 1 from pg_enum e join pg_type t on t.oid = e.enumtypid
+    where t.typname = 'task_status' and e.enumlabel = 'canceled'
+  ) and not exists (
+    select 1 from pg_enum e join pg_type t on t.oid = e.enumtypid
+    where t.typname = 'task_status' and e.enumlabel = 'cancelled'
+  ) then
+    alter type public.task_status rename value 'canceled' to 'cancelled';
+  end if;
+end;
+$$;
+
+alter type public.task_status add value if not exists 'inprogress';
+alter type public.task_status add value if not exists 'cancelled';
+
+-- Every status a task has had: who changed it, from what, to what and when.
+-- Written by a trigger, so imports, restores and other devices are covered.
+create table public.task_status_history (
+  id uuid not null default extensions.uuid_generate_v4 (),
+  task_id uuid not null,
+  user_id uuid not null,
+  from_status public.task_status null,
+  to_status public.task_status not null,
+  changed_at timestamp with time zone not null default now(),
+  constraint task_status_history_pkey primary key (id),
+  constraint task_status_history_task_id_fkey foreign KEY (task_id) references tasks (id) on delete cascade,
+  constraint task_status_history_user_id_fkey foreign KEY (user_id) references auth.users (id)
+) TABLESPACE pg_default;
+
+create index task_status_history_task_id_idx on public.task_status_history (task_id, changed_at);
+
+alter table public.task_status_history enable row level security;
+
+create policy "Users read the status history of their tasks" on public.task_status_history
+  for select using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+-- Changes made offline are replayed later, so the client's updated_at is
+-- when they really happened
+create or replace function public.record_task_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.task_status_history (task_id, user_id, from_status, to_status, changed_at)
+    values (
+      new.id,
+      coalesce(auth.uid(), new.user_id),
+      case when tg_op = 'UPDATE' then old.status end,
+      new.status,
+      coalesce(new.updated_at, now())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_record_status_change
+  after insert or update of status on public.tasks
+  for each row execute function public.record_task_status_change();
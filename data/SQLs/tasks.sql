@@ -11,17 +11,20 @@ create table public.tasks (
   is_recursive boolean null default false,
   recursion_count integer null,
   recursion_end timestamp with time zone null,
+  recurrence_rule text null,
+  position integer null,
   is_deleted boolean null default false,
+  deleted_at timestamp with time zone null,
   created_at timestamp with time zone null default now(),
   updated_at timestamp with time zone null default now(),
   status public.task_status not null default 'ongoing'::task_status,
   constraint tasks_pkey primary key (id),
   constraint tasks_parent_task_id_fkey foreign KEY (parent_task_id) references tasks (id),
   constraint tasks_user_id_fkey foreign KEY (user_id) references auth.users (id),
-  constraint tasks_check check (
+  constraint tasks_recurrence_check check (
     (
       (not is_recursive)
-      or (deadline is null)
+      or (recurrence_rule is not null)
     )
   )
 ) TABLESPACE pg_default;
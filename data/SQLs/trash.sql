@@ -0,0 +1,59 @@
+-- Deleted tasks stay in the trash until they're purged, by hand or once
+-- they've been deleted for longer than the user's retention period
+alter table public.tasks add column deleted_at timestamp with time zone null;
+
+update public.tasks set deleted_at = updated_at where is_deleted = true;
+
+create or replace function public.set_task_deleted_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.is_deleted is true and (tg_op = 'INSERT' or old.is_deleted is not true) then
+    new.deleted_at := now();
+  elsif new.is_deleted is not true then
+    new.deleted_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_set_deleted_at
+  before insert or update of is_deleted on public.tasks
+  for each row execute function public.set_task_deleted_at();
+
+create index tasks_deleted_at_idx on public.tasks (user_id, deleted_at)
+  where is_deleted = true;
+
+-- Permanently delete trashed tasks with their tags, lists and reminders.
+-- Subtasks still in use are moved to the top level. Returns how many tasks
+-- were purged.
+create or replace function public.purge_deleted_tasks(task_ids uuid[])
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  purged uuid[];
+begin
+  select coalesce(array_agg(t.id), '{}') into purged
+  from public.tasks t
+  where t.user_id = auth.uid()
+    and t.is_deleted = true
+    and t.id = any (task_ids);
+
+  if cardinality(purged) = 0 then
+    return 0;
+  end if;
+
+  update public.tasks set parent_task_id = null
+  where parent_task_id = any (purged) and not (id = any (purged));
+
+  delete from public.task_tags where task_id = any (purged);
+  delete from public.task_lists where task_id = any (purged);
+  delete from public.task_reminders where task_id = any (purged);
+  delete from public.tasks where id = any (purged);
+
+  return cardinality(purged);
+end;
+$$;
@@ -6,6 +6,10 @@ interface List {
   id: UUID;
   user_id: UUID;
   name: string;
+  color?: string | null;
+  icon?: string | null;
+  position?: number;
+  is_archived?: boolean;
   created_at: string;
 }
 
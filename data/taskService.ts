@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import { UUID, CrudResponse, handleSupabaseError, formatResponse } from './utils';
 import { logError } from '../lib/analytics';
+import type { TaskStatus } from '../store/taskStore';
 
 // Define the Task interface and export it
 export interface Task {
@@ -16,8 +17,10 @@ export interface Task {
   is_recursive: boolean;
   recursion_count?: number | null;
   recursion_end?: string | null;
+  recurrence_rule?: string | null;
+  position?: number | null;
   is_deleted: boolean;
-  status: 'ongoing' | 'inprogress' | 'canceled' | 'completed';
+  status: TaskStatus;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,225 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform, Share } from 'react-native';
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../data/supabase';
+import { useTaskStore, Task, TaskListRelation, TaskReminder, TaskTagRelation } from '../store/taskStore';
+import useProfileStore from '../store/profileStore';
+import { useOutboxStore } from '../store/outboxStore';
+import { BackupData, createBackup, planRestore, RestoreReport, validateBackup } from './utils/backup';
+import { debug } from './logger';
+
+// Backups are kept here until the user deletes them
+const BACKUP_DIRECTORY = `${FileSystem.documentDirectory}backups/`;
+
+// Ids per request when loading rows of deleted tasks, to keep URLs short
+const ID_CHUNK_SIZE = 100;
+
+export interface BackupFile {
+  uri: string;
+  name: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+const getSessionUserId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to back up or restore your data');
+  }
+  return session.user.id;
+};
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+/**
+ * Deleted tasks aren't cached on the device, so they and their relations
+ * come from the server.
+ */
+async function fetchDeletedTaskData(userId: string): Promise<Pick<BackupData, 'tasks' | 'taskTagRelations' | 'taskListRelations' | 'reminders'>> {
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_deleted', true);
+  if (error) {
+    throw new Error('Deleted tasks are only kept on the server. Connect to the internet to include them.');
+  }
+
+  const result = {
+    tasks: (tasks ?? []) as Task[],
+    taskTagRelations: [] as TaskTagRelation[],
+    taskListRelations: [] as TaskListRelation[],
+    reminders: [] as TaskReminder[],
+  };
+
+  for (const ids of chunk(result.tasks.map((task) => task.id), ID_CHUNK_SIZE)) {
+    const [tags, lists, reminders] = await Promise.all([
+      supabase.from('task_tags').select('task_id, tag_id').in('task_id', ids),
+      supabase.from('task_lists').select('task_id, list_id').in('task_id', ids),
+      supabase.from('task_reminders').select('*').in('task_id', ids),
+    ]);
+    const failed = tags.error ?? lists.error ?? reminders.error;
+    if (failed) throw failed;
+
+    result.taskTagRelations.push(...(tags.data ?? []));
+    result.taskListRelations.push(...(lists.data ?? []));
+    result.reminders.push(...(reminders.data ?? []));
+  }
+  return result;
+}
+
+/**
+ * Write a backup of the user's tasks, subtasks, tags, lists, their links,
+ * reminders and profile to a JSON file on the device.
+ */
+export async function exportBackup(options: { includeDeleted: boolean }): Promise<BackupFile> {
+  const userId = await getSessionUserId();
+  const state = useTaskStore.getState();
+  const data: BackupData = {
+    tasks: state.tasks,
+    tags: state.tags,
+    lists: state.lists,
+    taskTagRelations: state.taskTagRelations,
+    taskListRelations: state.taskListRelations,
+    reminders: state.reminders,
+  };
+
+  if (options.includeDeleted) {
+    const deleted = await fetchDeletedTaskData(userId);
+    const cachedIds = new Set(data.tasks.map((task) => task.id));
+    data.tasks = [...data.tasks, ...deleted.tasks.filter((task) => !cachedIds.has(task.id))];
+    data.taskTagRelations = [...data.taskTagRelations, ...deleted.taskTagRelations];
+    data.taskListRelations = [...data.taskListRelations, ...deleted.taskListRelations];
+    data.reminders = [...data.reminders, ...deleted.reminders];
+  }
+
+  const { profile } = useProfileStore.getState();
+  const now = new Date();
+  const document = createBackup(
+    data,
+    { name: profile.name, email: profile.email, avatar_url: profile.avatar_url, created_at: profile.created_at },
+    { includeDeleted: options.includeDeleted, now }
+  );
+
+  await FileSystem.makeDirectoryAsync(BACKUP_DIRECTORY, { intermediates: true });
+  const name = `todo-next-backup-${format(now, 'yyyy-MM-dd-HHmmss')}.json`;
+  const uri = `${BACKUP_DIRECTORY}${name}`;
+  const contents = JSON.stringify(document, null, 2);
+  await FileSystem.writeAsStringAsync(uri, contents);
+
+  debug('Exported backup', { name, tasks: document.tasks.length });
+  return { uri, name, size: contents.length, modifiedAt: now };
+}
+
+/**
+ * Backups saved on this device, newest first.
+ */
+export async function listBackups(): Promise<BackupFile[]> {
+  const info = await FileSystem.getInfoAsync(BACKUP_DIRECTORY);
+  if (!info.exists) return [];
+
+  const names = (await FileSystem.readDirectoryAsync(BACKUP_DIRECTORY)).filter((name) => name.endsWith('.json'));
+  const files = await Promise.all(
+    names.map(async (name) => {
+      const uri = `${BACKUP_DIRECTORY}${name}`;
+      const fileInfo = await FileSystem.getInfoAsync(uri);
+      return {
+        uri,
+        name,
+        size: fileInfo.exists ? fileInfo.size : 0,
+        modifiedAt: new Date(fileInfo.exists ? fileInfo.modificationTime * 1000 : 0),
+      };
+    })
+  );
+  return files.sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime());
+}
+
+export async function deleteBackup(file: BackupFile): Promise<void> {
+  await FileSystem.deleteAsync(file.uri, { idempotent: true });
+}
+
+/**
+ * Hand a backup file to the user. iOS opens the share sheet; Android can't
+ * share app files that way, so it asks for a folder and saves a copy there.
+ *
+ * @param mimeType The file's type, for the copy saved on Android
+ * @returns Whether the backup was shared or saved
+ */
+export async function shareBackup(file: BackupFile, mimeType: string = 'application/json'): Promise<boolean> {
+  if (Platform.OS === 'android') {
+    const { StorageAccessFramework } = FileSystem;
+    const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+    if (!permission.granted) return false;
+
+    const contents = await FileSystem.readAsStringAsync(file.uri);
+    const copyUri = await StorageAccessFramework.createFileAsync(
+      permission.directoryUri,
+      file.name.replace(/\.[^.]+$/, ''),
+      mimeType
+    );
+    await FileSystem.writeAsStringAsync(copyUri, contents);
+    return true;
+  }
+
+  const result = await Share.share({ url: file.uri, title: file.name });
+  return result.action === Share.sharedAction;
+}
+
+export const readBackup = (file: BackupFile): Promise<string> => FileSystem.readAsStringAsync(file.uri);
+
+/**
+ * Restore a backup on top of the user's current data. Nothing is replaced:
+ * rows that already exist are skipped and everything else is added.
+ *
+ * @param json The contents of a backup file
+ * @returns What was created, skipped and rejected
+ * @throws When the text isn't a backup this version of the app can read
+ */
+export async function restoreBackup(json: string): Promise<RestoreReport> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This isn't valid JSON. Make sure the whole backup was copied.");
+  }
+
+  const validation = validateBackup(parsed);
+  if ('error' in validation) {
+    throw new Error(validation.error);
+  }
+
+  const userId = await getSessionUserId();
+  const state = useTaskStore.getState();
+  const { rows, report } = planRestore(
+    validation.document,
+    {
+      tasks: state.tasks,
+      tags: state.tags,
+      lists: state.lists,
+      taskTagRelations: state.taskTagRelations,
+      taskListRelations: state.taskListRelations,
+      reminders: state.reminders,
+    },
+    { userId, createId: uuidv4 }
+  );
+  await state.importBackup(rows);
+
+  // The profile name only fills in a missing one, it never overwrites
+  const backupName = validation.document.profile?.name;
+  const { profile, updateProfile } = useProfileStore.getState();
+  if (backupName && !profile.name) {
+    updateProfile({ name: backupName });
+    useOutboxStore.getState().enqueue({
+      table: 'profiles',
+      operation: 'update',
+      payload: { name: backupName, updated_at: new Date().toISOString() },
+      match: { id: userId },
+      taskId: null,
+    });
+  }
+
+  debug('Restored backup', report.counts);
+  return report;
+}
@@ -0,0 +1,33 @@
+import * as FileSystem from 'expo-file-system';
+import { format } from 'date-fns';
+import { useTaskStore } from '../store/taskStore';
+import { BackupFile, shareBackup } from './backup';
+import { CalendarEntryKind, getDeviceTimeZone, serializeCalendar } from './utils/ical';
+import { debug } from './logger';
+
+// Exports are handed straight to the share sheet, so they don't need to be kept
+const CALENDAR_DIRECTORY = `${FileSystem.cacheDirectory}calendar/`;
+
+/**
+ * Write the user's tasks to an .ics file and share it, as to-dos for
+ * reminders apps or as events for calendars. Times are written in the
+ * device's time zone, which repeats are counted in.
+ *
+ * @returns Whether the file was shared or saved
+ */
+export async function exportCalendar(kind: CalendarEntryKind): Promise<boolean> {
+  const { tasks, reminders, tags, taskTagRelations } = useTaskStore.getState();
+  const now = new Date();
+  const contents = serializeCalendar(
+    { tasks, reminders, tags, taskTagRelations },
+    { kind, timeZone: getDeviceTimeZone(), now }
+  );
+
+  await FileSystem.makeDirectoryAsync(CALENDAR_DIRECTORY, { intermediates: true });
+  const name = `todo-next-${kind === 'todo' ? 'tasks' : 'events'}-${format(now, 'yyyy-MM-dd')}.ics`;
+  const file: BackupFile = { uri: `${CALENDAR_DIRECTORY}${name}`, name, size: contents.length, modifiedAt: now };
+  await FileSystem.writeAsStringAsync(file.uri, contents);
+
+  debug('Exported calendar', { kind, name });
+  return shareBackup(file, 'text/calendar');
+}
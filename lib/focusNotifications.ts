@@ -0,0 +1,83 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { ensureNotificationPermission } from './reminderNotifications';
+import type { PomodoroPhase } from './utils/focusTimer';
+import { debug } from './logger';
+
+// Payload carried by focus timer notifications; taskId opens the task when tapped
+export interface FocusNotificationData {
+  taskId: string;
+  phase: PomodoroPhase;
+}
+
+const ANDROID_CHANNEL_ID = 'focus-timer';
+const FOCUS_PREFIX = 'focus:';
+
+let isChannelCreated = false;
+
+const PHASE_END_CONTENT: Record<PomodoroPhase, { title: string; body: string }> = {
+  work: { title: 'Pomodoro complete', body: 'Time for a break' },
+  shortBreak: { title: 'Break over', body: 'Back to focusing' },
+  longBreak: { title: 'Long break over', body: 'Back to focusing' },
+};
+
+const ensureChannel = async () => {
+  if (Platform.OS !== 'android' || isChannelCreated) return;
+  await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+    name: 'Focus timer',
+    importance: Notifications.AndroidImportance.HIGH,
+  });
+  isChannelCreated = true;
+};
+
+/**
+ * Cancel the notifications scheduled for a running focus timer.
+ */
+export async function cancelFocusNotifications() {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => request.identifier.startsWith(FOCUS_PREFIX))
+      .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+}
+
+/**
+ * Replace the focus timer notifications with one for each upcoming end of a
+ * pomodoro period, so the user hears about it while the app is closed.
+ */
+export async function scheduleFocusNotifications(
+  task: { id: string; title: string },
+  phaseEnds: { phase: PomodoroPhase; endsAt: number }[]
+) {
+  await cancelFocusNotifications();
+
+  const upcoming = phaseEnds.filter((end) => end.endsAt > Date.now());
+  if (upcoming.length === 0) return;
+  if (!(await ensureNotificationPermission())) {
+    debug('Notification permission not granted for focus notifications');
+    return;
+  }
+  await ensureChannel();
+
+  await Promise.all(
+    upcoming.map((end, index) => {
+      const data: FocusNotificationData = { taskId: task.id, phase: end.phase };
+      return Notifications.scheduleNotificationAsync({
+        identifier: `${FOCUS_PREFIX}${index}`,
+        content: {
+          title: PHASE_END_CONTENT[end.phase].title,
+          body: `${PHASE_END_CONTENT[end.phase].body} · ${task.title}`,
+          data: data as unknown as Record<string, unknown>,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: new Date(end.endsAt),
+          channelId: ANDROID_CHANNEL_ID,
+        },
+      });
+    })
+  );
+
+  debug('Scheduled focus notifications', { count: upcoming.length });
+}
@@ -0,0 +1,63 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../data/supabase';
+import { useTaskStore } from '../store/taskStore';
+import { planRestore, RestorePlan, RestoreReport } from './utils/backup';
+import { IMPORTERS, ImportOptions, ImportSource, toImportDocument } from './utils/importers';
+import { debug } from './logger';
+
+export interface ImportPreview extends RestorePlan {
+  warnings: string[];
+}
+
+const getSessionUserId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to import tasks');
+  }
+  return session.user.id;
+};
+
+/**
+ * Work out what importing an export from another app would create, without
+ * writing anything. Tasks, lists and tags that already exist are skipped,
+ * as when restoring a backup.
+ *
+ * @param text The contents of the exported file
+ * @throws When the text isn't an export the chosen importer can read
+ */
+export async function previewImport(source: ImportSource, text: string, options: ImportOptions): Promise<ImportPreview> {
+  const result = IMPORTERS[source].parse(text, options);
+  if (result.tasks.length === 0) {
+    throw new Error('No tasks were found to import.');
+  }
+
+  const userId = await getSessionUserId();
+  const state = useTaskStore.getState();
+  const plan = planRestore(
+    toImportDocument(result, options.now),
+    {
+      tasks: state.tasks,
+      tags: state.tags,
+      lists: state.lists,
+      taskTagRelations: state.taskTagRelations,
+      taskListRelations: state.taskListRelations,
+      reminders: state.reminders,
+    },
+    { userId, createId: uuidv4, now: options.now }
+  );
+  return { ...plan, warnings: result.warnings };
+}
+
+/**
+ * Import an export from another app. The plan is worked out again, so
+ * anything added since the preview isn't duplicated.
+ *
+ * @returns What was created, skipped and rejected
+ */
+export async function importTasks(source: ImportSource, text: string, options: ImportOptions): Promise<RestoreReport> {
+  const { rows, report } = await previewImport(source, text, options);
+  await useTaskStore.getState().importBackup(rows);
+
+  debug('Imported tasks', { source, ...report.counts });
+  return report;
+}
@@ -0,0 +1,214 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import type { Task, TaskListRelation, TaskReminder } from '../store/taskStore';
+import type { NotificationPreferences } from '../store/models/notificationPreferences';
+import { isReminderSuppressed } from './utils/notificationPreferences';
+import { isOpenStatus } from './utils/taskStatus';
+import { debug } from './logger';
+
+// Category that attaches the reminder actions to a notification
+export const REMINDER_CATEGORY = 'task-reminder';
+
+export const REMINDER_ACTIONS = {
+  complete: 'complete',
+  snooze: 'snooze',
+  open: 'open',
+} as const;
+
+// Payload carried by every reminder notification
+export interface ReminderNotificationData {
+  taskId: string;
+  reminderId: string;
+  reminderTime: string;
+  title: string;
+}
+
+const ANDROID_CHANNEL_ID = 'reminders';
+const SNOOZE_PREFIX = 'snooze:';
+const SNOOZE_MINUTES = 10;
+
+let isConfigured = false;
+
+/**
+ * Register the notification handler, the Android channel and the reminder
+ * actions. Safe to call more than once.
+ */
+export async function configureReminderNotifications() {
+  if (isConfigured) return;
+  isConfigured = true;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Task reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY, [
+    {
+      identifier: REMINDER_ACTIONS.complete,
+      buttonTitle: 'Complete',
+      options: { opensAppToForeground: false },
+    },
+    {
+      identifier: REMINDER_ACTIONS.snooze,
+      buttonTitle: `Snooze ${SNOOZE_MINUTES} min`,
+      options: { opensAppToForeground: false },
+    },
+    {
+      identifier: REMINDER_ACTIONS.open,
+      buttonTitle: 'Open task',
+      options: { opensAppToForeground: true },
+    },
+  ]);
+}
+
+/**
+ * Ask for notification permission if it hasn't been decided yet.
+ *
+ * @returns Whether notifications may be shown
+ */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+const buildContent = (task: Task, reminder: TaskReminder): Notifications.NotificationContentInput => {
+  const data: ReminderNotificationData = {
+    taskId: task.id,
+    reminderId: reminder.id,
+    reminderTime: reminder.reminder_time,
+    title: task.title,
+  };
+
+  return {
+    title: task.title,
+    body: task.deadline
+      ? `Due ${new Date(task.deadline).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`
+      : 'Reminder',
+    data: data as unknown as Record<string, unknown>,
+    categoryIdentifier: REMINDER_CATEGORY,
+  };
+};
+
+const dateTrigger = (date: Date): Notifications.NotificationTriggerInput => ({
+  type: Notifications.SchedulableTriggerInputTypes.DATE,
+  date,
+  channelId: ANDROID_CHANNEL_ID,
+});
+
+const isSnooze = (identifier: string) => identifier.startsWith(SNOOZE_PREFIX);
+
+export interface ReminderSyncOptions {
+  preferences: NotificationPreferences;
+  taskListRelations: TaskListRelation[];
+}
+
+/**
+ * Make the scheduled OS notifications match the reminders in the store.
+ * Each reminder is scheduled under its own id, so the set of pending
+ * notifications can be diffed: reminders of tasks that were completed,
+ * deleted or moved are cancelled or rescheduled, and new ones are added.
+ * Reminders suppressed by the user's preferences are treated as absent.
+ */
+export async function syncReminderNotifications(
+  tasks: Task[],
+  reminders: TaskReminder[],
+  { preferences, taskListRelations }: ReminderSyncOptions
+) {
+  const now = Date.now();
+  const openTasks = new Map(
+    tasks.filter((task) => isOpenStatus(task.status) && !task.is_deleted).map((task) => [task.id, task])
+  );
+  const listIdsOf = (taskId: string) =>
+    taskListRelations.filter((relation) => relation.task_id === taskId).map((relation) => relation.list_id);
+
+  const due = reminders.filter((reminder) => {
+    const reminderTime = new Date(reminder.reminder_time);
+    return (
+      openTasks.has(reminder.task_id) &&
+      reminderTime.getTime() > now &&
+      !isReminderSuppressed(reminderTime, listIdsOf(reminder.task_id), preferences)
+    );
+  });
+
+  // Other notifications, like the focus timer's, aren't reminders and are left alone
+  const scheduled = (await Notifications.getAllScheduledNotificationsAsync()).filter(
+    (request) => !!(request.content.data as unknown as ReminderNotificationData | undefined)?.reminderId
+  );
+  if (due.length === 0 && scheduled.length === 0) return;
+  if (due.length > 0 && !(await ensureNotificationPermission())) {
+    debug('Notification permission not granted for reminders');
+    return;
+  }
+
+  const dueById = new Map(due.map((reminder) => [reminder.id, reminder]));
+
+  // Cancel notifications whose reminder is gone, and snoozes of tasks that are no longer open
+  const stale = scheduled.filter((request) => {
+    const data = request.content.data as unknown as ReminderNotificationData | undefined;
+    if (isSnooze(request.identifier)) {
+      return !data?.taskId || !openTasks.has(data.taskId);
+    }
+    return !dueById.has(request.identifier);
+  });
+  await Promise.all(stale.map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier)));
+
+  // Schedule new reminders and reschedule ones whose time or task title changed
+  const scheduledById = new Map(scheduled.map((request) => [request.identifier, request]));
+  let rescheduled = 0;
+
+  for (const reminder of due) {
+    const task = openTasks.get(reminder.task_id)!;
+    const existing = scheduledById.get(reminder.id);
+    const data = existing?.content.data as unknown as ReminderNotificationData | undefined;
+
+    if (data && data.reminderTime === reminder.reminder_time && data.title === task.title) {
+      continue;
+    }
+    if (existing) {
+      await Notifications.cancelScheduledNotificationAsync(reminder.id);
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: buildContent(task, reminder),
+      trigger: dateTrigger(new Date(reminder.reminder_time)),
+    });
+    rescheduled += 1;
+  }
+
+  debug('Synced reminder notifications', { due: due.length, cancelled: stale.length, scheduled: rescheduled });
+}
+
+/**
+ * Show a delivered reminder again after the snooze period.
+ */
+export async function snoozeReminderNotification(notification: Notifications.Notification) {
+  const data = notification.request.content.data as unknown as ReminderNotificationData;
+
+  await Notifications.scheduleNotificationAsync({
+    identifier: `${SNOOZE_PREFIX}${data.reminderId}`,
+    content: {
+      title: notification.request.content.title ?? data.title,
+      body: notification.request.content.body ?? undefined,
+      data: notification.request.content.data,
+      categoryIdentifier: REMINDER_CATEGORY,
+    },
+    trigger: dateTrigger(new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000)),
+  });
+
+  debug('Snoozed reminder', { reminderId: data.reminderId });
+}
@@ -1,3 +1,5 @@
+import type { TaskStatus } from '../../../store/taskStore';
+
 export interface Task {
   id: string;
   user_id: string;
@@ -7,7 +9,7 @@ export interface Task {
   list: string;
   task_count: number;
   progress: number;
-  status: 'ongoing' | 'inprogress' | 'canceled' | 'completed';
+  status: TaskStatus;
   start_time: string;
   deadlineHours?: number; // Optional, in hours (can be hours or days converted to hours)
   value_impact?: number; // Optional, 1-100
@@ -48,6 +48,29 @@ export interface ContentStyles {
   settingInfo: ViewStyle;
   settingTitle: TextStyle;
   settingDescription: TextStyle;
+
+  // Prioritization styles
+  weightOptions: ViewStyle;
+  weightOption: ViewStyle;
+  selectedWeightOption: ViewStyle;
+  weightOptionText: TextStyle;
+  selectedWeightOptionText: TextStyle;
+
+  // Smart list styles
+  tabItem: ViewStyle;
+  tabName: TextStyle;
+  tabActions: ViewStyle;
+  tabActionButton: ViewStyle;
+  textInput: TextStyle;
+  chipGroup: ViewStyle;
+  chip: ViewStyle;
+  dangerText: TextStyle;
+
+  // Tag styles
+  colorDot: ViewStyle;
+  colorSwatch: ViewStyle;
+  selectedColorSwatch: ViewStyle;
+  tagEditor: ViewStyle;
 }
 
 // Create content styles
@@ -226,4 +249,103 @@ export const contentStyles = StyleSheet.create<ContentStyles>({
     fontSize: theme.typography.fontSize.sm,
     color: theme.colors.text.secondary,
   },
+
+  // Prioritization styles
+  weightOptions: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.md,
+  },
+  weightOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    marginRight: theme.spacing.xs,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.background.secondary,
+  },
+  selectedWeightOption: {
+    backgroundColor: 'rgba(52, 199, 89, 0.1)', // Success color with opacity
+  },
+  weightOptionText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  selectedWeightOptionText: {
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text.success,
+  },
+
+  // Smart list styles
+  tabItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+  },
+  tabName: {
+    flex: 1,
+    marginLeft: theme.spacing.md,
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+  tabActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tabActionButton: {
+    padding: theme.spacing.xs,
+    marginLeft: theme.spacing.xs,
+  },
+  textInput: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.background.secondary,
+  },
+  chipGroup: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: theme.spacing.sm,
+  },
+  chip: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    marginRight: theme.spacing.xs,
+    marginBottom: theme.spacing.xs,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.background.secondary,
+  },
+  dangerText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.error,
+    textAlign: 'center',
+    marginTop: theme.spacing.xl,
+  },
+
+  // Tag styles
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selectedColorSwatch: {
+    borderColor: theme.colors.text.primary,
+  },
+  tagEditor: {
+    paddingHorizontal: theme.spacing.lg,
+    paddingBottom: theme.spacing.lg,
+  },
 }); 
@@ -28,6 +28,16 @@ export interface FeaturedTaskCardStyles {
   deadlineText: TextStyle;
   focusButton: ViewStyle;
   focusButtonText: TextStyle;
+
+  // Recommendation
+  reasonsLabel: TextStyle;
+  reasonsContainer: ViewStyle;
+  reasonBadge: ViewStyle;
+  reasonText: TextStyle;
+  actionsRow: ViewStyle;
+  secondaryButton: ViewStyle;
+  secondaryButtonText: TextStyle;
+  emptyText: TextStyle;
 }
 
 // Colors for the featured task card
@@ -150,4 +160,48 @@ export const featuredTaskCardStyles = StyleSheet.create<FeaturedTaskCardStyles>(
     fontWeight: theme.typography.fontWeight.semibold as any,
     fontSize: theme.typography.fontSize.md,
   },
+
+  // Recommendation
+  reasonsLabel: {
+    fontSize: theme.typography.fontSize.xs,
+    color: featureCardColors.text.secondary,
+    marginBottom: theme.spacing.xs,
+  },
+  reasonsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.md,
+    gap: theme.spacing.sm,
+  },
+  reasonBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: featureCardColors.background.badge,
+    borderRadius: theme.borderRadius.sm,
+    paddingVertical: 4,
+    paddingHorizontal: theme.spacing.sm,
+    gap: 4,
+  },
+  reasonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: featureCardColors.accent,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: theme.spacing.sm,
+    gap: theme.spacing.md,
+  },
+  secondaryButton: {
+    paddingVertical: 4,
+  },
+  secondaryButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: featureCardColors.text.secondary,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: featureCardColors.text.secondary,
+    marginTop: theme.spacing.sm,
+  },
 }); 
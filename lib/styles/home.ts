@@ -48,14 +48,14 @@ const sizing = {
 export const STATUS_COLORS = {
   ongoing: '#5593F1',
   inprogress: '#FFC247',
-  canceled: '#F26E56',
+  cancelled: '#F26E56',
   completed: '#52C1C4',
 };
 
 export const STATUS_ICON_COLORS = {
   ongoing: '#4C85DB',
   inprogress: '#E5B03F',
-  canceled: '#DA624D',
+  cancelled: '#DA624D',
   completed: '#4AAFB2',
 };
 
@@ -74,6 +74,8 @@ export interface HomeStyles {
   avatar: ImageStyle;
   greeting: TextStyle;
   subtitle: TextStyle;
+  focusToday: ViewStyle;
+  focusTodayText: TextStyle;
   
   // Collapsible section
   collapsibleContainer: ViewStyle;
@@ -169,6 +171,16 @@ export const homeStyles = StyleSheet.create<HomeStyles>({
     color: theme.colors.text.placeholder,
     marginTop: spacing.xs,
   },
+  focusToday: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  focusTodayText: {
+    fontSize: fontSize.small,
+    color: theme.colors.text.placeholder,
+  },
   
   // Collapsible section
   collapsibleContainer: {
@@ -13,6 +13,9 @@ export * from './focus-task-view';
 export * from './image-editor';
 export * from './status-bar';
 export * from './task-entry-bottom-sheet';
+export * from './recurrence-rule-editor';
+export * from './search';
+export * from './tag-picker';
 
 // Utility function to create dynamic styles based on theme
 export const createStyles = (stylesFn: (theme: ReturnType<typeof import('./useTheme').useTheme>) => any) => {
@@ -0,0 +1,201 @@
+import { StyleSheet, ViewStyle, TextStyle } from 'react-native';
+import { taskEntryColors } from './task-entry-bottom-sheet';
+
+// Define types for all styles used in the recurrence rule editor
+export interface RecurrenceRuleEditorStyles {
+  // Modal
+  backdrop: ViewStyle;
+  container: ViewStyle;
+  header: ViewStyle;
+  headerTitle: TextStyle;
+  cancelText: TextStyle;
+  doneText: TextStyle;
+  body: ViewStyle;
+  summary: TextStyle;
+
+  // Sections
+  section: ViewStyle;
+  sectionTitle: TextStyle;
+  chipRow: ViewStyle;
+  chip: ViewStyle;
+  chipSelected: ViewStyle;
+  chipText: TextStyle;
+  chipTextSelected: TextStyle;
+
+  // Interval stepper
+  stepperRow: ViewStyle;
+  stepperButton: ViewStyle;
+  stepperValue: TextStyle;
+  stepperLabel: TextStyle;
+
+  // Weekday picker
+  weekdayRow: ViewStyle;
+  weekday: ViewStyle;
+  weekdaySelected: ViewStyle;
+  weekdayText: TextStyle;
+  weekdayTextSelected: TextStyle;
+
+  // End options
+  endValue: TextStyle;
+  clearButton: ViewStyle;
+  clearButtonText: TextStyle;
+}
+
+// Create the styles
+export const recurrenceRuleEditorStyles = StyleSheet.create<RecurrenceRuleEditorStyles>({
+  // Modal
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: taskEntryColors.background,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: taskEntryColors.border.light,
+    backgroundColor: taskEntryColors.toolbarBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  headerTitle: {
+    color: taskEntryColors.text.primary,
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  cancelText: {
+    color: taskEntryColors.text.secondary,
+    fontWeight: '500',
+    fontSize: 16,
+  },
+  doneText: {
+    color: taskEntryColors.primary,
+    fontWeight: '700',
+    fontSize: 16,
+  },
+  body: {
+    paddingHorizontal: 16,
+  },
+  summary: {
+    fontSize: 14,
+    color: taskEntryColors.text.active,
+    fontWeight: '500',
+    marginTop: 16,
+  },
+
+  // Sections
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: taskEntryColors.text.secondary,
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: taskEntryColors.border.medium,
+  },
+  chipSelected: {
+    borderColor: taskEntryColors.primary,
+    backgroundColor: '#FFF8EC',
+  },
+  chipText: {
+    fontSize: 14,
+    color: taskEntryColors.text.primary,
+  },
+  chipTextSelected: {
+    color: taskEntryColors.text.active,
+    fontWeight: '500',
+  },
+
+  // Interval stepper
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: taskEntryColors.border.medium,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: taskEntryColors.text.primary,
+    minWidth: 36,
+    textAlign: 'center',
+  },
+  stepperLabel: {
+    fontSize: 14,
+    color: taskEntryColors.text.primary,
+    marginLeft: 12,
+  },
+
+  // Weekday picker
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekday: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: taskEntryColors.border.medium,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekdaySelected: {
+    backgroundColor: taskEntryColors.primary,
+    borderColor: taskEntryColors.primary,
+  },
+  weekdayText: {
+    fontSize: 13,
+    color: taskEntryColors.text.primary,
+  },
+  weekdayTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+
+  // End options
+  endValue: {
+    fontSize: 14,
+    color: taskEntryColors.text.active,
+    fontWeight: '500',
+    marginTop: 8,
+  },
+  clearButton: {
+    marginTop: 24,
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  clearButtonText: {
+    color: taskEntryColors.error,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,146 @@
+import { StyleSheet, ViewStyle, TextStyle } from 'react-native';
+import * as theme from './theme';
+
+// Define properly typed search styles
+export interface SearchStyles {
+  // Container and header
+  container: ViewStyle;
+  header: ViewStyle;
+  backButton: ViewStyle;
+  searchBar: ViewStyle;
+  searchInput: TextStyle;
+
+  // Recent searches
+  sectionHeader: ViewStyle;
+  sectionTitle: TextStyle;
+  clearText: TextStyle;
+  recentItem: ViewStyle;
+  recentText: TextStyle;
+
+  // Results
+  resultItem: ViewStyle;
+  resultContent: ViewStyle;
+  resultTitle: TextStyle;
+  completedTitle: TextStyle;
+  matchRow: ViewStyle;
+  matchText: TextStyle;
+  highlight: TextStyle;
+
+  // Empty and loading states
+  emptyState: ViewStyle;
+  emptyStateText: TextStyle;
+}
+
+// Create search styles
+export const searchStyles = StyleSheet.create<SearchStyles>({
+  // Container and header
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.sm,
+    gap: theme.spacing.sm,
+  },
+  backButton: {
+    padding: theme.spacing.xs,
+    marginLeft: -4,
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background.tertiary,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    gap: theme.spacing.xs,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm,
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+
+  // Recent searches
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.lg,
+    paddingBottom: theme.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text.secondary,
+  },
+  clearText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.primary,
+  },
+  recentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    gap: theme.spacing.md,
+  },
+  recentText: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+
+  // Results
+  resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.medium,
+  },
+  resultContent: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text.primary,
+  },
+  completedTitle: {
+    color: theme.colors.text.placeholder,
+    textDecorationLine: 'line-through',
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.xs,
+    gap: theme.spacing.xs,
+  },
+  matchText: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  highlight: {
+    backgroundColor: 'rgba(255, 159, 28, 0.25)', // Primary color with opacity
+    color: theme.colors.text.primary,
+  },
+
+  // Empty and loading states
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.placeholder,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,139 @@
+import { StyleSheet, ViewStyle, TextStyle } from 'react-native';
+import { taskEntryColors } from './task-entry-bottom-sheet';
+
+// Define types for all styles used in the tag picker
+export interface TagPickerStyles {
+  // Modal
+  backdrop: ViewStyle;
+  container: ViewStyle;
+  header: ViewStyle;
+  headerTitle: TextStyle;
+  doneText: TextStyle;
+  body: ViewStyle;
+
+  // Tags
+  sectionTitle: TextStyle;
+  tagRow: ViewStyle;
+  tagChip: ViewStyle;
+  tagChipText: TextStyle;
+  colorDot: ViewStyle;
+  emptyText: TextStyle;
+
+  // New tag
+  createRow: ViewStyle;
+  createInput: TextStyle;
+  colorRow: ViewStyle;
+  colorSwatch: ViewStyle;
+  colorSwatchSelected: ViewStyle;
+}
+
+// Create the styles
+export const tagPickerStyles = StyleSheet.create<TagPickerStyles>({
+  // Modal
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: taskEntryColors.background,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 24,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: taskEntryColors.border.light,
+    backgroundColor: taskEntryColors.toolbarBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  headerTitle: {
+    color: taskEntryColors.text.primary,
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  doneText: {
+    color: taskEntryColors.primary,
+    fontWeight: '700',
+    fontSize: 16,
+  },
+  body: {
+    paddingHorizontal: 16,
+  },
+
+  // Tags
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: taskEntryColors.text.secondary,
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: taskEntryColors.border.medium,
+  },
+  tagChipText: {
+    fontSize: 14,
+    color: taskEntryColors.text.primary,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: taskEntryColors.text.secondary,
+  },
+
+  // New tag
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: taskEntryColors.border.input,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  createInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 10,
+    color: taskEntryColors.text.primary,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 12,
+  },
+  colorSwatch: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorSwatchSelected: {
+    borderColor: taskEntryColors.text.primary,
+  },
+});
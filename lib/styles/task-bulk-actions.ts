@@ -0,0 +1,131 @@
+import { StyleSheet, ViewStyle, TextStyle } from 'react-native';
+import { taskEntryColors } from './task-entry-bottom-sheet';
+
+// Define types for all styles used by the bulk actions of a task list
+export interface TaskBulkActionsStyles {
+  // Selection header
+  selectionHeader: ViewStyle;
+  selectionCount: TextStyle;
+  selectionActions: ViewStyle;
+  selectionActionText: TextStyle;
+
+  // Action bar
+  actionBar: ViewStyle;
+  actionButton: ViewStyle;
+  actionLabel: TextStyle;
+
+  // Option sheet
+  backdrop: ViewStyle;
+  sheet: ViewStyle;
+  sheetHeader: ViewStyle;
+  sheetTitle: TextStyle;
+  doneText: TextStyle;
+  option: ViewStyle;
+  optionText: TextStyle;
+  colorDot: ViewStyle;
+  emptyText: TextStyle;
+}
+
+// Create the styles
+export const taskBulkActionsStyles = StyleSheet.create<TaskBulkActionsStyles>({
+  // Selection header
+  selectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: taskEntryColors.border.light,
+  },
+  selectionCount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: taskEntryColors.text.primary,
+  },
+  selectionActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  selectionActionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: taskEntryColors.primary,
+  },
+
+  // Action bar
+  actionBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: taskEntryColors.border.light,
+    backgroundColor: taskEntryColors.background,
+  },
+  actionButton: {
+    alignItems: 'center',
+    minWidth: 44,
+    paddingVertical: 4,
+  },
+  actionLabel: {
+    fontSize: 11,
+    marginTop: 2,
+    color: taskEntryColors.text.secondary,
+  },
+
+  // Option sheet
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: taskEntryColors.background,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 24,
+    maxHeight: '70%',
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: taskEntryColors.border.light,
+  },
+  sheetTitle: {
+    color: taskEntryColors.text.primary,
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  doneText: {
+    color: taskEntryColors.primary,
+    fontWeight: '700',
+    fontSize: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: taskEntryColors.border.light,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+    color: taskEntryColors.text.primary,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: taskEntryColors.text.secondary,
+    padding: 16,
+  },
+});
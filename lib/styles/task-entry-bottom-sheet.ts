@@ -39,6 +39,17 @@ export const taskEntryColors = {
     active: '#FF9F1C',
     inactive: '#8E8E93',
   },
+  // Quick add tokens highlighted in the title, by token type
+  quickAdd: {
+    priority: '#FF3B30',
+    date: '#FF9F1C',
+    time: '#FF9F1C',
+    recurrence: '#AF52DE',
+    reminder: '#5856D6',
+    tag: '#007AFF',
+    list: '#34C759',
+    difficulty: '#8E8E93',
+  },
   menuBackground: 'white',
   shadow: '#000000',
 };
@@ -67,6 +78,7 @@ export interface TaskEntryBottomSheetStyles {
   combinedInputContainer: ViewStyle;
   titleContainer: ViewStyle;
   titleInput: TextStyle;
+  quickAddToken: TextStyle;
   divider: ViewStyle;
   
   // Rich editor
@@ -228,6 +240,9 @@ export const taskEntryStyles = StyleSheet.create<TaskEntryBottomSheetStyles>({
     paddingHorizontal: 0,
     color: taskEntryColors.text.primary,
   },
+  quickAddToken: {
+    fontWeight: '600',
+  },
   divider: {
     height: 1,
     backgroundColor: taskEntryColors.divider,
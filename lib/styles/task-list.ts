@@ -7,12 +7,18 @@ export interface TaskListStyles {
   container: ViewStyle;
   header: ViewStyle;
   title: TextStyle;
+  headerButton: ViewStyle;
   
   // Tabs
   tabsContainer: ViewStyle;
   tabsContent: ViewStyle;
   tab: ViewStyle;
   tabText: TextStyle;
+  tabCount: TextStyle;
+  manageTabsButton: ViewStyle;
+  tagFilterRow: ViewStyle;
+  tagFilterChip: ViewStyle;
+  tagFilterText: TextStyle;
   content: ViewStyle;
   
   // List sections
@@ -64,6 +70,10 @@ export const taskListStyles = StyleSheet.create<TaskListStyles>({
     fontWeight: theme.typography.fontWeight.bold as any,
     color: theme.colors.text.primary,
   },
+  headerButton: {
+    marginLeft: 'auto',
+    padding: theme.spacing.xs,
+  },
   
   // Tabs
   tabsContainer: {
@@ -87,6 +97,32 @@ export const taskListStyles = StyleSheet.create<TaskListStyles>({
     fontSize: 14,
     fontWeight: '500',
   },
+  tabCount: {
+    marginLeft: 6,
+    fontSize: 12,
+    color: theme.colors.text.secondary,
+  },
+  manageTabsButton: {
+    justifyContent: 'center',
+    paddingHorizontal: 8,
+  },
+  tagFilterRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  tagFilterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+  },
+  tagFilterText: {
+    marginHorizontal: 6,
+    fontSize: 14,
+    fontWeight: '500',
+  },
   content: {
     flex: 1,
     padding: 16,
@@ -0,0 +1,48 @@
+import { StyleSheet, ViewStyle, TextStyle } from 'react-native';
+import { spacing, typography, borderRadius, shadows } from './theme';
+
+export interface UndoSnackbarStyles {
+  container: ViewStyle;
+  label: TextStyle;
+  actionButton: ViewStyle;
+  actionText: TextStyle;
+}
+
+export const undoSnackbarColors = {
+  background: '#323232',
+  text: '#FFFFFF',
+  action: '#FF9F1C',
+};
+
+// Distance from the bottom edge, clearing the tab bar
+export const UNDO_SNACKBAR_OFFSET = 96;
+
+export const undoSnackbarStyles = StyleSheet.create<UndoSnackbarStyles>({
+  container: {
+    position: 'absolute',
+    left: spacing.lg,
+    right: spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: spacing.lg,
+    paddingRight: spacing.xs,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    backgroundColor: undoSnackbarColors.background,
+    ...shadows.medium,
+  },
+  label: {
+    flex: 1,
+    fontSize: typography.fontSize.sm,
+    color: undoSnackbarColors.text,
+  },
+  actionButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  actionText: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: undoSnackbarColors.action,
+  },
+});
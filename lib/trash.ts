@@ -0,0 +1,95 @@
+import { subDays } from 'date-fns';
+import { supabase } from '../data/supabase';
+import { useTaskStore, Task } from '../store/taskStore';
+import { debug } from './logger';
+
+const getSessionUserId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to use the trash');
+  }
+  return session.user.id;
+};
+
+/**
+ * Deleted tasks aren't cached on the device, so the trash is loaded from the
+ * server, most recently deleted first.
+ */
+export async function fetchTrash(): Promise<Task[]> {
+  const userId = await getSessionUserId();
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_deleted', true)
+    .order('deleted_at', { ascending: false, nullsFirst: false });
+  if (error) {
+    throw new Error('The trash is only kept on the server. Connect to the internet to open it.');
+  }
+
+  debug('Fetched trash', { count: data?.length ?? 0 });
+  return (data ?? []) as Task[];
+}
+
+/**
+ * The given tasks plus any of their parents that are in the trash too, so a
+ * restored subtask doesn't hang off a task that's still deleted.
+ */
+export function withTrashedParents(ids: string[], trash: Task[]): Task[] {
+  const trashById = new Map(trash.map((task) => [task.id, task]));
+  const restored = new Map<string, Task>();
+
+  ids.forEach((id) => {
+    let task = trashById.get(id);
+    while (task && !restored.has(task.id)) {
+      restored.set(task.id, task);
+      task = task.parent_task_id ? trashById.get(task.parent_task_id) : undefined;
+    }
+  });
+  return Array.from(restored.values());
+}
+
+/**
+ * Restore tasks from the trash, with their trashed parents. Returns the
+ * restored tasks.
+ */
+export async function restoreFromTrash(ids: string[], trash: Task[]): Promise<Task[]> {
+  const tasks = withTrashedParents(ids, trash);
+  await useTaskStore.getState().restoreTasks(tasks);
+
+  debug('Restored tasks from the trash', { count: tasks.length });
+  return tasks;
+}
+
+/**
+ * Permanently delete trashed tasks with their tags, lists and reminders.
+ * Returns how many were purged.
+ */
+export async function purgeTrash(ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  await getSessionUserId();
+  const { data, error } = await supabase.rpc('purge_deleted_tasks', { task_ids: ids });
+  if (error) throw error;
+  useTaskStore.getState().forgetPurgedTasks(ids);
+
+  debug('Purged the trash', { count: data });
+  return (data as number | null) ?? 0;
+}
+
+/**
+ * Permanently delete tasks that have been in the trash for longer than the
+ * retention period. Returns how many were purged.
+ */
+export async function purgeExpiredTrash(retentionDays: number, now: Date = new Date()): Promise<number> {
+  const userId = await getSessionUserId();
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('is_deleted', true)
+    .lt('deleted_at', subDays(now, retentionDays).toISOString());
+  if (error) throw error;
+
+  return purgeTrash((data ?? []).map((row) => row.id));
+}
@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTaskStore, SubtaskCompletion } from '../store/taskStore';
+import { getDescendants } from './utils/subtasks';
+import { isOpenStatus } from './utils/taskStatus';
+
+/**
+ * Returns a function that completes a task. When the task still has open
+ * subtasks the user is asked whether to complete them, cancel them or leave
+ * them open; dismissing the prompt leaves everything unchanged.
+ */
+export function useCompleteTask() {
+  const { t } = useTranslation();
+
+  return useCallback((taskId: string) => new Promise<void>((resolve) => {
+    const { tasks, completeTask } = useTaskStore.getState();
+    const openCount = getDescendants(taskId, tasks).filter((task) => isOpenStatus(task.status)).length;
+
+    const finish = (choice: SubtaskCompletion) => {
+      completeTask(taskId, choice).then(resolve, resolve);
+    };
+
+    if (openCount === 0) {
+      finish('keep');
+      return;
+    }
+
+    Alert.alert(
+      t('task.open_subtasks_title'),
+      t('task.open_subtasks_message', { count: openCount }),
+      [
+        { text: t('task.leave_subtasks_open'), onPress: () => finish('keep') },
+        { text: t('task.cancel_subtasks'), style: 'destructive', onPress: () => finish('cancel') },
+        { text: t('task.complete_subtasks'), onPress: () => finish('complete') },
+      ],
+      { cancelable: true, onDismiss: () => resolve() }
+    );
+  }), [t]);
+}
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import useFocusTimerStore from '../store/focusTimerStore';
+import { getPhaseEndsAt } from './utils/focusTimer';
+
+/**
+ * Keeps a running pomodoro moving on while the focus view is closed: catches
+ * up on periods that ended while the app was in the background or closed,
+ * when it's opened or comes back to the foreground, and moves on to the next
+ * period when the current one ends with the app open.
+ */
+export function useFocusTimerSync() {
+  const pomodoro = useFocusTimerStore((state) => state.pomodoro);
+
+  useEffect(() => {
+    const sync = () => useFocusTimerStore.getState().sync();
+
+    if (useFocusTimerStore.persist.hasHydrated()) sync();
+    const unsubscribeHydration = useFocusTimerStore.persist.onFinishHydration(sync);
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active') {
+        sync();
+      }
+    });
+    return () => {
+      unsubscribeHydration();
+      subscription.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    const endsAt = getPhaseEndsAt(pomodoro);
+    if (endsAt === null) return;
+
+    const timer = setTimeout(() => useFocusTimerStore.getState().sync(), Math.max(0, endsAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [pomodoro]);
+}
@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { supabase } from '../data/supabase';
+import { useOutboxStore } from '../store/outboxStore';
+
+/**
+ * Replays queued task mutations on mount, whenever connectivity
+ * returns, whenever the app comes back to the foreground and whenever
+ * a user signs in. Only the signed-in user's mutations are replayed.
+ */
+export function useOutboxSync() {
+  useEffect(() => {
+    const flush = () => {
+      useOutboxStore.getState().flush();
+    };
+
+    flush();
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      useOutboxStore.getState().setUserId(session?.user.id ?? null);
+      flush();
+    });
+
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        flush();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active') {
+        flush();
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+    };
+  }, []);
+}
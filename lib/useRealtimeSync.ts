@@ -0,0 +1,103 @@
+import { useEffect } from 'react';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../data/supabase';
+import { useTaskStore, SyncedTable } from '../store/taskStore';
+import { useTaskEntry } from '../contexts/TaskEntryContext';
+
+// Tables with a user_id column can be filtered on the server
+const USER_TABLES: SyncedTable[] = ['tasks', 'tags', 'lists'];
+
+// Junction tables have no user_id; row level security limits them to the user's rows
+const JUNCTION_TABLES: SyncedTable[] = ['task_lists', 'task_tags', 'task_reminders'];
+
+/**
+ * Reload everything the channel may have missed while it was disconnected.
+ */
+const catchUp = async () => {
+  const {
+    fetchTasks,
+    fetchTags,
+    fetchLists,
+    fetchTaskListRelations,
+    fetchTaskTagRelations,
+    fetchReminders,
+  } = useTaskStore.getState();
+
+  await Promise.all([
+    fetchTasks(),
+    fetchTags(),
+    fetchLists(),
+    fetchTaskListRelations(),
+    fetchTaskTagRelations(),
+    fetchReminders(),
+  ]);
+};
+
+/**
+ * Subscribes to Supabase postgres_changes for the signed-in user's data
+ * and merges inserts, updates and deletes into useTaskStore.
+ */
+export function useRealtimeSync() {
+  const { refreshTasks } = useTaskEntry();
+
+  useEffect(() => {
+    let channel: RealtimeChannel | null = null;
+    let hasSubscribed = false;
+    let cancelled = false;
+
+    const handleChange = (table: SyncedTable) => (
+      payload: RealtimePostgresChangesPayload<Record<string, any>>
+    ) => {
+      useTaskStore.getState().applyRemoteChange({
+        table,
+        eventType: payload.eventType,
+        new: payload.new,
+        old: payload.old,
+      });
+
+      // Let screens that load their own copy of a task refresh it
+      refreshTasks();
+    };
+
+    const subscribe = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      const userId = session?.user.id;
+      if (!userId || cancelled) return;
+
+      channel = supabase.channel(`sync:${userId}`);
+
+      USER_TABLES.forEach((table) => {
+        channel!.on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` },
+          handleChange(table)
+        );
+      });
+
+      JUNCTION_TABLES.forEach((table) => {
+        channel!.on('postgres_changes', { event: '*', schema: 'public', table }, handleChange(table));
+      });
+
+      channel.subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          // Changes made while the channel was down are never replayed, so refetch on reconnect
+          if (hasSubscribed) {
+            catchUp();
+          }
+          hasSubscribed = true;
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.warn('[RealtimeSync] Channel status:', status, error?.message);
+        }
+      });
+    };
+
+    subscribe();
+
+    return () => {
+      cancelled = true;
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [refreshTasks]);
+}
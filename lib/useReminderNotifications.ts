@@ -0,0 +1,90 @@
+import { useEffect } from 'react';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { useTaskStore } from '../store/taskStore';
+import useNotificationPreferencesStore from '../store/notificationPreferencesStore';
+import {
+  REMINDER_ACTIONS,
+  ReminderNotificationData,
+  configureReminderNotifications,
+  snoozeReminderNotification,
+  syncReminderNotifications,
+} from './reminderNotifications';
+
+// Wait for a burst of store updates to settle before touching the OS schedule
+const SYNC_DELAY_MS = 500;
+
+// The launch response is reported again on every call, so remember the last one handled
+let lastHandledResponse: string | null = null;
+
+const handleResponse = async (response: Notifications.NotificationResponse) => {
+  const { notification, actionIdentifier } = response;
+  const responseKey = `${notification.request.identifier}:${actionIdentifier}:${notification.date}`;
+  if (responseKey === lastHandledResponse) return;
+  lastHandledResponse = responseKey;
+
+  const data = notification.request.content.data as unknown as ReminderNotificationData | undefined;
+  if (!data?.taskId) return;
+
+  switch (actionIdentifier) {
+    case REMINDER_ACTIONS.complete:
+      await useTaskStore.getState().toggleTaskStatus(data.taskId, 'completed');
+      break;
+    case REMINDER_ACTIONS.snooze:
+      await snoozeReminderNotification(notification);
+      break;
+    case REMINDER_ACTIONS.open:
+    case Notifications.DEFAULT_ACTION_IDENTIFIER:
+      router.push(`/(task-details)/${data.taskId}?source=notification`);
+      break;
+  }
+
+  await Notifications.dismissNotificationAsync(notification.request.identifier);
+};
+
+/**
+ * Mirrors task_reminders into local OS notifications while a user is signed in
+ * and handles the Complete, Snooze and Open actions on them.
+ */
+export function useReminderNotifications() {
+  const tasks = useTaskStore((state) => state.tasks);
+  const reminders = useTaskStore((state) => state.reminders);
+  const taskListRelations = useTaskStore((state) => state.taskListRelations);
+  const preferences = useNotificationPreferencesStore((state) => state.preferences);
+
+  // Resync everything on app start, including reminders and preferences changed on other devices
+  useEffect(() => {
+    configureReminderNotifications()
+      .then(() => Promise.all([
+        useTaskStore.getState().fetchReminders(),
+        useNotificationPreferencesStore.getState().loadPreferences(),
+      ]))
+      .catch((error) => console.warn('[ReminderNotifications] Setup failed:', error?.message));
+  }, []);
+
+  // Reschedule whenever reminders change, their tasks move, complete or get deleted, or preferences change
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      syncReminderNotifications(tasks, reminders, { preferences, taskListRelations }).catch((error) =>
+        console.warn('[ReminderNotifications] Sync failed:', error?.message)
+      );
+    }, SYNC_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [tasks, reminders, taskListRelations, preferences]);
+
+  useEffect(() => {
+    // An action that launched the app arrives before the listener is attached
+    Notifications.getLastNotificationResponseAsync().then((response) => {
+      if (response) {
+        handleResponse(response);
+      }
+    });
+
+    const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      handleResponse(response);
+    });
+
+    return () => subscription.remove();
+  }, []);
+}
@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { differenceInHours } from 'date-fns';
+import useTrashStore from '../store/trashStore';
+import { purgeExpiredTrash } from './trash';
+
+// Expired tasks are looked for at most this often
+const PURGE_INTERVAL_HOURS = 24;
+
+let isPurging = false;
+
+const purgeIfDue = async () => {
+  // Before the saved settings load, the default period could purge what the user chose to keep
+  if (!useTrashStore.persist.hasHydrated() || isPurging) return;
+
+  const { retentionDays, lastPurgedAt, setLastPurgedAt } = useTrashStore.getState();
+  if (retentionDays === null) return;
+  if (lastPurgedAt && differenceInHours(new Date(), new Date(lastPurgedAt)) < PURGE_INTERVAL_HOURS) return;
+
+  isPurging = true;
+  try {
+    await purgeExpiredTrash(retentionDays);
+    setLastPurgedAt(new Date().toISOString());
+  } catch (error: any) {
+    // Offline or signed out; tried again next time the app is opened
+    console.warn('[Trash] Purge failed:', error?.message);
+  } finally {
+    isPurging = false;
+  }
+};
+
+/**
+ * Permanently deletes tasks that have been in the trash for longer than the
+ * retention period, on start, when the period changes and when the app comes
+ * back to the foreground.
+ */
+export function useTrashPurge() {
+  const retentionDays = useTrashStore((state) => state.retentionDays);
+
+  useEffect(() => {
+    purgeIfDue();
+  }, [retentionDays]);
+
+  useEffect(() => {
+    const unsubscribeHydration = useTrashStore.persist.onFinishHydration(() => {
+      purgeIfDue();
+    });
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active') {
+        purgeIfDue();
+      }
+    });
+    return () => {
+      unsubscribeHydration();
+      subscription.remove();
+    };
+  }, []);
+}
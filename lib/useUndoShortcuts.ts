@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import { useTaskStore } from '../store/taskStore';
+
+// Typing fields keep their own undo
+const isEditable = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+};
+
+/**
+ * Undo task changes with Ctrl+Z (Cmd+Z on a Mac) and redo them with
+ * Ctrl+Shift+Z or Ctrl+Y on web.
+ */
+export function useUndoShortcuts() {
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof document === 'undefined') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditable(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      const { undo, redo } = useTaskStore.getState();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,220 @@
+import type { List, Tag } from '../../../store/taskStore';
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupData, BackupDocument, createBackup, planRestore, validateBackup } from '../backup';
+import { makeTask } from './fixtures/tasks';
+
+const NOW = new Date('2025-03-12T12:00:00.000Z');
+
+const makeTag = (id: string, name: string): Tag => ({
+  id,
+  user_id: 'user-1',
+  name,
+  color: null,
+  created_at: '2025-03-01T09:00:00.000Z',
+});
+
+const makeList = (id: string, name: string, position: number): List => ({
+  id,
+  user_id: 'user-1',
+  name,
+  color: null,
+  icon: null,
+  position,
+  is_archived: false,
+  created_at: '2025-03-01T09:00:00.000Z',
+});
+
+const EMPTY: BackupData = { tasks: [], tags: [], lists: [], taskTagRelations: [], taskListRelations: [], reminders: [] };
+
+// A backup of a trip with a subtask, a tag, a list and a reminder
+const DATA: BackupData = {
+  tasks: [
+    // The subtask comes first, so restoring has to reorder it behind its parent
+    makeTask('flights', { title: 'Book flights', parent_task_id: 'trip' }),
+    makeTask('trip', { title: 'Plan trip', deadline: '2025-05-20T09:00:00.000Z', priority: 1 }),
+    makeTask('hotel', { title: 'Book hotel', parent_task_id: 'flights' }),
+  ],
+  tags: [makeTag('tag-travel', 'Travel')],
+  lists: [makeList('list-personal', 'Personal', 0)],
+  taskTagRelations: [{ task_id: 'trip', tag_id: 'tag-travel' }],
+  taskListRelations: [{ task_id: 'trip', list_id: 'list-personal' }],
+  reminders: [
+    { id: 'reminder-1', task_id: 'trip', reminder_time: '2025-05-19T09:00:00.000Z', created_at: '2025-03-01T09:00:00.000Z' },
+  ],
+};
+
+const DOCUMENT = createBackup(DATA, null, { includeDeleted: false, now: NOW });
+
+// Fresh ids in the order they're handed out
+const sequentialIds = () => {
+  let next = 0;
+  return () => `new-${++next}`;
+};
+
+const restore = (document: BackupDocument, existing: BackupData = EMPTY) =>
+  planRestore(document, existing, { userId: 'user-2', createId: sequentialIds(), now: NOW });
+
+// The data after writing a plan's rows on top of what was there
+const applyPlan = (existing: BackupData, rows: BackupData): BackupData => ({
+  tasks: [...existing.tasks, ...rows.tasks],
+  tags: [...existing.tags, ...rows.tags],
+  lists: [...existing.lists, ...rows.lists],
+  taskTagRelations: [...existing.taskTagRelations, ...rows.taskTagRelations],
+  taskListRelations: [...existing.taskListRelations, ...rows.taskListRelations],
+  reminders: [...existing.reminders, ...rows.reminders],
+});
+
+describe('createBackup', () => {
+  it('leaves out who owns the rows', () => {
+    expect(DOCUMENT.tasks.every((task) => !('user_id' in task))).toBe(true);
+    expect(DOCUMENT.tags.every((tag) => !('user_id' in tag))).toBe(true);
+  });
+
+  it('leaves out deleted tasks and their relations unless asked to keep them', () => {
+    const data = { ...DATA, tasks: DATA.tasks.map((task) => (task.id === 'trip' ? { ...task, is_deleted: true } : task)) };
+
+    const without = createBackup(data, null, { includeDeleted: false, now: NOW });
+    expect(without.tasks.map((task) => task.id)).toEqual(['flights', 'hotel']);
+    expect(without.task_tags).toEqual([]);
+    expect(without.task_reminders).toEqual([]);
+
+    expect(createBackup(data, null, { includeDeleted: true, now: NOW }).tasks).toHaveLength(3);
+  });
+});
+
+describe('validateBackup', () => {
+  it('accepts a backup in the current format', () => {
+    expect(validateBackup(JSON.parse(JSON.stringify(DOCUMENT)))).toEqual({ document: DOCUMENT });
+  });
+
+  it.each([
+    ['something else', { format: 'other', version: 1 }],
+    ['no version', { ...DOCUMENT, version: undefined }],
+    ['a newer version', { ...DOCUMENT, version: BACKUP_VERSION + 1 }],
+    ['a missing collection', { ...DOCUMENT, task_tags: undefined }],
+  ])('rejects %s', (_name, value) => {
+    expect(validateBackup(value)).toHaveProperty('error');
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(validateBackup(null)).toHaveProperty('error');
+    expect(validateBackup([BACKUP_FORMAT])).toHaveProperty('error');
+  });
+});
+
+describe('planRestore', () => {
+  it('gives every row a new id and the restoring user', () => {
+    const { rows, report } = restore(DOCUMENT);
+
+    expect(rows.tasks.map((task) => task.title)).toEqual(['Plan trip', 'Book flights', 'Book hotel']);
+    expect(rows.tasks.every((task) => task.id.startsWith('new-') && task.user_id === 'user-2')).toBe(true);
+    expect(rows.tags).toEqual([expect.objectContaining({ name: 'Travel', user_id: 'user-2' })]);
+    expect(rows.lists).toEqual([expect.objectContaining({ name: 'Personal', user_id: 'user-2', position: 0 })]);
+    expect(report.problems).toEqual([]);
+  });
+
+  it('remaps subtasks to their parent, parents first', () => {
+    const { rows } = restore(DOCUMENT);
+    const [trip, flights, hotel] = rows.tasks;
+
+    expect(trip.parent_task_id).toBeNull();
+    expect(flights.parent_task_id).toBe(trip.id);
+    expect(hotel.parent_task_id).toBe(flights.id);
+  });
+
+  it('remaps relations and reminders to the new ids', () => {
+    const { rows } = restore(DOCUMENT);
+    const [trip] = rows.tasks;
+
+    expect(rows.taskTagRelations).toEqual([{ task_id: trip.id, tag_id: rows.tags[0].id }]);
+    expect(rows.taskListRelations).toEqual([{ task_id: trip.id, list_id: rows.lists[0].id }]);
+    expect(rows.reminders).toEqual([expect.objectContaining({ task_id: trip.id, reminder_time: '2025-05-19T09:00:00.000Z' })]);
+  });
+
+  it('reuses tags and lists with the same name, ignoring case and spacing', () => {
+    const existing = { ...EMPTY, tags: [makeTag('mine', 'travel')], lists: [makeList('my-list', 'PERSONAL', 3)] };
+    const document = { ...DOCUMENT, tags: [{ ...DOCUMENT.tags[0], name: '  Travel ' }] };
+    const { rows, report } = restore(document, existing);
+
+    expect(rows.tags).toEqual([]);
+    expect(rows.lists).toEqual([]);
+    expect(report.counts.tags).toEqual({ created: 0, skipped: 1, rejected: 0 });
+    expect(report.counts.lists).toEqual({ created: 0, skipped: 1, rejected: 0 });
+    expect(rows.taskTagRelations).toEqual([{ task_id: rows.tasks[0].id, tag_id: 'mine' }]);
+    expect(rows.taskListRelations).toEqual([{ task_id: rows.tasks[0].id, list_id: 'my-list' }]);
+  });
+
+  it('puts restored lists after the existing ones', () => {
+    const existing = { ...EMPTY, lists: [makeList('work', 'Work', 0), makeList('home', 'Home', 4)] };
+    expect(restore(DOCUMENT, existing).rows.lists[0].position).toBe(5);
+  });
+
+  it('rejects relations and reminders whose task or target was not restored', () => {
+    const document: BackupDocument = {
+      ...DOCUMENT,
+      task_tags: [...DOCUMENT.task_tags, { task_id: 'trip', tag_id: 'tag-missing' }],
+      task_lists: [...DOCUMENT.task_lists, { task_id: 'task-missing', list_id: 'list-personal' }],
+      task_reminders: [
+        ...DOCUMENT.task_reminders,
+        { id: 'reminder-2', task_id: 'task-missing', reminder_time: '2025-05-19T09:00:00.000Z', created_at: '' },
+      ],
+    };
+    const { rows, report } = restore(document);
+
+    expect(rows.taskTagRelations).toHaveLength(1);
+    expect(rows.taskListRelations).toHaveLength(1);
+    expect(rows.reminders).toHaveLength(1);
+    expect(report.counts.task_tags.rejected).toBe(1);
+    expect(report.counts.task_lists.rejected).toBe(1);
+    expect(report.counts.task_reminders.rejected).toBe(1);
+    expect(report.problems).toEqual([
+      "task_tags #2: its task or tag wasn't restored",
+      "task_lists #2: its task or list wasn't restored",
+      "task_reminders #2: its task wasn't restored",
+    ]);
+  });
+
+  it('rejects subtasks of a task that was not restored, and theirs in turn', () => {
+    const document = { ...DOCUMENT, tasks: DOCUMENT.tasks.map((task) => (task.id === 'trip' ? { ...task, title: ' ' } : task)) };
+    const { rows, report } = restore(document);
+
+    expect(rows.tasks).toEqual([]);
+    expect(report.counts.tasks).toEqual({ created: 0, skipped: 0, rejected: 3 });
+    expect(report.problems).toContain('tasks #2: it has no title');
+    expect(report.problems).toContain('tasks #1: "Book flights" is a subtask of a task that wasn\'t restored');
+  });
+
+  it('rejects malformed task rows and keeps the rest', () => {
+    const document = {
+      ...DOCUMENT,
+      tasks: [
+        ...DOCUMENT.tasks,
+        { ...DOCUMENT.tasks[1], id: 'bad-status', title: 'Bad status', status: 'someday' },
+        { ...DOCUMENT.tasks[1], id: 'bad-date', title: 'Bad date', deadline: 'soon' },
+      ],
+    } as BackupDocument;
+    const { rows, report } = restore(document);
+
+    expect(rows.tasks).toHaveLength(3);
+    expect(report.problems).toEqual(['tasks #4: "someday" isn\'t a task status', 'tasks #5: it has an invalid date']);
+  });
+
+  it('does nothing when the same backup is restored again', () => {
+    const first = restore(DOCUMENT);
+    const { rows, report } = restore(DOCUMENT, applyPlan(EMPTY, first.rows));
+
+    expect(rows).toEqual(EMPTY);
+    expect(report.problems).toEqual([]);
+    Object.values(report.counts).forEach((counts) => {
+      expect(counts.created).toBe(0);
+      expect(counts.rejected).toBe(0);
+    });
+    expect(report.counts.tasks.skipped).toBe(3);
+  });
+
+  it('matches tasks restored on the device they were backed up from by id', () => {
+    const { rows, report } = restore(DOCUMENT, DATA);
+
+    expect(rows).toEqual(EMPTY);
+    expect(report.counts.tasks.skipped).toBe(3);
+  });
+});
@@ -0,0 +1,27 @@
+import type { Task } from '../../../../store/taskStore';
+
+/**
+ * A complete task row for tests: an open, top-level task titled after its id,
+ * with `fields` overriding any column.
+ */
+export const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  user_id: 'user-1',
+  parent_task_id: null,
+  title: id,
+  description: null,
+  deadline: null,
+  priority: null,
+  outcome_value: null,
+  difficulty: null,
+  is_recursive: false,
+  recursion_count: null,
+  recursion_end: null,
+  recurrence_rule: null,
+  position: null,
+  is_deleted: false,
+  created_at: '2025-03-01T09:00:00.000Z',
+  updated_at: '2025-03-01T09:00:00.000Z',
+  status: 'ongoing',
+  ...fields,
+});
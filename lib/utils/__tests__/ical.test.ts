@@ -0,0 +1,421 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { TaskReminder } from '../../../store/taskStore';
+import {
+  CalendarComponent,
+  CalendarData,
+  getProperty,
+  getTimeZoneOffset,
+  parseCalendar,
+  parseCalendarDuration,
+  readCalendarDate,
+  readCalendarRecurrence,
+  serializeCalendar,
+} from '../ical';
+import { iCalendarImporter } from '../importers/ical';
+import { makeTask } from './fixtures/tasks';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const importFixture = (name: string, includeCompleted = false) =>
+  iCalendarImporter.parse(fixture(name), { includeCompleted });
+
+// All-day entries are due at the end of their day on the device
+const endOfDay = (year: number, month: number, day: number) => new Date(year, month - 1, day, 23, 59).toISOString();
+
+// A moment's wall time in a zone, as an iCalendar DATE-TIME without a zone
+const toWallValue = (date: Date, timeZone: string) =>
+  new Date(date.getTime() + (getTimeZoneOffset(date, timeZone) ?? 0) * 60 * 1000)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .slice(0, 15);
+
+const NOW = new Date('2025-03-01T12:00:00.000Z');
+
+const reminder = (taskId: string, time: string): TaskReminder => ({
+  id: `reminder-${taskId}-${time}`,
+  task_id: taskId,
+  reminder_time: time,
+  created_at: '2025-01-02T08:00:00.000Z',
+});
+
+const DATA: CalendarData = {
+  tasks: [
+    makeTask('trip', {
+      title: 'Plan the trip to Zürich, Lisbon; and Porto 🙂 before the summer holidays start in earnest',
+      description: 'Line one\nLine two, with a comma; and a semicolon',
+      deadline: '2025-05-20T09:00:00.000Z',
+      priority: 2,
+      status: 'inprogress',
+      is_recursive: true,
+      recurrence_rule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=TU',
+      recursion_count: 5,
+    }),
+    makeTask('flights', {
+      title: 'Book flights',
+      parent_task_id: 'trip',
+      priority: 3,
+      status: 'completed',
+    }),
+    makeTask('review', {
+      title: 'Monthly review',
+      deadline: '2025-01-31T17:00:00.000Z',
+      priority: 1,
+      status: 'cancelled',
+      is_recursive: true,
+      recurrence_rule: 'FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR',
+      recursion_end: '2026-06-30T21:00:00.000Z',
+    }),
+  ],
+  reminders: [
+    reminder('trip', '2025-05-20T08:30:00.000Z'),
+    reminder('flights', '2025-04-01T07:00:00.000Z'),
+    reminder('review', '2025-01-30T17:00:00.000Z'),
+  ],
+  tags: [
+    { id: 'tag-travel', user_id: 'user-1', name: 'Travel', color: null, created_at: '2025-01-01T00:00:00.000Z' },
+    { id: 'tag-family', user_id: 'user-1', name: 'Family, friends', color: null, created_at: '2025-01-01T00:00:00.000Z' },
+  ],
+  taskTagRelations: [
+    { task_id: 'trip', tag_id: 'tag-travel' },
+    { task_id: 'trip', tag_id: 'tag-family' },
+  ],
+};
+
+const calendarOf = (text: string): CalendarComponent => {
+  const [calendar] = parseCalendar(text);
+  expect(calendar.name).toBe('VCALENDAR');
+  return calendar;
+};
+
+describe('iCalendar import of real exports', () => {
+  describe('Google Calendar', () => {
+    const { tasks, warnings } = importFixture('google.ics');
+
+    it('reads events in the exported zone, skipping changed occurrences', () => {
+      expect(tasks.map((entry) => entry.title)).toEqual(['Weekly standup', 'Quarter planning', 'Dentist']);
+      expect(warnings).toEqual([]);
+      expect(tasks[0]).toMatchObject({
+        sourceId: '4kq1c2ovb0m3u8kfv0g6b2d1ab@google.com',
+        parentSourceId: null,
+        // 09:00 the day after the switch to daylight time
+        deadline: '2025-03-10T16:00:00.000Z',
+        status: 'ongoing',
+        listName: 'Work',
+        createdAt: '2025-02-01T17:00:00.000Z',
+      });
+    });
+
+    it('unescapes and unfolds descriptions', () => {
+      expect(tasks[0].description).toBe(
+        "Agenda:\n- status, blockers\n- what's next after the release of the new onboarding flow"
+      );
+    });
+
+    it('reads the weekly repeat, ignoring WKST', () => {
+      expect(tasks[0]).toMatchObject({
+        recurrenceRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO',
+        recursionCount: null,
+        recursionEnd: null,
+      });
+    });
+
+    it('counts alarms from the start of events', () => {
+      expect(tasks[0].reminderTimes).toEqual(['2025-03-10T15:50:00.000Z']);
+      expect(tasks[2]).toMatchObject({
+        deadline: '2025-04-02T15:00:00.000Z',
+        reminderTimes: ['2025-04-01T15:00:00.000Z'],
+      });
+    });
+
+    it('puts all-day events at the end of their day', () => {
+      expect(tasks[1].deadline).toBe(endOfDay(2025, 3, 21));
+    });
+  });
+
+  describe('Apple Reminders', () => {
+    it('reads to-dos due in a named zone with alarms relative to the due time', () => {
+      const { tasks } = importFixture('apple.ics');
+      expect(tasks[0]).toMatchObject({
+        sourceId: '6F1C2D3E-4B5A-4C7D-8E9F-0A1B2C3D4E5F',
+        title: 'Plan trip to Lisbon',
+        deadline: '2025-03-28T17:00:00.000Z',
+        priority: 1,
+        status: 'ongoing',
+        listName: 'Reminders',
+        reminderTimes: ['2025-03-28T16:30:00.000Z'],
+      });
+    });
+
+    it('reads repeats with an end and both kinds of alarm', () => {
+      const { tasks } = importFixture('apple.ics');
+      expect(tasks[1]).toMatchObject({
+        title: 'Water the plants',
+        description: 'Balcony first, then the kitchen',
+        // 09:00 on the day Berlin moves to summer time
+        deadline: '2025-03-30T07:00:00.000Z',
+        priority: 2,
+        recurrenceRule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=SU',
+        recursionCount: null,
+        recursionEnd: '2025-06-29T07:00:00.000Z',
+        reminderTimes: ['2025-03-30T07:00:00.000Z', '2025-03-29T18:00:00.000Z'],
+      });
+    });
+
+    it('leaves out completed and untitled to-dos', () => {
+      const { tasks, warnings } = importFixture('apple.ics');
+      expect(tasks).toHaveLength(2);
+      expect(warnings).toEqual(['1 entry has no title and is left out', '1 completed task is left out']);
+    });
+
+    it('links subtasks to their parent when completed ones are asked for', () => {
+      const { tasks } = importFixture('apple.ics', true);
+      expect(tasks.find((entry) => entry.title === 'Book flights')).toMatchObject({
+        parentSourceId: '6F1C2D3E-4B5A-4C7D-8E9F-0A1B2C3D4E5F',
+        status: 'completed',
+        deadline: endOfDay(2025, 3, 25),
+        reminderTimes: [],
+      });
+    });
+  });
+
+  describe('Outlook', () => {
+    const { tasks, warnings } = importFixture('outlook.ics');
+    const byTitle = (title: string) => tasks.find((entry) => entry.title === title);
+
+    it('reads Windows zone names from the VTIMEZONE in the file', () => {
+      expect(byTitle('Budget review')?.deadline).toBe('2025-01-15T17:00:00.000Z');
+      expect(byTitle('Team offsite')?.deadline).toBe('2025-07-10T16:00:00.000Z');
+      expect(byTitle('Design sync')?.deadline).toBe('2025-04-01T16:30:00.000Z');
+    });
+
+    it('reads repeats it supports and imports the others once', () => {
+      expect(byTitle('Design sync')).toMatchObject({
+        recurrenceRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=TU,TH',
+        recursionCount: 10,
+      });
+      expect(byTitle('Budget review')?.recurrenceRule).toBeNull();
+      expect(warnings).toEqual([
+        '"Budget review": the repeat "FREQ=MONTHLY;BYMONTHDAY=15" isn\'t supported, so it\'s imported once',
+      ]);
+    });
+
+    it('reads folded UIDs, categories, priorities and alarms', () => {
+      expect(byTitle('Team offsite')).toMatchObject({
+        sourceId:
+          '040000008200E00074C5B7101A82E00800000000B1C2D3E4F5A6B701000000000000000010000000E6F9A3B2C4D55E5FA0B1C2D3E4F5A6B7',
+        tagNames: ['Blue Category', 'Travel'],
+        priority: 1,
+        reminderTimes: ['2025-07-10T15:00:00.000Z'],
+      });
+      expect(byTitle('Budget review')).toMatchObject({ priority: 2, reminderTimes: ['2025-01-15T16:45:00.000Z'] });
+    });
+
+    it('puts all-day events at the end of their day', () => {
+      expect(byTitle('Independence Day')?.deadline).toBe(endOfDay(2025, 7, 4));
+    });
+  });
+
+  it('refuses text that isn\'t a calendar', () => {
+    expect(() => iCalendarImporter.parse('Subject,Start Date\nLunch,2025-01-01', {})).toThrow('BEGIN:VCALENDAR');
+  });
+});
+
+describe('readCalendarDate', () => {
+  const outlookZones = calendarOf(fixture('outlook.ics')).components.filter((zone) => zone.name === 'VTIMEZONE');
+  const read = (value: string, params: Record<string, string> = {}) =>
+    readCalendarDate({ params, value }, outlookZones);
+
+  it('reads UTC, all-day and floating values', () => {
+    expect(read('20250102T030405Z')).toEqual({ date: new Date('2025-01-02T03:04:05.000Z'), allDay: false });
+    expect(read('20250102')).toEqual({ date: new Date(2025, 0, 2), allDay: true });
+    expect(read('20250102T000000', { VALUE: 'DATE' })?.allDay).toBe(true);
+    expect(read('20250102T030405')).toEqual({ date: new Date(2025, 0, 2, 3, 4, 5), allDay: false });
+  });
+
+  it('reads zones prefixed the way Thunderbird writes them', () => {
+    expect(read('20250710T090000', { TZID: '/mozilla.org/20050126_1/Europe/Berlin' })?.date).toEqual(
+      new Date('2025-07-10T07:00:00.000Z')
+    );
+  });
+
+  it('follows a VTIMEZONE across its changes', () => {
+    const pacific = { TZID: 'Pacific Standard Time' };
+    expect(read('20250309T015900', pacific)?.date).toEqual(new Date('2025-03-09T09:59:00.000Z'));
+    expect(read('20250309T030000', pacific)?.date).toEqual(new Date('2025-03-09T10:00:00.000Z'));
+    expect(read('20251102T000000', pacific)?.date).toEqual(new Date('2025-11-02T07:00:00.000Z'));
+    expect(read('20251102T030000', pacific)?.date).toEqual(new Date('2025-11-02T11:00:00.000Z'));
+  });
+
+  it('reads zones it can\'t find as floating times', () => {
+    expect(read('20250102T030405', { TZID: 'Nowhere Standard Time' })?.date).toEqual(new Date(2025, 0, 2, 3, 4, 5));
+  });
+
+  it('returns null for values that aren\'t dates', () => {
+    expect(read('2025-01-02')).toBeNull();
+    expect(readCalendarDate(undefined)).toBeNull();
+  });
+});
+
+describe('readCalendarRecurrence', () => {
+  it('keeps COUNT and UNTIL apart from the rule', () => {
+    expect(readCalendarRecurrence('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')).toEqual({
+      rule: 'FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR',
+      count: 3,
+      until: null,
+    });
+    expect(readCalendarRecurrence('FREQ=DAILY;INTERVAL=2;UNTIL=20250630T220000Z')).toEqual({
+      rule: 'FREQ=DAILY;INTERVAL=2',
+      count: null,
+      until: new Date('2025-06-30T22:00:00.000Z'),
+    });
+  });
+
+  it('rejects parts the app can\'t represent', () => {
+    expect(readCalendarRecurrence('FREQ=MONTHLY;BYMONTHDAY=15')).toBeNull();
+    expect(readCalendarRecurrence('FREQ=YEARLY')).toBeNull();
+    expect(readCalendarRecurrence('FREQ=DAILY;BYDAY=MO,WE')).toBeNull();
+  });
+});
+
+describe('parseCalendarDuration', () => {
+  it.each([
+    ['-PT15M', -15],
+    ['PT0S', 0],
+    ['-P0DT0H10M0S', -10],
+    ['-P1D', -1440],
+    ['P1W', 10080],
+    ['P1DT2H30M', 1590],
+    ['15 minutes', null],
+  ])('reads %s', (value, minutes) => {
+    expect(parseCalendarDuration(value)).toBe(minutes);
+  });
+});
+
+describe('serializeCalendar', () => {
+  it('writes UTC times without a VTIMEZONE when no zone is known', () => {
+    for (const timeZone of [null, 'Not/AZone']) {
+      const text = serializeCalendar(DATA, { kind: 'todo', timeZone, now: NOW });
+      expect(text).not.toContain('BEGIN:VTIMEZONE');
+      expect(text).toContain('\r\nDUE:20250520T090000Z\r\n');
+    }
+  });
+
+  it('folds long lines at 75 bytes without splitting characters', () => {
+    const text = serializeCalendar(DATA, { kind: 'todo', timeZone: 'Europe/Berlin', now: NOW });
+    const lines = text.split('\r\n');
+    expect(lines.every((line) => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+    expect(text).not.toContain('�');
+  });
+
+  describe.each(['America/New_York', 'Asia/Tokyo', 'Asia/Kolkata', 'Australia/Lord_Howe'])(
+    'round trips through %s',
+    (timeZone) => {
+      const text = serializeCalendar(DATA, { kind: 'todo', timeZone, now: NOW });
+      const calendar = calendarOf(text);
+      const zones = calendar.components.filter((component) => component.name === 'VTIMEZONE');
+      const todos = calendar.components.filter((component) => component.name === 'VTODO');
+      const deadlines = DATA.tasks.filter((entry) => entry.deadline).map((entry) => entry.deadline);
+
+      it('writes due times in the zone with its definition', () => {
+        expect(zones.map((zone) => getProperty(zone, 'TZID')?.value)).toEqual([timeZone]);
+        todos
+          .map((todo) => getProperty(todo, 'DUE'))
+          .filter((due) => due)
+          .forEach((due) => expect(due?.params.TZID).toBe(timeZone));
+      });
+
+      it('reads back the same moments', () => {
+        const read = todos
+          .map((todo) => readCalendarDate(getProperty(todo, 'DUE'), zones))
+          .filter((due) => due)
+          .map((due) => due?.date.toISOString());
+        expect(read).toEqual(deadlines);
+      });
+
+      it('reads back the same moments from the VTIMEZONE alone, like on a device without the zone', () => {
+        const renamed = calendarOf(text.split(timeZone).join('Exported Time'));
+        const renamedZones = renamed.components.filter((component) => component.name === 'VTIMEZONE');
+        const read = renamed.components
+          .filter((component) => component.name === 'VTODO')
+          .map((todo) => readCalendarDate(getProperty(todo, 'DUE'), renamedZones))
+          .filter((due) => due)
+          .map((due) => due?.date.toISOString());
+        expect(read).toEqual(deadlines);
+
+        // Later years repeat the last year's changes
+        ['2030-01-15T12:00:00.000Z', '2030-07-15T12:00:00.000Z'].forEach((time) => {
+          const date = new Date(time);
+          const params = { TZID: 'Exported Time' };
+          expect(readCalendarDate({ params, value: toWallValue(date, timeZone) }, renamedZones)?.date).toEqual(date);
+        });
+      });
+
+      it('imports tasks back as they were', () => {
+        const { tasks } = iCalendarImporter.parse(text, { includeCompleted: true });
+        expect(tasks).toEqual([
+          {
+            sourceId: 'trip@todo-next',
+            parentSourceId: null,
+            title: DATA.tasks[0].title,
+            description: DATA.tasks[0].description,
+            deadline: '2025-05-20T09:00:00.000Z',
+            priority: 2,
+            status: 'inprogress',
+            recurrenceRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=TU',
+            recursionCount: 5,
+            recursionEnd: null,
+            listName: null,
+            tagNames: ['Travel', 'Family, friends'],
+            createdAt: '2025-03-01T09:00:00.000Z',
+            reminderTimes: ['2025-05-20T08:30:00.000Z'],
+          },
+          expect.objectContaining({
+            sourceId: 'flights@todo-next',
+            parentSourceId: 'trip@todo-next',
+            deadline: null,
+            priority: 3,
+            status: 'completed',
+            reminderTimes: ['2025-04-01T07:00:00.000Z'],
+          }),
+          expect.objectContaining({
+            sourceId: 'review@todo-next',
+            deadline: '2025-01-31T17:00:00.000Z',
+            priority: 1,
+            status: 'cancelled',
+            recurrenceRule: 'FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR',
+            recursionEnd: '2026-06-30T21:00:00.000Z',
+            reminderTimes: ['2025-01-30T17:00:00.000Z'],
+          }),
+        ]);
+      });
+    }
+  );
+
+  it('relates to-do alarms to the due time', () => {
+    const text = serializeCalendar(DATA, { kind: 'todo', timeZone: 'Asia/Tokyo', now: NOW });
+    expect(text).toContain('\r\nTRIGGER;RELATED=END:-PT30M\r\n');
+    expect(text).toContain('\r\nTRIGGER;VALUE=DATE-TIME:20250401T070000Z\r\n');
+  });
+
+  it('writes events for tasks with a deadline, with alarms from their start', () => {
+    const text = serializeCalendar(DATA, { kind: 'event', timeZone: 'America/New_York', now: NOW });
+    const events = calendarOf(text).components.filter((component) => component.name === 'VEVENT');
+    expect(events.map((event) => getProperty(event, 'UID')?.value)).toEqual(['trip@todo-next', 'review@todo-next']);
+    expect(getProperty(events[0], 'DTSTART')).toEqual({
+      name: 'DTSTART',
+      params: { TZID: 'America/New_York' },
+      value: '20250520T050000',
+    });
+    expect(getProperty(events[0], 'STATUS')).toBeUndefined();
+    expect(getProperty(events[1], 'STATUS')?.value).toBe('CANCELLED');
+    expect(text).toContain('\r\nTRIGGER:-PT30M\r\n');
+
+    const { tasks } = iCalendarImporter.parse(text, { includeCompleted: true });
+    expect(tasks.map((entry) => [entry.deadline, entry.reminderTimes])).toEqual([
+      ['2025-05-20T09:00:00.000Z', ['2025-05-20T08:30:00.000Z']],
+      ['2025-01-31T17:00:00.000Z', ['2025-01-30T17:00:00.000Z']],
+    ]);
+  });
+});
@@ -0,0 +1,407 @@
+import type { TaskStatus } from '../../../store/taskStore';
+import { ImportOptions, ImportedTask, finishImport, nestByIndent, parseImportDate, toImportDocument } from '../importers/common';
+import { parseCsv, readCsvTable } from '../importers/csv';
+import { genericCsvImporter, guessCsvMapping, parseCsvPriority } from '../importers/genericCsv';
+import { tickTickImporter } from '../importers/ticktick';
+import { todoistImporter } from '../importers/todoist';
+
+// Monday, 10 March 2025, 10:00 local time
+const NOW = new Date(2025, 2, 10, 10, 0);
+
+const OPTIONS: ImportOptions = { now: NOW, includeCompleted: true };
+
+// Dates without a time are due at the end of the day, on the device
+const endOfDay = (month: number, day: number) => new Date(2025, month - 1, day, 23, 59).toISOString();
+
+const imported = (sourceId: string, parentSourceId: string | null, status: TaskStatus = 'ongoing'): ImportedTask => ({
+  sourceId,
+  parentSourceId,
+  title: sourceId,
+  description: null,
+  deadline: null,
+  priority: null,
+  status,
+  recurrenceRule: null,
+  listName: null,
+  tagNames: [],
+  createdAt: null,
+});
+
+const titles = (result: { tasks: { title: string }[] }) => result.tasks.map((task) => task.title);
+
+describe('parseCsv', () => {
+  it('reads quoted cells with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\r\nlines"\r\n1,2,3,4\r\n')).toEqual([
+      ['a', 'b, c', 'say "hi"', 'two\r\nlines'],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('drops a leading BOM and blank lines', () => {
+    expect(parseCsv('﻿a,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('picks semicolons or tabs when the header uses them', () => {
+    expect(parseCsv('a;b;c\n1;2,5;3')).toEqual([['a', 'b', 'c'], ['1', '2,5', '3']]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('readCsvTable', () => {
+  it('starts at the first row with every required header, keyed in lowercase', () => {
+    const rows = parseCsv('Exported,today\n\nTitle,List Name\nMilk,Groceries');
+    expect(readCsvTable(rows, ['title', 'list name'])).toEqual({
+      headers: ['Title', 'List Name'],
+      records: [{ title: 'Milk', 'list name': 'Groceries' }],
+    });
+  });
+
+  it('returns null when no row has the headers', () => {
+    expect(readCsvTable(parseCsv('a,b\n1,2'), ['Title'])).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it('reads dates as due at the end of the day', () => {
+    expect(parseImportDate('2025-03-14')).toEqual({ deadline: endOfDay(3, 14), recurrenceRule: null });
+  });
+
+  it('reads timestamps with compact offsets', () => {
+    expect(parseImportDate('2025-03-14T09:30:00+0100')?.deadline).toBe('2025-03-14T08:30:00.000Z');
+    expect(parseImportDate('2025-03-14 09:30:00Z')?.deadline).toBe('2025-03-14T09:30:00.000Z');
+  });
+
+  it('reads text like the quick add parser does', () => {
+    expect(parseImportDate('every monday', { now: NOW })).toEqual({
+      deadline: expect.any(String),
+      recurrenceRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO',
+    });
+    expect(parseImportDate('tomorrow', { now: NOW })?.deadline).toBe(endOfDay(3, 11));
+  });
+
+  it('returns null for text without a date', () => {
+    expect(parseImportDate('someday', { now: NOW })).toBeNull();
+    expect(parseImportDate('')).toBeNull();
+    expect(parseImportDate(undefined)).toBeNull();
+  });
+});
+
+describe('nestByIndent', () => {
+  it('links each entry to the closest one above with a smaller indent', () => {
+    const entry = (sourceId: string, indent: number) => ({ indent, task: imported(sourceId, null) });
+    const entries = [entry('a', 1), entry('b', 2), entry('c', 3), entry('d', 2), entry('e', 1)];
+    nestByIndent(entries);
+    expect(entries.map(({ task }) => task.parentSourceId)).toEqual([null, 'a', 'b', 'a', null]);
+  });
+});
+
+describe('todoistImporter', () => {
+  describe('CSV', () => {
+    const CSV = [
+      'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+      'section,Before the trip,,,,,,,,',
+      'task,Plan trip @travel @long_term,Pick a city,1,1,Ana (1),,2025-03-14,en,Europe/Lisbon',
+      'task,Book flights,,2,2,Ana (1),,every monday,en,Europe/Lisbon',
+      'note,Window seats,,,,,,,,',
+      'task,* Packing list,,4,1,Ana (1),,someday soon,en,Europe/Lisbon',
+    ].join('\n');
+
+    const result = todoistImporter.parse(CSV, { ...OPTIONS, listName: 'Trip' });
+
+    it('reads tasks with their labels, priorities and dates', () => {
+      expect(result.tasks[0]).toEqual({
+        sourceId: 'row-2',
+        parentSourceId: null,
+        title: 'Plan trip',
+        description: 'Pick a city',
+        deadline: endOfDay(3, 14),
+        priority: 1,
+        status: 'ongoing',
+        recurrenceRule: null,
+        listName: 'Trip',
+        tagNames: ['travel', 'long term'],
+        createdAt: null,
+      });
+    });
+
+    it('nests subtasks by indent and adds notes to the task above', () => {
+      expect(result.tasks[1]).toMatchObject({
+        title: 'Book flights',
+        parentSourceId: 'row-2',
+        description: 'Window seats',
+        priority: 2,
+        recurrenceRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO',
+      });
+    });
+
+    it('drops the marker of tasks that cannot be completed', () => {
+      expect(result.tasks[2]).toMatchObject({ title: 'Packing list', priority: null, deadline: null });
+    });
+
+    it('warns about what it leaves out', () => {
+      expect(result.warnings).toEqual([
+        '"Packing list": the due date "someday soon" couldn\'t be read',
+        '1 section is left out; their tasks go straight into "Trip"',
+      ]);
+    });
+
+    it('rejects other CSV files', () => {
+      expect(() => todoistImporter.parse('Title,Due\nMilk,', OPTIONS)).toThrow('TYPE and CONTENT');
+    });
+  });
+
+  describe('JSON', () => {
+    const EXPORT = {
+      projects: [
+        { id: 100, name: 'Errands' },
+        { id: '200', name: 'Work' },
+        { id: 300 },
+      ],
+      items: [
+        {
+          id: 1,
+          project_id: 100,
+          content: ' Buy milk ',
+          description: 'Oat',
+          priority: 4,
+          labels: ['shop', 7],
+          due: { date: '2025-03-14' },
+          added_at: '2025-03-01T09:00:00Z',
+        },
+        {
+          id: 2,
+          project_id: '200',
+          parent_id: 1,
+          content: 'Weekly report',
+          checked: true,
+          due: { date: '2025-03-10', is_recurring: true, string: 'every monday', lang: 'en' },
+        },
+        {
+          id: 3,
+          content: 'Water plants',
+          due: { date: '2025-03-10', is_recurring: true, string: 'every other full moon' },
+        },
+        { id: 4, content: 'Gone', is_deleted: true },
+        { id: 5, content: '   ' },
+        { id: 6, content: 42 },
+        'not a task',
+        null,
+      ],
+    };
+
+    const result = todoistImporter.parse(JSON.stringify(EXPORT), OPTIONS);
+
+    it('reads items with their project, labels and priority', () => {
+      expect(result.tasks[0]).toEqual({
+        sourceId: '1',
+        parentSourceId: null,
+        title: 'Buy milk',
+        description: 'Oat',
+        deadline: endOfDay(3, 14),
+        priority: 1,
+        status: 'ongoing',
+        recurrenceRule: null,
+        listName: 'Errands',
+        tagNames: ['shop'],
+        createdAt: '2025-03-01T09:00:00Z',
+      });
+    });
+
+    it('reads subtasks, completion and repeats', () => {
+      expect(result.tasks[1]).toMatchObject({
+        sourceId: '2',
+        parentSourceId: '1',
+        status: 'completed',
+        recurrenceRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO',
+        listName: 'Work',
+      });
+    });
+
+    it('imports unsupported repeats once, in the default list', () => {
+      expect(result.tasks[2]).toMatchObject({ title: 'Water plants', recurrenceRule: null, listName: 'Todoist' });
+      expect(result.warnings).toEqual([
+        '"Water plants": the repeat "every other full moon" isn\'t supported, so it\'s imported once',
+      ]);
+    });
+
+    it('skips deleted, untitled and malformed items', () => {
+      expect(titles(result)).toEqual(['Buy milk', 'Weekly report', 'Water plants']);
+    });
+
+    it('reads the bare array the REST API returns', () => {
+      expect(titles(todoistImporter.parse('[{"id":"a","content":"Call mum"}]', OPTIONS))).toEqual(['Call mum']);
+    });
+
+    it.each(['{"projects":[]}', '{"items":"milk"}', '{"tasks":42}', '{"items":null}'])('rejects %s', (text) => {
+      expect(() => todoistImporter.parse(text, OPTIONS)).toThrow("This isn't a Todoist export");
+    });
+
+    it('rejects text that is not JSON', () => {
+      expect(() => todoistImporter.parse('{"items": [', OPTIONS)).toThrow("This isn't valid JSON");
+    });
+  });
+});
+
+describe('tickTickImporter', () => {
+  const CSV = [
+    '"Date: 2025-03-10+0000"',
+    '"Version: 7.1"',
+    '"Status: 0 Normal, 1 Completed, 2 Archived"',
+    '"Folder Name","List Name","Title","Kind","Tags","Content","Is Check list","Start Date","Due Date","Reminder","Repeat","Priority","Status","Created Time","Completed Time","Order","Timezone","Is All Day","Is Floating","Column Name","Column Order","View Mode","taskId","parentId"',
+    '"","Home","Fix the sink","TEXT","house, urgent","Call the plumber first","N","","2025-03-14T00:00:00+0000","","FREQ=WEEKLY;INTERVAL=1;BYDAY=FR","5","0","2025-03-01T09:00:00+0000","","1","UTC","true","false","","","list","11",""',
+    '"","Home","Buy washers","TEXT","","","N","","2025-03-12T16:30:00+0000","","","3","0","","","2","UTC","false","false","","","list","12","11"',
+    '"","Work","Old report","TEXT","","","N","","","","FREQ=YEARLY","1","2","","","3","UTC","false","false","","","list","13",""',
+  ].join('\n');
+
+  const result = tickTickImporter.parse(CSV, OPTIONS);
+
+  it('reads the table below the preamble', () => {
+    expect(titles(result)).toEqual(['Fix the sink', 'Buy washers', 'Old report']);
+  });
+
+  it('reads tasks with their list, tags, priority and repeat', () => {
+    const allDay = new Date('2025-03-14T00:00:00Z');
+    allDay.setHours(23, 59, 0, 0);
+
+    expect(result.tasks[0]).toEqual({
+      sourceId: '11',
+      parentSourceId: null,
+      title: 'Fix the sink',
+      description: 'Call the plumber first',
+      deadline: allDay.toISOString(),
+      priority: 1,
+      status: 'ongoing',
+      recurrenceRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=FR',
+      listName: 'Home',
+      tagNames: ['house', 'urgent'],
+      createdAt: '2025-03-01T09:00:00.000Z',
+    });
+  });
+
+  it('keeps the time of tasks that are not all day, and their parent', () => {
+    expect(result.tasks[1]).toMatchObject({
+      parentSourceId: '11',
+      deadline: '2025-03-12T16:30:00.000Z',
+      priority: 2,
+    });
+  });
+
+  it('reads archived tasks as completed and warns about unsupported repeats', () => {
+    expect(result.tasks[2]).toMatchObject({ status: 'completed', priority: 3, recurrenceRule: null });
+    expect(result.warnings).toEqual(['"Old report": the repeat "FREQ=YEARLY" isn\'t supported, so it\'s imported once']);
+  });
+
+  it('leaves out completed tasks unless asked for', () => {
+    const { tasks, warnings } = tickTickImporter.parse(CSV, { now: NOW });
+    expect(titles({ tasks })).toEqual(['Fix the sink', 'Buy washers']);
+    expect(warnings).toContain('1 completed task is left out');
+  });
+
+  it('rejects other CSV files', () => {
+    expect(() => tickTickImporter.parse('Title,Due\nMilk,', OPTIONS)).toThrow('Title and List Name');
+  });
+});
+
+describe('genericCsvImporter', () => {
+  it('guesses columns from their headers', () => {
+    expect(guessCsvMapping(['Task Name', 'Due Date', 'Notes', 'Project', 'Labels', 'Done', 'Priority'])).toEqual({
+      title: 'Task Name',
+      deadline: 'Due Date',
+      description: 'Notes',
+      list: 'Project',
+      tags: 'Labels',
+      status: 'Done',
+      priority: 'Priority',
+    });
+  });
+
+  it.each([
+    ['1', 1],
+    ['p2', 2],
+    ['!!3', 3],
+    ['High', 1],
+    ['normal', 2],
+    ['4', null],
+    ['', null],
+  ])('reads the priority %p', (value, priority) => {
+    expect(parseCsvPriority(value)).toBe(priority);
+  });
+
+  const CSV = [
+    'Task;Due;Priority;Tags;Status;Level',
+    'Plan party;2025-03-20;high;#home, fun;in progress;1',
+    'Order cake;tomorrow;low;;;2',
+    ';2025-03-21;;;;1',
+    'Send invites;whenever;;;done;2',
+  ].join('\n');
+
+  it('reads rows through the guessed columns, nesting them by indent', () => {
+    const result = genericCsvImporter.parse(CSV, { ...OPTIONS, listName: 'Party' });
+
+    expect(result.tasks).toEqual([
+      {
+        sourceId: 'row-2',
+        parentSourceId: null,
+        title: 'Plan party',
+        description: null,
+        deadline: endOfDay(3, 20),
+        priority: 1,
+        status: 'inprogress',
+        recurrenceRule: null,
+        listName: 'Party',
+        tagNames: ['home', 'fun'],
+        createdAt: null,
+      },
+      expect.objectContaining({ title: 'Order cake', parentSourceId: 'row-2', deadline: endOfDay(3, 11), priority: 3 }),
+      expect.objectContaining({ title: 'Send invites', parentSourceId: 'row-2', deadline: null, status: 'completed' }),
+    ]);
+    expect(result.warnings).toEqual([
+      '"Send invites": the due date "whenever" couldn\'t be read',
+      '1 row has no title and is left out',
+    ]);
+  });
+
+  it('uses the columns it is given', () => {
+    const result = genericCsvImporter.parse(CSV, { ...OPTIONS, mapping: { title: 'Tags', description: 'Task' } });
+    expect(result.tasks.map(({ title, description }) => [title, description])).toEqual([['#home, fun', 'Plan party']]);
+  });
+
+  it('asks for a title column when it cannot find one', () => {
+    expect(() => genericCsvImporter.parse('Foo,Bar\n1,2', OPTIONS)).toThrow('Pick the column');
+    expect(() => genericCsvImporter.parse('', OPTIONS)).toThrow('The file is empty.');
+  });
+});
+
+describe('finishImport', () => {
+  it('drops completed tasks with their subtasks', () => {
+    const result = finishImport(
+      { tasks: [imported('a', null, 'completed'), imported('b', 'a'), imported('c', null), imported('d', 'c')], warnings: [] },
+      {}
+    );
+    expect(titles(result)).toEqual(['c', 'd']);
+    expect(result.warnings).toEqual(['2 completed tasks are left out']);
+  });
+
+  it('unlinks subtasks whose parent is not in the file', () => {
+    expect(finishImport({ tasks: [imported('b', 'missing')], warnings: [] }, {}).tasks[0].parentSourceId).toBeNull();
+  });
+});
+
+describe('toImportDocument', () => {
+  it('shapes tasks as a backup with one list and tag per name', () => {
+    const { tasks } = genericCsvImporter.parse('Title,List,Tags\nMilk,Groceries,Food\nBread,groceries,"food, Bakery"', OPTIONS);
+    const document = toImportDocument({ tasks, warnings: [] }, NOW);
+
+    expect(document.lists.map((list) => list.name)).toEqual(['Groceries']);
+    expect(document.tags.map((tag) => tag.name)).toEqual(['Food', 'Bakery']);
+    expect(document.task_lists).toEqual([
+      { task_id: 'row-2', list_id: 'list:groceries' },
+      { task_id: 'row-3', list_id: 'list:groceries' },
+    ]);
+    expect(document.task_tags).toEqual([
+      { task_id: 'row-2', tag_id: 'tag:food' },
+      { task_id: 'row-3', tag_id: 'tag:food' },
+      { task_id: 'row-3', tag_id: 'tag:bakery' },
+    ]);
+  });
+});
@@ -0,0 +1,243 @@
+import { getQuickAddSegments, parseQuickAdd, QuickAddOptions } from '../quickAdd';
+
+// Monday, 10 March 2025, 10:00 local time
+const NOW = new Date(2025, 2, 10, 10, 0);
+
+const parse = (text: string, options: QuickAddOptions = {}) => parseQuickAdd(text, { now: NOW, ...options });
+
+const at = (day: number, hours = 23, minutes = 59) => new Date(2025, 2, day, hours, minutes);
+
+describe('parseQuickAdd', () => {
+  describe('relative dates', () => {
+    it.each([
+      ['Pay rent today', at(10)],
+      ['Pay rent tomorrow', at(11)],
+      ['Pay rent day after tomorrow', at(12)],
+      ['Pay rent in 3 days', at(13)],
+      ['Pay rent in 2 weeks', at(24)],
+      ['Pay rent next week', at(17)],
+      ['Pay rent next month', new Date(2025, 3, 1, 23, 59)],
+    ])('reads "%s"', (text, deadline) => {
+      const result = parse(text);
+      expect(result.title).toBe('Pay rent');
+      expect(result.deadline).toEqual(deadline);
+    });
+
+    it('keeps the exact time for "in 2 hours"', () => {
+      expect(parse('Check the oven in 2 hours').deadline).toEqual(at(10, 12, 0));
+    });
+
+    it('reads yyyy-mm-dd dates', () => {
+      expect(parse('File taxes 2025-04-15').deadline).toEqual(new Date(2025, 3, 15, 23, 59));
+    });
+  });
+
+  describe('weekdays', () => {
+    it('takes a weekday as the next one, today included', () => {
+      expect(parse('Report friday').deadline).toEqual(at(14));
+      expect(parse('Report on fri').deadline).toEqual(at(14));
+      expect(parse('Report monday').deadline).toEqual(at(10));
+    });
+
+    it('takes "next" weekdays as after today', () => {
+      expect(parse('Report next mon').deadline).toEqual(at(17));
+      expect(parse('Report next tues').deadline).toEqual(at(11));
+    });
+  });
+
+  describe('times', () => {
+    it('puts a time later today on today', () => {
+      expect(parse('Call mom at 5pm').deadline).toEqual(at(10, 17, 0));
+      expect(parse('Call mom 17:30').deadline).toEqual(at(10, 17, 30));
+    });
+
+    it('moves a time that has passed today to tomorrow', () => {
+      expect(parse('Call mom at 9am').deadline).toEqual(at(11, 9, 0));
+    });
+
+    it('combines a date and a time', () => {
+      expect(parse('Call mom tomorrow 5pm').deadline).toEqual(at(11, 17, 0));
+      expect(parse('Call mom friday at 9:15 am').deadline).toEqual(at(14, 9, 15));
+    });
+
+    it('reads noon', () => {
+      expect(parse('Lunch tomorrow at noon').deadline).toEqual(at(11, 12, 0));
+    });
+  });
+
+  describe('recurrence', () => {
+    it('starts "every monday" today when the time is still ahead', () => {
+      const result = parseQuickAdd('Standup every monday at 11am', { now: NOW });
+      expect(result.title).toBe('Standup');
+      expect(result.deadline).toEqual(at(10, 11, 0));
+      expect(result.recurrence).toEqual({ frequency: 'weekly', interval: 1, weekdays: [1] });
+    });
+
+    it('moves "every monday" to next week when today\'s time has passed', () => {
+      const result = parse('Standup every monday at 9am');
+      expect(result.deadline).toEqual(at(17, 9, 0));
+      expect(result.recurrence).toEqual({ frequency: 'weekly', interval: 1, weekdays: [1] });
+    });
+
+    it('starts "every friday" on the coming friday', () => {
+      expect(parse('Timesheet every friday').deadline).toEqual(at(14));
+    });
+
+    it('repeats weekly rules on the deadline\'s weekday', () => {
+      expect(parse('Water plants every 2 weeks tomorrow').recurrence).toEqual({
+        frequency: 'weekly',
+        interval: 2,
+        weekdays: [2],
+      });
+    });
+
+    it('anchors monthly rules to the deadline\'s week and weekday', () => {
+      expect(parse('Pay card monthly 2025-03-31').recurrence).toEqual({
+        frequency: 'monthly',
+        interval: 1,
+        monthWeek: -1,
+        monthWeekday: 1,
+      });
+      expect(parse('Book club monthly 2025-03-13').recurrence).toMatchObject({ monthWeek: 2, monthWeekday: 4 });
+    });
+
+    it('reads daily rules', () => {
+      expect(parse('Stretch daily').recurrence).toEqual({ frequency: 'daily', interval: 1 });
+      expect(parse('Stretch every day').recurrence).toEqual({ frequency: 'daily', interval: 1 });
+    });
+  });
+
+  describe('symbols', () => {
+    it('reads priority, tags and difficulty', () => {
+      const result = parse('Fix bug #work #urgent !!1 ~3');
+      expect(result.title).toBe('Fix bug');
+      expect(result.priority).toBe(1);
+      expect(result.tagNames).toEqual(['work', 'urgent']);
+      expect(result.difficulty).toBe(3);
+    });
+
+    it('reads difficulties up to 10 only', () => {
+      expect(parse('Move house ~10').difficulty).toBe(10);
+      const result = parse('Move house ~11');
+      expect(result.difficulty).toBeNull();
+      expect(result.title).toBe('Move house ~11');
+    });
+
+    it('reads a list after @', () => {
+      const result = parse('Buy milk @groceries');
+      expect(result.title).toBe('Buy milk');
+      expect(result.listName).toBe('groceries');
+    });
+
+    it('matches known list names with spaces, underscores or dashes', () => {
+      const listNames = ['Home Office', 'Errands'];
+      expect(parse('Buy desk @home_office', { listNames }).listName).toBe('Home Office');
+      expect(parse('Buy desk @Home Office', { listNames }).listName).toBe('Home Office');
+      expect(parse('Buy desk @home-office', { listNames }).title).toBe('Buy desk');
+    });
+
+    it('leaves unknown lists in the title when list names are given', () => {
+      const result = parse('Email bob@example.com @nowhere', { listNames: ['Errands'] });
+      expect(result.listName).toBeNull();
+      expect(result.title).toBe('Email bob@example.com @nowhere');
+    });
+  });
+
+  describe('reminders', () => {
+    it('reads reminder offsets before the deadline', () => {
+      const result = parse('Dentist tomorrow 3pm remind 30m before remind me 1 hour before');
+      expect(result.title).toBe('Dentist');
+      expect(result.reminderOffsets).toEqual([30, 60]);
+    });
+
+    it('ignores a repeated offset', () => {
+      expect(parse('Dentist tomorrow remind 1 day before remind 24 hours before').reminderOffsets).toEqual([1440]);
+    });
+  });
+
+  describe('localized keywords', () => {
+    it('reads Turkish', () => {
+      const result = parse('Toplantı yarın saat 15:00', { languages: ['tr'] });
+      expect(result.title).toBe('Toplantı');
+      expect(result.deadline).toEqual(at(11, 15, 0));
+    });
+
+    it('reads Spanish afternoon times', () => {
+      const result = parse('Llamar mañana a las 5 de la tarde', { languages: ['es'] });
+      expect(result.title).toBe('Llamar');
+      expect(result.deadline).toEqual(at(11, 17, 0));
+    });
+
+    it('reads German', () => {
+      const result = parse('Arzt morgen um 9 uhr', { languages: ['de-DE'] });
+      expect(result.title).toBe('Arzt');
+      expect(result.deadline).toEqual(at(11, 9, 0));
+    });
+
+    it('reads French hour notation', () => {
+      const result = parse('Réunion demain à 14h30', { languages: ['fr'] });
+      expect(result.title).toBe('Réunion');
+      expect(result.deadline).toEqual(at(11, 14, 30));
+    });
+
+    it('reads Japanese without spaces', () => {
+      const result = parse('会議明日午後3時', { languages: ['ja'] });
+      expect(result.title).toBe('会議');
+      expect(result.deadline).toEqual(at(11, 15, 0));
+    });
+
+    it('reads localized recurrence and reminders', () => {
+      const result = parse('Informe cada lunes recuérdame 10 minutos antes', { languages: ['es'] });
+      expect(result.recurrence).toEqual({ frequency: 'weekly', interval: 1, weekdays: [1] });
+      expect(result.reminderOffsets).toEqual([10]);
+    });
+
+    it('still understands English alongside another language', () => {
+      expect(parse('Toplantı tomorrow', { languages: ['tr'] }).deadline).toEqual(at(11));
+    });
+
+    it('ignores keywords of languages that aren\'t enabled', () => {
+      const result = parse('Arzt morgen');
+      expect(result.deadline).toBeNull();
+      expect(result.title).toBe('Arzt morgen');
+    });
+  });
+
+  describe('invalid input', () => {
+    it('leaves dates that don\'t exist in the title', () => {
+      for (const text of ['Party 2025-02-30', 'Party 2025-13-01']) {
+        const result = parse(text);
+        expect(result.deadline).toBeNull();
+        expect(result.title).toBe(text);
+      }
+    });
+
+    it('leaves impossible times in the title', () => {
+      expect(parse('Night shift 25:00').title).toBe('Night shift 25:00');
+      expect(parse('Night shift 13pm').deadline).toBeNull();
+    });
+
+    it('keeps a second date in the title', () => {
+      const result = parse('Move today tomorrow');
+      expect(result.deadline).toEqual(at(10));
+      expect(result.title).toBe('Move tomorrow');
+    });
+
+    it('returns plain text unchanged', () => {
+      const result = parse('Just a title');
+      expect(result).toMatchObject({ title: 'Just a title', deadline: null, tokens: [], recurrence: null });
+    });
+  });
+});
+
+describe('getQuickAddSegments', () => {
+  it('splits text into plain and token segments', () => {
+    const text = 'Call mom tomorrow #family';
+    expect(getQuickAddSegments(text, parse(text).tokens)).toEqual([
+      { text: 'Call mom ', type: null },
+      { text: 'tomorrow', type: 'date' },
+      { text: ' ', type: null },
+      { text: '#family', type: 'tag' },
+    ]);
+  });
+});
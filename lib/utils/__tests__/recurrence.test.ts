@@ -0,0 +1,202 @@
+import {
+  RecurrenceRule,
+  RecurringTaskFields,
+  describeRecurrenceRule,
+  getNextOccurrence,
+  getNextTaskOccurrence,
+  getUpcomingOccurrences,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+} from '../recurrence';
+
+// Local times, so the weekday math doesn't depend on the machine's zone
+const at = (month: number, day: number, hours = 9, minutes = 0) => new Date(2025, month - 1, day, hours, minutes);
+
+const recurring = (rule: string, fields: Partial<RecurringTaskFields> = {}): RecurringTaskFields => ({
+  is_recursive: true,
+  recurrence_rule: rule,
+  recursion_count: null,
+  recursion_end: null,
+  deadline: at(3, 10).toISOString(),
+  ...fields,
+});
+
+describe('parseRecurrenceRule', () => {
+  it.each<[string, RecurrenceRule]>([
+    ['FREQ=DAILY;INTERVAL=3', { frequency: 'daily', interval: 3 }],
+    ['FREQ=DAILY;INTERVAL=2;X-FROM=COMPLETION', { frequency: 'after_completion', interval: 2 }],
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', { frequency: 'weekly', interval: 2, weekdays: [1, 4] }],
+    ['FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR', { frequency: 'monthly', interval: 1, monthWeek: -1, monthWeekday: 5 }],
+    ['RRULE:freq=weekly;byday=sa', { frequency: 'weekly', interval: 1, weekdays: [6] }],
+  ])('reads %s', (value, rule) => {
+    expect(parseRecurrenceRule(value)).toEqual(rule);
+  });
+
+  it.each([null, '', 'FREQ=YEARLY', 'FREQ=DAILY;INTERVAL=0', 'FREQ=MONTHLY;BYDAY=5MO', 'FREQ=MONTHLY'])(
+    'rejects %p',
+    (value) => {
+      expect(parseRecurrenceRule(value)).toBeNull();
+    }
+  );
+
+  it('reads back what serializeRecurrenceRule writes', () => {
+    const rules: RecurrenceRule[] = [
+      { frequency: 'daily', interval: 1 },
+      { frequency: 'after_completion', interval: 4 },
+      { frequency: 'weekly', interval: 3, weekdays: [0, 2, 5] },
+      { frequency: 'monthly', interval: 2, monthWeek: 3, monthWeekday: 2 },
+    ];
+    rules.forEach((rule) => {
+      expect(parseRecurrenceRule(serializeRecurrenceRule(rule))).toEqual(rule);
+    });
+  });
+
+  it('writes weekdays in order', () => {
+    expect(serializeRecurrenceRule({ frequency: 'weekly', interval: 1, weekdays: [5, 1, 3] })).toBe(
+      'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE,FR'
+    );
+  });
+});
+
+describe('getNextOccurrence', () => {
+  const rule = (value: string) => parseRecurrenceRule(value)!;
+
+  it('adds the interval to daily rules', () => {
+    expect(getNextOccurrence(rule('FREQ=DAILY;INTERVAL=3'), at(3, 10), at(3, 10))).toEqual(at(3, 13));
+  });
+
+  describe('weekly', () => {
+    // Monday 10 March 2025
+    const previous = at(3, 10);
+
+    it('moves to the next listed weekday within the same week', () => {
+      expect(getNextOccurrence(rule('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH'), previous, previous)).toEqual(at(3, 13));
+    });
+
+    it('wraps around to the first listed weekday of the next week', () => {
+      expect(getNextOccurrence(rule('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH'), at(3, 13), at(3, 13))).toEqual(at(3, 17));
+    });
+
+    it('skips the weeks in between for longer intervals', () => {
+      const everyOtherWeek = rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+      expect(getNextOccurrence(everyOtherWeek, previous, previous)).toEqual(at(3, 13));
+      expect(getNextOccurrence(everyOtherWeek, at(3, 13), at(3, 13))).toEqual(at(3, 24));
+      expect(getNextOccurrence(everyOtherWeek, at(3, 24), at(3, 24))).toEqual(at(3, 27));
+    });
+
+    it('repeats on the same weekday when no weekdays are listed', () => {
+      expect(getNextOccurrence(rule('FREQ=WEEKLY;INTERVAL=3'), previous, previous)).toEqual(at(3, 31));
+    });
+
+    it('keeps the time of day', () => {
+      expect(getNextOccurrence(rule('FREQ=WEEKLY;INTERVAL=1;BYDAY=FR'), at(3, 10, 18, 30), at(3, 10))).toEqual(
+        at(3, 14, 18, 30)
+      );
+    });
+  });
+
+  describe('monthly', () => {
+    it('finds the nth weekday of the next month', () => {
+      // Second Tuesday: 11 March, then 8 April
+      expect(getNextOccurrence(rule('FREQ=MONTHLY;INTERVAL=1;BYDAY=2TU'), at(3, 11), at(3, 11))).toEqual(at(4, 8));
+    });
+
+    it('finds the last weekday of months of different lengths', () => {
+      const lastFriday = rule('FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR');
+      expect(getNextOccurrence(lastFriday, at(1, 31), at(1, 31))).toEqual(at(2, 28));
+      expect(getNextOccurrence(lastFriday, at(2, 28), at(2, 28))).toEqual(at(3, 28));
+      expect(getNextOccurrence(lastFriday, at(3, 28), at(3, 28))).toEqual(at(4, 25));
+    });
+
+    it('takes a later day of the same month when the previous one came earlier', () => {
+      // A deadline on 3 March with a rule for the last Monday lands on 31 March
+      expect(getNextOccurrence(rule('FREQ=MONTHLY;INTERVAL=1;BYDAY=-1MO'), at(3, 3), at(3, 3))).toEqual(at(3, 31));
+    });
+
+    it('skips months for longer intervals', () => {
+      expect(getNextOccurrence(rule('FREQ=MONTHLY;INTERVAL=3;BYDAY=1WE'), at(1, 1), at(1, 1))).toEqual(at(4, 2));
+    });
+  });
+
+  it('skips occurrences that are already past when completed late', () => {
+    const daily = rule('FREQ=DAILY;INTERVAL=1');
+    expect(getNextOccurrence(daily, at(3, 1), at(3, 10, 12))).toEqual(at(3, 11));
+
+    const weekly = rule('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH');
+    expect(getNextOccurrence(weekly, at(3, 3), at(3, 19, 12))).toEqual(at(3, 20));
+  });
+
+  it('counts rules from completion at the original time of day', () => {
+    expect(getNextOccurrence(rule('FREQ=DAILY;INTERVAL=2;X-FROM=COMPLETION'), at(3, 1, 8), at(3, 10, 17))).toEqual(
+      at(3, 12, 8)
+    );
+  });
+});
+
+describe('getNextTaskOccurrence', () => {
+  it('returns the next deadline of a recurring task', () => {
+    expect(getNextTaskOccurrence(recurring('FREQ=DAILY;INTERVAL=1'), at(3, 10))).toEqual(at(3, 11));
+  });
+
+  it('returns null for tasks that do not recur', () => {
+    expect(getNextTaskOccurrence(recurring('FREQ=DAILY;INTERVAL=1', { is_recursive: false }), at(3, 10))).toBeNull();
+    expect(getNextTaskOccurrence(recurring('FREQ=YEARLY'), at(3, 10))).toBeNull();
+  });
+
+  it('ends the series on its last counted occurrence', () => {
+    expect(getNextTaskOccurrence(recurring('FREQ=DAILY;INTERVAL=1', { recursion_count: 2 }), at(3, 10))).toEqual(
+      at(3, 11)
+    );
+    expect(getNextTaskOccurrence(recurring('FREQ=DAILY;INTERVAL=1', { recursion_count: 1 }), at(3, 10))).toBeNull();
+  });
+
+  it('ends the series once the next occurrence would fall after the end date', () => {
+    const task = recurring('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO', { recursion_end: at(3, 20).toISOString() });
+    expect(getNextTaskOccurrence(task, at(3, 10))).toEqual(at(3, 17));
+    expect(getNextTaskOccurrence({ ...task, deadline: at(3, 17).toISOString() }, at(3, 17))).toBeNull();
+  });
+
+  it('counts from the completion time when the task has no deadline', () => {
+    expect(getNextTaskOccurrence(recurring('FREQ=DAILY;INTERVAL=2', { deadline: null }), at(3, 10))).toEqual(
+      at(3, 12)
+    );
+  });
+});
+
+describe('getUpcomingOccurrences', () => {
+  it('projects up to the requested number of occurrences', () => {
+    expect(getUpcomingOccurrences(recurring('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH'), 4)).toEqual([
+      at(3, 13),
+      at(3, 17),
+      at(3, 20),
+      at(3, 24),
+    ]);
+  });
+
+  it('stops at the remaining count, not counting the current occurrence', () => {
+    expect(getUpcomingOccurrences(recurring('FREQ=DAILY;INTERVAL=1', { recursion_count: 3 }))).toEqual([
+      at(3, 11),
+      at(3, 12),
+    ]);
+  });
+
+  it('stops at the end date', () => {
+    const task = recurring('FREQ=DAILY;INTERVAL=2', { recursion_end: at(3, 15, 12).toISOString() });
+    expect(getUpcomingOccurrences(task)).toEqual([at(3, 12), at(3, 14)]);
+  });
+
+  it('returns nothing without a deadline to count from', () => {
+    expect(getUpcomingOccurrences(recurring('FREQ=DAILY;INTERVAL=1', { deadline: null }))).toEqual([]);
+  });
+});
+
+describe('describeRecurrenceRule', () => {
+  it.each([
+    ['FREQ=DAILY;INTERVAL=1', 'Every day'],
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO', 'Every 2 weeks on Monday, Thursday'],
+    ['FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR', 'Every month on the last Friday'],
+    ['FREQ=DAILY;INTERVAL=3;X-FROM=COMPLETION', '3 days after completion'],
+  ])('describes %s', (value, description) => {
+    expect(describeRecurrenceRule(parseRecurrenceRule(value)!)).toBe(description);
+  });
+});
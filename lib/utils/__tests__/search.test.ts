@@ -0,0 +1,40 @@
+import { highlightText, matchTask } from '../search';
+import { makeTask } from './fixtures/tasks';
+
+const NO_SOURCES = { tags: [], lists: [], taskTagRelations: [], taskListRelations: [] };
+
+const highlighted = (text: string, terms: string[]) =>
+  highlightText(text, terms)
+    .filter((segment) => segment.match)
+    .map((segment) => segment.text);
+
+describe('highlightText', () => {
+  it('marks every occurrence of each term, ignoring case', () => {
+    expect(highlighted('Call Bob, then call Alice', ['call', 'alice'])).toEqual(['Call', 'call', 'Alice']);
+  });
+
+  it('keeps the text intact', () => {
+    const text = 'Buy milk and bread';
+    expect(highlightText(text, ['milk']).map((segment) => segment.text).join('')).toBe(text);
+  });
+
+  // 'İ' lowercases to two characters, which shifts every later offset
+  it('marks the right characters after one that lowercases to more than one', () => {
+    expect(highlighted('İstanbul uçuşu', ['uçuş'])).toEqual(['uçuş']);
+    expect(highlighted('İzmir ve İstanbul', ['bul'])).toEqual(['bul']);
+    expect(highlightText('İİİ abc', ['abc']).map((segment) => segment.text).join('')).toBe('İİİ abc');
+  });
+});
+
+describe('matchTask', () => {
+  it('cuts description snippets around the match', () => {
+    const task = makeTask('t1', {
+      title: 'Trip',
+      description: `${'İ'.repeat(40)} bilet al ${'x'.repeat(40)}`,
+    });
+    const [match] = matchTask(task, ['bilet'], NO_SOURCES)!.matches;
+
+    expect(match.field).toBe('description');
+    expect(match.text).toBe(`…${'İ'.repeat(29)} bilet al ${'x'.repeat(26)}…`);
+  });
+});
@@ -0,0 +1,78 @@
+import { isSameFieldValue, mergeTaskChanges } from '../taskMerge';
+
+describe('isSameFieldValue', () => {
+  it('compares plain values strictly', () => {
+    expect(isSameFieldValue('priority', 2, 2)).toBe(true);
+    expect(isSameFieldValue('priority', 2, '2')).toBe(false);
+    expect(isSameFieldValue('title', 'Plan', 'plan')).toBe(false);
+  });
+
+  it('treats null and undefined as the same missing value', () => {
+    expect(isSameFieldValue('description', null, undefined)).toBe(true);
+    expect(isSameFieldValue('description', null, '')).toBe(false);
+  });
+
+  it('compares timestamps by the instant they point at', () => {
+    expect(isSameFieldValue('deadline', '2025-03-10T09:00:00.000Z', '2025-03-10T09:00:00+00:00')).toBe(true);
+    expect(isSameFieldValue('deadline', '2025-03-10T09:00:00.000Z', '2025-03-10T10:00:00+01:00')).toBe(true);
+    expect(isSameFieldValue('deadline', '2025-03-10T09:00:00.000Z', '2025-03-10T09:00:01.000Z')).toBe(false);
+    expect(isSameFieldValue('deadline', 'not a date', 'also not a date')).toBe(false);
+  });
+
+  it('only reads timestamps that way for timestamp fields', () => {
+    expect(isSameFieldValue('title', '2025-03-10T09:00:00.000Z', '2025-03-10T09:00:00+00:00')).toBe(false);
+  });
+});
+
+describe('mergeTaskChanges', () => {
+  const base = { title: 'Plan trip', priority: 2, deadline: '2025-03-10T09:00:00.000Z' };
+
+  it('keeps local changes to fields nobody else touched', () => {
+    const remote = { ...base, description: 'Changed elsewhere' };
+    expect(mergeTaskChanges(base, { title: 'Plan the trip', priority: 1 }, remote)).toEqual({
+      changes: { title: 'Plan the trip', priority: 1 },
+      conflicts: [],
+    });
+  });
+
+  it('drops local changes another device already made', () => {
+    const remote = { ...base, priority: 1 };
+    expect(mergeTaskChanges(base, { priority: 1 }, remote)).toEqual({ changes: {}, conflicts: [] });
+  });
+
+  it('reports fields both sides changed to different values', () => {
+    const remote = { ...base, title: 'Plan holiday', priority: 3 };
+    expect(mergeTaskChanges(base, { title: 'Plan the trip', priority: 1 }, remote)).toEqual({
+      changes: {},
+      conflicts: [
+        { field: 'title', base: 'Plan trip', local: 'Plan the trip', remote: 'Plan holiday' },
+        { field: 'priority', base: 2, local: 1, remote: 3 },
+      ],
+    });
+  });
+
+  it('merges the untouched fields alongside a conflict', () => {
+    const remote = { ...base, title: 'Plan holiday' };
+    const { changes, conflicts } = mergeTaskChanges(base, { title: 'Plan the trip', priority: 1 }, remote);
+
+    expect(changes).toEqual({ priority: 1 });
+    expect(conflicts.map((conflict) => conflict.field)).toEqual(['title']);
+  });
+
+  it('does not mistake a differently formatted timestamp for a remote change', () => {
+    const remote = { ...base, deadline: '2025-03-10T09:00:00+00:00' };
+    expect(mergeTaskChanges(base, { deadline: '2025-03-12T09:00:00.000Z' }, remote)).toEqual({
+      changes: { deadline: '2025-03-12T09:00:00.000Z' },
+      conflicts: [],
+    });
+  });
+
+  it('leaves bookkeeping fields out of the merge', () => {
+    const remote = { ...base, updated_at: '2025-03-11T00:00:00.000Z' };
+    const local = { priority: 1, updated_at: '2025-03-10T12:00:00.000Z', id: 'other', user_id: 'other' };
+    expect(mergeTaskChanges({ ...base, updated_at: '2025-03-10T00:00:00.000Z' }, local, remote)).toEqual({
+      changes: { priority: 1 },
+      conflicts: [],
+    });
+  });
+});
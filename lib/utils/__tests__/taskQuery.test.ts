@@ -0,0 +1,366 @@
+import type { Task, TaskListRelation, TaskTagRelation } from '../../../store/taskStore';
+import {
+  TaskQuery,
+  and,
+  getQueryRelations,
+  or,
+  runTaskQuery,
+  toPostgrestTaskQuery,
+} from '../taskQuery';
+import { makeTask } from './fixtures/tasks';
+
+// ---------------------------------------------------------------------------
+// Fixture
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2025-03-12T12:00:00.000Z');
+
+const TAG_WORK = '00000000-0000-4000-8000-0000000000a1';
+const TAG_HOME = '00000000-0000-4000-8000-0000000000a2';
+const LIST_INBOX = '00000000-0000-4000-8000-0000000000b1';
+const LIST_ERRANDS = '00000000-0000-4000-8000-0000000000b2';
+
+const TASKS: Task[] = [
+  makeTask('t1', {
+    title: 'Write quarterly report',
+    description: 'Numbers from finance, 100% done by Friday',
+    deadline: '2025-03-12T17:00:00.000Z',
+    priority: 1,
+    difficulty: 3,
+    created_at: '2025-03-01T09:00:00.000Z',
+  }),
+  makeTask('t2', {
+    title: 'Buy groceries',
+    description: 'Milk, eggs',
+    deadline: '2025-03-11T08:00:00.000Z',
+    priority: 2,
+    difficulty: 1,
+    created_at: '2025-03-02T09:00:00.000Z',
+  }),
+  makeTask('t3', {
+    title: 'Call the plumber',
+    deadline: '2025-03-14T10:00:00.000Z',
+    priority: 3,
+    status: 'inprogress',
+    created_at: '2025-03-03T09:00:00.000Z',
+  }),
+  makeTask('t4', {
+    title: 'Renew passport',
+    deadline: '2025-03-05T10:00:00.000Z',
+    priority: 1,
+    difficulty: 2,
+    status: 'completed',
+    created_at: '2025-03-04T09:00:00.000Z',
+  }),
+  makeTask('t5', {
+    title: 'Plan team offsite',
+    description: 'Book a venue for the work trip',
+    priority: 2,
+    difficulty: 5,
+    created_at: '2025-03-05T09:00:00.000Z',
+  }),
+  makeTask('t6', {
+    title: 'Draft venue list',
+    parent_task_id: 't5',
+    deadline: '2025-03-13T09:00:00.000Z',
+    created_at: '2025-03-06T09:00:00.000Z',
+  }),
+  makeTask('t7', {
+    title: 'Cancelled gym membership',
+    status: 'cancelled',
+    deadline: '2025-03-10T09:00:00.000Z',
+    created_at: '2025-03-07T09:00:00.000Z',
+  }),
+  makeTask('t8', {
+    title: 'Old draft',
+    parent_task_id: 't3',
+    is_deleted: true,
+    created_at: '2025-03-08T09:00:00.000Z',
+  }),
+];
+
+const TASK_TAG_RELATIONS: TaskTagRelation[] = [
+  { task_id: 't1', tag_id: TAG_WORK },
+  { task_id: 't2', tag_id: TAG_HOME },
+  { task_id: 't3', tag_id: TAG_HOME },
+  { task_id: 't5', tag_id: TAG_WORK },
+  { task_id: 't5', tag_id: TAG_HOME },
+  { task_id: 't8', tag_id: TAG_WORK },
+];
+
+const TASK_LIST_RELATIONS: TaskListRelation[] = [
+  { task_id: 't1', list_id: LIST_INBOX },
+  { task_id: 't2', list_id: LIST_ERRANDS },
+  { task_id: 't3', list_id: LIST_ERRANDS },
+  { task_id: 't6', list_id: LIST_INBOX },
+];
+
+// ---------------------------------------------------------------------------
+// The task_query_rows view and a PostgREST evaluator for it
+// ---------------------------------------------------------------------------
+
+type Row = Task & { tag_ids: string[]; list_ids: string[]; has_subtasks: boolean };
+
+const VIEW_ROWS: Row[] = TASKS.map((task) => ({
+  ...task,
+  tag_ids: TASK_TAG_RELATIONS.filter((rel) => rel.task_id === task.id).map((rel) => rel.tag_id),
+  list_ids: TASK_LIST_RELATIONS.filter((rel) => rel.task_id === task.id).map((rel) => rel.list_id),
+  has_subtasks: TASKS.some((child) => child.parent_task_id === task.id && !child.is_deleted),
+}));
+
+type FilterNode =
+  | { op: 'and' | 'or'; children: FilterNode[] }
+  | { column: string; negated: boolean; operator: string; value: string };
+
+// Parses the logic tree PostgREST accepts in the `or` parameter
+const parseFilter = (text: string): FilterNode => {
+  let index = 0;
+
+  const readValue = (): string => {
+    const start = index;
+    if (text[index] === '"') {
+      let value = '';
+      index += 1;
+      while (text[index] !== '"') {
+        if (text[index] === '\\') index += 1;
+        value += text[index];
+        index += 1;
+      }
+      index += 1;
+      return value;
+    }
+    const closer = text[index] === '(' ? ')' : text[index] === '{' ? '}' : null;
+    if (closer) {
+      let inQuote = false;
+      while (inQuote || text[index] !== closer) {
+        if (text[index] === '\\') index += 1;
+        else if (text[index] === '"') inQuote = !inQuote;
+        index += 1;
+      }
+      index += 1;
+      return text.slice(start, index);
+    }
+    while (index < text.length && text[index] !== ',' && text[index] !== ')') index += 1;
+    return text.slice(start, index);
+  };
+
+  const readWord = () => {
+    const start = index;
+    while (text[index] !== '.' && text[index] !== '(') index += 1;
+    return text.slice(start, index);
+  };
+
+  const parseNode = (): FilterNode => {
+    const word = readWord();
+    if ((word === 'and' || word === 'or') && text[index] === '(') {
+      index += 1;
+      const children: FilterNode[] = [];
+      while (text[index] !== ')') {
+        children.push(parseNode());
+        if (text[index] === ',') index += 1;
+      }
+      index += 1;
+      return { op: word, children };
+    }
+
+    index += 1;
+    let operator = readWord();
+    const negated = operator === 'not';
+    if (negated) {
+      index += 1;
+      operator = readWord();
+    }
+    index += 1;
+    return { column: word, negated, operator, value: readValue() };
+  };
+
+  return parseNode();
+};
+
+const splitList = (list: string) =>
+  list
+    .slice(1, -1)
+    .split(',')
+    .map((item) => item.replace(/^"|"$/g, ''));
+
+const DATE_COLUMNS = new Set(['deadline', 'created_at', 'updated_at']);
+
+const toComparable = (column: string, value: unknown): number | string =>
+  DATE_COLUMNS.has(column) ? new Date(String(value)).getTime() : typeof value === 'number' ? value : String(value);
+
+const ilike = (value: unknown, pattern: string) => {
+  if (typeof value !== 'string') return null;
+  const source = pattern
+    .replace(/\\(.)/g, '\u0000$1')
+    .split(/(\u0000.|\*)/)
+    .map((part) => (part === '*' ? '.*' : part.replace(/\u0000/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i').test(value);
+};
+
+// Evaluates with SQL's three-valued logic; null is unknown
+const evaluate = (node: FilterNode, row: Row): boolean | null => {
+  if ('op' in node) {
+    const results = node.children.map((child) => evaluate(child, row));
+    if (node.op === 'and') return results.includes(false) ? false : results.includes(null) ? null : true;
+    return results.includes(true) ? true : results.includes(null) ? null : false;
+  }
+
+  const value = (row as any)[node.column];
+  let result: boolean | null;
+  switch (node.operator) {
+    case 'is':
+      result = node.value === 'null' ? value === null : value === (node.value === 'true');
+      break;
+    case 'in':
+      result = value === null ? null : splitList(node.value).includes(String(value));
+      break;
+    case 'cs':
+      result = splitList(node.value).every((id) => value.includes(id));
+      break;
+    case 'ov':
+      result = splitList(node.value).some((id) => value.includes(id));
+      break;
+    case 'ilike':
+      result = ilike(value, node.value);
+      break;
+    default: {
+      if (value === null) {
+        result = null;
+        break;
+      }
+      const left = toComparable(node.column, value);
+      const right = toComparable(node.column, typeof value === 'number' ? Number(node.value) : node.value);
+      result = {
+        eq: left === right,
+        gt: left > right,
+        gte: left >= right,
+        lt: left < right,
+        lte: left <= right,
+      }[node.operator as 'eq' | 'gt' | 'gte' | 'lt' | 'lte'];
+    }
+  }
+  return node.negated && result !== null ? !result : result;
+};
+
+// Runs a request the way the store sends it: scoped to live rows, filtered, ordered with nulls last, then ranged
+const runPostgrest = (query: TaskQuery): string[] => {
+  const { filter, order, range } = toPostgrestTaskQuery(query, NOW);
+  const tree = filter ? parseFilter(filter) : null;
+  const rows = VIEW_ROWS.filter((row) => !row.is_deleted && (!tree || evaluate(tree, row) === true));
+
+  rows.sort((a, b) => {
+    for (const { column, ascending } of order) {
+      const left = (a as any)[column];
+      const right = (b as any)[column];
+      if (left === right) continue;
+      if (left === null) return 1;
+      if (right === null) return -1;
+      const l = toComparable(column, left);
+      const r = toComparable(column, right);
+      const compared = typeof l === 'string' ? l.localeCompare(r as string) : l - (r as number);
+      if (compared !== 0) return ascending ? compared : -compared;
+    }
+    return 0;
+  });
+
+  const ids = rows.map((row) => row.id);
+  return range ? ids.slice(range.from, range.to + 1) : ids;
+};
+
+const runLocal = (query: TaskQuery): string[] =>
+  runTaskQuery(TASKS, query, { taskTagRelations: TASK_TAG_RELATIONS, taskListRelations: TASK_LIST_RELATIONS }, NOW)
+    .map((task) => task.id);
+
+// ---------------------------------------------------------------------------
+// Parity
+// ---------------------------------------------------------------------------
+
+const CASES: [string, TaskQuery, string[]][] = [
+  ['no filter', {}, ['t7', 't6', 't5', 't4', 't3', 't2', 't1']],
+  ['status', { where: { field: 'status', in: ['completed', 'cancelled'] } }, ['t7', 't4']],
+  ['a list', { where: { field: 'lists', listIds: [LIST_INBOX] } }, ['t6', 't1']],
+  ['either of two lists', { where: { field: 'lists', listIds: [LIST_INBOX, LIST_ERRANDS] } }, ['t6', 't3', 't2', 't1']],
+  ['any of two tags', { where: { field: 'tags', tagIds: [TAG_WORK, TAG_HOME], match: 'any' } }, ['t5', 't3', 't2', 't1']],
+  ['all of two tags', { where: { field: 'tags', tagIds: [TAG_WORK, TAG_HOME], match: 'all' } }, ['t5']],
+  [
+    'a deadline range',
+    { where: { field: 'deadline', from: new Date('2025-03-11T00:00:00.000Z'), to: new Date('2025-03-13T23:59:59.999Z') } },
+    ['t6', 't2', 't1'],
+  ],
+  ['a deadline from a date on', { where: { field: 'deadline', from: new Date('2025-03-13T00:00:00.000Z') } }, ['t6', 't3']],
+  ['no deadline', { where: { field: 'hasDeadline', value: false } }, ['t5']],
+  ['overdue', { where: { field: 'overdue', value: true } }, ['t2']],
+  ['not overdue', { where: { field: 'overdue', value: false } }, ['t7', 't6', 't5', 't4', 't3', 't1']],
+  ['text in the title', { where: { field: 'text', contains: 'PLUMBER' } }, ['t3']],
+  ['text in the description', { where: { field: 'text', contains: 'venue' } }, ['t6', 't5']],
+  ['text with a wildcard', { where: { field: 'text', contains: 'buy*ies' } }, ['t2']],
+  ['text with LIKE characters', { where: { field: 'text', contains: '100%' } }, ['t1']],
+  ['a priority range', { where: { field: 'priority', min: 2, max: 3 } }, ['t5', 't3', 't2']],
+  ['top-level tasks', { where: { field: 'parent', parentId: null } }, ['t7', 't5', 't4', 't3', 't2', 't1']],
+  ['subtasks of a task', { where: { field: 'parent', parentId: 't5' } }, ['t6']],
+  // t3's only subtask is in the trash
+  ['tasks with subtasks', { where: { field: 'hasSubtasks', value: true } }, ['t5']],
+  [
+    'nested and/or groups',
+    {
+      where: and(
+        { field: 'status', in: ['ongoing', 'inprogress'] },
+        or({ field: 'tags', tagIds: [TAG_HOME], match: 'any' }, { field: 'lists', listIds: [LIST_INBOX] })
+      ),
+    },
+    ['t6', 't5', 't3', 't2', 't1'],
+  ],
+  ['an or-group with an unconstrained branch', { where: or({ field: 'status', in: ['completed'] }, { field: 'text', contains: ' ' }) }, [
+    't7', 't6', 't5', 't4', 't3', 't2', 't1',
+  ]],
+  ['sorted by priority, nulls last', { sort: [{ key: 'priority', direction: 'asc' }] }, ['t1', 't4', 't2', 't5', 't3', 't6', 't7']],
+  ['sorted by deadline descending', { sort: [{ key: 'deadline', direction: 'desc' }] }, ['t3', 't6', 't1', 't2', 't7', 't4', 't5']],
+  [
+    'sorted by title',
+    { sort: [{ key: 'title', direction: 'asc' }] },
+    ['t2', 't3', 't7', 't6', 't5', 't4', 't1'],
+  ],
+  [
+    'sorted on two keys',
+    { sort: [{ key: 'difficulty', direction: 'desc' }, { key: 'created_at', direction: 'asc' }] },
+    ['t5', 't1', 't4', 't2', 't3', 't6', 't7'],
+  ],
+  [
+    'a page of a sorted query',
+    { where: { field: 'status', in: ['ongoing'] }, sort: [{ key: 'created_at', direction: 'asc' }], limit: 2, offset: 1 },
+    ['t2', 't5'],
+  ],
+  [
+    'relative deadline windows',
+    { where: { field: 'dueWithin', period: 'next_7_days' }, sort: [{ key: 'deadline', direction: 'asc' }] },
+    ['t1', 't6', 't3'],
+  ],
+];
+
+describe('task queries', () => {
+  it.each(CASES)('match %s locally and on the server alike', (_name, query, expected) => {
+    expect(runLocal(query)).toEqual(expected);
+    expect(runPostgrest(query)).toEqual(expected);
+  });
+
+  it('never return deleted tasks', () => {
+    const query: TaskQuery = { where: { field: 'tags', tagIds: [TAG_WORK], match: 'any' } };
+    expect(runLocal(query)).not.toContain('t8');
+    expect(runPostgrest(query)).not.toContain('t8');
+  });
+});
+
+describe('getQueryRelations', () => {
+  it('finds list and tag conditions in nested groups', () => {
+    expect(getQueryRelations({
+      where: and({ field: 'status', in: ['ongoing'] }, or({ field: 'tags', tagIds: [TAG_WORK], match: 'any' })),
+    })).toEqual({ lists: false, tags: true });
+    expect(getQueryRelations({ where: { field: 'lists', listIds: [LIST_INBOX] } })).toEqual({ lists: true, tags: false });
+  });
+
+  it('needs no relations for queries without list or tag conditions', () => {
+    expect(getQueryRelations({})).toEqual({ lists: false, tags: false });
+    expect(getQueryRelations({ where: { field: 'text', contains: 'report' } })).toEqual({ lists: false, tags: false });
+  });
+});
@@ -0,0 +1,373 @@
+import type { List, Tag, Task, TaskListRelation, TaskReminder, TaskTagRelation } from '../../store/taskStore';
+import type { Profile } from '../../store/models/profile';
+import { findTagByName, normalizeTagName } from './tags';
+import { normalizeTaskStatus } from './taskStatus';
+
+export const BACKUP_FORMAT = 'todo-next-backup';
+// Bump when the document shape changes, and teach validateBackup to read the old one
+export const BACKUP_VERSION = 1;
+
+// Everything a backup holds, and everything a restore writes
+export interface BackupData {
+  tasks: Task[];
+  tags: Tag[];
+  lists: List[];
+  taskTagRelations: TaskTagRelation[];
+  taskListRelations: TaskListRelation[];
+  reminders: TaskReminder[];
+}
+
+// Rows are stored without their owner, who is whoever restores them
+type Unowned<T> = Omit<T, 'user_id'>;
+
+export type BackupProfile = Pick<Profile, 'name' | 'email' | 'avatar_url' | 'created_at'>;
+
+/**
+ * The exported document. Collections are named after their tables;
+ * subtasks are tasks with a `parent_task_id`.
+ */
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  includes_deleted: boolean;
+  profile: BackupProfile | null;
+  tasks: Unowned<Task>[];
+  tags: Unowned<Tag>[];
+  lists: Unowned<List>[];
+  task_tags: TaskTagRelation[];
+  task_lists: TaskListRelation[];
+  task_reminders: TaskReminder[];
+}
+
+export type BackupCollection = 'tasks' | 'tags' | 'lists' | 'task_tags' | 'task_lists' | 'task_reminders';
+
+export const BACKUP_COLLECTIONS: BackupCollection[] = ['tasks', 'tags', 'lists', 'task_tags', 'task_lists', 'task_reminders'];
+
+export interface RestoreCounts {
+  created: number;
+  // Already present, so the existing row is used instead
+  skipped: number;
+  // Malformed, or pointing at something that wasn't restored
+  rejected: number;
+}
+
+export interface RestoreReport {
+  counts: Record<BackupCollection, RestoreCounts>;
+  // A line for every rejected row, saying why
+  problems: string[];
+}
+
+export interface RestorePlan {
+  // New rows to write, already owned by the restoring user and with fresh ids
+  rows: BackupData;
+  report: RestoreReport;
+}
+
+interface RestoreOptions {
+  userId: string;
+  createId: () => string;
+  now?: Date;
+}
+
+const stripOwner = <T extends { user_id: string }>({ user_id: _userId, ...row }: T): Unowned<T> => row;
+
+/**
+ * Build a backup document from the user's data.
+ */
+export function createBackup(
+  data: BackupData,
+  profile: BackupProfile | null,
+  options: { includeDeleted: boolean; now?: Date }
+): BackupDocument {
+  const tasks = options.includeDeleted ? data.tasks : data.tasks.filter((task) => !task.is_deleted);
+  const taskIds = new Set(tasks.map((task) => task.id));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: (options.now ?? new Date()).toISOString(),
+    includes_deleted: options.includeDeleted,
+    profile,
+    tasks: tasks.map(stripOwner),
+    tags: data.tags.map(stripOwner),
+    lists: data.lists.map(stripOwner),
+    task_tags: data.taskTagRelations.filter((relation) => taskIds.has(relation.task_id)),
+    task_lists: data.taskListRelations.filter((relation) => taskIds.has(relation.task_id)),
+    task_reminders: data.reminders.filter((reminder) => taskIds.has(reminder.task_id)),
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check that parsed JSON is a backup this version can read. Individual rows
+ * are checked while restoring, so one bad row doesn't sink the whole file.
+ *
+ * @returns The document, or a message saying what's wrong with it
+ */
+export function validateBackup(value: unknown): { document: BackupDocument } | { error: string } {
+  if (!isObject(value) || value.format !== BACKUP_FORMAT) {
+    return { error: "This file isn't a ToDo Next backup." };
+  }
+  if (typeof value.version !== 'number' || value.version < 1) {
+    return { error: 'The backup has no valid version.' };
+  }
+  if (value.version > BACKUP_VERSION) {
+    return { error: 'The backup was made by a newer version of the app. Update the app to restore it.' };
+  }
+
+  const missing = BACKUP_COLLECTIONS.filter((collection) => !Array.isArray(value[collection]));
+  if (missing.length > 0) {
+    return { error: `The backup is missing ${missing.join(', ')}.` };
+  }
+
+  return { document: value as BackupDocument };
+}
+
+const isId = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isDateOrNull = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && !isNaN(new Date(value).getTime()));
+
+const isNumberOrNull = (value: unknown) => value === null || value === undefined || typeof value === 'number';
+
+const timestampOf = (value: string | null | undefined) => (value ? new Date(value).getTime() : null);
+
+// Tasks that look the same are treated as the same task, so a backup can be restored twice
+const taskFingerprint = (title: string, deadline: string | null | undefined, parentId: string | null) =>
+  `${title.trim().toLowerCase()}|${timestampOf(deadline) ?? ''}|${parentId ?? ''}`;
+
+// Why a task row can't be restored, or null when it's fine
+const checkTask = (row: Record<string, any>): string | null => {
+  if (!isId(row.id)) return 'it has no id';
+  if (typeof row.title !== 'string' || !row.title.trim()) return 'it has no title';
+  if (row.status !== undefined && !normalizeTaskStatus(row.status)) return `"${row.status}" isn't a task status`;
+  if (!isDateOrNull(row.deadline) || !isDateOrNull(row.recursion_end)) return 'it has an invalid date';
+  if (!isNumberOrNull(row.priority) || !isNumberOrNull(row.difficulty)) return 'its priority or difficulty isn\'t a number';
+  return null;
+};
+
+// Parents before their subtasks, so subtasks can point at the parent's new id
+const orderParentsFirst = (rows: Record<string, any>[]): Record<string, any>[] => {
+  const byId = new Map(rows.filter((row) => isId(row.id)).map((row) => [row.id, row]));
+  const ordered: Record<string, any>[] = [];
+  const visited = new Set<Record<string, any>>();
+
+  const visit = (row: Record<string, any>, depth: number) => {
+    if (visited.has(row)) return;
+    visited.add(row);
+    const parent = byId.get(row.parent_task_id);
+    // Depth guards against parent cycles in a hand-edited file
+    if (parent && depth < rows.length) visit(parent, depth + 1);
+    ordered.push(row);
+  };
+
+  rows.forEach((row) => visit(row, 0));
+  return ordered;
+};
+
+/**
+ * Work out what restoring a backup on top of the existing data writes.
+ * Every restored row gets a new id, and references between rows are remapped
+ * to match. Tags and lists with an existing name, tasks with the same id or
+ * the same title, deadline and parent, and relations and reminders that
+ * already exist are skipped in favor of what's there.
+ */
+export function planRestore(document: BackupDocument, existing: BackupData, options: RestoreOptions): RestorePlan {
+  const now = (options.now ?? new Date()).toISOString();
+  const rows: BackupData = { tasks: [], tags: [], lists: [], taskTagRelations: [], taskListRelations: [], reminders: [] };
+  const counts = Object.fromEntries(
+    BACKUP_COLLECTIONS.map((collection) => [collection, { created: 0, skipped: 0, rejected: 0 }])
+  ) as Record<BackupCollection, RestoreCounts>;
+  const problems: string[] = [];
+
+  const reject = (collection: BackupCollection, index: number, reason: string) => {
+    counts[collection].rejected++;
+    problems.push(`${collection} #${index + 1}: ${reason}`);
+  };
+
+  // Backup id -> id of the row it became or was matched to
+  const tagIds = new Map<string, string>();
+  const listIds = new Map<string, string>();
+  const taskIds = new Map<string, string>();
+
+  document.tags.forEach((row: Record<string, any>, index) => {
+    const name = typeof row.name === 'string' ? normalizeTagName(row.name) : '';
+    if (!isId(row.id) || !name) return reject('tags', index, 'it has no id or name');
+    if (tagIds.has(row.id)) {
+      counts.tags.skipped++;
+      return;
+    }
+
+    const match = findTagByName([...existing.tags, ...rows.tags], name);
+    if (match) {
+      tagIds.set(row.id, match.id);
+      counts.tags.skipped++;
+      return;
+    }
+
+    const tag: Tag = {
+      id: options.createId(),
+      user_id: options.userId,
+      name,
+      color: typeof row.color === 'string' ? row.color : null,
+      created_at: isDateOrNull(row.created_at) && row.created_at ? row.created_at : now,
+    };
+    rows.tags.push(tag);
+    tagIds.set(row.id, tag.id);
+    counts.tags.created++;
+  });
+
+  // Restored lists go after the existing ones, in their backed up order
+  let nextPosition = Math.max(-1, ...existing.lists.map((list) => list.position ?? 0)) + 1;
+  const backupLists = [...document.lists].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  backupLists.forEach((row: Record<string, any>) => {
+    const index = document.lists.indexOf(row as Unowned<List>);
+    const name = typeof row.name === 'string' ? row.name.trim() : '';
+    if (!isId(row.id) || !name) return reject('lists', index, 'it has no id or name');
+    if (listIds.has(row.id)) {
+      counts.lists.skipped++;
+      return;
+    }
+
+    const match = [...existing.lists, ...rows.lists].find((list) => list.name.toLowerCase() === name.toLowerCase());
+    if (match) {
+      listIds.set(row.id, match.id);
+      counts.lists.skipped++;
+      return;
+    }
+
+    const list: List = {
+      id: options.createId(),
+      user_id: options.userId,
+      name,
+      color: typeof row.color === 'string' ? row.color : null,
+      icon: typeof row.icon === 'string' ? row.icon : null,
+      position: nextPosition++,
+      is_archived: row.is_archived === true,
+      created_at: isDateOrNull(row.created_at) && row.created_at ? row.created_at : now,
+    };
+    rows.lists.push(list);
+    listIds.set(row.id, list.id);
+    counts.lists.created++;
+  });
+
+  const existingTaskIds = new Set(existing.tasks.map((task) => task.id));
+  const fingerprints = new Map(
+    existing.tasks.map((task) => [taskFingerprint(task.title, task.deadline, task.parent_task_id), task.id])
+  );
+
+  orderParentsFirst(document.tasks as Record<string, any>[]).forEach((row) => {
+    const index = document.tasks.indexOf(row as Unowned<Task>);
+    const problem = checkTask(row);
+    if (problem) return reject('tasks', index, problem);
+    if (taskIds.has(row.id)) {
+      counts.tasks.skipped++;
+      return;
+    }
+
+    let parentId: string | null = null;
+    if (row.parent_task_id) {
+      parentId = taskIds.get(row.parent_task_id) ?? null;
+      if (!parentId) return reject('tasks', index, `"${row.title}" is a subtask of a task that wasn't restored`);
+    }
+
+    const match = existingTaskIds.has(row.id)
+      ? row.id
+      : fingerprints.get(taskFingerprint(row.title, row.deadline, parentId));
+    if (match) {
+      taskIds.set(row.id, match);
+      counts.tasks.skipped++;
+      return;
+    }
+
+    const task: Task = {
+      id: options.createId(),
+      user_id: options.userId,
+      parent_task_id: parentId,
+      title: row.title.trim(),
+      description: typeof row.description === 'string' ? row.description : null,
+      deadline: row.deadline ?? null,
+      priority: row.priority ?? null,
+      outcome_value: row.outcome_value ?? null,
+      difficulty: row.difficulty ?? null,
+      is_recursive: row.is_recursive === true,
+      recursion_count: row.recursion_count ?? null,
+      recursion_end: row.recursion_end ?? null,
+      recurrence_rule: typeof row.recurrence_rule === 'string' ? row.recurrence_rule : null,
+      position: row.position ?? null,
+      is_deleted: row.is_deleted === true,
+      created_at: isDateOrNull(row.created_at) && row.created_at ? row.created_at : now,
+      updated_at: now,
+      // Backups from older versions may spell statuses differently
+      status: normalizeTaskStatus(row.status) ?? 'ongoing',
+    };
+    rows.tasks.push(task);
+    taskIds.set(row.id, task.id);
+    fingerprints.set(taskFingerprint(task.title, task.deadline, task.parent_task_id), task.id);
+    counts.tasks.created++;
+  });
+
+  document.task_tags.forEach((row: Record<string, any>, index) => {
+    const taskId = taskIds.get(row.task_id);
+    const tagId = tagIds.get(row.tag_id);
+    if (!taskId || !tagId) return reject('task_tags', index, 'its task or tag wasn\'t restored');
+
+    const exists = [...existing.taskTagRelations, ...rows.taskTagRelations].some(
+      (relation) => relation.task_id === taskId && relation.tag_id === tagId
+    );
+    if (exists) {
+      counts.task_tags.skipped++;
+      return;
+    }
+
+    rows.taskTagRelations.push({ task_id: taskId, tag_id: tagId });
+    counts.task_tags.created++;
+  });
+
+  document.task_lists.forEach((row: Record<string, any>, index) => {
+    const taskId = taskIds.get(row.task_id);
+    const listId = listIds.get(row.list_id);
+    if (!taskId || !listId) return reject('task_lists', index, 'its task or list wasn\'t restored');
+
+    const exists = [...existing.taskListRelations, ...rows.taskListRelations].some(
+      (relation) => relation.task_id === taskId && relation.list_id === listId
+    );
+    if (exists) {
+      counts.task_lists.skipped++;
+      return;
+    }
+
+    rows.taskListRelations.push({ task_id: taskId, list_id: listId });
+    counts.task_lists.created++;
+  });
+
+  document.task_reminders.forEach((row: Record<string, any>, index) => {
+    const taskId = taskIds.get(row.task_id);
+    if (!taskId) return reject('task_reminders', index, 'its task wasn\'t restored');
+    if (typeof row.reminder_time !== 'string' || !isDateOrNull(row.reminder_time)) {
+      return reject('task_reminders', index, 'it has no valid time');
+    }
+
+    const time = timestampOf(row.reminder_time);
+    const exists = [...existing.reminders, ...rows.reminders].some(
+      (reminder) => reminder.task_id === taskId && timestampOf(reminder.reminder_time) === time
+    );
+    if (exists) {
+      counts.task_reminders.skipped++;
+      return;
+    }
+
+    rows.reminders.push({
+      id: options.createId(),
+      task_id: taskId,
+      reminder_time: row.reminder_time,
+      created_at: now,
+    });
+    counts.task_reminders.created++;
+  });
+
+  return { rows, report: { counts, problems } };
+}
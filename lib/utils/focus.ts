@@ -0,0 +1,38 @@
+import { isSameDay } from 'date-fns';
+import type { FocusSession } from '../../store/models/focusSession';
+
+export interface TaskFocusSummary {
+  focusedSeconds: number;
+  // Pomodoros that ran their full length
+  pomodoros: number;
+}
+
+/**
+ * Total focused time and finished pomodoros for one task.
+ */
+export function getTaskFocusSummary(sessions: FocusSession[], taskId: string): TaskFocusSummary {
+  return sessions
+    .filter((session) => session.task_id === taskId)
+    .reduce(
+      (summary, session) => ({
+        focusedSeconds: summary.focusedSeconds + session.focused_seconds,
+        pomodoros: summary.pomodoros + (session.mode === 'pomodoro' && session.completed ? 1 : 0),
+      }),
+      { focusedSeconds: 0, pomodoros: 0 }
+    );
+}
+
+/**
+ * Seconds focused in sessions that ended on the given day, in local time.
+ */
+export const getFocusSecondsOn = (sessions: FocusSession[], day: Date): number =>
+  sessions
+    .filter((session) => isSameDay(new Date(session.ended_at), day))
+    .reduce((total, session) => total + session.focused_seconds, 0);
+
+// "1h 25m" or "25m"
+export const formatFocusTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
@@ -0,0 +1,143 @@
+/**
+ * The focus timer kept as timestamps rather than a ticking counter, so it
+ * stays right while the app is in the background, the screen is locked or
+ * the app is closed: the time on a clock is always worked out from when it
+ * was started.
+ */
+
+export type FocusTimerMode = 'pomo' | 'stopwatch';
+
+export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export const POMODORO_DURATIONS_MS: Record<PomodoroPhase, number> = {
+  work: 25 * 60 * 1000,
+  shortBreak: 5 * 60 * 1000,
+  longBreak: 15 * 60 * 1000,
+};
+
+export const POMODOROS_BEFORE_LONG_BREAK = 4;
+
+export interface TimerClock {
+  // When the clock was last started, in epoch ms; null while it's paused
+  runningSince: number | null;
+  // Time counted before runningSince
+  accumulatedMs: number;
+  // When the focus session on this clock began; null between sessions
+  sessionStartedAt: number | null;
+  // Times the session was paused
+  interruptions: number;
+}
+
+export interface PomodoroClock extends TimerClock {
+  phase: PomodoroPhase;
+  // Work periods finished since the last long break
+  completedInCycle: number;
+}
+
+// A period of a pomodoro that ran out, with when it did
+export interface PhaseEnd {
+  phase: PomodoroPhase;
+  endedAt: number;
+  // The clock as it was when the period ran out, for saving its session
+  clock: PomodoroClock;
+}
+
+export const STOPWATCH_CLOCK: TimerClock = {
+  runningSince: null,
+  accumulatedMs: 0,
+  sessionStartedAt: null,
+  interruptions: 0,
+};
+
+export const POMODORO_CLOCK: PomodoroClock = {
+  ...STOPWATCH_CLOCK,
+  phase: 'work',
+  completedInCycle: 0,
+};
+
+export const isRunning = (clock: TimerClock): boolean => clock.runningSince !== null;
+
+export const getElapsedMs = (clock: TimerClock, now: number): number =>
+  clock.accumulatedMs + (clock.runningSince === null ? 0 : Math.max(0, now - clock.runningSince));
+
+export const getRemainingMs = (clock: PomodoroClock, now: number): number =>
+  Math.max(0, POMODORO_DURATIONS_MS[clock.phase] - getElapsedMs(clock, now));
+
+// Only work periods and stopwatch runs are focus sessions, breaks aren't
+const startsSession = (clock: TimerClock) => !('phase' in clock) || (clock as PomodoroClock).phase === 'work';
+
+export function startClock<T extends TimerClock>(clock: T, now: number): T {
+  if (isRunning(clock)) return clock;
+  return {
+    ...clock,
+    runningSince: now,
+    sessionStartedAt: clock.sessionStartedAt ?? (startsSession(clock) ? now : null),
+  };
+}
+
+export function pauseClock<T extends TimerClock>(clock: T, now: number): T {
+  if (!isRunning(clock)) return clock;
+  return {
+    ...clock,
+    runningSince: null,
+    accumulatedMs: getElapsedMs(clock, now),
+    interruptions: clock.sessionStartedAt === null ? clock.interruptions : clock.interruptions + 1,
+  };
+}
+
+// The period after one that ran out
+const getNextPhase = (clock: PomodoroClock): Pick<PomodoroClock, 'phase' | 'completedInCycle'> => {
+  if (clock.phase !== 'work') return { phase: 'work', completedInCycle: clock.completedInCycle };
+  const completed = clock.completedInCycle + 1;
+  return completed >= POMODOROS_BEFORE_LONG_BREAK
+    ? { phase: 'longBreak', completedInCycle: 0 }
+    : { phase: 'shortBreak', completedInCycle: completed };
+};
+
+// When the running period ends, or null while the clock is paused
+export const getPhaseEndsAt = (clock: PomodoroClock): number | null =>
+  clock.runningSince === null ? null : clock.runningSince + POMODORO_DURATIONS_MS[clock.phase] - clock.accumulatedMs;
+
+/**
+ * Move a running pomodoro past every period that ran out by `now`, as if it
+ * had been ticking all along: each one ends exactly on time and the next
+ * starts straight away.
+ *
+ * @returns The clock in its current period, and the periods that ended, oldest first
+ */
+export function advancePomodoro(clock: PomodoroClock, now: number): { clock: PomodoroClock; ended: PhaseEnd[] } {
+  const ended: PhaseEnd[] = [];
+  let current = clock;
+  let endsAt = getPhaseEndsAt(current);
+
+  while (endsAt !== null && endsAt <= now) {
+    ended.push({ phase: current.phase, endedAt: endsAt, clock: current });
+    const next = { ...current, ...getNextPhase(current), runningSince: endsAt, accumulatedMs: 0, interruptions: 0 };
+    current = { ...next, sessionStartedAt: next.phase === 'work' ? endsAt : null };
+    endsAt = getPhaseEndsAt(current);
+  }
+  return { clock: current, ended };
+}
+
+/**
+ * When the running period and the ones after it will end if the timer is
+ * left alone, for scheduling notifications.
+ */
+export function getUpcomingPhaseEnds(clock: PomodoroClock, count: number): { phase: PomodoroPhase; endsAt: number }[] {
+  const upcoming: { phase: PomodoroPhase; endsAt: number }[] = [];
+  let current = clock;
+  let endsAt = getPhaseEndsAt(current);
+
+  while (endsAt !== null && upcoming.length < count) {
+    upcoming.push({ phase: current.phase, endsAt });
+    current = { ...current, ...getNextPhase(current), runningSince: endsAt, accumulatedMs: 0 };
+    endsAt = getPhaseEndsAt(current);
+  }
+  return upcoming;
+}
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  work: 'Focus Time',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break',
+};
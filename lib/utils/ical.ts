@@ -0,0 +1,594 @@
+import type { Tag, Task, TaskReminder, TaskStatus, TaskTagRelation } from '../../store/taskStore';
+import { parseRecurrenceRule, serializeRecurrenceRule } from './recurrence';
+
+export const ICAL_PRODUCT_ID = '-//ToDo Next//Tasks//EN';
+
+// Tasks are written as to-dos for reminders apps, or as events for calendars
+export type CalendarEntryKind = 'todo' | 'event';
+
+export interface CalendarData {
+  tasks: Task[];
+  reminders: TaskReminder[];
+  tags: Tag[];
+  taskTagRelations: TaskTagRelation[];
+}
+
+export interface CalendarExportOptions {
+  kind: CalendarEntryKind;
+  // IANA zone the times are written in; UTC when left out or unknown
+  timeZone?: string | null;
+  now?: Date;
+}
+
+export interface CalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A BEGIN/END block, like VCALENDAR, VTODO or VALARM
+export interface CalendarComponent {
+  name: string;
+  properties: CalendarProperty[];
+  components: CalendarComponent[];
+}
+
+export interface CalendarDate {
+  date: Date;
+  // Date-only values are midnight in the device's zone
+  allDay: boolean;
+}
+
+export interface CalendarRecurrence {
+  // In the app's RRULE format
+  rule: string;
+  count: number | null;
+  until: Date | null;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const WEEK = 7 * DAY;
+
+// Lines longer than this many bytes are folded
+const MAX_LINE_BYTES = 75;
+
+// Years of time zone transitions written, at most, to keep the file small
+const MAX_TIME_ZONE_YEARS = 30;
+
+// Parts of an RRULE the app can represent; anything else makes it unsupported
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL', 'WKST'];
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// RFC 5545 priorities run 1-9, 1 being the highest and 0 undefined
+const PRIORITY_TO_ICAL: Record<number, number> = { 1: 1, 2: 5, 3: 9 };
+
+// VTODO statuses; events can only say they're cancelled
+const TODO_STATUSES: Record<TaskStatus, string> = {
+  ongoing: 'NEEDS-ACTION',
+  inprogress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// A date's UTC fields as yyyyMMddTHHmmss
+const formatFields = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+
+const formatUtc = (date: Date) => `${formatFields(date)}Z`;
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+const formatDuration = (minutes: number) => {
+  const total = Math.abs(Math.round(minutes));
+  if (total === 0) return 'PT0S';
+  const days = Math.floor(total / (24 * 60));
+  const hours = Math.floor((total % (24 * 60)) / 60);
+  const rest = total % 60;
+  const time = hours || rest ? `T${hours ? `${hours}H` : ''}${rest ? `${rest}M` : ''}` : '';
+  return `${minutes < 0 ? '-' : ''}P${days ? `${days}D` : ''}${time}`;
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const byteLength = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Fold at 75 bytes without splitting a character, continuing with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = byteLength(char);
+    if (bytes + size > MAX_LINE_BYTES) {
+      parts.push(current);
+      current = ' ';
+      bytes = 1;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat | null => {
+  if (!formatters.has(timeZone)) {
+    try {
+      formatters.set(
+        timeZone,
+        new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: '2-digit',
+          day: '2-digit',
+          hour: '2-digit',
+          minute: '2-digit',
+          second: '2-digit',
+        })
+      );
+    } catch {
+      // Not a zone this device knows, like Outlook's Windows zone names
+      formatters.set(timeZone, null);
+    }
+  }
+  return formatters.get(timeZone) ?? null;
+};
+
+/**
+ * Minutes a time zone is ahead of UTC at a moment.
+ *
+ * @returns The offset, or null when the zone isn't known
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number | null {
+  const formatter = getFormatter(timeZone);
+  if (!formatter) return null;
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach(({ type, value }) => {
+    parts[type] = parseInt(value, 10);
+  });
+  // Some engines write midnight as 24 even with h23
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return Math.round((wall - date.getTime()) / MINUTE);
+}
+
+export const getDeviceTimeZone = (): string | null => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+};
+
+// The instant a wall time in a zone refers to. `wall` holds the wall time's fields as UTC.
+const zonedWallToInstant = (wall: number, timeZone: string): number | null => {
+  const first = getTimeZoneOffset(new Date(wall), timeZone);
+  if (first === null) return null;
+  const instant = wall - first * MINUTE;
+  // Near a transition the offset at the guess can differ from the one at the answer
+  const second = getTimeZoneOffset(new Date(instant), timeZone) ?? first;
+  return second === first ? instant : wall - second * MINUTE;
+};
+
+// Day of the month of the nth weekday, -1 being the last, as a UTC date
+const nthWeekdayOfMonth = (year: number, month: number, week: number, weekday: number): number => {
+  if (week < 0) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    return last.getTime() - ((last.getUTCDay() - weekday + 7) % 7) * DAY;
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  return first.getTime() + (((weekday - first.getUTCDay() + 7) % 7) + (week - 1) * 7) * DAY;
+};
+
+/**
+ * VTIMEZONE lines for a zone, covering the years between two dates. Every
+ * offset change in those years is listed, and the last year's changes repeat
+ * yearly so repeating tasks keep the right offset afterwards.
+ */
+function buildTimeZone(timeZone: string, from: Date, to: Date): string[] {
+  const firstYear = from.getUTCFullYear();
+  const lastYear = Math.min(to.getUTCFullYear(), firstYear + MAX_TIME_ZONE_YEARS);
+  const start = Date.UTC(firstYear, 0, 1);
+  const end = Date.UTC(lastYear + 1, 0, 1);
+  const offsetAt = (time: number) => getTimeZoneOffset(new Date(time), timeZone) ?? 0;
+
+  const initial = offsetAt(start);
+  const transitions: { at: number; from: number; to: number }[] = [];
+  let previous = initial;
+  // Offsets change at most a few times a year, so step by weeks and narrow down to the minute
+  for (let time = start + WEEK; time < end + WEEK; time += WEEK) {
+    const offset = offsetAt(time);
+    if (offset === previous) continue;
+
+    let low = (time - WEEK) / MINUTE;
+    let high = time / MINUTE;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (offsetAt(middle * MINUTE) === previous) low = middle;
+      else high = middle;
+    }
+    transitions.push({ at: high * MINUTE, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const standardOffset = Math.min(initial, ...transitions.map((transition) => transition.to));
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    'BEGIN:STANDARD',
+    `DTSTART:${formatFields(new Date(start + initial * MINUTE))}`,
+    `TZOFFSETFROM:${formatOffset(initial)}`,
+    `TZOFFSETTO:${formatOffset(initial)}`,
+    'END:STANDARD',
+  ];
+
+  transitions.forEach((transition) => {
+    // Onsets are written in the wall time of the offset being left
+    const onset = new Date(transition.at + transition.from * MINUTE);
+    const observance = transition.to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${observance}`,
+      `DTSTART:${formatFields(onset)}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`
+    );
+    if (onset.getUTCFullYear() === lastYear) {
+      const day = onset.getUTCDate();
+      const daysInMonth = new Date(Date.UTC(lastYear, onset.getUTCMonth() + 1, 0)).getUTCDate();
+      const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+      lines.push(`RRULE:FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${week}${RRULE_DAYS[onset.getUTCDay()]}`);
+    }
+    lines.push(`END:${observance}`);
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// The task's repeat as an RFC 5545 RRULE value, or null when it has none
+const toICalRecurrence = (task: Task): string | null => {
+  const rule = task.is_recursive ? parseRecurrenceRule(task.recurrence_rule) : null;
+  // Repeating from completion has no RFC 5545 equivalent
+  if (!rule || rule.frequency === 'after_completion') return null;
+
+  const parts = [serializeRecurrenceRule(rule)];
+  if (task.recursion_count) {
+    parts.push(`COUNT=${task.recursion_count}`);
+  } else if (task.recursion_end) {
+    parts.push(`UNTIL=${formatUtc(new Date(task.recursion_end))}`);
+  }
+  return parts.join(';');
+};
+
+/**
+ * Write tasks as an RFC 5545 calendar, with reminders as alarms and repeats
+ * as RRULEs. Events need a start, so only tasks with a deadline are written
+ * as events; to-dos are written for every task.
+ */
+export function serializeCalendar(data: CalendarData, options: CalendarExportOptions): string {
+  const now = options.now ?? new Date();
+  const isTodo = options.kind === 'todo';
+  const tasks = isTodo ? data.tasks : data.tasks.filter((task) => task.deadline);
+  const timeZone = options.timeZone && getTimeZoneOffset(now, options.timeZone) !== null ? options.timeZone : null;
+  const tagNames = new Map(data.tags.map((tag) => [tag.id, tag.name]));
+  const uid = (taskId: string) => `${taskId}@todo-next`;
+
+  const dateLine = (name: string, date: Date) => {
+    if (!timeZone) return `${name}:${formatUtc(date)}`;
+    const offset = getTimeZoneOffset(date, timeZone) ?? 0;
+    return `${name};TZID=${timeZone}:${formatFields(new Date(date.getTime() + offset * MINUTE))}`;
+  };
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICAL_PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+
+  if (timeZone) {
+    const times = tasks
+      .flatMap((task) => [task.deadline, task.recursion_end])
+      .filter((value): value is string => !!value)
+      .map((value) => new Date(value).getTime());
+    const from = new Date(Math.min(now.getTime(), ...times));
+    const to = new Date(Math.max(now.getTime(), ...times));
+    lines.push(...buildTimeZone(timeZone, from, to));
+  }
+
+  tasks.forEach((task) => {
+    const deadline = task.deadline ? new Date(task.deadline) : null;
+    const recurrence = deadline ? toICalRecurrence(task) : null;
+    const component = isTodo ? 'VTODO' : 'VEVENT';
+
+    lines.push(
+      `BEGIN:${component}`,
+      `UID:${uid(task.id)}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `CREATED:${formatUtc(new Date(task.created_at))}`,
+      `LAST-MODIFIED:${formatUtc(new Date(task.updated_at))}`,
+      `SUMMARY:${escapeText(task.title)}`
+    );
+    if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+
+    if (deadline && isTodo) {
+      // A repeating to-do counts its series from DTSTART
+      if (recurrence) lines.push(dateLine('DTSTART', deadline));
+      lines.push(dateLine('DUE', deadline));
+    } else if (deadline) {
+      lines.push(dateLine('DTSTART', deadline));
+    }
+    if (recurrence) lines.push(`RRULE:${recurrence}`);
+
+    if (task.priority && PRIORITY_TO_ICAL[task.priority]) {
+      lines.push(`PRIORITY:${PRIORITY_TO_ICAL[task.priority]}`);
+    }
+    if (isTodo) {
+      lines.push(`STATUS:${TODO_STATUSES[task.status]}`);
+    } else if (task.status === 'cancelled') {
+      lines.push('STATUS:CANCELLED');
+    }
+
+    const categories = data.taskTagRelations
+      .filter((relation) => relation.task_id === task.id)
+      .map((relation) => tagNames.get(relation.tag_id))
+      .filter((name): name is string => !!name);
+    if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+    if (task.parent_task_id) lines.push(`RELATED-TO;RELTYPE=PARENT:${uid(task.parent_task_id)}`);
+
+    data.reminders
+      .filter((reminder) => reminder.task_id === task.id)
+      .forEach((reminder) => {
+        const time = new Date(reminder.reminder_time);
+        lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(task.title)}`);
+        // Alarms relative to the deadline move along with each repeat
+        if (deadline) {
+          const minutes = (time.getTime() - deadline.getTime()) / MINUTE;
+          lines.push(`TRIGGER${isTodo ? ';RELATED=END' : ''}:${formatDuration(minutes)}`);
+        } else {
+          lines.push(`TRIGGER;VALUE=DATE-TIME:${formatUtc(time)}`);
+        }
+        lines.push('END:VALARM');
+      });
+
+    lines.push(`END:${component}`);
+  });
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// Split on a separator that isn't inside double quotes
+const splitOutsideQuotes = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const parseContentLine = (line: string): CalendarProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    else if (line[index] === ':' && !inQuotes) {
+      colon = index;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  });
+  return { name: name.trim().toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Read iCalendar text into its components. Lenient about line endings,
+ * unknown properties and unbalanced END lines, which real exports have.
+ *
+ * @returns The top-level components, normally one VCALENDAR
+ */
+export function parseCalendar(text: string): CalendarComponent[] {
+  const root: CalendarComponent = { name: '', properties: [], components: [] };
+  const stack = [root];
+
+  text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .forEach((line) => {
+      const property = line.trim() ? parseContentLine(line) : null;
+      if (!property) return;
+
+      const current = stack[stack.length - 1];
+      if (property.name === 'BEGIN') {
+        const component = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+        current.components.push(component);
+        stack.push(component);
+      } else if (property.name === 'END') {
+        if (stack.length > 1) stack.pop();
+      } else {
+        current.properties.push(property);
+      }
+    });
+
+  return root.components;
+}
+
+export const getProperty = (component: CalendarComponent, name: string): CalendarProperty | undefined =>
+  component.properties.find((property) => property.name === name);
+
+export const getPropertyText = (component: CalendarComponent, name: string): string | null => {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value).trim() || null : null;
+};
+
+/**
+ * Every value of a list property like CATEGORIES, which may also repeat.
+ */
+export function getPropertyList(component: CalendarComponent, name: string): string[] {
+  return component.properties
+    .filter((property) => property.name === name)
+    .flatMap((property) => property.value.replace(/\\,/g, '\u0000').split(','))
+    .map((value) => unescapeText(value.replace(/\u0000/g, ',')).trim())
+    .filter(Boolean);
+}
+
+const parseOffset = (value: string | undefined): number | null => {
+  const match = value?.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return null;
+  return (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10));
+};
+
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+// A date-time value's fields as a UTC timestamp, ignoring any zone
+const parseWallTime = (value: string | undefined): number | null => {
+  const match = value?.trim().match(DATE_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+};
+
+/**
+ * The offset a VTIMEZONE gives at a wall time: that of the observance that
+ * started most recently before it.
+ */
+function getDefinedOffset(definition: CalendarComponent, wall: number): number | null {
+  let latest: { onset: number; offset: number } | null = null;
+  let earliest: { onset: number; offset: number } | null = null;
+
+  for (const observance of definition.components) {
+    const start = parseWallTime(getProperty(observance, 'DTSTART')?.value);
+    const offset = parseOffset(getProperty(observance, 'TZOFFSETTO')?.value);
+    if (!['STANDARD', 'DAYLIGHT'].includes(observance.name) || start === null || offset === null) continue;
+    if (!earliest || start < earliest.onset) earliest = { onset: start, offset };
+
+    const onsets = [start];
+    const rule = Object.fromEntries(
+      (getProperty(observance, 'RRULE')?.value ?? '').split(';').map((part) => part.trim().toUpperCase().split('='))
+    );
+    const byDay = rule.BYDAY?.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (rule.FREQ === 'YEARLY' && rule.BYMONTH && byDay) {
+      const until = parseWallTime(rule.UNTIL) ?? Infinity;
+      const month = parseInt(rule.BYMONTH, 10) - 1;
+      const week = parseInt(byDay[1] ?? '1', 10);
+      const timeOfDay = ((start % DAY) + DAY) % DAY;
+      const year = new Date(wall).getUTCFullYear();
+      for (const candidate of [year - 1, year]) {
+        const onset = nthWeekdayOfMonth(candidate, month, week, RRULE_DAYS.indexOf(byDay[2])) + timeOfDay;
+        if (onset >= start && onset <= until) onsets.push(onset);
+      }
+    }
+
+    for (const onset of onsets) {
+      if (onset <= wall && (!latest || onset > latest.onset)) latest = { onset, offset };
+    }
+  }
+
+  return (latest ?? earliest)?.offset ?? null;
+}
+
+/**
+ * Read a DATE or DATE-TIME property. Times in UTC, in a named zone and
+ * floating in the device's zone are all supported; named zones are looked
+ * up on the device first and in the file's VTIMEZONEs otherwise.
+ *
+ * @returns The moment, or null when the value can't be read
+ */
+export function readCalendarDate(
+  property: Pick<CalendarProperty, 'params' | 'value'> | undefined,
+  timeZones: CalendarComponent[] = []
+): CalendarDate | null {
+  const match = property?.value.trim().match(DATE_PATTERN);
+  if (!property || !match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!hour || property.params.VALUE === 'DATE') {
+    return { date: new Date(+year, +month - 1, +day), allDay: true };
+  }
+
+  const wall = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  if (utc) return { date: new Date(wall), allDay: false };
+
+  const tzid = property.params.TZID;
+  if (tzid) {
+    // Some apps prefix zone names, as in "/mozilla.org/20050126_1/Europe/Berlin"
+    const ianaName = tzid.match(/[A-Za-z]+\/[A-Za-z_+\-/]+$/)?.[0];
+    const instant =
+      zonedWallToInstant(wall, tzid) ?? (ianaName && ianaName !== tzid ? zonedWallToInstant(wall, ianaName) : null);
+    if (instant !== null) return { date: new Date(instant), allDay: false };
+
+    const definition = timeZones.find((zone) => getProperty(zone, 'TZID')?.value === tzid);
+    const offset = definition ? getDefinedOffset(definition, wall) : null;
+    if (offset !== null) return { date: new Date(wall - offset * MINUTE), allDay: false };
+  }
+
+  return { date: new Date(+year, +month - 1, +day, +hour, +minute, +second), allDay: false };
+}
+
+/**
+ * Read an RRULE value as a repeat the app supports.
+ *
+ * @returns The repeat, or null when it uses parts the app can't represent
+ */
+export function readCalendarRecurrence(value: string, timeZones: CalendarComponent[] = []): CalendarRecurrence | null {
+  const fields = Object.fromEntries(value.split(';').map((part) => part.trim().toUpperCase().split('=')));
+  if (Object.keys(fields).some((key) => !SUPPORTED_RRULE_PARTS.includes(key))) return null;
+  // Daily repeats on some weekdays are weekly ones to the app, but only every week
+  if (fields.FREQ === 'DAILY' && fields.BYDAY) return null;
+
+  const rule = parseRecurrenceRule(value.replace(/;?(COUNT|UNTIL|WKST)=[^;]*/gi, ''));
+  if (!rule) return null;
+
+  const count = fields.COUNT ? parseInt(fields.COUNT, 10) : null;
+  const until = fields.UNTIL ? readCalendarDate({ params: {}, value: fields.UNTIL }, timeZones) : null;
+  return {
+    rule: serializeRecurrenceRule(rule),
+    count: count && count > 0 ? count : null,
+    until: until?.date ?? null,
+  };
+}
+
+/**
+ * Minutes in an RFC 5545 duration like -PT15M or P1DT2H.
+ */
+export function parseCalendarDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .toUpperCase()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = ((+weeks * 7 + +days) * 24 + +hours) * 60 + +minutes + +seconds / 60;
+  return sign === '-' ? -total : total;
+}
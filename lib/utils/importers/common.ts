@@ -0,0 +1,225 @@
+import { parseQuickAdd } from '../quickAdd';
+import { serializeRecurrenceRule } from '../recurrence';
+import { normalizeTagName } from '../tags';
+import { isOpenStatus } from '../taskStatus';
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupDocument } from '../backup';
+import type { TaskStatus } from '../../../store/taskStore';
+
+export type ImportSource = 'todoist' | 'ticktick' | 'csv' | 'ical';
+
+// A task as read from another app, before it's matched against the user's data
+export interface ImportedTask {
+  // Unique within the file; used to link subtasks to their parent
+  sourceId: string;
+  parentSourceId: string | null;
+  title: string;
+  description: string | null;
+  deadline: string | null;
+  // On the app's scale: 1 is high, 3 is low, null is none
+  priority: number | null;
+  status: TaskStatus;
+  recurrenceRule: string | null;
+  listName: string | null;
+  tagNames: string[];
+  createdAt: string | null;
+  // Only some sources have these
+  recursionCount?: number | null;
+  recursionEnd?: string | null;
+  reminderTimes?: string[];
+}
+
+export interface ImportResult {
+  tasks: ImportedTask[];
+  // Things in the file that couldn't be carried over, for the preview
+  warnings: string[];
+}
+
+export type CsvField =
+  | 'title'
+  | 'description'
+  | 'deadline'
+  | 'priority'
+  | 'list'
+  | 'tags'
+  | 'status'
+  | 'indent'
+  | 'id'
+  | 'parentId';
+
+// Which column holds each field, by header name
+export type CsvMapping = Partial<Record<CsvField, string>>;
+
+export interface ImportOptions {
+  // List for tasks whose file doesn't name one
+  listName?: string;
+  // Generic CSV only; guessed from the headers when left out
+  mapping?: CsvMapping;
+  // Completed tasks are left out unless asked for
+  includeCompleted?: boolean;
+  // Languages for due dates written as text, like Todoist's "every monday"
+  languages?: string[];
+  now?: Date;
+}
+
+export interface TaskImporter {
+  source: ImportSource;
+  name: string;
+  description: string;
+  /**
+   * @throws When the text isn't an export this importer can read
+   */
+  parse: (text: string, options: ImportOptions) => ImportResult;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+/**
+ * Read a due date as ISO dates, ISO timestamps or text like "tomorrow 5pm"
+ * or "every monday". Dates without a time are due at the end of the day,
+ * as in the task editor.
+ *
+ * @returns The deadline and recurrence rule, or null when nothing could be read
+ */
+export function parseImportDate(
+  value: string | null | undefined,
+  options: Pick<ImportOptions, 'languages' | 'now'> = {}
+): { deadline: string | null; recurrenceRule: string | null } | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  if (ISO_DATE.test(text)) {
+    const [year, month, day] = text.split('-').map(Number);
+    return { deadline: new Date(year, month - 1, day, 23, 59).toISOString(), recurrenceRule: null };
+  }
+
+  if (ISO_DATE_TIME.test(text)) {
+    // Exports write offsets as +0000, which not every engine parses
+    const date = new Date(text.replace(' ', 'T').replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+    return isNaN(date.getTime()) ? null : { deadline: date.toISOString(), recurrenceRule: null };
+  }
+
+  const parsed = parseQuickAdd(text, { languages: options.languages, now: options.now });
+  if (!parsed.deadline && !parsed.recurrence) return null;
+  return {
+    deadline: parsed.deadline?.toISOString() ?? null,
+    recurrenceRule: parsed.recurrence ? serializeRecurrenceRule(parsed.recurrence) : null,
+  };
+}
+
+/**
+ * Link each task to the closest task above it with a smaller indent, for
+ * exports that nest subtasks by indentation.
+ */
+export function nestByIndent(entries: { task: ImportedTask; indent: number }[]): void {
+  const stack: { task: ImportedTask; indent: number }[] = [];
+  entries.forEach((entry) => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= entry.indent) {
+      stack.pop();
+    }
+    entry.task.parentSourceId = stack.length > 0 ? stack[stack.length - 1].task.sourceId : null;
+    stack.push(entry);
+  });
+}
+
+/**
+ * Drop completed tasks and their subtasks unless they were asked for, and
+ * parent links to tasks that aren't in the file.
+ */
+export function finishImport(result: ImportResult, options: ImportOptions): ImportResult {
+  const warnings = [...result.warnings];
+  let tasks = result.tasks;
+
+  if (!options.includeCompleted) {
+    const dropped = new Set<string>();
+    // Parents come first in every export, so one pass catches whole subtrees
+    tasks = tasks.filter((task) => {
+      const drop = !isOpenStatus(task.status) || (task.parentSourceId !== null && dropped.has(task.parentSourceId));
+      if (drop) dropped.add(task.sourceId);
+      return !drop;
+    });
+    if (dropped.size > 0) {
+      warnings.push(`${dropped.size} completed task${dropped.size === 1 ? ' is' : 's are'} left out`);
+    }
+  }
+
+  const ids = new Set(tasks.map((task) => task.sourceId));
+  tasks = tasks.map((task) =>
+    task.parentSourceId && !ids.has(task.parentSourceId) ? { ...task, parentSourceId: null } : task
+  );
+
+  return { tasks, warnings };
+}
+
+const uniqueNames = (names: (string | null)[]): string[] => {
+  const byKey = new Map<string, string>();
+  names.forEach((name) => {
+    if (name && !byKey.has(name.toLowerCase())) byKey.set(name.toLowerCase(), name);
+  });
+  return Array.from(byKey.values());
+};
+
+/**
+ * Shape imported tasks as a backup document, so importing goes through the
+ * same matching, id remapping and writing as restoring a backup. Lists and
+ * tags are named after what the file calls them; existing ones with the
+ * same name are reused.
+ */
+export function toImportDocument(result: ImportResult, now: Date = new Date()): BackupDocument {
+  const timestamp = now.toISOString();
+  const listNames = uniqueNames(result.tasks.map((task) => task.listName?.trim() || null));
+  const tagNames = uniqueNames(result.tasks.flatMap((task) => task.tagNames.map(normalizeTagName)));
+  const listId = (name: string) => `list:${name.toLowerCase()}`;
+  const tagId = (name: string) => `tag:${name.toLowerCase()}`;
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: timestamp,
+    includes_deleted: false,
+    profile: null,
+    tasks: result.tasks.map((task) => ({
+      id: task.sourceId,
+      parent_task_id: task.parentSourceId,
+      title: task.title,
+      description: task.description,
+      deadline: task.deadline,
+      priority: task.priority,
+      outcome_value: null,
+      difficulty: null,
+      is_recursive: task.recurrenceRule !== null,
+      recursion_count: task.recursionCount ?? null,
+      recursion_end: task.recursionEnd ?? null,
+      recurrence_rule: task.recurrenceRule,
+      position: null,
+      is_deleted: false,
+      created_at: task.createdAt ?? timestamp,
+      updated_at: timestamp,
+      status: task.status,
+    })),
+    tags: tagNames.map((name) => ({ id: tagId(name), name, color: null, created_at: timestamp })),
+    lists: listNames.map((name, position) => ({
+      id: listId(name),
+      name,
+      color: null,
+      icon: null,
+      position,
+      is_archived: false,
+      created_at: timestamp,
+    })),
+    task_tags: result.tasks.flatMap((task) =>
+      uniqueNames(task.tagNames.map(normalizeTagName)).map((name) => ({ task_id: task.sourceId, tag_id: tagId(name) }))
+    ),
+    task_lists: result.tasks
+      .filter((task) => task.listName?.trim())
+      .map((task) => ({ task_id: task.sourceId, list_id: listId(task.listName!.trim()) })),
+    task_reminders: result.tasks.flatMap((task) =>
+      (task.reminderTimes ?? []).map((time, index) => ({
+        id: `reminder:${task.sourceId}:${index}`,
+        task_id: task.sourceId,
+        reminder_time: time,
+        created_at: timestamp,
+      }))
+    ),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks, CRLF line endings and a leading BOM.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^﻿/, '');
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+// Spreadsheets in many locales save with semicolons, so go by the first line
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : count('\t') > count(',') ? '\t' : ',';
+}
+
+/**
+ * Rows keyed by header, starting at the first row that has every required
+ * header. Exports often put a preamble above the table.
+ *
+ * @returns The headers and rows, or null when no row has the required headers
+ */
+export function readCsvTable(
+  rows: string[][],
+  requiredHeaders: string[]
+): { headers: string[]; records: Record<string, string>[] } | null {
+  const headerIndex = rows.findIndex((cells) => {
+    const names = cells.map((cell) => cell.trim().toLowerCase());
+    return requiredHeaders.every((header) => names.includes(header.toLowerCase()));
+  });
+  if (headerIndex === -1) return null;
+
+  const headers = rows[headerIndex].map((cell) => cell.trim());
+  const records = rows.slice(headerIndex + 1).map((cells) =>
+    Object.fromEntries(headers.map((header, index) => [header.toLowerCase(), (cells[index] ?? '').trim()]))
+  );
+  return { headers, records };
+}
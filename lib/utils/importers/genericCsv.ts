@@ -0,0 +1,146 @@
+import { parseCsv } from './csv';
+import { CsvField, CsvMapping, ImportedTask, TaskImporter, finishImport, nestByIndent, parseImportDate } from './common';
+
+export const CSV_FIELDS: CsvField[] = ['title', 'description', 'deadline', 'priority', 'list', 'tags', 'status', 'indent', 'id', 'parentId'];
+
+// Header names each field is guessed from, compared without case, spaces or punctuation
+const FIELD_SYNONYMS: Record<CsvField, string[]> = {
+  title: ['title', 'task', 'taskname', 'tasktitle', 'name', 'content', 'subject', 'summary', 'todo'],
+  description: ['description', 'notes', 'note', 'details', 'body', 'comment'],
+  deadline: ['deadline', 'due', 'duedate', 'date', 'dueon', 'when'],
+  priority: ['priority', 'importance', 'prio'],
+  list: ['list', 'listname', 'project', 'folder', 'category'],
+  tags: ['tags', 'tag', 'labels', 'label'],
+  status: ['status', 'done', 'completed', 'state', 'complete'],
+  indent: ['indent', 'level', 'depth'],
+  id: ['id', 'taskid', 'key'],
+  parentId: ['parent', 'parentid', 'parenttaskid'],
+};
+
+const PRIORITY_WORDS: Record<string, number> = {
+  high: 1,
+  urgent: 1,
+  important: 1,
+  medium: 2,
+  normal: 2,
+  low: 3,
+};
+
+const COMPLETED_WORDS = ['done', 'completed', 'complete', 'finished', 'closed', 'x', 'yes', 'true', '1', '✓', '✔'];
+const CANCELLED_WORDS = ['cancelled', 'canceled', 'dropped', 'abandoned'];
+const IN_PROGRESS_WORDS = ['in progress', 'in-progress', 'in_progress', 'inprogress', 'started', 'doing', 'active'];
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * The header row of a CSV file, for picking columns.
+ */
+export function readCsvHeaders(text: string): string[] {
+  return (parseCsv(text)[0] ?? []).map((header) => header.trim());
+}
+
+/**
+ * Guess which column holds each field from the header names.
+ */
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {};
+  const used = new Set<string>();
+  CSV_FIELDS.forEach((field) => {
+    const header = headers.find((candidate) => !used.has(candidate) && FIELD_SYNONYMS[field].includes(headerKey(candidate)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+}
+
+/**
+ * Read a priority written as 1-3, p1-p3, !!1-!!3 or high, medium and low.
+ */
+export function parseCsvPriority(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (text in PRIORITY_WORDS) return PRIORITY_WORDS[text];
+  const level = parseInt(text.replace(/^(p|!!)/, ''), 10);
+  return level >= 1 && level <= 3 ? level : null;
+}
+
+const parseCsvStatus = (value: string): ImportedTask['status'] => {
+  const text = value.trim().toLowerCase();
+  if (COMPLETED_WORDS.includes(text)) return 'completed';
+  if (CANCELLED_WORDS.includes(text)) return 'cancelled';
+  if (IN_PROGRESS_WORDS.includes(text)) return 'inprogress';
+  return 'ongoing';
+};
+
+export const genericCsvImporter: TaskImporter = {
+  source: 'csv',
+  name: 'CSV',
+  description: 'Any spreadsheet with a header row; you pick what each column holds',
+  parse: (text, options) => {
+    const [headerRow, ...rows] = parseCsv(text);
+    if (!headerRow) {
+      throw new Error('The file is empty.');
+    }
+
+    const headers = headerRow.map((header) => header.trim());
+    const mapping = options.mapping ?? guessCsvMapping(headers);
+    if (!mapping.title) {
+      throw new Error('Pick the column that holds the task titles.');
+    }
+
+    const columns = Object.fromEntries(
+      Object.entries(mapping).map(([field, header]) => [field, header ? headers.indexOf(header) : -1])
+    ) as Partial<Record<CsvField, number>>;
+    const read = (cells: string[], field: CsvField) => {
+      const column = columns[field];
+      return column === undefined || column === -1 ? '' : (cells[column] ?? '').trim();
+    };
+
+    const warnings: string[] = [];
+    const entries: { task: ImportedTask; indent: number }[] = [];
+    let untitled = 0;
+
+    rows.forEach((cells, index) => {
+      const title = read(cells, 'title');
+      if (!title) {
+        untitled++;
+        return;
+      }
+
+      const dueText = read(cells, 'deadline');
+      const due = parseImportDate(dueText, options);
+      if (dueText && !due) {
+        warnings.push(`"${title}": the due date "${dueText}" couldn't be read`);
+      }
+
+      const tags = read(cells, 'tags');
+      entries.push({
+        indent: parseInt(read(cells, 'indent'), 10) || 1,
+        task: {
+          sourceId: read(cells, 'id') || `row-${index + 2}`,
+          parentSourceId: read(cells, 'parentId') || null,
+          title,
+          description: read(cells, 'description') || null,
+          deadline: due?.deadline ?? null,
+          priority: parseCsvPriority(read(cells, 'priority')),
+          status: parseCsvStatus(read(cells, 'status')),
+          recurrenceRule: due?.recurrenceRule ?? null,
+          listName: read(cells, 'list') || options.listName?.trim() || null,
+          tagNames: tags ? tags.split(/[,;]/).map((tag) => tag.trim().replace(/^#/, '')).filter(Boolean) : [],
+          createdAt: null,
+        },
+      });
+    });
+
+    if (untitled > 0) {
+      warnings.push(`${untitled} row${untitled === 1 ? ' has' : 's have'} no title and ${untitled === 1 ? 'is' : 'are'} left out`);
+    }
+
+    // Rows nest by indent only when there's no parent column to go by
+    if (mapping.indent && !mapping.parentId) {
+      nestByIndent(entries);
+    }
+    return finishImport({ tasks: entries.map((entry) => entry.task), warnings }, options);
+  },
+};
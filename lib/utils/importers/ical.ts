@@ -0,0 +1,123 @@
+import {
+  CalendarComponent,
+  getProperty,
+  getPropertyList,
+  getPropertyText,
+  parseCalendar,
+  parseCalendarDuration,
+  readCalendarDate,
+  readCalendarRecurrence,
+} from '../ical';
+import { ImportedTask, TaskImporter, finishImport } from './common';
+
+const MINUTE = 60 * 1000;
+
+// RFC 5545 priorities: 1-4 high, 5 medium, 6-9 low, 0 undefined
+const toPriority = (value: string | null): number | null => {
+  const level = value ? parseInt(value, 10) : 0;
+  if (!level || level < 1 || level > 9) return null;
+  return level < 5 ? 1 : level === 5 ? 2 : 3;
+};
+
+const toStatus = (value: string | null): ImportedTask['status'] => {
+  switch (value?.toUpperCase()) {
+    case 'IN-PROCESS':
+      return 'inprogress';
+    case 'COMPLETED':
+      return 'completed';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return 'ongoing';
+  }
+};
+
+// All-day entries are due at the end of their day, as in the task editor
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59);
+
+export const iCalendarImporter: TaskImporter = {
+  source: 'ical',
+  name: 'iCalendar',
+  description: 'An .ics file from a calendar or reminders app; to-dos and events both become tasks',
+  parse: (text, options) => {
+    const calendars = parseCalendar(text).filter((component) => component.name === 'VCALENDAR');
+    if (calendars.length === 0) {
+      throw new Error("This isn't an iCalendar file. It should start with BEGIN:VCALENDAR.");
+    }
+
+    const warnings: string[] = [];
+    const tasks: ImportedTask[] = [];
+    let untitled = 0;
+
+    calendars.forEach((calendar) => {
+      const timeZones = calendar.components.filter((component) => component.name === 'VTIMEZONE');
+      const listName = options.listName?.trim() || getPropertyText(calendar, 'X-WR-CALNAME');
+
+      calendar.components
+        .filter((component) => component.name === 'VTODO' || component.name === 'VEVENT')
+        .forEach((component: CalendarComponent) => {
+          // Changed occurrences of a repeating entry share its UID; the series is enough
+          if (getProperty(component, 'RECURRENCE-ID')) return;
+
+          const title = getPropertyText(component, 'SUMMARY');
+          if (!title) {
+            untitled++;
+            return;
+          }
+
+          const isTodo = component.name === 'VTODO';
+          const start = readCalendarDate(getProperty(component, 'DTSTART'), timeZones);
+          const end = readCalendarDate(getProperty(component, isTodo ? 'DUE' : 'DTEND'), timeZones);
+          const due = isTodo ? end ?? start : start;
+          const deadline = due ? (due.allDay ? endOfDay(due.date) : due.date) : null;
+
+          const rruleValue = getProperty(component, 'RRULE')?.value;
+          const recurrence = rruleValue && deadline ? readCalendarRecurrence(rruleValue, timeZones) : null;
+          if (rruleValue && !recurrence) {
+            warnings.push(`"${title}": the repeat "${rruleValue}" isn't supported, so it's imported once`);
+          }
+
+          // Triggers count from the start unless they say otherwise
+          const reminderTimes = component.components
+            .filter((alarm) => alarm.name === 'VALARM')
+            .flatMap((alarm) => {
+              const trigger = getProperty(alarm, 'TRIGGER');
+              if (!trigger) return [];
+              if (trigger.params.VALUE === 'DATE-TIME') {
+                const time = readCalendarDate(trigger, timeZones);
+                return time ? [time.date.toISOString()] : [];
+              }
+              const anchor = trigger.params.RELATED === 'END' ? end ?? start : start ?? end;
+              const minutes = parseCalendarDuration(trigger.value);
+              return anchor && minutes !== null ? [new Date(anchor.date.getTime() + minutes * MINUTE).toISOString()] : [];
+            });
+
+          const parent = component.properties.find(
+            (property) => property.name === 'RELATED-TO' && (property.params.RELTYPE ?? 'PARENT') === 'PARENT'
+          );
+
+          tasks.push({
+            sourceId: getPropertyText(component, 'UID') ?? `entry-${tasks.length + untitled + 1}`,
+            parentSourceId: parent?.value.trim() || null,
+            title,
+            description: getPropertyText(component, 'DESCRIPTION'),
+            deadline: deadline?.toISOString() ?? null,
+            priority: toPriority(getPropertyText(component, 'PRIORITY')),
+            status: toStatus(getPropertyText(component, 'STATUS')),
+            recurrenceRule: recurrence?.rule ?? null,
+            recursionCount: recurrence?.count ?? null,
+            recursionEnd: recurrence?.until?.toISOString() ?? null,
+            listName,
+            tagNames: getPropertyList(component, 'CATEGORIES'),
+            createdAt: readCalendarDate(getProperty(component, 'CREATED'))?.date.toISOString() ?? null,
+            reminderTimes,
+          });
+        });
+    });
+
+    if (untitled > 0) {
+      warnings.push(`${untitled} entr${untitled === 1 ? 'y has' : 'ies have'} no title and ${untitled === 1 ? 'is' : 'are'} left out`);
+    }
+    return finishImport({ tasks, warnings }, options);
+  },
+};
@@ -0,0 +1,16 @@
+import { ImportSource, TaskImporter } from './common';
+import { todoistImporter } from './todoist';
+import { tickTickImporter } from './ticktick';
+import { genericCsvImporter } from './genericCsv';
+import { iCalendarImporter } from './ical';
+
+export * from './common';
+export { CSV_FIELDS, guessCsvMapping, readCsvHeaders } from './genericCsv';
+
+// Every supported source; add a parser here to offer it on the import screen
+export const IMPORTERS: Record<ImportSource, TaskImporter> = {
+  todoist: todoistImporter,
+  ticktick: tickTickImporter,
+  csv: genericCsvImporter,
+  ical: iCalendarImporter,
+};
@@ -0,0 +1,63 @@
+import { parseRecurrenceRule, serializeRecurrenceRule } from '../recurrence';
+import { parseCsv, readCsvTable } from './csv';
+import { ImportedTask, TaskImporter, finishImport, parseImportDate } from './common';
+
+// TickTick's 5 is high, 3 medium, 1 low and 0 none
+const PRIORITIES: Record<string, number | null> = { '5': 1, '3': 2, '1': 3, '0': null };
+
+// 0 is open, 1 completed and 2 archived (completed and filed away)
+const isCompletedStatus = (status: string) => status === '1' || status === '2';
+
+export const tickTickImporter: TaskImporter = {
+  source: 'ticktick',
+  name: 'TickTick',
+  description: 'The CSV from Settings > Account > Backup',
+  parse: (text, options) => {
+    // The export starts with a few lines about the file before the table
+    const table = readCsvTable(parseCsv(text), ['Title', 'List Name']);
+    if (!table) {
+      throw new Error("This isn't a TickTick backup. It should have Title and List Name columns.");
+    }
+
+    const warnings: string[] = [];
+    const tasks: ImportedTask[] = table.records.flatMap((record, index) => {
+      const title = record.title;
+      if (!title) return [];
+
+      const dueText = record['due date'] || record['start date'];
+      let due = parseImportDate(dueText, options);
+      if (dueText && !due) {
+        warnings.push(`"${title}": the due date "${dueText}" couldn't be read`);
+      }
+      // All-day dates are exported as midnight, so move them to the end of that day
+      if (due?.deadline && record['is all day'].toLowerCase() === 'true') {
+        const date = new Date(due.deadline);
+        date.setHours(23, 59, 0, 0);
+        due = { ...due, deadline: date.toISOString() };
+      }
+
+      const rule = parseRecurrenceRule(record.repeat);
+      if (record.repeat && !rule) {
+        warnings.push(`"${title}": the repeat "${record.repeat}" isn't supported, so it's imported once`);
+      }
+
+      return [
+        {
+          sourceId: record.taskid || `row-${index + 1}`,
+          parentSourceId: record.parentid || null,
+          title,
+          description: record.content || null,
+          deadline: due?.deadline ?? null,
+          priority: PRIORITIES[record.priority] ?? null,
+          status: isCompletedStatus(record.status) ? 'completed' : 'ongoing',
+          recurrenceRule: rule ? serializeRecurrenceRule(rule) : null,
+          listName: record['list name'] || options.listName?.trim() || null,
+          tagNames: record.tags ? record.tags.split(',').map((tag) => tag.trim()).filter(Boolean) : [],
+          createdAt: parseImportDate(record['created time'])?.deadline ?? null,
+        },
+      ];
+    });
+
+    return finishImport({ tasks, warnings }, options);
+  },
+};
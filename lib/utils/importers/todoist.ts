@@ -0,0 +1,174 @@
+import { parseCsv, readCsvTable } from './csv';
+import { ImportedTask, ImportOptions, ImportResult, TaskImporter, finishImport, nestByIndent, parseImportDate } from './common';
+
+// Used when a CSV export, which is one project per file, isn't given a list name
+const DEFAULT_LIST_NAME = 'Todoist';
+
+// Todoist labels are written into CSV titles as "@label"
+const LABEL_PATTERN = /(^|\s)@([^\s@]+)/g;
+
+// CSV exports number priorities like the app shows them, p1 being the highest
+const CSV_PRIORITIES: Record<string, number | null> = { '1': 1, '2': 2, '3': 3, '4': null };
+
+// The API numbers them the other way around, 4 being p1
+const API_PRIORITIES: Record<number, number | null> = { 4: 1, 3: 2, 2: 3, 1: null };
+
+const splitLabels = (content: string): { title: string; labels: string[] } => {
+  const labels: string[] = [];
+  const title = content
+    .replace(LABEL_PATTERN, (_match, _space, label: string) => {
+      labels.push(label.replace(/_/g, ' '));
+      return '';
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+  // A leading "* " marks a task that can't be completed, which the app doesn't have
+  return { title: title.replace(/^\*\s+/, ''), labels };
+};
+
+function parseTodoistCsv(text: string, options: ImportOptions): ImportResult {
+  const table = readCsvTable(parseCsv(text), ['TYPE', 'CONTENT']);
+  if (!table) {
+    throw new Error("This isn't a Todoist CSV export. It should have TYPE and CONTENT columns.");
+  }
+
+  const listName = options.listName?.trim() || DEFAULT_LIST_NAME;
+  const warnings: string[] = [];
+  const entries: { task: ImportedTask; indent: number }[] = [];
+  let sections = 0;
+
+  table.records.forEach((record, index) => {
+    const type = record.type.toLowerCase();
+    const previous = entries[entries.length - 1]?.task;
+
+    if (type === 'note' && previous && record.content) {
+      previous.description = previous.description ? `${previous.description}\n\n${record.content}` : record.content;
+      return;
+    }
+    if (type === 'section') {
+      sections++;
+      return;
+    }
+    if (type !== 'task' || !record.content) return;
+
+    const { title, labels } = splitLabels(record.content);
+    const due = parseImportDate(record.date, {
+      languages: [record.date_lang || 'en', ...(options.languages ?? [])],
+      now: options.now,
+    });
+    if (record.date && !due) {
+      warnings.push(`"${title}": the due date "${record.date}" couldn't be read`);
+    }
+
+    entries.push({
+      indent: parseInt(record.indent, 10) || 1,
+      task: {
+        sourceId: `row-${index + 1}`,
+        parentSourceId: null,
+        title,
+        description: record.description || null,
+        deadline: due?.deadline ?? null,
+        priority: CSV_PRIORITIES[record.priority] ?? null,
+        status: 'ongoing',
+        recurrenceRule: due?.recurrenceRule ?? null,
+        listName,
+        tagNames: labels,
+        createdAt: null,
+      },
+    });
+  });
+
+  if (sections > 0) {
+    warnings.push(`${sections} section${sections === 1 ? ' is' : 's are'} left out; their tasks go straight into "${listName}"`);
+  }
+
+  nestByIndent(entries);
+  return { tasks: entries.map((entry) => entry.task), warnings };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+// Ids are numbers in older exports and strings in newer ones
+const asId = (value: unknown): string | null =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+
+function parseTodoistJson(data: unknown, options: ImportOptions): ImportResult {
+  // A full export has projects alongside the tasks; the REST API returns a bare array
+  const root = isObject(data) ? data : {};
+  const items = Array.isArray(data) ? data : root.items ?? root.tasks;
+  if (!Array.isArray(items)) {
+    throw new Error("This isn't a Todoist export. It should have a list of items or tasks.");
+  }
+
+  const projects = new Map<string, string>();
+  (Array.isArray(root.projects) ? root.projects : []).forEach((project: unknown) => {
+    if (!isObject(project) || typeof project.name !== 'string') return;
+    const id = asId(project.id);
+    if (id !== null) projects.set(id, project.name);
+  });
+  const warnings: string[] = [];
+  const tasks: ImportedTask[] = [];
+
+  items.forEach((item: unknown) => {
+    if (!isObject(item) || item.is_deleted) return;
+    const title = asString(item.content)?.trim();
+    if (!title) return;
+
+    const dueField = isObject(item.due) ? item.due : {};
+    const dueText = asString(dueField.datetime) ?? asString(dueField.date);
+    const due = parseImportDate(dueText, options);
+    if (dueText && !due) {
+      warnings.push(`"${title}": the due date "${dueText}" couldn't be read`);
+    }
+
+    // The repeat is only kept as text, so it has to be read back from that
+    let recurrenceRule: string | null = null;
+    if (dueField.is_recurring) {
+      const repeat = asString(dueField.string);
+      const languages = [asString(dueField.lang) ?? 'en', ...(options.languages ?? [])];
+      recurrenceRule = parseImportDate(repeat, { languages, now: options.now })?.recurrenceRule ?? null;
+      if (!recurrenceRule) {
+        warnings.push(`"${title}": the repeat "${repeat ?? ''}" isn't supported, so it's imported once`);
+      }
+    }
+
+    tasks.push({
+      sourceId: asId(item.id) ?? String(tasks.length),
+      parentSourceId: asId(item.parent_id) || null,
+      title,
+      description: asString(item.description) || null,
+      deadline: due?.deadline ?? null,
+      priority: API_PRIORITIES[Number(item.priority)] ?? null,
+      status: item.checked || item.is_completed ? 'completed' : 'ongoing',
+      recurrenceRule,
+      listName: projects.get(asId(item.project_id) ?? '') ?? (options.listName?.trim() || DEFAULT_LIST_NAME),
+      tagNames: Array.isArray(item.labels) ? item.labels.filter((label): label is string => typeof label === 'string') : [],
+      createdAt: asString(item.added_at) ?? asString(item.created_at) ?? null,
+    });
+  });
+
+  return { tasks, warnings };
+}
+
+export const todoistImporter: TaskImporter = {
+  source: 'todoist',
+  name: 'Todoist',
+  description: 'A project exported as CSV, or a JSON export of your tasks',
+  parse: (text, options) => {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+      return finishImport(parseTodoistCsv(text, options), options);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("This isn't valid JSON. Make sure the whole export was copied.");
+    }
+    return finishImport(parseTodoistJson(data, options), options);
+  },
+};
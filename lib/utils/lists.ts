@@ -0,0 +1,51 @@
+import type { List, Task, TaskListRelation } from '../../store/taskStore';
+import { TAG_COLORS } from './tags';
+import { isOpenStatus } from './taskStatus';
+
+// Lists offer the same palette as tags
+export const LIST_COLORS = TAG_COLORS;
+
+export const LIST_ICONS = [
+  'list-outline',
+  'briefcase-outline',
+  'home-outline',
+  'cart-outline',
+  'school-outline',
+  'fitness-outline',
+  'airplane-outline',
+  'cash-outline',
+  'heart-outline',
+  'book-outline',
+  'code-slash-outline',
+  'gift-outline',
+];
+
+export const DEFAULT_LIST_COLOR = '#007AFF';
+export const DEFAULT_LIST_ICON = 'list-outline';
+
+/**
+ * Lists in the user's manual order, oldest first among equal positions.
+ */
+export const sortLists = (lists: List[]): List[] =>
+  [...lists].sort(
+    (a, b) => (a.position ?? 0) - (b.position ?? 0) || a.created_at.localeCompare(b.created_at)
+  );
+
+// Lists shown in tabs, browse and pickers
+export const getActiveLists = (lists: List[]): List[] => sortLists(lists.filter((list) => !list.is_archived));
+
+/**
+ * Number of open tasks in each list, by list id.
+ */
+export function getOpenTaskCounts(tasks: Task[], taskListRelations: TaskListRelation[]): Record<string, number> {
+  const openTaskIds = new Set(
+    tasks.filter((task) => isOpenStatus(task.status) && !task.is_deleted).map((task) => task.id)
+  );
+  const counts: Record<string, number> = {};
+  taskListRelations.forEach(({ task_id, list_id }) => {
+    if (openTaskIds.has(task_id)) {
+      counts[list_id] = (counts[list_id] ?? 0) + 1;
+    }
+  });
+  return counts;
+}
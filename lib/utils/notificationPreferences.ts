@@ -0,0 +1,57 @@
+import type { NotificationPreferences, QuietHours } from '@/store/models/notificationPreferences';
+
+// Minutes since midnight for an HH:mm string
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Whether a moment falls inside the quiet hours window, in local time.
+ * A window whose end is before its start wraps past midnight.
+ */
+export function isWithinQuietHours(date: Date, quietHours: QuietHours): boolean {
+  if (!quietHours.enabled) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = date.getHours() * 60 + date.getMinutes();
+
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * Whether a reminder should be left unscheduled: reminders are switched
+ * off, it fires during quiet hours, or its task is in a muted list.
+ *
+ * @param listIds - The lists the reminder's task belongs to
+ */
+export function isReminderSuppressed(
+  reminderTime: Date,
+  listIds: string[],
+  preferences: NotificationPreferences
+): boolean {
+  if (!preferences.push_enabled || !preferences.reminders_enabled) return true;
+  if (isWithinQuietHours(reminderTime, preferences.quiet_hours)) return true;
+  return listIds.some((listId) => preferences.muted_list_ids.includes(listId));
+}
+
+/**
+ * Format an offset in minutes as e.g. "15 minutes before" or "1 day before".
+ */
+export function formatReminderOffset(minutes: number | null): string {
+  if (minutes === null) return 'None';
+  if (minutes === 0) return 'At deadline';
+  if (minutes % (60 * 24) === 0) {
+    const days = minutes / (60 * 24);
+    return `${days} day${days > 1 ? 's' : ''} before`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours > 1 ? 's' : ''} before`;
+  }
+  return `${minutes} minute${minutes > 1 ? 's' : ''} before`;
+}
@@ -1,29 +1,169 @@
-import { Task } from '../store/models/task';
+import type { Task } from '../../store/taskStore';
+import { isOpenStatus } from './taskStatus';
 
+// How much each factor counts towards a task's score; 0 ignores the factor
+export interface PriorityWeights {
+  deadline: number;
+  priority: number;
+  difficulty: number;
+  value: number;
+}
+
+export type PriorityFactor = keyof PriorityWeights;
+
+// Each factor normalized to 0-1, higher meaning the task should be done sooner
+export type PriorityFactors = Record<PriorityFactor, number>;
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  deadline: 1,
+  priority: 1,
+  difficulty: 0.5,
+  value: 1,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours until the deadline at which urgency has dropped to half
+const DEADLINE_HALF_LIFE_HOURS = 24;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
 
-// Function to calculate priority score
-function calculatePriorityScore(
-    task: Task,
-    w_v: number = 100,  // Weight for value
-    w_d: number = 1,    // Weight for deadline (per hour)
-    w_t: number = 0.5   // Weight for difficulty
+const deadlineFactor = (task: Task, now: Date): number => {
+  if (!task.deadline) return 0;
+
+  const hoursLeft = (new Date(task.deadline).getTime() - now.getTime()) / HOUR_MS;
+  if (hoursLeft <= 0) return 1;
+  return DEADLINE_HALF_LIFE_HOURS / (DEADLINE_HALF_LIFE_HOURS + hoursLeft);
+};
+
+// Priority is stored as 1 (high) to 3 (low), with 0 or null for none
+const priorityFactor = (task: Task): number => {
+  if (!task.priority || task.priority < 1 || task.priority > 3) return 0;
+  return (4 - task.priority) / 3;
+};
+
+// Difficulty is 1-10; easier tasks rank higher, unrated ones sit in the middle
+const difficultyFactor = (task: Task): number => {
+  if (task.difficulty === null) return 0.5;
+  return (10 - clamp(task.difficulty, 1, 10)) / 9;
+};
+
+// Outcome value is free text: a number is read as 1-100, any other stated outcome counts as medium
+const valueFactor = (task: Task): number => {
+  const outcome = task.outcome_value?.trim();
+  if (!outcome) return 0;
+
+  const numeric = Number(outcome);
+  if (Number.isFinite(numeric)) return clamp(numeric, 1, 100) / 100;
+  return 0.5;
+};
+
+/**
+ * Break a task down into the factors that make up its score.
+ */
+export function getPriorityFactors(task: Task, now: Date = new Date()): PriorityFactors {
+  return {
+    deadline: deadlineFactor(task, now),
+    priority: priorityFactor(task),
+    difficulty: difficultyFactor(task),
+    value: valueFactor(task),
+  };
+}
+
+/**
+ * Score a task from 0 to 100 as the weighted average of its factors.
+ */
+export function calculatePriorityScore(
+  task: Task,
+  weights: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS,
+  now: Date = new Date()
 ): number {
-    // Handle Deadline (D)
-    let deadlineHours = task.deadlineHours ?? 8760; // Default to 1 year (365 days * 24 hours)
-    if (deadlineHours > 8760) deadlineHours = 8760; // Cap at 1 year
-    deadlineHours = Math.max(deadlineHours, 0.1);   // Prevent division by zero
-
-    // Handle Value (V)
-    let value = task.value_impact ?? 50; // Default to 50
-    value = Math.max(1, Math.min(100, value)); // Clamp to 1-100
-
-    // Handle Difficulty (T)
-    let difficulty = task.difficulty ?? 5; // Default to 5
-    difficulty = Math.max(1, Math.min(10, difficulty)); // Clamp to 1-10
-
-    // Calculate Priority Score
-    const score = (value * w_v) / (deadlineHours * w_d + difficulty * w_t);
-    return score;
+  const factors = getPriorityFactors(task, now);
+  const factorNames = Object.keys(factors) as PriorityFactor[];
+  const totalWeight = factorNames.reduce((sum, name) => sum + Math.max(0, weights[name]), 0);
+  if (totalWeight === 0) return 0;
+
+  const weighted = factorNames.reduce((sum, name) => sum + factors[name] * Math.max(0, weights[name]), 0);
+  return Math.round((weighted / totalWeight) * 100);
+}
+
+/**
+ * Whether a task can be recommended: not done, cancelled or deleted.
+ */
+export function isActionableTask(task: Task): boolean {
+  return isOpenStatus(task.status) && !task.is_deleted;
+}
+
+/**
+ * Order the actionable tasks by score, best first. Ties go to the earlier
+ * deadline, then to the older task.
+ */
+export function rankTasks(
+  tasks: Task[],
+  weights: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS,
+  now: Date = new Date()
+): Task[] {
+  const deadlineTime = (task: Task) => (task.deadline ? new Date(task.deadline).getTime() : Infinity);
+
+  return tasks
+    .filter(isActionableTask)
+    .map((task) => ({ task, score: calculatePriorityScore(task, weights, now) }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      deadlineTime(a.task) - deadlineTime(b.task) ||
+      a.task.created_at.localeCompare(b.task.created_at)
+    )
+    .map(({ task }) => task);
 }
 
-export { calculatePriorityScore };
+export type PriorityReasonKey =
+  | 'overdue'
+  | 'due_soon'
+  | 'due_this_week'
+  | 'high_priority'
+  | 'medium_priority'
+  | 'high_value'
+  | 'clear_outcome'
+  | 'low_effort';
+
+export interface PriorityReason {
+  factor: PriorityFactor;
+  // Translation key under `priority_reasons`
+  key: PriorityReasonKey;
+}
+
+const reasonFor = (factor: PriorityFactor, task: Task, value: number): PriorityReasonKey | null => {
+  switch (factor) {
+    case 'deadline':
+      if (value === 1) return 'overdue';
+      if (value >= 0.5) return 'due_soon';
+      return value >= DEADLINE_HALF_LIFE_HOURS / (DEADLINE_HALF_LIFE_HOURS + 24 * 7) ? 'due_this_week' : null;
+    case 'priority':
+      if (task.priority === 1) return 'high_priority';
+      return task.priority === 2 ? 'medium_priority' : null;
+    case 'value':
+      if (value >= 0.7) return 'high_value';
+      return value >= 0.5 ? 'clear_outcome' : null;
+    case 'difficulty':
+      return task.difficulty !== null && value >= 2 / 3 ? 'low_effort' : null;
+  }
+};
+
+/**
+ * Explain a task's rank: the factors that lift its score, strongest first.
+ * Factors the user has switched off are left out.
+ */
+export function explainPriority(
+  task: Task,
+  weights: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS,
+  now: Date = new Date()
+): PriorityReason[] {
+  const factors = getPriorityFactors(task, now);
+
+  return (Object.keys(factors) as PriorityFactor[])
+    .filter((factor) => weights[factor] > 0)
+    .map((factor) => ({ factor, key: reasonFor(factor, task, factors[factor]), contribution: factors[factor] * weights[factor] }))
+    .filter((reason): reason is PriorityReason & { contribution: number } => reason.key !== null)
+    .sort((a, b) => b.contribution - a.contribution)
+    .map(({ factor, key }) => ({ factor, key }));
+}
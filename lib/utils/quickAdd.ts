@@ -0,0 +1,514 @@
+import { addDays, addMinutes, addMonths, addWeeks, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import type { RecurrenceFrequency, RecurrenceRule, Weekday } from './recurrence';
+import { COMPACT_UNITS, QUICK_ADD_KEYWORDS, QuickAddKeywords, QuickAddUnit } from './quickAddKeywords';
+
+export type QuickAddTokenType =
+  | 'priority'
+  | 'date'
+  | 'time'
+  | 'recurrence'
+  | 'reminder'
+  | 'tag'
+  | 'list'
+  | 'difficulty';
+
+// A recognized part of the input, by character offsets
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface QuickAddResult {
+  // The input with every recognized token taken out
+  title: string;
+  tokens: QuickAddToken[];
+  priority: number | null;
+  deadline: Date | null;
+  tagNames: string[];
+  listName: string | null;
+  difficulty: number | null;
+  recurrence: RecurrenceRule | null;
+  // Minutes before the deadline to send reminders
+  reminderOffsets: number[];
+}
+
+export interface QuickAddOptions {
+  // Language codes whose keywords are recognized, besides English
+  languages?: string[];
+  // The user's list names. When given, only these are recognized after "@",
+  // which lets names with spaces be typed as-is or with "_" or "-".
+  listNames?: string[];
+  now?: Date;
+}
+
+// Text segment for rendering, with the kind of token it belongs to if any
+export interface QuickAddSegment {
+  text: string;
+  type: QuickAddTokenType | null;
+}
+
+interface ParseState {
+  now: Date;
+  // The day, or the exact moment for phrases like "in 2 hours"
+  date: Date | null;
+  dateHasTime: boolean;
+  time: { hours: number; minutes: number } | null;
+  priority: number | null;
+  tagNames: string[];
+  listName: string | null;
+  difficulty: number | null;
+  recurrence: RecurrenceRule | null;
+  reminderOffsets: number[];
+}
+
+interface Rule {
+  type: QuickAddTokenType;
+  regex: RegExp;
+  // Placeholder names, in the order of the capture groups after the boundary group
+  slots: string[];
+  // Returns false when the match adds nothing, e.g. a second date
+  apply: (values: Record<string, string>, state: ParseState) => boolean;
+}
+
+// Tasks with a day but no time are due by the end of that day
+const END_OF_DAY = { hours: 23, minutes: 59 };
+
+const UNIT_MINUTES: Record<QuickAddUnit, number> = {
+  minute: 1,
+  hour: 60,
+  day: 60 * 24,
+  week: 60 * 24 * 7,
+  month: 60 * 24 * 30,
+};
+
+const UNIT_FREQUENCIES: Partial<Record<QuickAddUnit, RecurrenceFrequency>> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+};
+
+// "5pm", "5:30 pm", "17:30"
+const TIME_PATTERN = '\\d{1,2}(?::\\d{2})?\\s?(?:am|pm|a\\.m\\.|p\\.m\\.)|\\d{1,2}:\\d{2}';
+
+// Characters that may follow a token in languages that separate words with spaces
+const TOKEN_END = '(?=$|[\\s,.;:!?)\\]])';
+
+const NUMBER_SLOTS = ['n', 'hour', 'minute'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first, so "tues" wins over "tue"
+const alternation = (words: string[]) =>
+  [...words].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+const unitWords = (keywords: QuickAddKeywords, unit: QuickAddUnit) => [...keywords.units[unit], ...COMPACT_UNITS[unit]];
+
+const UNITS = Object.keys(UNIT_MINUTES) as QuickAddUnit[];
+
+const findUnit = (keywords: QuickAddKeywords, word: string): QuickAddUnit | null => {
+  const lower = word.toLowerCase();
+  return UNITS.find((unit) => unitWords(keywords, unit).some((candidate) => candidate.toLowerCase() === lower)) ?? null;
+};
+
+const findWeekday = (keywords: QuickAddKeywords, word: string): Weekday | null => {
+  const lower = word.toLowerCase();
+  const index = keywords.weekdays.findIndex(({ names, short }) =>
+    [...names, ...short].some((candidate) => candidate.toLowerCase() === lower)
+  );
+  return index === -1 ? null : (index as Weekday);
+};
+
+const slotPattern = (slot: string, keywords: QuickAddKeywords): string => {
+  switch (slot) {
+    case 'n':
+      return '\\d{1,3}';
+    case 'hour':
+      return '\\d{1,2}';
+    case 'minute':
+      return '\\d{2}';
+    case 'time':
+      return TIME_PATTERN;
+    case 'unit':
+      return alternation(UNITS.flatMap((unit) => unitWords(keywords, unit)));
+    case 'weekday':
+      return alternation(keywords.weekdays.flatMap(({ names, short }) => [...names, ...short]));
+    case 'dayname':
+      return alternation(keywords.weekdays.flatMap(({ names }) => names));
+    default:
+      throw new Error(`Unknown quick add placeholder {${slot}}`);
+  }
+};
+
+/**
+ * Turn a keyword template into a global regex. The first capture group holds
+ * the word boundary before the phrase, the rest hold the placeholders.
+ */
+function compileTemplate(template: string, keywords: QuickAddKeywords): { regex: RegExp; slots: string[] } {
+  const slots: string[] = [];
+  let source = '';
+  let previousSlot: string | null = null;
+
+  template.split(/(\{\w+\}|\s+)/).forEach((part) => {
+    if (!part) return;
+
+    const slot = part.match(/^\{(\w+)\}$/)?.[1];
+    if (slot) {
+      slots.push(slot);
+      source += `(${slotPattern(slot, keywords)})`;
+      previousSlot = slot;
+      return;
+    }
+
+    if (/^\s+$/.test(part)) {
+      // Numbers may run into the next word, as in "30m"
+      const optional = !keywords.spaced || (previousSlot !== null && NUMBER_SLOTS.includes(previousSlot));
+      source += optional ? '\\s*' : '\\s+';
+    } else {
+      source += escapeRegExp(part);
+    }
+    previousSlot = null;
+  });
+
+  const wrapped = keywords.spaced ? `(^|[\\s(\\[])(?:${source})${TOKEN_END}` : `()(?:${source})`;
+  return { regex: new RegExp(wrapped, 'gi'), slots };
+}
+
+const parseTime = (text: string): { hours: number; minutes: number } | null => {
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?\s?(am|pm|a\.m\.|p\.m\.)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  return { hours, minutes };
+};
+
+// The next day falling on a weekday, starting today or tomorrow
+const upcomingWeekday = (now: Date, weekday: Weekday, includeToday: boolean): Date => {
+  let days = (weekday - now.getDay() + 7) % 7;
+  if (days === 0 && !includeToday) days = 7;
+  return addDays(startOfDay(now), days);
+};
+
+const setDate = (state: ParseState, date: Date, hasTime = false): boolean => {
+  if (state.date) return false;
+  state.date = date;
+  state.dateHasTime = hasTime;
+  return true;
+};
+
+const setTime = (state: ParseState, hours: number, minutes: number): boolean => {
+  if (state.time || hours > 23 || minutes > 59) return false;
+  state.time = { hours, minutes };
+  return true;
+};
+
+const setRecurrence = (state: ParseState, rule: RecurrenceRule): boolean => {
+  if (state.recurrence || rule.interval < 1) return false;
+  state.recurrence = rule;
+  return true;
+};
+
+const unitRecurrence = (unit: QuickAddUnit | null, interval: number): RecurrenceRule | null => {
+  const frequency = unit ? UNIT_FREQUENCIES[unit] : undefined;
+  return frequency ? { frequency, interval } : null;
+};
+
+const phraseRules = (
+  type: QuickAddTokenType,
+  templates: string[],
+  keywords: QuickAddKeywords,
+  apply: Rule['apply']
+): Rule[] => templates.map((template) => ({ type, ...compileTemplate(template, keywords), apply }));
+
+/**
+ * Rules for the phrases of one language.
+ */
+function buildLanguageRules(keywords: QuickAddKeywords): Rule[] {
+  const unit = (values: Record<string, string>) => findUnit(keywords, values.unit);
+  const weekday = (values: Record<string, string>) => findWeekday(keywords, values.weekday ?? values.dayname);
+  const number = (value: string) => parseInt(value, 10);
+
+  return [
+    ...phraseRules('date', keywords.today, keywords, (_, state) => setDate(state, startOfDay(state.now))),
+    ...phraseRules('date', keywords.tomorrow, keywords, (_, state) => setDate(state, addDays(startOfDay(state.now), 1))),
+    ...phraseRules('date', keywords.dayAfterTomorrow, keywords, (_, state) =>
+      setDate(state, addDays(startOfDay(state.now), 2))
+    ),
+    ...phraseRules('date', keywords.nextWeek, keywords, (_, state) =>
+      setDate(state, startOfWeek(addWeeks(state.now, 1), { weekStartsOn: 1 }))
+    ),
+    ...phraseRules('date', keywords.nextMonth, keywords, (_, state) =>
+      setDate(state, startOfMonth(addMonths(state.now, 1)))
+    ),
+    ...phraseRules('date', keywords.relative, keywords, (values, state) => {
+      const amount = number(values.n);
+      switch (unit(values)) {
+        case 'minute':
+          return setDate(state, addMinutes(state.now, amount), true);
+        case 'hour':
+          return setDate(state, addMinutes(state.now, amount * 60), true);
+        case 'day':
+          return setDate(state, addDays(startOfDay(state.now), amount));
+        case 'week':
+          return setDate(state, addWeeks(startOfDay(state.now), amount));
+        case 'month':
+          return setDate(state, addMonths(startOfDay(state.now), amount));
+        default:
+          return false;
+      }
+    }),
+    ...phraseRules('date', keywords.nextWeekday, keywords, (values, state) => {
+      const day = weekday(values);
+      return day !== null && setDate(state, upcomingWeekday(state.now, day, false));
+    }),
+    ...phraseRules('date', keywords.onWeekday, keywords, (values, state) => {
+      const day = weekday(values);
+      return day !== null && setDate(state, upcomingWeekday(state.now, day, true));
+    }),
+    ...phraseRules('time', keywords.time, keywords, (values, state) => {
+      const time = values.time ? parseTime(values.time) : { hours: number(values.hour), minutes: number(values.minute ?? '0') };
+      return !!time && setTime(state, time.hours, time.minutes);
+    }),
+    ...phraseRules('time', keywords.timePm, keywords, (values, state) => {
+      const hours = number(values.hour);
+      return hours <= 12 && setTime(state, (hours % 12) + 12, number(values.minute ?? '0'));
+    }),
+    ...phraseRules('time', keywords.noon, keywords, (_, state) => setTime(state, 12, 0)),
+    ...phraseRules('recurrence', keywords.everyInterval, keywords, (values, state) => {
+      const rule = unitRecurrence(unit(values), number(values.n));
+      return !!rule && setRecurrence(state, rule);
+    }),
+    ...phraseRules('recurrence', keywords.everyUnit, keywords, (values, state) => {
+      const rule = unitRecurrence(unit(values), 1);
+      return !!rule && setRecurrence(state, rule);
+    }),
+    ...phraseRules('recurrence', keywords.everyWeekday, keywords, (values, state) => {
+      const day = weekday(values);
+      return day !== null && setRecurrence(state, { frequency: 'weekly', interval: 1, weekdays: [day] });
+    }),
+    ...phraseRules('recurrence', keywords.daily, keywords, (_, state) => setRecurrence(state, { frequency: 'daily', interval: 1 })),
+    ...phraseRules('recurrence', keywords.weekly, keywords, (_, state) => setRecurrence(state, { frequency: 'weekly', interval: 1 })),
+    ...phraseRules('recurrence', keywords.monthly, keywords, (_, state) => setRecurrence(state, { frequency: 'monthly', interval: 1 })),
+    ...phraseRules('reminder', keywords.remind, keywords, (values, state) => {
+      const reminderUnit = unit(values);
+      if (!reminderUnit) return false;
+
+      const offset = number(values.n) * UNIT_MINUTES[reminderUnit];
+      if (!state.reminderOffsets.includes(offset)) state.reminderOffsets.push(offset);
+      return true;
+    }),
+  ];
+}
+
+const languageRules = new Map<string, Rule[]>();
+
+const rulesFor = (language: string): Rule[] => {
+  let rules = languageRules.get(language);
+  if (!rules) {
+    rules = buildLanguageRules(QUICK_ADD_KEYWORDS[language]);
+    languageRules.set(language, rules);
+  }
+  return rules;
+};
+
+// Treat spaces, "_" and "-" alike so "@home_office" finds "Home Office"
+const normalizeListName = (name: string) => name.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+/**
+ * Rules for the symbols understood in every language.
+ */
+function buildSymbolRules(listNames?: string[]): Rule[] {
+  const symbolRule = (type: QuickAddTokenType, pattern: string, apply: (value: string, state: ParseState) => boolean): Rule => ({
+    type,
+    regex: new RegExp(`(^|\\s)${pattern}${TOKEN_END}`, 'gi'),
+    slots: ['value'],
+    apply: (values, state) => apply(values.value, state),
+  });
+
+  const knownLists = listNames?.filter((name) => name.trim());
+  const listPattern = knownLists
+    ? `@(${[...knownLists]
+        .sort((a, b) => b.length - a.length)
+        .map((name) => normalizeListName(name).split(' ').map(escapeRegExp).join('[\\s_-]+'))
+        .join('|')})`
+    : '@([^\\s@,;:!?]+)';
+
+  return [
+    symbolRule('priority', '!!([1-3])', (value, state) => {
+      if (state.priority !== null) return false;
+      state.priority = parseInt(value, 10);
+      return true;
+    }),
+    symbolRule('tag', '#([^\\s#,;:!?]+)', (value, state) => {
+      if (state.tagNames.some((name) => name.toLowerCase() === value.toLowerCase())) return false;
+      state.tagNames.push(value);
+      return true;
+    }),
+    symbolRule('difficulty', '~(10|[1-9])', (value, state) => {
+      if (state.difficulty !== null) return false;
+      state.difficulty = parseInt(value, 10);
+      return true;
+    }),
+    symbolRule('date', '(\\d{4}-\\d{2}-\\d{2})', (value, state) => {
+      const [year, month, day] = value.split('-').map((part) => parseInt(part, 10));
+      const date = new Date(year, month - 1, day);
+      return date.getMonth() === month - 1 && setDate(state, date);
+    }),
+    symbolRule('list', listPattern, (value, state) => {
+      if (state.listName !== null) return false;
+      const normalized = normalizeListName(value);
+      state.listName = knownLists?.find((name) => normalizeListName(name) === normalized) ?? value.replace(/_/g, ' ');
+      return true;
+    }),
+  ];
+}
+
+// Language codes with keywords, English always last as the fallback
+const resolveLanguages = (languages: string[] = []): string[] =>
+  Array.from(new Set([...languages.map((code) => code.slice(0, 2).toLowerCase()), 'en'])).filter(
+    (code) => !!QUICK_ADD_KEYWORDS[code]
+  );
+
+/**
+ * The deadline the parsed date, time and recurrence add up to.
+ */
+function resolveDeadline(state: ParseState): Date | null {
+  const { now, time, recurrence } = state;
+  const recurrenceDay = recurrence?.weekdays?.[0];
+
+  let deadline: Date;
+  if (state.date) {
+    deadline = new Date(state.date);
+  } else if (recurrenceDay !== undefined) {
+    deadline = upcomingWeekday(now, recurrenceDay, true);
+  } else if (time || recurrence) {
+    deadline = startOfDay(now);
+  } else {
+    return null;
+  }
+
+  if (time) {
+    deadline.setHours(time.hours, time.minutes, 0, 0);
+    // A time that has already passed today means the next time round: tomorrow for a
+    // bare time, next week when the day comes from a weekly rule
+    if (!state.date && deadline < now) deadline = addDays(deadline, recurrenceDay !== undefined ? 7 : 1);
+  } else if (!state.dateHasTime) {
+    deadline.setHours(END_OF_DAY.hours, END_OF_DAY.minutes, 0, 0);
+  }
+  return deadline;
+}
+
+/**
+ * Parse quick add text such as "Call mom tomorrow 5pm #family !!1" into
+ * task fields. Recognized phrases are taken out of the title; anything that
+ * isn't recognized, or repeats a field that's already set, stays in it.
+ *
+ * Understands `!!1`-`!!3` priorities, `#tag`, `@list`, `~3` difficulty,
+ * `yyyy-mm-dd` dates, and localized phrases for dates ("next fri",
+ * "in 3 days"), times ("at 5pm"), recurrence ("every monday") and
+ * reminders ("remind 30m before").
+ */
+export function parseQuickAdd(text: string, options: QuickAddOptions = {}): QuickAddResult {
+  const state: ParseState = {
+    now: options.now ?? new Date(),
+    date: null,
+    dateHasTime: false,
+    time: null,
+    priority: null,
+    tagNames: [],
+    listName: null,
+    difficulty: null,
+    recurrence: null,
+    reminderOffsets: [],
+  };
+
+  const rules = [...buildSymbolRules(options.listNames), ...resolveLanguages(options.languages).flatMap(rulesFor)];
+
+  const candidates: { rule: Rule; start: number; end: number; values: Record<string, string> }[] = [];
+  rules.forEach((rule) => {
+    rule.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.regex.exec(text)) !== null) {
+      const start = match.index + match[1].length;
+      const end = match.index + match[0].length;
+      if (end === start) {
+        rule.regex.lastIndex++;
+        continue;
+      }
+
+      const values: Record<string, string> = {};
+      rule.slots.forEach((slot, index) => {
+        if (match![index + 2] !== undefined) values[slot] = match![index + 2];
+      });
+      candidates.push({ rule, start, end, values });
+    }
+  });
+
+  // Earliest first, and the longest of those starting together, so
+  // "every monday" wins over "monday"
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const tokens: QuickAddToken[] = [];
+  let lastEnd = 0;
+  candidates.forEach(({ rule, start, end, values }) => {
+    if (start < lastEnd || !rule.apply(values, state)) return;
+    tokens.push({ type: rule.type, start, end, text: text.slice(start, end) });
+    lastEnd = end;
+  });
+
+  // Weekly and monthly rules repeat on the deadline's weekday, as the recurrence editor sets them up
+  const recurrence = state.recurrence;
+  const deadline = resolveDeadline(state);
+  if (recurrence?.frequency === 'weekly' && !recurrence.weekdays && deadline) {
+    recurrence.weekdays = [deadline.getDay() as Weekday];
+  }
+  if (recurrence?.frequency === 'monthly' && deadline) {
+    const week = Math.ceil(deadline.getDate() / 7);
+    recurrence.monthWeek = week > 4 ? -1 : week;
+    recurrence.monthWeekday = deadline.getDay() as Weekday;
+  }
+
+  const title = getQuickAddSegments(text, tokens)
+    .filter((segment) => segment.type === null)
+    .map((segment) => segment.text)
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    title,
+    tokens,
+    priority: state.priority,
+    deadline,
+    tagNames: state.tagNames,
+    listName: state.listName,
+    difficulty: state.difficulty,
+    recurrence,
+    reminderOffsets: state.reminderOffsets,
+  };
+}
+
+/**
+ * Split text into plain and token segments, for highlighting tokens inline.
+ */
+export function getQuickAddSegments(text: string, tokens: QuickAddToken[]): QuickAddSegment[] {
+  const segments: QuickAddSegment[] = [];
+  let position = 0;
+
+  tokens.forEach((token) => {
+    if (token.start > position) segments.push({ text: text.slice(position, token.start), type: null });
+    segments.push({ text: text.slice(token.start, token.end), type: token.type });
+    position = token.end;
+  });
+
+  if (position < text.length) segments.push({ text: text.slice(position), type: null });
+  return segments;
+}
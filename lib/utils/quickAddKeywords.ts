@@ -0,0 +1,474 @@
+export type QuickAddUnit = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Words and phrase templates the quick add parser recognizes in one language.
+ *
+ * Templates are matched case-insensitively and may contain placeholders:
+ * `{n}` a number, `{unit}` a unit word, `{weekday}` a weekday name or
+ * abbreviation, `{dayname}` a full weekday name only, `{time}` a clock time
+ * such as `5pm` or `17:30`, and `{hour}` / `{minute}` bare digits.
+ */
+export interface QuickAddKeywords {
+  // Whether words are separated by spaces. When they aren't, phrases are
+  // recognized wherever they occur instead of only as whole words.
+  spaced: boolean;
+  today: string[];
+  tomorrow: string[];
+  dayAfterTomorrow: string[];
+  nextWeek: string[];
+  nextMonth: string[];
+  // Sunday first, matching Date#getDay
+  weekdays: { names: string[]; short: string[] }[];
+  units: Record<QuickAddUnit, string[]>;
+  // "in 3 days"
+  relative: string[];
+  // "next fri", always after today
+  nextWeekday: string[];
+  // "fri" or "on friday", today included
+  onWeekday: string[];
+  time: string[];
+  // Times that are in the afternoon, for languages that say so with a word
+  timePm: string[];
+  noon: string[];
+  // "every 2 weeks"
+  everyInterval: string[];
+  // "every day"
+  everyUnit: string[];
+  // "every monday"
+  everyWeekday: string[];
+  daily: string[];
+  weekly: string[];
+  monthly: string[];
+  // "remind 30m before"
+  remind: string[];
+}
+
+// Abbreviated units understood in every language, e.g. "30m" or "2h"
+export const COMPACT_UNITS: Record<QuickAddUnit, string[]> = {
+  minute: ['min', 'm'],
+  hour: ['h'],
+  day: ['d'],
+  week: ['w'],
+  month: [],
+};
+
+const en: QuickAddKeywords = {
+  spaced: true,
+  today: ['today', 'tod'],
+  tomorrow: ['tomorrow', 'tmrw', 'tmr'],
+  dayAfterTomorrow: ['day after tomorrow'],
+  nextWeek: ['next week'],
+  nextMonth: ['next month'],
+  weekdays: [
+    { names: ['sunday'], short: ['sun'] },
+    { names: ['monday'], short: ['mon'] },
+    { names: ['tuesday'], short: ['tues', 'tue'] },
+    { names: ['wednesday'], short: ['wed'] },
+    { names: ['thursday'], short: ['thurs', 'thur', 'thu'] },
+    { names: ['friday'], short: ['fri'] },
+    { names: ['saturday'], short: ['sat'] },
+  ],
+  units: {
+    minute: ['minutes', 'minute', 'mins'],
+    hour: ['hours', 'hour', 'hrs', 'hr'],
+    day: ['days', 'day'],
+    week: ['weeks', 'week', 'wks', 'wk'],
+    month: ['months', 'month', 'mo'],
+  },
+  relative: ['in {n} {unit}'],
+  nextWeekday: ['next {weekday}'],
+  onWeekday: ['on {weekday}', '{dayname}'],
+  time: ['at {time}', '{time}'],
+  timePm: [],
+  noon: ['at noon', 'noon'],
+  everyInterval: ['every {n} {unit}'],
+  everyUnit: ['every {unit}'],
+  everyWeekday: ['every {weekday}'],
+  daily: ['daily', 'everyday'],
+  weekly: ['weekly'],
+  monthly: ['monthly'],
+  remind: ['remind me {n} {unit} before', 'remind {n} {unit} before'],
+};
+
+const tr: QuickAddKeywords = {
+  spaced: true,
+  today: ['bugün'],
+  tomorrow: ['yarın'],
+  dayAfterTomorrow: ['yarından sonra', 'öbür gün'],
+  nextWeek: ['gelecek hafta', 'önümüzdeki hafta', 'haftaya'],
+  nextMonth: ['gelecek ay', 'önümüzdeki ay'],
+  weekdays: [
+    { names: ['pazar'], short: ['paz'] },
+    { names: ['pazartesi'], short: ['pzt'] },
+    { names: ['salı'], short: ['sal'] },
+    { names: ['çarşamba'], short: ['çar'] },
+    { names: ['perşembe'], short: ['per'] },
+    { names: ['cuma'], short: ['cum'] },
+    { names: ['cumartesi'], short: ['cmt'] },
+  ],
+  units: {
+    minute: ['dakika', 'dk'],
+    hour: ['saat', 'sa'],
+    day: ['gün'],
+    week: ['hafta'],
+    month: ['ay'],
+  },
+  relative: ['{n} {unit} sonra', '{n} {unit} içinde'],
+  nextWeekday: ['gelecek {weekday}', 'önümüzdeki {weekday}'],
+  onWeekday: ['{dayname}'],
+  time: ['saat {time}', 'saat {hour}', '{time}'],
+  timePm: ['akşam {hour}', 'öğleden sonra {hour}'],
+  noon: ['öğlen', 'öğle'],
+  everyInterval: ['her {n} {unit}'],
+  everyUnit: ['her {unit}'],
+  everyWeekday: ['her {weekday}'],
+  daily: ['günlük'],
+  weekly: ['haftalık'],
+  monthly: ['aylık'],
+  remind: ['{n} {unit} önce hatırlat', 'hatırlat {n} {unit} önce'],
+};
+
+const es: QuickAddKeywords = {
+  spaced: true,
+  today: ['hoy'],
+  tomorrow: ['mañana', 'manana'],
+  dayAfterTomorrow: ['pasado mañana', 'pasado manana'],
+  nextWeek: ['la próxima semana', 'próxima semana', 'proxima semana', 'la semana que viene'],
+  nextMonth: ['el próximo mes', 'próximo mes', 'proximo mes', 'el mes que viene'],
+  weekdays: [
+    { names: ['domingo', 'domingos'], short: ['dom'] },
+    { names: ['lunes'], short: ['lun'] },
+    { names: ['martes'], short: ['mar'] },
+    { names: ['miércoles', 'miercoles'], short: ['mié', 'mie'] },
+    { names: ['jueves'], short: ['jue'] },
+    { names: ['viernes'], short: ['vie'] },
+    { names: ['sábado', 'sabado', 'sábados', 'sabados'], short: ['sáb', 'sab'] },
+  ],
+  units: {
+    minute: ['minutos', 'minuto'],
+    hour: ['horas', 'hora'],
+    day: ['días', 'dias', 'día', 'dia'],
+    week: ['semanas', 'semana'],
+    month: ['meses', 'mes'],
+  },
+  relative: ['dentro de {n} {unit}', 'en {n} {unit}'],
+  nextWeekday: ['el próximo {weekday}', 'próximo {weekday}', 'proximo {weekday}'],
+  onWeekday: ['el {dayname}', '{dayname}'],
+  time: ['a las {time}', 'a las {hour}', 'a la {hour}', '{time}'],
+  timePm: ['a las {hour} de la tarde', 'a las {hour} de la noche'],
+  noon: ['al mediodía', 'al mediodia', 'mediodía', 'mediodia'],
+  everyInterval: ['cada {n} {unit}'],
+  everyUnit: ['cada {unit}', 'todos los {unit}', 'todas las {unit}'],
+  everyWeekday: ['cada {weekday}', 'todos los {weekday}'],
+  daily: ['diariamente', 'a diario'],
+  weekly: ['semanalmente'],
+  monthly: ['mensualmente'],
+  remind: ['recuérdame {n} {unit} antes', 'recuerdame {n} {unit} antes', 'recordar {n} {unit} antes', 'avisar {n} {unit} antes'],
+};
+
+const fr: QuickAddKeywords = {
+  spaced: true,
+  today: ["aujourd'hui", 'auj'],
+  tomorrow: ['demain'],
+  dayAfterTomorrow: ['après-demain', 'apres-demain'],
+  nextWeek: ['la semaine prochaine', 'semaine prochaine'],
+  nextMonth: ['le mois prochain', 'mois prochain'],
+  weekdays: [
+    { names: ['dimanche', 'dimanches'], short: ['dim'] },
+    { names: ['lundi', 'lundis'], short: ['lun'] },
+    { names: ['mardi', 'mardis'], short: ['mar'] },
+    { names: ['mercredi', 'mercredis'], short: ['mer'] },
+    { names: ['jeudi', 'jeudis'], short: ['jeu'] },
+    { names: ['vendredi', 'vendredis'], short: ['ven'] },
+    { names: ['samedi', 'samedis'], short: ['sam'] },
+  ],
+  units: {
+    minute: ['minutes', 'minute'],
+    hour: ['heures', 'heure'],
+    day: ['jours', 'jour', 'j'],
+    week: ['semaines', 'semaine', 'sem'],
+    month: ['mois'],
+  },
+  relative: ['dans {n} {unit}'],
+  nextWeekday: ['{weekday} prochain'],
+  onWeekday: ['{dayname}'],
+  time: ['à {time}', 'à {hour}h{minute}', 'à {hour}h', '{hour}h{minute}', '{hour}h', '{time}'],
+  timePm: [],
+  noon: ['à midi', 'midi'],
+  everyInterval: ['tous les {n} {unit}', 'toutes les {n} {unit}'],
+  everyUnit: ['chaque {unit}', 'tous les {unit}'],
+  everyWeekday: ['chaque {weekday}', 'tous les {weekday}'],
+  daily: ['quotidiennement', 'quotidien'],
+  weekly: ['hebdomadaire', 'hebdo'],
+  monthly: ['mensuellement', 'mensuel'],
+  remind: ['me rappeler {n} {unit} avant', 'rappeler {n} {unit} avant', 'rappel {n} {unit} avant'],
+};
+
+const de: QuickAddKeywords = {
+  spaced: true,
+  today: ['heute'],
+  tomorrow: ['morgen'],
+  dayAfterTomorrow: ['übermorgen', 'uebermorgen'],
+  nextWeek: ['nächste woche', 'naechste woche'],
+  nextMonth: ['nächsten monat', 'naechsten monat'],
+  weekdays: [
+    { names: ['sonntag'], short: ['so'] },
+    { names: ['montag'], short: ['mo'] },
+    { names: ['dienstag'], short: ['di'] },
+    { names: ['mittwoch'], short: ['mi'] },
+    { names: ['donnerstag'], short: ['do'] },
+    { names: ['freitag'], short: ['fr'] },
+    { names: ['samstag', 'sonnabend'], short: ['sa'] },
+  ],
+  units: {
+    minute: ['minuten', 'minute'],
+    hour: ['stunden', 'stunde', 'std'],
+    day: ['tagen', 'tage', 'tag'],
+    week: ['wochen', 'woche'],
+    month: ['monaten', 'monate', 'monat'],
+  },
+  relative: ['in {n} {unit}'],
+  nextWeekday: ['nächsten {weekday}', 'naechsten {weekday}', 'kommenden {weekday}'],
+  onWeekday: ['am {weekday}', '{dayname}'],
+  time: ['um {time}', 'um {hour}:{minute} uhr', 'um {hour} uhr', '{hour} uhr', '{time}'],
+  timePm: [],
+  noon: ['mittags', 'mittag'],
+  everyInterval: ['alle {n} {unit}'],
+  everyUnit: ['jeden {unit}', 'jede {unit}', 'jeder {unit}'],
+  everyWeekday: ['jeden {weekday}'],
+  daily: ['täglich', 'taeglich'],
+  weekly: ['wöchentlich', 'woechentlich'],
+  monthly: ['monatlich'],
+  remind: ['erinnere mich {n} {unit} vorher', 'erinnern {n} {unit} vorher', '{n} {unit} vorher erinnern'],
+};
+
+const it: QuickAddKeywords = {
+  spaced: true,
+  today: ['oggi'],
+  tomorrow: ['domani'],
+  dayAfterTomorrow: ['dopodomani'],
+  nextWeek: ['la prossima settimana', 'prossima settimana', 'settimana prossima'],
+  nextMonth: ['il prossimo mese', 'prossimo mese', 'mese prossimo'],
+  weekdays: [
+    { names: ['domenica'], short: ['dom'] },
+    { names: ['lunedì', 'lunedi'], short: ['lun'] },
+    { names: ['martedì', 'martedi'], short: ['mar'] },
+    { names: ['mercoledì', 'mercoledi'], short: ['mer'] },
+    { names: ['giovedì', 'giovedi'], short: ['gio'] },
+    { names: ['venerdì', 'venerdi'], short: ['ven'] },
+    { names: ['sabato'], short: ['sab'] },
+  ],
+  units: {
+    minute: ['minuti', 'minuto'],
+    hour: ['ore', 'ora'],
+    day: ['giorni', 'giorno', 'gg'],
+    week: ['settimane', 'settimana', 'sett'],
+    month: ['mesi', 'mese'],
+  },
+  relative: ['tra {n} {unit}', 'fra {n} {unit}'],
+  nextWeekday: ['{weekday} prossimo', 'prossimo {weekday}'],
+  onWeekday: ['{dayname}'],
+  time: ['alle ore {hour}', 'alle {time}', 'alle {hour}', '{time}'],
+  timePm: ['alle {hour} di sera', 'alle {hour} del pomeriggio'],
+  noon: ['a mezzogiorno', 'mezzogiorno'],
+  everyInterval: ['ogni {n} {unit}'],
+  everyUnit: ['ogni {unit}'],
+  everyWeekday: ['ogni {weekday}'],
+  daily: ['quotidianamente', 'giornalmente'],
+  weekly: ['settimanalmente'],
+  monthly: ['mensilmente'],
+  remind: ['ricordami {n} {unit} prima', 'ricorda {n} {unit} prima', 'promemoria {n} {unit} prima'],
+};
+
+const pt: QuickAddKeywords = {
+  spaced: true,
+  today: ['hoje'],
+  tomorrow: ['amanhã', 'amanha'],
+  dayAfterTomorrow: ['depois de amanhã', 'depois de amanha'],
+  nextWeek: ['próxima semana', 'proxima semana', 'semana que vem'],
+  nextMonth: ['próximo mês', 'proximo mes', 'mês que vem', 'mes que vem'],
+  weekdays: [
+    { names: ['domingo', 'domingos'], short: ['dom'] },
+    { names: ['segunda-feira', 'segunda', 'segundas'], short: ['seg'] },
+    { names: ['terça-feira', 'terca-feira', 'terça', 'terca', 'terças', 'tercas'], short: ['ter'] },
+    { names: ['quarta-feira', 'quarta', 'quartas'], short: ['qua'] },
+    { names: ['quinta-feira', 'quinta', 'quintas'], short: ['qui'] },
+    { names: ['sexta-feira', 'sexta', 'sextas'], short: ['sex'] },
+    { names: ['sábado', 'sabado', 'sábados', 'sabados'], short: ['sáb', 'sab'] },
+  ],
+  units: {
+    minute: ['minutos', 'minuto'],
+    hour: ['horas', 'hora'],
+    day: ['dias', 'dia'],
+    week: ['semanas', 'semana'],
+    month: ['meses', 'mês', 'mes'],
+  },
+  relative: ['daqui a {n} {unit}', 'em {n} {unit}'],
+  nextWeekday: ['próxima {weekday}', 'proxima {weekday}', 'próximo {weekday}', 'proximo {weekday}'],
+  onWeekday: ['na {weekday}', 'no {weekday}', '{dayname}'],
+  time: ['às {time}', 'as {time}', 'às {hour}h{minute}', 'às {hour}h', 'às {hour}', '{hour}h{minute}', '{hour}h', '{time}'],
+  timePm: ['às {hour} da tarde', 'às {hour} da noite'],
+  noon: ['ao meio-dia', 'meio-dia'],
+  everyInterval: ['a cada {n} {unit}', 'cada {n} {unit}'],
+  everyUnit: ['todo {unit}', 'toda {unit}', 'todos os {unit}', 'todas as {unit}'],
+  everyWeekday: ['toda {weekday}', 'todo {weekday}', 'todas as {weekday}', 'todos os {weekday}'],
+  daily: ['diariamente'],
+  weekly: ['semanalmente'],
+  monthly: ['mensalmente'],
+  remind: ['lembre-me {n} {unit} antes', 'me lembre {n} {unit} antes', 'lembrar {n} {unit} antes'],
+};
+
+const ru: QuickAddKeywords = {
+  spaced: true,
+  today: ['сегодня'],
+  tomorrow: ['завтра'],
+  dayAfterTomorrow: ['послезавтра'],
+  nextWeek: ['на следующей неделе', 'следующая неделя'],
+  nextMonth: ['в следующем месяце', 'следующий месяц'],
+  weekdays: [
+    { names: ['воскресенье'], short: ['вс'] },
+    { names: ['понедельник'], short: ['пн'] },
+    { names: ['вторник'], short: ['вт'] },
+    { names: ['среда', 'среду'], short: ['ср'] },
+    { names: ['четверг'], short: ['чт'] },
+    { names: ['пятница', 'пятницу'], short: ['пт'] },
+    { names: ['суббота', 'субботу'], short: ['сб'] },
+  ],
+  units: {
+    minute: ['минуту', 'минуты', 'минут', 'мин'],
+    hour: ['часов', 'часа', 'час', 'ч'],
+    day: ['дней', 'дня', 'день', 'д'],
+    week: ['недель', 'недели', 'неделю', 'нед'],
+    month: ['месяцев', 'месяца', 'месяц', 'мес'],
+  },
+  relative: ['через {n} {unit}'],
+  nextWeekday: ['в следующий {weekday}', 'в следующую {weekday}', 'в следующее {weekday}'],
+  onWeekday: ['во {weekday}', 'в {weekday}', '{dayname}'],
+  time: ['в {time}', 'в {hour} часов', 'в {hour} часа', 'в {hour} час', '{time}'],
+  timePm: ['в {hour} вечера', 'в {hour} дня'],
+  noon: ['в полдень', 'полдень'],
+  everyInterval: ['каждые {n} {unit}'],
+  everyUnit: ['каждый {unit}', 'каждую {unit}', 'каждое {unit}'],
+  everyWeekday: ['каждый {weekday}', 'каждую {weekday}', 'каждое {weekday}'],
+  daily: ['ежедневно'],
+  weekly: ['еженедельно'],
+  monthly: ['ежемесячно'],
+  remind: ['напомнить за {n} {unit}', 'напомни за {n} {unit}'],
+};
+
+const ja: QuickAddKeywords = {
+  spaced: false,
+  today: ['今日', 'きょう'],
+  tomorrow: ['明日', 'あした', 'あす'],
+  dayAfterTomorrow: ['明後日', 'あさって'],
+  nextWeek: ['来週'],
+  nextMonth: ['来月'],
+  weekdays: [
+    { names: ['日曜日', '日曜'], short: [] },
+    { names: ['月曜日', '月曜'], short: [] },
+    { names: ['火曜日', '火曜'], short: [] },
+    { names: ['水曜日', '水曜'], short: [] },
+    { names: ['木曜日', '木曜'], short: [] },
+    { names: ['金曜日', '金曜'], short: [] },
+    { names: ['土曜日', '土曜'], short: [] },
+  ],
+  units: {
+    minute: ['分'],
+    hour: ['時間'],
+    day: ['日'],
+    week: ['週間', '週'],
+    month: ['ヶ月', 'か月', 'カ月', 'ヵ月', '月'],
+  },
+  relative: ['{n}{unit}後'],
+  nextWeekday: ['来週の{weekday}', '来週{weekday}'],
+  onWeekday: ['{dayname}'],
+  time: ['午前{hour}時{minute}分', '午前{hour}時', '{hour}時{minute}分', '{hour}時', '{time}'],
+  timePm: ['午後{hour}時{minute}分', '午後{hour}時', '夜{hour}時'],
+  noon: ['正午'],
+  everyInterval: ['{n}{unit}ごと', '{n}{unit}おき'],
+  everyUnit: ['毎{unit}'],
+  everyWeekday: ['毎週{weekday}'],
+  daily: [],
+  weekly: [],
+  monthly: [],
+  remind: ['{n}{unit}前にリマインド', '{n}{unit}前に通知'],
+};
+
+const ko: QuickAddKeywords = {
+  spaced: false,
+  today: ['오늘'],
+  tomorrow: ['내일'],
+  dayAfterTomorrow: ['내일모레', '모레'],
+  nextWeek: ['다음 주'],
+  nextMonth: ['다음 달'],
+  weekdays: [
+    { names: ['일요일'], short: [] },
+    { names: ['월요일'], short: [] },
+    { names: ['화요일'], short: [] },
+    { names: ['수요일'], short: [] },
+    { names: ['목요일'], short: [] },
+    { names: ['금요일'], short: [] },
+    { names: ['토요일'], short: [] },
+  ],
+  units: {
+    minute: ['분'],
+    hour: ['시간'],
+    day: ['일'],
+    week: ['주'],
+    month: ['개월', '달', '월'],
+  },
+  relative: ['{n}{unit} 후', '{n}{unit} 뒤'],
+  nextWeekday: ['다음 주 {weekday}', '다음 {weekday}'],
+  onWeekday: ['{dayname}'],
+  time: ['오전 {hour}시 {minute}분', '오전 {hour}시', '{hour}시 {minute}분', '{hour}시', '{time}'],
+  timePm: ['오후 {hour}시 {minute}분', '오후 {hour}시', '저녁 {hour}시'],
+  noon: ['정오'],
+  everyInterval: ['{n}{unit}마다'],
+  everyUnit: ['매{unit}'],
+  everyWeekday: ['매주 {weekday}'],
+  daily: [],
+  weekly: [],
+  monthly: [],
+  remind: ['{n}{unit} 전에 알림', '{n}{unit} 전 알림'],
+};
+
+const zh: QuickAddKeywords = {
+  spaced: false,
+  today: ['今天'],
+  tomorrow: ['明天'],
+  dayAfterTomorrow: ['后天', '後天'],
+  nextWeek: ['下个星期', '下星期', '下周'],
+  nextMonth: ['下个月', '下月'],
+  weekdays: [
+    { names: ['星期日', '星期天', '周日', '周天', '礼拜天'], short: [] },
+    { names: ['星期一', '周一', '礼拜一'], short: [] },
+    { names: ['星期二', '周二', '礼拜二'], short: [] },
+    { names: ['星期三', '周三', '礼拜三'], short: [] },
+    { names: ['星期四', '周四', '礼拜四'], short: [] },
+    { names: ['星期五', '周五', '礼拜五'], short: [] },
+    { names: ['星期六', '周六', '礼拜六'], short: [] },
+  ],
+  units: {
+    minute: ['分钟'],
+    hour: ['个小时', '小时'],
+    day: ['天'],
+    week: ['个星期', '星期', '周'],
+    month: ['个月', '月'],
+  },
+  relative: ['{n}{unit}之后', '{n}{unit}以后', '{n}{unit}后'],
+  nextWeekday: ['下{weekday}'],
+  onWeekday: ['{dayname}'],
+  time: ['上午{hour}点{minute}分', '上午{hour}点', '早上{hour}点', '{hour}点{minute}分', '{hour}点', '{time}'],
+  timePm: ['下午{hour}点{minute}分', '下午{hour}点', '晚上{hour}点'],
+  noon: ['中午'],
+  everyInterval: ['每隔{n}{unit}', '每{n}{unit}'],
+  everyUnit: ['每{unit}'],
+  everyWeekday: ['每{weekday}'],
+  daily: [],
+  weekly: [],
+  monthly: [],
+  remind: ['提前{n}{unit}提醒', '{n}{unit}前提醒'],
+};
+
+// Keyed by the same language codes as i18n/languages
+export const QUICK_ADD_KEYWORDS: Record<string, QuickAddKeywords> = { en, tr, es, fr, de, it, pt, ru, ja, ko, zh };
@@ -0,0 +1,260 @@
+import { addDays, addMonths, differenceInCalendarWeeks, getDaysInMonth, isAfter, startOfMonth } from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after_completion';
+
+// Day of the week as returned by Date#getDay, 0 being Sunday
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Repeat every `interval` days, weeks or months
+  interval: number;
+  // Weekly rules: the days of the week to repeat on
+  weekdays?: Weekday[];
+  // Monthly rules: the nth weekday of the month, with -1 meaning the last one
+  monthWeek?: number;
+  monthWeekday?: Weekday;
+}
+
+// The fields of a task that drive its recurrence
+export interface RecurringTaskFields {
+  is_recursive: boolean;
+  recurrence_rule: string | null;
+  // Occurrences left in the series, counting this one; null for no limit
+  recursion_count: number | null;
+  recursion_end: string | null;
+  deadline: string | null;
+}
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '-1': 'last' };
+
+// Guards against runaway loops when skipping occurrences that are already past
+const MAX_ITERATIONS = 1000;
+
+const toWeekday = (day: string): Weekday | null => {
+  const index = RRULE_DAYS.indexOf(day);
+  return index === -1 ? null : (index as Weekday);
+};
+
+/**
+ * Serialize a rule to an RRULE string, e.g. `FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH`.
+ * Rules counted from completion use the `X-FROM=COMPLETION` extension.
+ */
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+  const parts: string[] = [];
+
+  switch (rule.frequency) {
+    case 'daily':
+    case 'after_completion':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      break;
+    case 'monthly':
+      parts.push('FREQ=MONTHLY');
+      break;
+  }
+
+  parts.push(`INTERVAL=${Math.max(1, Math.floor(rule.interval))}`);
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    const days = [...rule.weekdays].sort().map((day) => RRULE_DAYS[day]);
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+
+  if (rule.frequency === 'monthly' && rule.monthWeek !== undefined && rule.monthWeekday !== undefined) {
+    parts.push(`BYDAY=${rule.monthWeek}${RRULE_DAYS[rule.monthWeekday]}`);
+  }
+
+  if (rule.frequency === 'after_completion') {
+    parts.push('X-FROM=COMPLETION');
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Parse an RRULE string written by serializeRecurrenceRule.
+ *
+ * @returns The rule, or null when the string is not a supported rule
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+
+  const fields: Record<string, string> = {};
+  value.replace(/^RRULE:/i, '').split(';').forEach((part) => {
+    const [key, val] = part.split('=');
+    if (key && val !== undefined) {
+      fields[key.trim().toUpperCase()] = val.trim().toUpperCase();
+    }
+  });
+
+  const interval = fields.INTERVAL ? parseInt(fields.INTERVAL, 10) : 1;
+  if (isNaN(interval) || interval < 1) return null;
+
+  switch (fields.FREQ) {
+    case 'DAILY':
+      return {
+        frequency: fields['X-FROM'] === 'COMPLETION' ? 'after_completion' : 'daily',
+        interval,
+      };
+
+    case 'WEEKLY': {
+      const weekdays = (fields.BYDAY ? fields.BYDAY.split(',') : [])
+        .map(toWeekday)
+        .filter((day): day is Weekday => day !== null);
+      return { frequency: 'weekly', interval, weekdays };
+    }
+
+    case 'MONTHLY': {
+      const match = fields.BYDAY?.match(/^(-1|[1-4])([A-Z]{2})$/);
+      const monthWeekday = match ? toWeekday(match[2]) : null;
+      if (!match || monthWeekday === null) return null;
+      return { frequency: 'monthly', interval, monthWeek: parseInt(match[1], 10), monthWeekday };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The date of the nth weekday in the month containing `month`,
+ * with `week` -1 selecting the last one.
+ */
+function getNthWeekdayOfMonth(month: Date, week: number, weekday: Weekday): Date {
+  const first = startOfMonth(month);
+
+  if (week === -1) {
+    const last = addDays(first, getDaysInMonth(first) - 1);
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+
+  const firstMatch = addDays(first, (weekday - first.getDay() + 7) % 7);
+  return addDays(firstMatch, (week - 1) * 7);
+}
+
+// The occurrence that follows `previous` on a fixed schedule
+function advance(rule: RecurrenceRule, previous: Date): Date {
+  switch (rule.frequency) {
+    case 'daily':
+    case 'after_completion':
+      return addDays(previous, rule.interval);
+
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [previous.getDay() as Weekday];
+      for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+        const candidate = addDays(previous, offset);
+        const weeksApart = differenceInCalendarWeeks(candidate, previous);
+        if (weeksApart % rule.interval === 0 && weekdays.includes(candidate.getDay() as Weekday)) {
+          return candidate;
+        }
+      }
+      return addDays(previous, 7 * rule.interval);
+    }
+
+    case 'monthly': {
+      const week = rule.monthWeek ?? 1;
+      const weekday = rule.monthWeekday ?? (previous.getDay() as Weekday);
+      for (let months = 0; months <= 12 * rule.interval; months += rule.interval) {
+        const candidate = getNthWeekdayOfMonth(addMonths(previous, months), week, weekday);
+        candidate.setHours(previous.getHours(), previous.getMinutes(), previous.getSeconds(), 0);
+        if (isAfter(candidate, previous)) {
+          return candidate;
+        }
+      }
+      return addMonths(previous, rule.interval);
+    }
+  }
+}
+
+/**
+ * Compute when the occurrence after `previous` is due.
+ * Fixed schedules skip dates that are already past at `completedAt`; rules
+ * counted from completion start from `completedAt` at the original time of day.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, previous: Date, completedAt: Date = new Date()): Date {
+  if (rule.frequency === 'after_completion') {
+    const next = addDays(completedAt, rule.interval);
+    next.setHours(previous.getHours(), previous.getMinutes(), previous.getSeconds(), 0);
+    return next;
+  }
+
+  let next = advance(rule, previous);
+  for (let i = 0; i < MAX_ITERATIONS && !isAfter(next, completedAt); i++) {
+    next = advance(rule, next);
+  }
+  return next;
+}
+
+/**
+ * Work out the deadline of the task that follows a completed recurring task.
+ *
+ * @returns The next deadline, or null when the series has ended
+ */
+export function getNextTaskOccurrence(task: RecurringTaskFields, completedAt: Date = new Date()): Date | null {
+  const rule = task.is_recursive ? parseRecurrenceRule(task.recurrence_rule) : null;
+  if (!rule) return null;
+  if (task.recursion_count !== null && task.recursion_count <= 1) return null;
+
+  const previous = task.deadline ? new Date(task.deadline) : completedAt;
+  const next = getNextOccurrence(rule, previous, completedAt);
+
+  if (task.recursion_end && isAfter(next, new Date(task.recursion_end))) return null;
+  return next;
+}
+
+/**
+ * Project the occurrences after this one, up to `max`, within the series limits.
+ * Rules counted from completion assume each occurrence is completed when due.
+ */
+export function getUpcomingOccurrences(task: RecurringTaskFields, max: number = 5): Date[] {
+  const rule = task.is_recursive ? parseRecurrenceRule(task.recurrence_rule) : null;
+  if (!rule || !task.deadline) return [];
+
+  const remaining = task.recursion_count !== null ? task.recursion_count - 1 : max;
+  const until = task.recursion_end ? new Date(task.recursion_end) : null;
+  const occurrences: Date[] = [];
+
+  let previous = new Date(task.deadline);
+  while (occurrences.length < Math.min(max, remaining)) {
+    const next = rule.frequency === 'after_completion' ? addDays(previous, rule.interval) : advance(rule, previous);
+    if (until && isAfter(next, until)) break;
+    occurrences.push(next);
+    previous = next;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Human readable summary of a rule, e.g. "Every 2 weeks on Monday, Thursday".
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = (singular: string) =>
+    rule.interval === 1 ? singular : `${rule.interval} ${singular}s`;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return `Every ${unit('day')}`;
+
+    case 'weekly': {
+      const days = rule.weekdays?.length
+        ? ` on ${[...rule.weekdays].sort().map((day) => WEEKDAY_NAMES[day]).join(', ')}`
+        : '';
+      return `Every ${unit('week')}${days}`;
+    }
+
+    case 'monthly': {
+      const ordinal = ORDINALS[String(rule.monthWeek ?? 1)];
+      const weekday = WEEKDAY_NAMES[rule.monthWeekday ?? 0];
+      return `Every ${unit('month')} on the ${ordinal} ${weekday}`;
+    }
+
+    case 'after_completion':
+      return `${rule.interval === 1 ? '1 day' : unit('day')} after completion`;
+  }
+}
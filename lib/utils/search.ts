@@ -0,0 +1,214 @@
+import type { List, Tag, Task, TaskListRelation, TaskTagRelation } from '../../store/taskStore';
+import { isOpenStatus } from './taskStatus';
+
+export type SearchField = 'title' | 'tag' | 'list' | 'description';
+
+export interface SearchMatch {
+  field: SearchField;
+  // The text that matched: the title, a tag or list name, or a description snippet
+  text: string;
+}
+
+export interface TaskSearchResult {
+  task: Task;
+  score: number;
+  matches: SearchMatch[];
+}
+
+// Text segment for rendering, flagged when it matches a search term
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchSources {
+  tags: Tag[];
+  lists: List[];
+  taskTagRelations: TaskTagRelation[];
+  taskListRelations: TaskListRelation[];
+}
+
+// Points a term earns for matching in each field; a term counts its best field only
+const FIELD_SCORES: Record<SearchField, number> = {
+  title: 10,
+  tag: 6,
+  list: 4,
+  description: 2,
+};
+
+// Extra points when a term matches the start of a word
+const WORD_START_BONUS = 0.5;
+
+// Characters of context kept on each side of a match in description snippets
+const SNIPPET_CONTEXT = 30;
+
+const ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+/**
+ * Reduce rich editor HTML to plain text.
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/li)[^>]*>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;|&amp;|&lt;|&gt;|&quot;|&#39;/g, (entity) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split a search query into lowercase terms, dropping duplicates.
+ */
+export function tokenizeSearch(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+// Letters are the characters that have distinct cases, which covers most scripts in use
+const isWordCharacter = (char: string) => char.toLowerCase() !== char.toUpperCase() || /[0-9]/.test(char);
+
+const isWordStart = (text: string, index: number) => index === 0 || !isWordCharacter(text[index - 1]);
+
+/**
+ * Lowercase text along with where each lowercase character came from.
+ * Lowercasing can change the length, like 'İ' becoming 'i̇', so a match in
+ * the lowercase text spans `starts[index]` to `ends[index + length - 1]` in
+ * the original.
+ */
+const foldCase = (text: string) => {
+  let lower = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  let offset = 0;
+  for (const char of text) {
+    const folded = char.toLowerCase();
+    lower += folded;
+    for (let i = 0; i < folded.length; i++) {
+      starts.push(offset);
+      ends.push(offset + char.length);
+    }
+    offset += char.length;
+  }
+
+  return { lower, starts, ends };
+};
+
+// Score of a term in a piece of text, or 0 when it doesn't occur
+const termScore = (text: string, term: string, field: SearchField): number => {
+  const lower = text.toLowerCase();
+  const index = lower.indexOf(term);
+  if (index === -1) return 0;
+
+  const startsWord = isWordStart(lower, index);
+  return FIELD_SCORES[field] * (startsWord ? 1 + WORD_START_BONUS : 1);
+};
+
+const snippetAround = (text: string, term: string): string => {
+  const { lower, starts, ends } = foldCase(text);
+  const index = lower.indexOf(term);
+  const start = Math.max(0, starts[index] - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, ends[index + term.length - 1] + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const namesFor = <R extends { task_id: string }>(
+  taskId: string,
+  relations: R[],
+  idOf: (relation: R) => string,
+  items: { id: string; name: string }[]
+) =>
+  relations
+    .filter((relation) => relation.task_id === taskId)
+    .map((relation) => items.find((item) => item.id === idOf(relation))?.name)
+    .filter((name): name is string => !!name);
+
+/**
+ * Match a task against search terms. Every term has to occur in the title,
+ * description, or one of the task's tag or list names.
+ *
+ * @returns The result, or null when some term doesn't occur
+ */
+export function matchTask(task: Task, terms: string[], sources: SearchSources): TaskSearchResult | null {
+  const fields: { field: SearchField; text: string }[] = [
+    { field: 'title', text: task.title },
+    ...namesFor(task.id, sources.taskTagRelations, (rel) => rel.tag_id, sources.tags).map((text) => ({ field: 'tag' as const, text })),
+    ...namesFor(task.id, sources.taskListRelations, (rel) => rel.list_id, sources.lists).map((text) => ({ field: 'list' as const, text })),
+    { field: 'description', text: task.description ? stripHtml(task.description) : '' },
+  ];
+
+  let score = 0;
+  const matches: SearchMatch[] = [];
+
+  for (const term of terms) {
+    let best: { field: SearchField; text: string; score: number } | null = null;
+    for (const { field, text } of fields) {
+      const fieldScore = termScore(text, term, field);
+      if (fieldScore > (best?.score ?? 0)) {
+        best = { field, text, score: fieldScore };
+      }
+    }
+    if (!best) return null;
+
+    score += best.score;
+    const text = best.field === 'description' ? snippetAround(best.text, term) : best.text;
+    if (!matches.some((match) => match.field === best!.field && match.text === text)) {
+      matches.push({ field: best.field, text });
+    }
+  }
+
+  return { task, score, matches };
+}
+
+/**
+ * Search tasks held in memory. Open tasks come before finished ones, each
+ * best match first, with ties going to the most recently updated.
+ */
+export function searchTasks(tasks: Task[], query: string, sources: SearchSources): TaskSearchResult[] {
+  const terms = tokenizeSearch(query);
+  if (terms.length === 0) return [];
+
+  return tasks
+    .filter((task) => !task.is_deleted)
+    .map((task) => matchTask(task, terms, sources))
+    .filter((result): result is TaskSearchResult => result !== null)
+    .sort((a, b) =>
+      Number(isOpenStatus(b.task.status)) - Number(isOpenStatus(a.task.status)) ||
+      b.score - a.score ||
+      b.task.updated_at.localeCompare(a.task.updated_at)
+    );
+}
+
+/**
+ * Split text into segments so that occurrences of the search terms can be
+ * rendered highlighted.
+ */
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+  const { lower, starts, ends } = foldCase(text);
+  const marked = new Array<boolean>(text.length).fill(false);
+
+  terms.forEach((term) => {
+    let index = lower.indexOf(term);
+    while (index !== -1 && term.length > 0) {
+      marked.fill(true, starts[index], ends[index + term.length - 1]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return segments;
+}
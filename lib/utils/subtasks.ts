@@ -0,0 +1,157 @@
+// The fields of a task needed to arrange it in a subtask tree
+export interface SubtaskFields {
+  id: string;
+  parent_task_id: string | null;
+  position: number | null;
+  created_at: string;
+  status: string;
+}
+
+export interface TaskTreeNode<T extends SubtaskFields> {
+  task: T;
+  children: TaskTreeNode<T>[];
+}
+
+// A tree node laid out as a row of an indented list
+export interface TaskTreeRow<T extends SubtaskFields> {
+  task: T;
+  depth: number;
+  hasChildren: boolean;
+  isCollapsed: boolean;
+}
+
+export interface TaskProgress {
+  // Direct subtasks that are done, out of those not cancelled
+  completed: number;
+  total: number;
+  // Share of the whole tree that is done, from 0 to 1
+  ratio: number;
+}
+
+/**
+ * Order siblings by their position, falling back to creation time for
+ * subtasks that were never reordered.
+ */
+export function compareSiblings(a: SubtaskFields, b: SubtaskFields): number {
+  if (a.position !== null && b.position !== null && a.position !== b.position) {
+    return a.position - b.position;
+  }
+  if (a.position !== null && b.position === null) return -1;
+  if (a.position === null && b.position !== null) return 1;
+  return a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * The direct subtasks of a task, in display order.
+ */
+export function getChildren<T extends SubtaskFields>(parentId: string, tasks: T[]): T[] {
+  return tasks.filter((task) => task.parent_task_id === parentId).sort(compareSiblings);
+}
+
+/**
+ * Every task below `taskId`, at any depth.
+ */
+export function getDescendants<T extends SubtaskFields>(taskId: string, tasks: T[]): T[] {
+  const descendants: T[] = [];
+  const visited = new Set<string>([taskId]);
+  const pending = [taskId];
+
+  while (pending.length > 0) {
+    const parentId = pending.pop()!;
+    tasks.forEach((task) => {
+      // Skip anything already seen so a corrupt parent cycle can't loop forever
+      if (task.parent_task_id === parentId && !visited.has(task.id)) {
+        visited.add(task.id);
+        descendants.push(task);
+        pending.push(task.id);
+      }
+    });
+  }
+
+  return descendants;
+}
+
+/**
+ * Arrange tasks into trees. Tasks whose parent is not in `tasks`, for
+ * example because a filter excluded it, become roots.
+ */
+export function buildTaskTree<T extends SubtaskFields>(tasks: T[]): TaskTreeNode<T>[] {
+  const ids = new Set(tasks.map((task) => task.id));
+  const childrenOf = new Map<string, T[]>();
+
+  tasks.forEach((task) => {
+    if (task.parent_task_id && ids.has(task.parent_task_id)) {
+      const siblings = childrenOf.get(task.parent_task_id) ?? [];
+      siblings.push(task);
+      childrenOf.set(task.parent_task_id, siblings);
+    }
+  });
+
+  const visited = new Set<string>();
+  const toNode = (task: T): TaskTreeNode<T> => {
+    visited.add(task.id);
+    const children = (childrenOf.get(task.id) ?? [])
+      .filter((child) => !visited.has(child.id))
+      .sort(compareSiblings)
+      .map(toNode);
+    return { task, children };
+  };
+
+  // Keep the caller's order for roots so list sorting still applies
+  return tasks
+    .filter((task) => !task.parent_task_id || !ids.has(task.parent_task_id))
+    .map(toNode);
+}
+
+/**
+ * Flatten trees into list rows, leaving out the children of collapsed tasks.
+ */
+export function flattenTaskTree<T extends SubtaskFields>(
+  nodes: TaskTreeNode<T>[],
+  collapsedIds: Set<string>,
+  depth: number = 0
+): TaskTreeRow<T>[] {
+  return nodes.flatMap((node) => {
+    const isCollapsed = collapsedIds.has(node.task.id);
+    const row: TaskTreeRow<T> = {
+      task: node.task,
+      depth,
+      hasChildren: node.children.length > 0,
+      isCollapsed,
+    };
+    return isCollapsed ? [row] : [row, ...flattenTaskTree(node.children, collapsedIds, depth + 1)];
+  });
+}
+
+/**
+ * Roll up completion from the subtasks of `taskId`. Each direct subtask
+ * weighs the same, and a subtask with children counts by its own progress
+ * until it is completed. Cancelled subtasks are left out.
+ *
+ * @returns The progress, or null when the task has no subtasks
+ */
+export function getTaskProgress<T extends SubtaskFields>(taskId: string, tasks: T[]): TaskProgress | null {
+  const rollup = (parentId: string, visited: Set<string>): TaskProgress | null => {
+    const children = tasks.filter(
+      (task) => task.parent_task_id === parentId && task.status !== 'cancelled' && !visited.has(task.id)
+    );
+    if (children.length === 0) return null;
+
+    let completed = 0;
+    let score = 0;
+
+    children.forEach((child) => {
+      if (child.status === 'completed') {
+        completed += 1;
+        score += 1;
+        return;
+      }
+      const childProgress = rollup(child.id, new Set(visited).add(child.id));
+      score += childProgress ? childProgress.ratio : 0;
+    });
+
+    return { completed, total: children.length, ratio: score / children.length };
+  };
+
+  return rollup(taskId, new Set([taskId]));
+}
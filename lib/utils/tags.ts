@@ -0,0 +1,42 @@
+import type { Tag, TaskTagRelation } from '../../store/taskStore';
+
+// Colors offered when creating or recoloring a tag
+export const TAG_COLORS = [
+  '#FF3B30',
+  '#FF9F1C',
+  '#FFCC00',
+  '#34C759',
+  '#5AC8FA',
+  '#007AFF',
+  '#5856D6',
+  '#AF52DE',
+  '#FF2D55',
+  '#8E8E93',
+];
+
+export const DEFAULT_TAG_COLOR = '#007AFF';
+
+// Trim and collapse whitespace so "  Work  stuff " and "Work stuff" are one tag
+export const normalizeTagName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+/**
+ * Find a tag by name regardless of case, to reuse it instead of creating a duplicate.
+ */
+export function findTagByName(tags: Tag[], name: string): Tag | undefined {
+  const normalized = normalizeTagName(name).toLowerCase();
+  return tags.find((tag) => tag.name.toLowerCase() === normalized);
+}
+
+/**
+ * Number of tasks each tag is assigned to, by tag id.
+ */
+export function getTagUsageCounts(taskTagRelations: TaskTagRelation[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  taskTagRelations.forEach(({ tag_id }) => {
+    counts[tag_id] = (counts[tag_id] ?? 0) + 1;
+  });
+  return counts;
+}
+
+export const sortTagsByName = (tags: Tag[]): Tag[] =>
+  [...tags].sort((a, b) => a.name.localeCompare(b.name));
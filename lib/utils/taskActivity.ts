@@ -0,0 +1,142 @@
+import { format } from 'date-fns';
+import type { List, Tag, Task, TaskActivity, ActivityValue } from '../../store/taskStore';
+import { TASK_STATUS_LABELS, normalizeTaskStatus } from './taskStatus';
+
+// Task columns whose changes show in the activity log; the rest are
+// bookkeeping the user never edits directly
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'deadline',
+  'priority',
+  'difficulty',
+  'outcome_value',
+  'is_recursive',
+  'recurrence_rule',
+  'recursion_end',
+  'parent_task_id',
+] as const;
+
+export type TrackedTaskField = (typeof TRACKED_TASK_FIELDS)[number];
+
+const FIELD_LABELS: Record<TrackedTaskField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  deadline: 'Deadline',
+  priority: 'Priority',
+  difficulty: 'Difficulty',
+  outcome_value: 'Outcome',
+  is_recursive: 'Repeat',
+  recurrence_rule: 'Repeat rule',
+  recursion_end: 'Repeat until',
+  parent_task_id: 'Parent task',
+};
+
+// Priority 1 is high, 3 is low
+const PRIORITY_LABELS: Record<number, string> = { 0: 'No priority', 1: 'High', 2: 'Medium', 3: 'Low' };
+
+// A change to one task column, named like the task_activity row it becomes
+export interface FieldChange {
+  field: TrackedTaskField;
+  old_value: ActivityValue;
+  new_value: ActivityValue;
+}
+
+export const isTrackedTaskField = (field: string): field is TrackedTaskField =>
+  (TRACKED_TASK_FIELDS as readonly string[]).includes(field);
+
+const toActivityValue = (value: unknown): ActivityValue =>
+  value === undefined ? null : (value as ActivityValue);
+
+// Timestamps are compared as instants, since the server and the device format them differently
+const isSameValue = (field: TrackedTaskField, a: ActivityValue, b: ActivityValue) => {
+  if (a === b) return true;
+  if ((field === 'deadline' || field === 'recursion_end') && typeof a === 'string' && typeof b === 'string') {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+  return false;
+};
+
+/**
+ * The tracked fields an update really changes, with their values before and
+ * after it.
+ */
+export function diffTaskFields(before: Task, updates: Partial<Task>): FieldChange[] {
+  return TRACKED_TASK_FIELDS.filter((field) => field in updates)
+    .map((field) => ({
+      field,
+      old_value: toActivityValue(before[field]),
+      new_value: toActivityValue(updates[field]),
+    }))
+    .filter((change) => !isSameValue(change.field, change.old_value, change.new_value));
+}
+
+/**
+ * Whether a task field still has the value an activity entry set it to, so
+ * reverting the entry won't undo a later change.
+ */
+export const isCurrentValue = (task: Task, entry: TaskActivity): boolean =>
+  isTrackedTaskField(entry.field) && isSameValue(entry.field, toActivityValue(task[entry.field]), entry.new_value);
+
+const truncate = (text: string, length = 40) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+interface ActivityNames {
+  tags: Pick<Tag, 'id' | 'name'>[];
+  lists: Pick<List, 'id' | 'name'>[];
+  tasks: Pick<Task, 'id' | 'title'>[];
+}
+
+const formatValue = (field: TrackedTaskField, value: ActivityValue, names: ActivityNames): string => {
+  if (value === null || value === '') return 'none';
+
+  switch (field) {
+    case 'status':
+      return TASK_STATUS_LABELS[normalizeTaskStatus(value) ?? 'ongoing'];
+    case 'deadline':
+    case 'recursion_end':
+      return format(new Date(String(value)), 'MMM d, yyyy h:mm a');
+    case 'priority':
+      return PRIORITY_LABELS[Number(value)] ?? String(value);
+    case 'is_recursive':
+      return value ? 'on' : 'off';
+    case 'parent_task_id':
+      return `"${truncate(names.tasks.find((task) => task.id === value)?.title ?? 'a deleted task')}"`;
+    default:
+      return `"${truncate(String(value))}"`;
+  }
+};
+
+/**
+ * One line describing an activity entry, like `Priority changed from High to
+ * Low` or `Added tag "errands"`.
+ */
+export function describeActivity(entry: TaskActivity, names: ActivityNames): string {
+  const added = entry.old_value === null;
+  const removed = entry.new_value === null;
+
+  switch (entry.field) {
+    case 'tag': {
+      const name = names.tags.find((tag) => tag.id === entry.target_id)?.name ?? 'a deleted tag';
+      return added ? `Added tag "${name}"` : `Removed tag "${name}"`;
+    }
+    case 'list': {
+      const name = names.lists.find((list) => list.id === entry.target_id)?.name ?? 'a deleted list';
+      return added ? `Added to list "${name}"` : `Removed from list "${name}"`;
+    }
+    case 'reminder': {
+      const formatTime = (value: ActivityValue) => format(new Date(String(value)), 'MMM d, h:mm a');
+      if (added) return `Added a reminder for ${formatTime(entry.new_value)}`;
+      if (removed) return `Removed the reminder for ${formatTime(entry.old_value)}`;
+      return `Moved a reminder from ${formatTime(entry.old_value)} to ${formatTime(entry.new_value)}`;
+    }
+  }
+
+  if (!isTrackedTaskField(entry.field)) return `Changed ${entry.field}`;
+  const label = FIELD_LABELS[entry.field];
+  if (entry.field === 'description') {
+    return removed ? 'Cleared the description' : added ? 'Added a description' : 'Edited the description';
+  }
+  return `${label} changed from ${formatValue(entry.field, entry.old_value, names)} to ${formatValue(entry.field, entry.new_value, names)}`;
+}
@@ -0,0 +1,73 @@
+// Fields stored as timestamps; the server and the client format these differently
+const TIMESTAMP_FIELDS = ['deadline', 'recursion_end', 'created_at', 'updated_at'];
+
+// Bookkeeping fields that never take part in a merge
+const IGNORED_FIELDS = ['id', 'user_id', 'created_at', 'updated_at'];
+
+export interface FieldConflict {
+  field: string;
+  base: any;
+  local: any;
+  remote: any;
+}
+
+export interface MergeResult {
+  // Local changes that can be written on top of the remote row
+  changes: Record<string, any>;
+  // Fields both sides changed to different values
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Compare two field values, treating timestamps as equal when they
+ * point at the same instant.
+ */
+export function isSameFieldValue(field: string, a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == null && b == null;
+
+  if (TIMESTAMP_FIELDS.includes(field)) {
+    const aTime = new Date(a).getTime();
+    const bTime = new Date(b).getTime();
+    return !isNaN(aTime) && aTime === bTime;
+  }
+
+  return false;
+}
+
+/**
+ * Three-way merge of a local edit against the current server row.
+ *
+ * @param base - Values of the edited fields when the client read the row
+ * @param local - The client's new values for those fields
+ * @param remote - The row as it is on the server now
+ * @returns The changes still worth writing and any same-field conflicts
+ */
+export function mergeTaskChanges(
+  base: Record<string, any>,
+  local: Record<string, any>,
+  remote: Record<string, any>
+): MergeResult {
+  const changes: Record<string, any> = {};
+  const conflicts: FieldConflict[] = [];
+
+  Object.keys(local)
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .forEach((field) => {
+      const remoteUntouched = isSameFieldValue(field, remote[field], base[field]);
+      const alreadyEqual = isSameFieldValue(field, remote[field], local[field]);
+
+      if (remoteUntouched) {
+        changes[field] = local[field];
+      } else if (!alreadyEqual) {
+        conflicts.push({
+          field,
+          base: base[field],
+          local: local[field],
+          remote: remote[field],
+        });
+      }
+    });
+
+  return { changes, conflicts };
+}
@@ -0,0 +1,405 @@
+import { addDays, endOfDay, endOfWeek, startOfDay, startOfWeek } from 'date-fns';
+import type { Task, TaskListRelation, TaskStatus, TaskTagRelation } from '../../store/taskStore';
+import { isOpenStatus, OPEN_STATUSES } from './taskStatus';
+
+// A single test on a task. Conditions that set no bounds match every task.
+export type TaskCondition =
+  | { field: 'status'; in: TaskStatus[] }
+  // 'any' matches tasks with at least one of the tags, 'all' tasks with every one
+  | { field: 'tags'; tagIds: string[]; match: 'any' | 'all' }
+  // Tasks in at least one of the lists
+  | { field: 'lists'; listIds: string[] }
+  | { field: 'priority'; min?: number; max?: number }
+  | { field: 'difficulty'; min?: number; max?: number }
+  // Case-insensitive match on title or description; '*' matches any run of characters
+  | { field: 'text'; contains: string }
+  | { field: 'deadline'; from?: Date; to?: Date }
+  // A deadline window relative to when the query runs, for saved queries
+  | { field: 'dueWithin'; period: DuePeriod }
+  | { field: 'hasDeadline'; value: boolean }
+  // Ongoing tasks whose deadline has passed
+  | { field: 'overdue'; value: boolean }
+  // Children of a task, or top-level tasks when parentId is null
+  | { field: 'parent'; parentId: string | null }
+  | { field: 'hasSubtasks'; value: boolean };
+
+export type DuePeriod = 'today' | 'tomorrow' | 'this_week' | 'next_7_days';
+
+type DeadlineCondition = Extract<TaskCondition, { field: 'deadline' }>;
+
+// A condition with relative dates resolved
+type AbsoluteCondition = Exclude<TaskCondition, { field: 'dueWithin' }>;
+
+export interface TaskQueryGroup {
+  op: 'and' | 'or';
+  conditions: TaskQueryNode[];
+}
+
+export type TaskQueryNode = TaskCondition | TaskQueryGroup;
+
+export type TaskSortKey = 'created_at' | 'updated_at' | 'deadline' | 'priority' | 'difficulty' | 'title' | 'position';
+
+export interface TaskSort {
+  key: TaskSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface TaskQuery {
+  where?: TaskQueryNode;
+  // Applied in order; tasks without a value for a key always sort last
+  sort?: TaskSort[];
+  limit?: number;
+  offset?: number;
+}
+
+// Relations the local matcher needs for tag, list and subtask conditions
+export interface TaskQueryRelations {
+  taskTagRelations: TaskTagRelation[];
+  taskListRelations: TaskListRelation[];
+}
+
+// A task query in the shape of a PostgREST request against task_query_rows
+export interface PostgrestTaskQuery {
+  // Logic tree for the `or` parameter, or null to match every row
+  filter: string | null;
+  order: { column: TaskSortKey | 'id'; ascending: boolean }[];
+  range: { from: number; to: number } | null;
+}
+
+// Columns task_query_rows adds on top of the tasks table
+export const TASK_QUERY_COLUMNS = ['tag_ids', 'list_ids', 'has_subtasks'] as const;
+
+export const DEFAULT_TASK_SORT: TaskSort[] = [{ key: 'created_at', direction: 'desc' }];
+
+export const and = (...conditions: TaskQueryNode[]): TaskQueryGroup => ({ op: 'and', conditions });
+
+export const or = (...conditions: TaskQueryNode[]): TaskQueryGroup => ({ op: 'or', conditions });
+
+/**
+ * Tasks due on the given calendar day.
+ */
+export const deadlineOn = (date: Date): DeadlineCondition => ({
+  field: 'deadline',
+  from: startOfDay(date),
+  to: endOfDay(date),
+});
+
+/**
+ * Tasks due in the Sunday-to-Saturday week containing the given date.
+ */
+export const deadlineInWeekOf = (date: Date): DeadlineCondition => ({
+  field: 'deadline',
+  from: startOfWeek(date),
+  to: endOfWeek(date),
+});
+
+const DUE_PERIOD_RANGES: Record<DuePeriod, (now: Date) => DeadlineCondition> = {
+  today: (now) => deadlineOn(now),
+  tomorrow: (now) => deadlineOn(addDays(now, 1)),
+  this_week: (now) => deadlineInWeekOf(now),
+  next_7_days: (now) => ({ field: 'deadline', from: startOfDay(now), to: endOfDay(addDays(now, 6)) }),
+};
+
+const isGroup = (node: TaskQueryNode): node is TaskQueryGroup => 'op' in node;
+
+// Turn relative conditions into absolute ones as of `now`
+const resolveCondition = (condition: TaskCondition, now: Date): AbsoluteCondition =>
+  condition.field === 'dueWithin' ? DUE_PERIOD_RANGES[condition.period](now) : condition;
+
+/**
+ * Which memberships a query needs to be run locally, so the ones it doesn't
+ * use needn't be fetched.
+ */
+export function getQueryRelations(query: TaskQuery): { lists: boolean; tags: boolean } {
+  const uses = { lists: false, tags: false };
+  const visit = (node: TaskQueryNode) => {
+    if (isGroup(node)) {
+      node.conditions.forEach(visit);
+    } else if (node.field === 'lists') {
+      uses.lists = true;
+    } else if (node.field === 'tags') {
+      uses.tags = true;
+    }
+  };
+  if (query.where) visit(query.where);
+  return uses;
+}
+
+/**
+ * Read a query back from JSON, e.g. a saved filter, restoring its dates.
+ */
+export function parseTaskQuery(value: any): TaskQuery {
+  const reviveNode = (node: any): TaskQueryNode => {
+    if (node && 'op' in node) {
+      return { op: node.op, conditions: (node.conditions ?? []).map(reviveNode) };
+    }
+    if (node?.field === 'deadline') {
+      return {
+        field: 'deadline',
+        from: node.from ? new Date(node.from) : undefined,
+        to: node.to ? new Date(node.to) : undefined,
+      };
+    }
+    return node as TaskCondition;
+  };
+
+  return {
+    where: value?.where ? reviveNode(value.where) : undefined,
+    sort: value?.sort,
+    limit: value?.limit,
+    offset: value?.offset,
+  };
+}
+
+// Whether a condition constrains anything at all; unconstrained ones match every task
+const isUnconstrained = (condition: AbsoluteCondition): boolean => {
+  switch (condition.field) {
+    case 'priority':
+    case 'difficulty':
+      return condition.min === undefined && condition.max === undefined;
+    case 'deadline':
+      return condition.from === undefined && condition.to === undefined;
+    case 'text':
+      return condition.contains.trim() === '';
+    default:
+      return false;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Local evaluation
+// ---------------------------------------------------------------------------
+
+interface LocalContext {
+  tagIdsByTask: Map<string, string[]>;
+  listIdsByTask: Map<string, string[]>;
+  parentIds: Set<string>;
+  now: Date;
+}
+
+const groupIds = <T>(relations: T[], key: (relation: T) => string, value: (relation: T) => string) => {
+  const grouped = new Map<string, string[]>();
+  relations.forEach((relation) => {
+    const ids = grouped.get(key(relation)) ?? [];
+    ids.push(value(relation));
+    grouped.set(key(relation), ids);
+  });
+  return grouped;
+};
+
+const inRange = (value: number | null, min?: number, max?: number) =>
+  value !== null && (min === undefined || value >= min) && (max === undefined || value <= max);
+
+// Mirror of ILIKE with '*' as the wildcard
+const likeToRegExp = (text: string) =>
+  new RegExp(
+    text
+      .trim()
+      .split('*')
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*'),
+    'i'
+  );
+
+const isOverdue = (task: Task, now: Date) =>
+  isOpenStatus(task.status) && !!task.deadline && new Date(task.deadline) < now;
+
+const matchesCondition = (task: Task, unresolved: TaskCondition, context: LocalContext): boolean => {
+  const condition = resolveCondition(unresolved, context.now);
+  if (isUnconstrained(condition)) return true;
+
+  switch (condition.field) {
+    case 'status':
+      return condition.in.includes(task.status);
+    case 'tags': {
+      const tagIds = context.tagIdsByTask.get(task.id) ?? [];
+      return condition.match === 'all'
+        ? condition.tagIds.every((id) => tagIds.includes(id))
+        : condition.tagIds.some((id) => tagIds.includes(id));
+    }
+    case 'lists': {
+      const listIds = context.listIdsByTask.get(task.id) ?? [];
+      return condition.listIds.some((id) => listIds.includes(id));
+    }
+    case 'priority':
+      return inRange(task.priority, condition.min, condition.max);
+    case 'difficulty':
+      return inRange(task.difficulty, condition.min, condition.max);
+    case 'text': {
+      const pattern = likeToRegExp(condition.contains);
+      return pattern.test(task.title) || (task.description !== null && pattern.test(task.description));
+    }
+    case 'deadline': {
+      if (!task.deadline) return false;
+      const deadline = new Date(task.deadline);
+      return (!condition.from || deadline >= condition.from) && (!condition.to || deadline <= condition.to);
+    }
+    case 'hasDeadline':
+      return !!task.deadline === condition.value;
+    case 'overdue':
+      return isOverdue(task, context.now) === condition.value;
+    case 'parent':
+      return task.parent_task_id === condition.parentId;
+    case 'hasSubtasks':
+      return context.parentIds.has(task.id) === condition.value;
+  }
+};
+
+const matchesNode = (task: Task, node: TaskQueryNode, context: LocalContext): boolean => {
+  if (!isGroup(node)) return matchesCondition(task, node, context);
+  if (node.conditions.length === 0) return true;
+
+  return node.op === 'and'
+    ? node.conditions.every((child) => matchesNode(task, child, context))
+    : node.conditions.some((child) => matchesNode(task, child, context));
+};
+
+const sortValue = (task: Task, key: TaskSortKey): number | string | null => {
+  switch (key) {
+    case 'created_at':
+    case 'updated_at':
+    case 'deadline':
+      return task[key] ? new Date(task[key]!).getTime() : null;
+    default:
+      return task[key];
+  }
+};
+
+const compareTasks = (sort: TaskSort[]) => (a: Task, b: Task): number => {
+  for (const { key, direction } of sort) {
+    const left = sortValue(a, key);
+    const right = sortValue(b, key);
+    if (left === right) continue;
+    if (left === null) return 1;
+    if (right === null) return -1;
+
+    const order = typeof left === 'string' ? left.localeCompare(right as string) : left - (right as number);
+    if (order !== 0) return direction === 'asc' ? order : -order;
+  }
+  // Keep pages stable when every sort key ties
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+/**
+ * Run a query against tasks held in memory. Deleted tasks never match.
+ */
+export function runTaskQuery(
+  tasks: Task[],
+  query: TaskQuery,
+  relations: TaskQueryRelations,
+  now: Date = new Date()
+): Task[] {
+  const liveTasks = tasks.filter((task) => !task.is_deleted);
+  const context: LocalContext = {
+    tagIdsByTask: groupIds(relations.taskTagRelations, (rel) => rel.task_id, (rel) => rel.tag_id),
+    listIdsByTask: groupIds(relations.taskListRelations, (rel) => rel.task_id, (rel) => rel.list_id),
+    parentIds: new Set(liveTasks.map((task) => task.parent_task_id).filter((id): id is string => !!id)),
+    now,
+  };
+
+  const matched = query.where
+    ? liveTasks.filter((task) => matchesNode(task, query.where!, context))
+    : liveTasks;
+  const sorted = [...matched].sort(compareTasks(query.sort ?? DEFAULT_TASK_SORT));
+
+  const offset = query.offset ?? 0;
+  return query.limit === undefined ? sorted.slice(offset) : sorted.slice(offset, offset + query.limit);
+}
+
+// ---------------------------------------------------------------------------
+// PostgREST translation
+// ---------------------------------------------------------------------------
+
+/**
+ * Drop the view's relation columns from a task_query_rows row.
+ */
+export function fromTaskQueryRow(row: Record<string, any>): Task {
+  const task = { ...row };
+  TASK_QUERY_COLUMNS.forEach((column) => delete task[column]);
+  return task as Task;
+}
+
+// Double-quote a value so commas, dots and parentheses in it survive the logic tree parser
+const quote = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+// Ids are uuids, so array elements need no quoting
+const pgArray = (ids: string[]) => `{${ids.join(',')}}`;
+
+const combine = (op: 'and' | 'or', parts: string[]) => (parts.length === 1 ? parts[0] : `${op}(${parts.join(',')})`);
+
+const rangeFilter = (column: string, min?: string, max?: string): string => {
+  const parts: string[] = [];
+  if (min !== undefined) parts.push(`${column}.gte.${quote(min)}`);
+  if (max !== undefined) parts.push(`${column}.lte.${quote(max)}`);
+  return combine('and', parts);
+};
+
+// ILIKE pattern for a search text: LIKE metacharacters are escaped, '*' stays a wildcard
+const likePattern = (text: string) => `*${text.trim().replace(/[\\%_]/g, '\\$&')}*`;
+
+const conditionFilter = (unresolved: TaskCondition, now: Date): string | null => {
+  const condition = resolveCondition(unresolved, now);
+  if (isUnconstrained(condition)) return null;
+
+  switch (condition.field) {
+    case 'status':
+      return `status.in.(${condition.in.map(quote).join(',')})`;
+    case 'tags':
+      return `tag_ids.${condition.match === 'all' ? 'cs' : 'ov'}.${pgArray(condition.tagIds)}`;
+    case 'lists':
+      return `list_ids.ov.${pgArray(condition.listIds)}`;
+    case 'priority':
+    case 'difficulty':
+      return rangeFilter(condition.field, condition.min?.toString(), condition.max?.toString());
+    case 'text': {
+      const pattern = quote(likePattern(condition.contains));
+      return `or(title.ilike.${pattern},description.ilike.${pattern})`;
+    }
+    case 'deadline':
+      return rangeFilter('deadline', condition.from?.toISOString(), condition.to?.toISOString());
+    case 'hasDeadline':
+      return condition.value ? 'deadline.not.is.null' : 'deadline.is.null';
+    case 'overdue': {
+      const nowValue = quote(now.toISOString());
+      return condition.value
+        ? `and(status.in.(${OPEN_STATUSES.join(',')}),deadline.lt.${nowValue})`
+        : `or(status.not.in.(${OPEN_STATUSES.join(',')}),deadline.is.null,deadline.gte.${nowValue})`;
+    }
+    case 'parent':
+      return condition.parentId === null ? 'parent_task_id.is.null' : `parent_task_id.eq.${quote(condition.parentId)}`;
+    case 'hasSubtasks':
+      return `has_subtasks.is.${condition.value}`;
+  }
+};
+
+// Returns null for nodes that match every row
+const nodeFilter = (node: TaskQueryNode, now: Date): string | null => {
+  if (!isGroup(node)) return conditionFilter(node, now);
+
+  const parts = node.conditions.map((child) => nodeFilter(child, now));
+  // One unconstrained branch makes an or-group match everything
+  if (node.op === 'or' && parts.includes(null)) return null;
+
+  const constrained = parts.filter((part): part is string => part !== null);
+  return constrained.length === 0 ? null : combine(node.op, constrained);
+};
+
+/**
+ * Translate a query into a single PostgREST request on the task_query_rows
+ * view, matching what runTaskQuery returns for the same tasks.
+ */
+export function toPostgrestTaskQuery(query: TaskQuery, now: Date = new Date()): PostgrestTaskQuery {
+  const offset = query.offset ?? 0;
+  const range = query.limit !== undefined
+    ? { from: offset, to: offset + query.limit - 1 }
+    : offset > 0 ? { from: offset, to: Number.MAX_SAFE_INTEGER } : null;
+
+  return {
+    filter: query.where ? nodeFilter(query.where, now) : null,
+    order: [
+      ...(query.sort ?? DEFAULT_TASK_SORT).map(({ key, direction }) => ({ column: key, ascending: direction === 'asc' })),
+      { column: 'id' as const, ascending: true },
+    ],
+    range,
+  };
+}
@@ -0,0 +1,173 @@
+import type { Task, TaskStatus, TaskStatusChange } from '../../store/taskStore';
+
+export const TASK_STATUSES: TaskStatus[] = ['ongoing', 'inprogress', 'completed', 'cancelled'];
+
+// Statuses of tasks that still need doing
+export const OPEN_STATUSES: TaskStatus[] = ['ongoing', 'inprogress'];
+
+/**
+ * Where a task can go from each status. Finished tasks are reopened before
+ * they can be started, completed or cancelled again.
+ */
+export const STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  ongoing: ['inprogress', 'completed', 'cancelled'],
+  inprogress: ['ongoing', 'completed', 'cancelled'],
+  completed: ['ongoing'],
+  cancelled: ['ongoing'],
+};
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  ongoing: 'Ongoing',
+  inprogress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// Spellings used by older versions of the app and by other apps' exports,
+// letters only, so "In Progress" and "in_progress" are both found
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  ongoing: 'ongoing',
+  open: 'ongoing',
+  todo: 'ongoing',
+  inprogress: 'inprogress',
+  inprocess: 'inprogress',
+  started: 'inprogress',
+  completed: 'completed',
+  complete: 'completed',
+  done: 'completed',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+};
+
+export const isOpenStatus = (status: TaskStatus): boolean => OPEN_STATUSES.includes(status);
+
+export const canTransition = (from: TaskStatus, to: TaskStatus): boolean => STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Why a status change isn't allowed, or null when it is. Setting the status
+ * a task already has is allowed and does nothing.
+ */
+export const getTransitionError = (from: TaskStatus, to: TaskStatus): string | null => {
+  if (from === to || canTransition(from, to)) return null;
+  return `A ${TASK_STATUS_LABELS[from].toLowerCase()} task can't be ${TASK_STATUS_LABELS[to].toLowerCase()}; reopen it first`;
+};
+
+/**
+ * The canonical status for a stored or imported value, or null when it
+ * isn't one.
+ */
+export const normalizeTaskStatus = (value: unknown): TaskStatus | null => {
+  if (typeof value !== 'string') return null;
+  return STATUS_ALIASES[value.toLowerCase().replace(/[^a-z]/g, '')] ?? null;
+};
+
+export interface TaskStatusSummary {
+  // When the task was last completed, while it still is
+  completedAt: string | null;
+  // Times it went from completed or cancelled back to open
+  reopenCount: number;
+  // From when work on it last began to its completion: the first start since
+  // it was created or last reopened, or else that creation or reopen
+  cycleTimeMs: number | null;
+}
+
+// The database and the device write timestamps in different ISO formats
+const toTime = (change: TaskStatusChange) => new Date(change.changed_at).getTime();
+
+const isReopen = (change: TaskStatusChange) =>
+  change.from_status !== null && !isOpenStatus(change.from_status) && isOpenStatus(change.to_status);
+
+/**
+ * Completion date, reopen count and cycle time of one task, from its status
+ * history.
+ */
+export function summarizeStatusHistory(
+  changes: TaskStatusChange[],
+  task: Pick<Task, 'status' | 'created_at'>
+): TaskStatusSummary {
+  const sorted = [...changes].sort((a, b) => toTime(a) - toTime(b));
+  const reopenCount = sorted.filter(isReopen).length;
+
+  const completionIndex = task.status === 'completed'
+    ? sorted.map((change) => change.to_status).lastIndexOf('completed')
+    : -1;
+  if (completionIndex === -1) {
+    return { completedAt: null, reopenCount, cycleTimeMs: null };
+  }
+
+  const beforeCompletion = sorted.slice(0, completionIndex);
+  const lastReopenIndex = beforeCompletion.map(isReopen).lastIndexOf(true);
+  const sinceReopen = beforeCompletion.slice(lastReopenIndex + 1);
+  const startedAt = sinceReopen.find((change) => change.to_status === 'inprogress')?.changed_at
+    ?? (lastReopenIndex !== -1 ? beforeCompletion[lastReopenIndex].changed_at : task.created_at);
+
+  const completedAt = sorted[completionIndex].changed_at;
+  return {
+    completedAt,
+    reopenCount,
+    cycleTimeMs: Math.max(0, new Date(completedAt).getTime() - new Date(startedAt).getTime()),
+  };
+}
+
+export interface StatusStatistics {
+  completedCount: number;
+  // Tasks reopened at least once, and reopens in total
+  reopenedTaskCount: number;
+  reopenCount: number;
+  averageCycleTimeMs: number | null;
+  medianCycleTimeMs: number | null;
+}
+
+/**
+ * Completion and cycle-time statistics over the given tasks, optionally
+ * only counting tasks completed since a date.
+ */
+export function getStatusStatistics(
+  changes: TaskStatusChange[],
+  tasks: Pick<Task, 'id' | 'status' | 'created_at'>[],
+  since?: Date
+): StatusStatistics {
+  const changesByTask = new Map<string, TaskStatusChange[]>();
+  changes.forEach((change) => {
+    changesByTask.set(change.task_id, [...(changesByTask.get(change.task_id) ?? []), change]);
+  });
+
+  const cycleTimes: number[] = [];
+  const stats: StatusStatistics = {
+    completedCount: 0,
+    reopenedTaskCount: 0,
+    reopenCount: 0,
+    averageCycleTimeMs: null,
+    medianCycleTimeMs: null,
+  };
+
+  tasks.forEach((task) => {
+    const summary = summarizeStatusHistory(changesByTask.get(task.id) ?? [], task);
+    if (summary.reopenCount > 0) {
+      stats.reopenedTaskCount += 1;
+      stats.reopenCount += summary.reopenCount;
+    }
+    if (!summary.completedAt || (since && new Date(summary.completedAt) < since)) return;
+
+    stats.completedCount += 1;
+    if (summary.cycleTimeMs !== null) cycleTimes.push(summary.cycleTimeMs);
+  });
+
+  if (cycleTimes.length > 0) {
+    const sorted = [...cycleTimes].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    stats.averageCycleTimeMs = sorted.reduce((sum, time) => sum + time, 0) / sorted.length;
+    stats.medianCycleTimeMs = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+  return stats;
+}
+
+// A cycle time as "3d 4h", "2h 15m" or "5m"
+export const formatCycleTime = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
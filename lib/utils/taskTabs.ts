@@ -0,0 +1,97 @@
+import type { BuiltinTab, SmartList } from '../../store/models/smartList';
+import type { List } from '../../store/taskStore';
+import { parseTaskQuery, TaskQuery } from './taskQuery';
+import { DEFAULT_LIST_ICON, getActiveLists } from './lists';
+import { OPEN_STATUSES } from './taskStatus';
+
+// A tab of the task list screen, built-in or saved
+export interface TaskTab {
+  // The built-in tab id, the smart list id for saved filters, or the list id
+  key: string;
+  builtin: BuiltinTab | null;
+  // The smart_lists row behind the tab, if there is one yet
+  smartList: SmartList | null;
+  // Null for built-in tabs, whose names are translated
+  name: string | null;
+  icon: string;
+  // Only lists have a color of their own
+  color: string | null;
+  query: TaskQuery;
+  position: number;
+  isPinned: boolean;
+  isHidden: boolean;
+}
+
+export const BUILTIN_TABS: Record<BuiltinTab, { icon: string; query: TaskQuery }> = {
+  today: { icon: 'today-outline', query: { where: { field: 'dueWithin', period: 'today' } } },
+  all: { icon: 'list-outline', query: { where: { field: 'status', in: OPEN_STATUSES } } },
+  completed: { icon: 'checkmark-circle-outline', query: { where: { field: 'status', in: ['completed'] } } },
+  tomorrow: { icon: 'calendar-outline', query: { where: { field: 'dueWithin', period: 'tomorrow' } } },
+  week: { icon: 'calendar-number-outline', query: { where: { field: 'dueWithin', period: 'this_week' } } },
+};
+
+export const BUILTIN_TAB_ORDER: BuiltinTab[] = ['today', 'all', 'completed', 'tomorrow', 'week'];
+
+export const DEFAULT_SMART_LIST_ICON = 'funnel-outline';
+
+/**
+ * Merge the built-in tabs with the user's smart lists into display order:
+ * pinned tabs first, then by position. Built-in tabs the user hasn't
+ * touched keep their default place at the front.
+ */
+export function buildTaskTabs(smartLists: SmartList[]): TaskTab[] {
+  const builtinTabs = BUILTIN_TAB_ORDER.map((builtin, index): TaskTab => {
+    const row = smartLists.find((list) => list.builtin === builtin) ?? null;
+    return {
+      key: builtin,
+      builtin,
+      smartList: row,
+      name: null,
+      icon: BUILTIN_TABS[builtin].icon,
+      color: null,
+      query: BUILTIN_TABS[builtin].query,
+      position: row?.position ?? index,
+      isPinned: row?.is_pinned ?? false,
+      isHidden: row?.is_hidden ?? false,
+    };
+  });
+
+  const savedTabs = smartLists
+    .filter((list) => list.builtin === null)
+    .map((list): TaskTab => ({
+      key: list.id,
+      builtin: null,
+      smartList: list,
+      name: list.name,
+      icon: list.icon ?? DEFAULT_SMART_LIST_ICON,
+      color: null,
+      query: parseTaskQuery(list.query),
+      position: list.position,
+      isPinned: list.is_pinned,
+      isHidden: list.is_hidden,
+    }));
+
+  // Stable sort, so built-in tabs win ties with saved ones
+  return [...builtinTabs, ...savedTabs].sort(
+    (a, b) => Number(b.isPinned) - Number(a.isPinned) || a.position - b.position
+  );
+}
+
+/**
+ * A tab for each active list, in the order set on the lists screen. List
+ * tabs follow the built-in and saved tabs and are managed with the lists.
+ */
+export function buildListTabs(lists: List[]): TaskTab[] {
+  return getActiveLists(lists).map((list) => ({
+    key: list.id,
+    builtin: null,
+    smartList: null,
+    name: list.name,
+    icon: list.icon ?? DEFAULT_LIST_ICON,
+    color: list.color,
+    query: { where: { field: 'lists', listIds: [list.id] } },
+    position: list.position,
+    isPinned: false,
+    isHidden: false,
+  }));
+}
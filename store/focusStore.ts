@@ -0,0 +1,117 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/data/supabase';
+import { useOutboxStore } from '@/store/outboxStore';
+import { FocusSession } from '@/store/models/focusSession';
+import { debug } from '@/lib/logger';
+
+export type NewFocusSession = Omit<FocusSession, 'id' | 'user_id' | 'created_at'>;
+
+interface FocusState {
+  sessions: FocusSession[];
+  loading: boolean;
+  error: string | null;
+
+  fetchSessions: () => Promise<void>;
+  recordSession: (session: NewFocusSession) => Promise<FocusSession | null>;
+  clearSessions: () => void;
+}
+
+const getSessionUserId = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('No authenticated user');
+  }
+  return session.user.id;
+};
+
+/**
+ * Focus sessions written by the focus timer. Cached on the device and
+ * written through the outbox, so sessions timed offline are kept.
+ */
+const useFocusStore = create<FocusState>()(
+  persist(
+    (set, get) => ({
+      sessions: [],
+      loading: false,
+      error: null,
+
+      fetchSessions: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const userId = await getSessionUserId();
+          const { data, error } = await supabase
+            .from('focus_sessions')
+            .select('*')
+            .eq('user_id', userId)
+            .order('started_at', { ascending: true });
+
+          if (error) throw error;
+
+          // Keep sessions that haven't reached the server, whether queued or failed
+          const rows = (data ?? []) as FocusSession[];
+          const synced = new Set(rows.map((session) => session.id));
+          const pending = new Set(
+            useOutboxStore.getState().getPendingMutations('focus_sessions').map((m) => m.payload?.id)
+          );
+          set((state) => ({
+            sessions: [...rows, ...state.sessions.filter((session) => !synced.has(session.id) && pending.has(session.id))],
+          }));
+
+          debug('Fetched focus sessions', { count: rows.length });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch focus sessions';
+          debug('Error fetching focus sessions', { error: errorMessage });
+          set({ error: errorMessage });
+        } finally {
+          set({ loading: false });
+        }
+      },
+
+      recordSession: async (newSession) => {
+        set({ error: null });
+
+        try {
+          const userId = await getSessionUserId();
+          const session: FocusSession = {
+            ...newSession,
+            id: uuidv4(),
+            user_id: userId,
+            created_at: new Date().toISOString(),
+          };
+
+          set({ sessions: [...get().sessions, session] });
+          useOutboxStore.getState().enqueue({
+            table: 'focus_sessions',
+            operation: 'insert',
+            payload: session,
+            match: { id: session.id },
+            taskId: session.task_id,
+          });
+
+          debug('Recorded focus session', { id: session.id, seconds: session.focused_seconds });
+          return session;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to record focus session';
+          debug('Error recording focus session', { error: errorMessage });
+          set({ error: errorMessage });
+          return null;
+        }
+      },
+
+      clearSessions: () => {
+        set({ sessions: [], error: null });
+      },
+    }),
+    {
+      name: 'focus-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ sessions: state.sessions }),
+    }
+  )
+);
+
+export default useFocusStore;
@@ -0,0 +1,186 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import useFocusStore from '@/store/focusStore';
+import { cancelFocusNotifications, scheduleFocusNotifications } from '@/lib/focusNotifications';
+import {
+  FocusTimerMode,
+  PomodoroClock,
+  POMODORO_CLOCK,
+  STOPWATCH_CLOCK,
+  TimerClock,
+  advancePomodoro,
+  getElapsedMs,
+  getUpcomingPhaseEnds,
+  isRunning,
+  pauseClock,
+  startClock,
+} from '@/lib/utils/focusTimer';
+import { debug } from '@/lib/logger';
+
+// Period ends notified ahead; the rest are scheduled when the app is next opened
+const NOTIFIED_PHASE_ENDS = 4;
+
+interface FocusTimerTask {
+  id: string;
+  title: string;
+}
+
+interface FocusTimerState {
+  task: FocusTimerTask | null;
+  mode: FocusTimerMode;
+  pomodoro: PomodoroClock;
+  stopwatch: TimerClock;
+
+  setTask: (task: FocusTimerTask) => void;
+  setMode: (mode: FocusTimerMode) => void;
+  start: () => void;
+  pause: () => void;
+  reset: () => void;
+  sync: () => void;
+  clearTimer: () => void;
+}
+
+// Save the focus session on a clock, if any time was focused on it
+const recordSession = (task: FocusTimerTask | null, mode: FocusTimerMode, clock: TimerClock, endedAt: number, completed: boolean) => {
+  if (!task || clock.sessionStartedAt === null) return;
+  const focusedSeconds = Math.floor(getElapsedMs(clock, endedAt) / 1000);
+  if (focusedSeconds === 0) return;
+
+  useFocusStore.getState().recordSession({
+    task_id: task.id,
+    mode: mode === 'pomo' ? 'pomodoro' : 'stopwatch',
+    started_at: new Date(clock.sessionStartedAt).toISOString(),
+    ended_at: new Date(endedAt).toISOString(),
+    focused_seconds: focusedSeconds,
+    interruptions: clock.interruptions,
+    completed,
+  });
+};
+
+const rescheduleNotifications = (state: Pick<FocusTimerState, 'task' | 'mode' | 'pomodoro'>) => {
+  const request = state.task && state.mode === 'pomo' && isRunning(state.pomodoro)
+    ? scheduleFocusNotifications(state.task, getUpcomingPhaseEnds(state.pomodoro, NOTIFIED_PHASE_ENDS))
+    : cancelFocusNotifications();
+
+  request.catch((error) => console.warn('[FocusTimer] Scheduling notifications failed:', error?.message));
+};
+
+/**
+ * The focus timer, kept as start times rather than a countdown so it carries
+ * on while the app is in the background or closed. Periods that ran out in
+ * the meantime are caught up on by sync, which saves their sessions as they
+ * would have been saved with the app open.
+ */
+const useFocusTimerStore = create<FocusTimerState>()(
+  persist(
+    (set, get) => ({
+      task: null,
+      mode: 'pomo',
+      pomodoro: POMODORO_CLOCK,
+      stopwatch: STOPWATCH_CLOCK,
+
+      // A running timer stays on its task; a paused one ends its sessions to move to another
+      setTask: (task) => {
+        const state = get();
+        if (state.task?.id === task.id) {
+          set({ task });
+          return;
+        }
+        if (isRunning(state.pomodoro) || isRunning(state.stopwatch)) return;
+
+        const now = Date.now();
+        recordSession(state.task, 'pomo', state.pomodoro, now, false);
+        recordSession(state.task, 'stopwatch', state.stopwatch, now, true);
+        set({ task, pomodoro: POMODORO_CLOCK, stopwatch: STOPWATCH_CLOCK });
+      },
+
+      // Each mode keeps its own clock, so switching pauses the one left
+      setMode: (mode) => {
+        const state = get();
+        if (state.mode === mode) return;
+
+        state.pause();
+        set({ mode });
+      },
+
+      start: () => {
+        const state = get();
+        if (!state.task) return;
+
+        const now = Date.now();
+        if (state.mode === 'pomo') {
+          set({ pomodoro: startClock(state.pomodoro, now) });
+        } else {
+          set({ stopwatch: startClock(state.stopwatch, now) });
+        }
+        rescheduleNotifications(get());
+        debug('Started focus timer', { mode: state.mode, taskId: state.task.id });
+      },
+
+      pause: () => {
+        get().sync();
+        const state = get();
+        const now = Date.now();
+
+        if (state.mode === 'pomo') {
+          set({ pomodoro: pauseClock(state.pomodoro, now) });
+        } else {
+          set({ stopwatch: pauseClock(state.stopwatch, now) });
+        }
+        rescheduleNotifications(get());
+      },
+
+      reset: () => {
+        get().sync();
+        const state = get();
+        const now = Date.now();
+
+        if (state.mode === 'pomo') {
+          recordSession(state.task, 'pomo', state.pomodoro, now, false);
+          set({ pomodoro: POMODORO_CLOCK });
+        } else {
+          recordSession(state.task, 'stopwatch', state.stopwatch, now, true);
+          set({ stopwatch: STOPWATCH_CLOCK });
+        }
+        rescheduleNotifications(get());
+      },
+
+      sync: () => {
+        const state = get();
+        if (!isRunning(state.pomodoro)) return;
+
+        const { clock, ended } = advancePomodoro(state.pomodoro, Date.now());
+        if (ended.length === 0) return;
+
+        for (const end of ended) {
+          if (end.phase === 'work') {
+            recordSession(state.task, 'pomo', end.clock, end.endedAt, true);
+          }
+        }
+        set({ pomodoro: clock });
+        if (state.mode === 'pomo') rescheduleNotifications(get());
+
+        debug('Caught up on pomodoro periods', { ended: ended.length, phase: clock.phase });
+      },
+
+      // Drops the timer without saving its sessions, for signing out
+      clearTimer: () => {
+        set({ task: null, mode: 'pomo', pomodoro: POMODORO_CLOCK, stopwatch: STOPWATCH_CLOCK });
+        rescheduleNotifications(get());
+      },
+    }),
+    {
+      name: 'focus-timer-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        task: state.task,
+        mode: state.mode,
+        pomodoro: state.pomodoro,
+        stopwatch: state.stopwatch,
+      }),
+    }
+  )
+);
+
+export default useFocusTimerStore;
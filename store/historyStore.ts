@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import type { Task } from './taskStore';
+
+// How many mutations can be undone
+const MAX_HISTORY = 50;
+
+/**
+ * A task before and after a mutation. Null means it wasn't in the task
+ * list: not created yet, or deleted.
+ */
+export interface TaskChange {
+  before: Task | null;
+  after: Task | null;
+}
+
+// A tag or list a task was put in or taken out of
+export interface MembershipChange {
+  kind: 'tag' | 'list';
+  taskId: string;
+  targetId: string;
+  added: boolean;
+}
+
+export interface HistoryEntry {
+  id: string;
+  // Says what happened, like "Task deleted"
+  label: string;
+  changes: TaskChange[];
+  memberships: MembershipChange[];
+  createdAt: string;
+}
+
+// What the undo snackbar offers: undoing the latest entry, or redoing the one just undone
+export interface HistoryNotice {
+  entryId: string;
+  label: string;
+  action: 'undo' | 'redo';
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  notice: HistoryNotice | null;
+  record: (label: string, changes: TaskChange[], memberships?: MembershipChange[]) => void;
+  // Move the latest entry between the stacks; the task store applies it
+  takeUndo: () => HistoryEntry | null;
+  takeRedo: () => HistoryEntry | null;
+  dismissNotice: () => void;
+  // Drop entries touching tasks that no longer exist anywhere, like purged ones
+  forgetTasks: (ids: string[]) => void;
+  clear: () => void;
+}
+
+// Kept in memory only: the tasks an entry restores may be long gone after a restart
+const useHistoryStore = create<HistoryState>()((set, get) => ({
+  past: [],
+  future: [],
+  notice: null,
+  record: (label, changes, memberships = []) => {
+    if (changes.length === 0 && memberships.length === 0) return;
+    const entry: HistoryEntry = { id: uuidv4(), label, changes, memberships, createdAt: new Date().toISOString() };
+    set((state) => ({
+      past: [...state.past, entry].slice(-MAX_HISTORY),
+      future: [],
+      notice: { entryId: entry.id, label, action: 'undo' },
+    }));
+  },
+  takeUndo: () => {
+    const entry = get().past[get().past.length - 1];
+    if (!entry) return null;
+    set((state) => ({
+      past: state.past.slice(0, -1),
+      future: [...state.future, entry],
+      notice: { entryId: entry.id, label: entry.label, action: 'redo' },
+    }));
+    return entry;
+  },
+  takeRedo: () => {
+    const entry = get().future[get().future.length - 1];
+    if (!entry) return null;
+    set((state) => ({
+      past: [...state.past, entry],
+      future: state.future.slice(0, -1),
+      notice: { entryId: entry.id, label: entry.label, action: 'undo' },
+    }));
+    return entry;
+  },
+  dismissNotice: () => set({ notice: null }),
+  forgetTasks: (ids) => {
+    const forgotten = new Set(ids);
+    const keep = (entry: HistoryEntry) =>
+      !entry.changes.some((change) => forgotten.has((change.before ?? change.after)!.id)) &&
+      !entry.memberships.some((membership) => forgotten.has(membership.taskId));
+    set((state) => {
+      const past = state.past.filter(keep);
+      const future = state.future.filter(keep);
+      const isNoticeKept = [...past, ...future].some((entry) => entry.id === state.notice?.entryId);
+      return { past, future, notice: isNoticeKept ? state.notice : null };
+    });
+  },
+  clear: () => set({ past: [], future: [], notice: null }),
+}));
+
+export default useHistoryStore;
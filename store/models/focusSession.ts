@@ -0,0 +1,23 @@
+// How a session was timed: a pomodoro counting down, or a stopwatch counting up
+export type FocusMode = 'pomodoro' | 'stopwatch';
+
+/**
+ * A row of focus_sessions: one stretch of timed work on a task, from
+ * pressing start to the timer running out or being stopped. Breaks between
+ * pomodoros aren't sessions.
+ */
+export interface FocusSession {
+  id: string;
+  user_id: string;
+  task_id: string;
+  mode: FocusMode;
+  started_at: string;
+  ended_at: string;
+  // Time spent with the timer running; pauses don't count
+  focused_seconds: number;
+  // Times it was paused before it ended
+  interruptions: number;
+  // A pomodoro that ran all the way down; stopwatch sessions end when the user stops them
+  completed: boolean;
+  created_at: string;
+}
@@ -0,0 +1,45 @@
+export interface QuietHours {
+  enabled: boolean;
+  // Local wall-clock times as HH:mm; the window may wrap past midnight
+  start: string;
+  end: string;
+}
+
+export interface NotificationPreferences {
+  push_enabled: boolean;
+  reminders_enabled: boolean;
+  email_enabled: boolean;
+  quiet_hours: QuietHours;
+  // Minutes before the deadline for the reminder added to new tasks, or null for none
+  default_reminder_offset: number | null;
+  muted_list_ids: string[];
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  push_enabled: true,
+  reminders_enabled: true,
+  email_enabled: false,
+  quiet_hours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+  },
+  default_reminder_offset: 15,
+  muted_list_ids: [],
+};
+
+/**
+ * Fill in defaults for anything missing from stored preferences, e.g. keys
+ * added after the profile row was last written.
+ */
+export function normalizeNotificationPreferences(stored: Partial<NotificationPreferences> | null | undefined): NotificationPreferences {
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...stored,
+    quiet_hours: {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.quiet_hours,
+      ...stored?.quiet_hours,
+    },
+    muted_list_ids: stored?.muted_list_ids ?? [],
+  };
+}
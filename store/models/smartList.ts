@@ -0,0 +1,24 @@
+import type { TaskQuery } from '@/lib/utils/taskQuery';
+
+// Tabs the task list screen always offers
+export type BuiltinTab = 'today' | 'all' | 'completed' | 'tomorrow' | 'week';
+
+/**
+ * A row of smart_lists: either a saved filter, or the placement of one of
+ * the built-in tabs once the user has moved, pinned or hidden it.
+ */
+export interface SmartList {
+  id: string;
+  user_id: string;
+  builtin: BuiltinTab | null;
+  // Name, icon and query are only set for saved filters
+  name: string | null;
+  icon: string | null;
+  // As stored, with dates serialized; read it with parseTaskQuery
+  query: TaskQuery | null;
+  position: number;
+  is_pinned: boolean;
+  is_hidden: boolean;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,113 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '@/data/supabase';
+import { useOutboxStore } from '@/store/outboxStore';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  normalizeNotificationPreferences,
+} from '@/store/models/notificationPreferences';
+import { debug } from '@/lib/logger';
+
+interface NotificationPreferencesState {
+  preferences: NotificationPreferences;
+  loading: boolean;
+  error: string | null;
+
+  loadPreferences: () => Promise<void>;
+  updatePreferences: (updates: Partial<NotificationPreferences>) => Promise<void>;
+  toggleListMuted: (listId: string) => Promise<void>;
+}
+
+/**
+ * Notification preferences, cached on the device and stored on the user's
+ * profile so they follow the user across devices. Changes are written
+ * through the outbox and so can be made offline.
+ */
+const useNotificationPreferencesStore = create<NotificationPreferencesState>()(
+  persist(
+    (set, get) => ({
+      preferences: DEFAULT_NOTIFICATION_PREFERENCES,
+      loading: false,
+      error: null,
+
+      loadPreferences: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const { data: { session } } = await supabase.auth.getSession();
+          if (!session?.user) {
+            throw new Error('No authenticated user');
+          }
+
+          const { data, error } = await supabase
+            .from('profiles')
+            .select('notification_preferences')
+            .eq('id', session.user.id)
+            .single();
+
+          if (error) throw error;
+
+          // Don't roll back a change that hasn't reached the server, whether queued or failed
+          const hasPendingChanges = useOutboxStore.getState().getPendingMutations('profiles').length > 0;
+          if (!hasPendingChanges) {
+            set({ preferences: normalizeNotificationPreferences(data?.notification_preferences) });
+          }
+
+          debug('Loaded notification preferences', { hasPendingChanges });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to load notification preferences';
+          debug('Error loading notification preferences', { error: errorMessage });
+          set({ error: errorMessage });
+        } finally {
+          set({ loading: false });
+        }
+      },
+
+      updatePreferences: async (updates) => {
+        set({ error: null });
+
+        try {
+          const { data: { session } } = await supabase.auth.getSession();
+          if (!session?.user) {
+            throw new Error('No authenticated user');
+          }
+
+          const preferences = normalizeNotificationPreferences({ ...get().preferences, ...updates });
+          set({ preferences });
+
+          useOutboxStore.getState().enqueue({
+            table: 'profiles',
+            operation: 'update',
+            payload: { notification_preferences: preferences, updated_at: new Date().toISOString() },
+            match: { id: session.user.id },
+            taskId: null,
+          });
+
+          debug('Updated notification preferences', updates);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to update notification preferences';
+          debug('Error updating notification preferences', { error: errorMessage });
+          set({ error: errorMessage });
+        }
+      },
+
+      toggleListMuted: async (listId) => {
+        const { muted_list_ids } = get().preferences;
+        await get().updatePreferences({
+          muted_list_ids: muted_list_ids.includes(listId)
+            ? muted_list_ids.filter((id) => id !== listId)
+            : [...muted_list_ids, listId],
+        });
+      },
+    }),
+    {
+      name: 'notification-preferences-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ preferences: state.preferences }),
+    }
+  )
+);
+
+export default useNotificationPreferencesStore;
@@ -0,0 +1,424 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/data/supabase';
+import { debug } from '@/lib/logger';
+
+// Tables that can receive queued writes
+export type OutboxTable =
+  | 'tasks'
+  | 'tags'
+  | 'lists'
+  | 'task_lists'
+  | 'task_tags'
+  | 'task_reminders'
+  | 'task_activity'
+  | 'focus_sessions'
+  | 'profiles'
+  | 'smart_lists';
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+// Sync state of a single task as seen by the UI
+export type TaskSyncState = 'synced' | 'pending' | 'failed';
+
+/**
+ * Optimistic concurrency check for an update: it only applies while
+ * `column` still holds `value` on the server. `base` keeps the values the
+ * edited fields had when the client read the row, for merging on conflict.
+ */
+export interface MutationGuard {
+  column: string;
+  value: string;
+  base: Record<string, any>;
+}
+
+/**
+ * A write recorded while the change was applied locally.
+ * `match` holds the filters used by update and delete operations: equality,
+ * or one of several values for an array.
+ * A batch writes several tasks in one request: `rows` are inserted instead
+ * of `payload`, `taskIds` lists every task it touches and its array filters
+ * hold those task ids.
+ * `userId` is the user whose session recorded it; it only replays under that user.
+ */
+export interface PendingMutation {
+  id: string;
+  userId: string | null;
+  table: OutboxTable;
+  operation: OutboxOperation;
+  payload?: Record<string, any>;
+  rows?: Record<string, any>[];
+  match?: Record<string, string | boolean | string[]>;
+  guard?: MutationGuard;
+  taskId: string | null;
+  taskIds?: string[];
+  createdAt: string;
+  attempts: number;
+  lastError: string | null;
+}
+
+export type NewMutation = Pick<
+  PendingMutation,
+  'table' | 'operation' | 'payload' | 'rows' | 'match' | 'guard' | 'taskId' | 'taskIds'
+>;
+
+// Every task a mutation writes, for sync state and per-task ordering
+export const getMutationTaskIds = (mutation: PendingMutation): string[] =>
+  mutation.taskIds ?? (mutation.taskId ? [mutation.taskId] : []);
+
+// Null stands for the mutations that don't belong to any task
+const touchesTask = (mutation: PendingMutation, taskId: string | null) =>
+  taskId === null ? getMutationTaskIds(mutation).length === 0 : getMutationTaskIds(mutation).includes(taskId);
+
+/**
+ * Decides what to do when a guarded update lost the race against another write.
+ * Returns the mutation to retry against `serverRow`, or null when nothing is left to write.
+ */
+export type ConflictResolver = (
+  mutation: PendingMutation,
+  serverRow: Record<string, any>
+) => PendingMutation | null;
+
+const conflictResolvers: Partial<Record<OutboxTable, ConflictResolver>> = {};
+
+/**
+ * Register how conflicting updates to a table are merged.
+ * Tables without a resolver fail the mutation on conflict.
+ */
+export const registerConflictResolver = (table: OutboxTable, resolver: ConflictResolver) => {
+  conflictResolvers[table] = resolver;
+};
+
+// Thrown when a guarded update matched no rows because the row changed underneath it
+class ConflictError extends Error {
+  constructor(table: OutboxTable) {
+    super(`Row in ${table} was changed by another device`);
+    this.name = 'ConflictError';
+  }
+}
+
+// Thrown when a batch left some of its tasks untouched, like ones deleted on another device
+class PartialBatchError extends Error {
+  constructor(public missingTaskIds: string[]) {
+    super(`${missingTaskIds.length} of the tasks no longer exist on the server`);
+    this.name = 'PartialBatchError';
+  }
+}
+
+// Postgres unique_violation, returned when an insert is replayed after it already landed
+const UNIQUE_VIOLATION = '23505';
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+};
+
+/**
+ * Whether an error means the server could not be reached, as opposed to the
+ * server rejecting the change. Only the former is retried automatically.
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  /network request failed|failed to fetch|network error|timed? ?out/i.test(getErrorMessage(error));
+
+const applyMatch = (query: any, match: PendingMutation['match']) => {
+  Object.entries(match ?? {}).forEach(([column, value]) => {
+    query = Array.isArray(value) ? query.in(column, value) : query.eq(column, value);
+  });
+  return query;
+};
+
+// The part of a batch that only covers some of its tasks
+const narrowBatch = (mutation: PendingMutation, taskIds: string[]): PendingMutation => {
+  const kept = new Set(taskIds);
+  const match = Object.fromEntries(
+    Object.entries(mutation.match ?? {}).map(([column, value]) => [
+      column,
+      Array.isArray(value) ? value.filter((item) => kept.has(item)) : value,
+    ])
+  );
+  return {
+    ...mutation,
+    match,
+    rows: mutation.rows?.filter((row) => kept.has(row.task_id)),
+    taskIds,
+  };
+};
+
+const executeMutation = async (mutation: PendingMutation) => {
+  const table = supabase.from(mutation.table);
+  let query: any;
+
+  switch (mutation.operation) {
+    case 'insert':
+      // Rows a batch finds already there are left alone rather than failing the rest
+      query = mutation.rows
+        ? table.upsert(mutation.rows, { ignoreDuplicates: true })
+        : table.insert([mutation.payload]);
+      break;
+    case 'update':
+      query = table.update(mutation.payload ?? {});
+      break;
+    case 'delete':
+      query = table.delete();
+      break;
+  }
+
+  query = applyMatch(query, mutation.match);
+
+  if (mutation.guard) {
+    query = query.eq(mutation.guard.column, mutation.guard.value).select('id');
+  }
+
+  // A batched task update reports which tasks it reached
+  const isTaskBatch = mutation.table === 'tasks' && !!mutation.taskIds && mutation.operation === 'update';
+  if (isTaskBatch) {
+    query = query.select('id');
+  }
+
+  const { data, error } = await query;
+  if (error && !(mutation.operation === 'insert' && error.code === UNIQUE_VIOLATION)) {
+    throw error;
+  }
+
+  if (mutation.guard && (!data || data.length === 0)) {
+    throw new ConflictError(mutation.table);
+  }
+
+  if (isTaskBatch) {
+    const reached = new Set((data ?? []).map((row: { id: string }) => row.id));
+    const missing = mutation.taskIds!.filter((taskId) => !reached.has(taskId));
+    if (missing.length > 0) throw new PartialBatchError(missing);
+  }
+};
+
+/**
+ * Load the current server row for a conflicting mutation and let the
+ * table's resolver rebase it. Returns the mutation to retry, or null.
+ */
+const resolveConflict = async (mutation: PendingMutation): Promise<PendingMutation | null> => {
+  const resolver = conflictResolvers[mutation.table];
+  if (!resolver) {
+    throw new Error(`Row in ${mutation.table} was changed by another device`);
+  }
+
+  const query: any = applyMatch(supabase.from(mutation.table).select('*'), mutation.match);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new Error('This item no longer exists on the server');
+  }
+
+  return resolver(mutation, data);
+};
+
+/**
+ * Send one mutation to the server. Returns null once it is done, or the
+ * rebased mutation to send next when it conflicted with another write.
+ */
+const replayMutation = async (mutation: PendingMutation): Promise<PendingMutation | null> => {
+  try {
+    await executeMutation(mutation);
+    debug('Outbox replayed mutation', { table: mutation.table, operation: mutation.operation });
+    return null;
+  } catch (error) {
+    if (!(error instanceof ConflictError)) throw error;
+
+    const rebased = await resolveConflict(mutation);
+    debug('Outbox resolved conflict', { table: mutation.table, retry: !!rebased });
+    return rebased;
+  }
+};
+
+interface OutboxState {
+  queue: PendingMutation[];
+  failed: PendingMutation[];
+  isFlushing: boolean;
+  // The signed-in user, whose mutations are the only ones replayed
+  userId: string | null;
+
+  setUserId: (userId: string | null) => void;
+  enqueue: (mutation: NewMutation) => void;
+  flush: () => Promise<void>;
+  retryFailed: (taskId?: string | null) => void;
+  discardFailed: (taskId?: string | null) => void;
+
+  getPendingTaskIds: () => Set<string>;
+  // The signed-in user's writes to a table that haven't landed, queued or failed
+  getPendingMutations: (table: OutboxTable) => PendingMutation[];
+  getTaskSyncState: (taskId: string) => TaskSyncState;
+}
+
+/**
+ * Durable outbox for writes made through useTaskStore.
+ * Changes are applied to the local store first and replayed here, in order,
+ * whenever the device is online. Mutations left behind by another user on
+ * this device stay queued until that user signs in again.
+ */
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set, get) => ({
+      queue: [],
+      failed: [],
+      isFlushing: false,
+      userId: null,
+
+      setUserId: (userId) => {
+        if (userId === get().userId) return;
+        debug('Outbox session user changed', { userId });
+
+        // Writes recorded before the session was known, at launch or by an older version, belong to this user
+        const adopt = (m: PendingMutation) => (userId && !m.userId ? { ...m, userId } : m);
+        set((state) => ({
+          userId,
+          queue: state.queue.map(adopt),
+          failed: state.failed.map(adopt),
+        }));
+      },
+
+      enqueue: (mutation) => {
+        const entry: PendingMutation = {
+          ...mutation,
+          id: uuidv4(),
+          userId: get().userId,
+          createdAt: new Date().toISOString(),
+          attempts: 0,
+          lastError: null,
+        };
+
+        debug('Outbox enqueued mutation', { table: entry.table, operation: entry.operation, taskId: entry.taskId });
+        set((state) => ({ queue: [...state.queue, entry] }));
+        get().flush();
+      },
+
+      flush: async () => {
+        if (get().isFlushing) return;
+        set({ isFlushing: true });
+
+        try {
+          while (true) {
+            const { userId } = get();
+            const head = userId ? get().queue.find((m) => m.userId === userId) : undefined;
+            if (!head) break;
+
+            // Keep per-task ordering: later changes wait behind an earlier failure
+            const headTaskIds = getMutationTaskIds(head);
+            const blocked = get().failed.some((m) =>
+              getMutationTaskIds(m).some((taskId) => headTaskIds.includes(taskId))
+            );
+            if (blocked) {
+              set((state) => ({
+                queue: state.queue.filter((m) => m.id !== head.id),
+                failed: [...state.failed, { ...head, lastError: 'Waiting for an earlier change to sync' }],
+              }));
+              continue;
+            }
+
+            try {
+              const rebased = await replayMutation(head);
+              set((state) => ({
+                queue: rebased
+                  ? state.queue.map((m) => (m.id === head.id ? rebased : m))
+                  : state.queue.filter((m) => m.id !== head.id),
+              }));
+            } catch (error) {
+              const message = getErrorMessage(error);
+
+              // The tasks the batch did reach are done; only the rest need attention
+              if (error instanceof PartialBatchError) {
+                debug('Outbox batch partly applied', { table: head.table, missing: error.missingTaskIds.length });
+                set((state) => ({
+                  queue: state.queue.filter((m) => m.id !== head.id),
+                  failed: [
+                    ...state.failed,
+                    { ...narrowBatch(head, error.missingTaskIds), attempts: head.attempts + 1, lastError: message },
+                  ],
+                }));
+                continue;
+              }
+
+              if (isNetworkError(error)) {
+                debug('Offline, pausing outbox replay', { message });
+                set((state) => ({
+                  queue: state.queue.map((m) =>
+                    m.id === head.id ? { ...m, attempts: m.attempts + 1, lastError: message } : m
+                  ),
+                }));
+                break;
+              }
+
+              debug('Outbox mutation rejected', { table: head.table, operation: head.operation, message });
+              set((state) => ({
+                queue: state.queue.filter((m) => m.id !== head.id),
+                failed: [...state.failed, { ...head, attempts: head.attempts + 1, lastError: message }],
+              }));
+            }
+          }
+        } finally {
+          set({ isFlushing: false });
+        }
+      },
+
+      retryFailed: (taskId) => {
+        const { userId } = get();
+        const matches = (m: PendingMutation) =>
+          m.userId === userId && (taskId === undefined || touchesTask(m, taskId));
+        const retried = get().failed.filter(matches);
+        if (retried.length === 0) return;
+
+        debug('Retrying failed outbox mutations', { taskId, count: retried.length });
+        set((state) => ({
+          failed: state.failed.filter((m) => !matches(m)),
+          queue: [...retried, ...state.queue].sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+        }));
+        get().flush();
+      },
+
+      discardFailed: (taskId) => {
+        debug('Discarding failed outbox mutations', { taskId });
+        set((state) => ({
+          failed: state.failed.flatMap((m) => {
+            if (m.userId !== state.userId) return [m];
+            if (taskId === undefined) return [];
+            if (!touchesTask(m, taskId)) return [m];
+
+            // A batch is kept for its other tasks
+            const rest = getMutationTaskIds(m).filter((id) => id !== taskId);
+            return m.taskIds && rest.length > 0 ? [narrowBatch(m, rest)] : [];
+          }),
+        }));
+      },
+
+      getPendingTaskIds: () => {
+        const { queue, failed } = get();
+        const ids = new Set<string>();
+        [...queue, ...failed].forEach((m) => {
+          getMutationTaskIds(m).forEach((taskId) => ids.add(taskId));
+        });
+        return ids;
+      },
+
+      getPendingMutations: (table) => {
+        const { queue, failed, userId } = get();
+        return [...queue, ...failed].filter((m) => m.table === table && m.userId === userId);
+      },
+
+      getTaskSyncState: (taskId) => {
+        const { queue, failed } = get();
+        if (failed.some((m) => getMutationTaskIds(m).includes(taskId))) return 'failed';
+        if (queue.some((m) => getMutationTaskIds(m).includes(taskId))) return 'pending';
+        return 'synced';
+      },
+    }),
+    {
+      name: 'outbox-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ queue: state.queue, failed: state.failed }),
+    }
+  )
+);
@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_PRIORITY_WEIGHTS, PriorityFactor, PriorityWeights } from '@/lib/utils/priority';
+
+interface PriorityWeightsState {
+  weights: PriorityWeights;
+  setWeight: (factor: PriorityFactor, weight: number) => void;
+  resetWeights: () => void;
+}
+
+const usePriorityWeightsStore = create<PriorityWeightsState>()(
+  persist(
+    (set) => ({
+      weights: DEFAULT_PRIORITY_WEIGHTS,
+      setWeight: (factor, weight) =>
+        set((state) => ({ weights: { ...state.weights, [factor]: Math.max(0, weight) } })),
+      resetWeights: () => set({ weights: DEFAULT_PRIORITY_WEIGHTS }),
+    }),
+    {
+      name: 'priority-weights-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default usePriorityWeightsStore;
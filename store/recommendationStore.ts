@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addHours, endOfDay } from 'date-fns';
+
+// How long "Skip for now" keeps a task out of the featured spot
+const SKIP_FOR_NOW_HOURS = 2;
+
+interface RecommendationState {
+  // Task ids mapped to when they may be featured again, as ISO strings
+  skippedUntil: Record<string, string>;
+  skipForNow: (taskId: string) => void;
+  skipForToday: (taskId: string) => void;
+}
+
+/**
+ * Whether a task was skipped and its skip hasn't run out yet.
+ */
+export const isTaskSkipped = (skippedUntil: Record<string, string>, taskId: string, now: Date = new Date()) =>
+  !!skippedUntil[taskId] && new Date(skippedUntil[taskId]) > now;
+
+// Record a skip, dropping skips that have already run out
+const withSkip = (skippedUntil: Record<string, string>, taskId: string, until: Date) => {
+  const now = new Date();
+  const active = Object.fromEntries(
+    Object.entries(skippedUntil).filter(([id]) => isTaskSkipped(skippedUntil, id, now))
+  );
+  return { ...active, [taskId]: until.toISOString() };
+};
+
+const useRecommendationStore = create<RecommendationState>()(
+  persist(
+    (set) => ({
+      skippedUntil: {},
+      skipForNow: (taskId) =>
+        set((state) => ({ skippedUntil: withSkip(state.skippedUntil, taskId, addHours(new Date(), SKIP_FOR_NOW_HOURS)) })),
+      skipForToday: (taskId) =>
+        set((state) => ({ skippedUntil: withSkip(state.skippedUntil, taskId, endOfDay(new Date())) })),
+    }),
+    {
+      name: 'recommendation-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useRecommendationStore;
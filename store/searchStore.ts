@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// How many recent searches are remembered
+const MAX_RECENT_SEARCHES = 10;
+
+interface SearchState {
+  recentSearches: string[];
+  addRecentSearch: (query: string) => void;
+  removeRecentSearch: (query: string) => void;
+  clearRecentSearches: () => void;
+}
+
+const useSearchStore = create<SearchState>()(
+  persist(
+    (set) => ({
+      recentSearches: [],
+      addRecentSearch: (query) => {
+        const trimmed = query.trim();
+        if (!trimmed) return;
+        set((state) => ({
+          recentSearches: [
+            trimmed,
+            ...state.recentSearches.filter((recent) => recent.toLowerCase() !== trimmed.toLowerCase()),
+          ].slice(0, MAX_RECENT_SEARCHES),
+        }));
+      },
+      removeRecentSearch: (query) =>
+        set((state) => ({ recentSearches: state.recentSearches.filter((recent) => recent !== query) })),
+      clearRecentSearches: () => set({ recentSearches: [] }),
+    }),
+    {
+      name: 'search-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useSearchStore;
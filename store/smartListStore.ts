@@ -0,0 +1,272 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/data/supabase';
+import { useOutboxStore } from '@/store/outboxStore';
+import { SmartList } from '@/store/models/smartList';
+import { buildTaskTabs, TaskTab } from '@/lib/utils/taskTabs';
+import { TaskQuery } from '@/lib/utils/taskQuery';
+import { debug } from '@/lib/logger';
+
+type TabPlacement = Partial<Pick<SmartList, 'position' | 'is_pinned' | 'is_hidden'>>;
+
+interface SmartListState {
+  smartLists: SmartList[];
+  loading: boolean;
+  error: string | null;
+
+  fetchSmartLists: () => Promise<void>;
+  addSmartList: (smartList: { name: string; icon: string; query: TaskQuery }) => Promise<SmartList | null>;
+  updateSmartList: (id: string, updates: Partial<Pick<SmartList, 'name' | 'icon' | 'query'>>) => Promise<void>;
+  deleteSmartList: (id: string) => Promise<void>;
+  moveTab: (key: string, direction: -1 | 1) => Promise<void>;
+  setTabPinned: (key: string, isPinned: boolean) => Promise<void>;
+  setTabHidden: (key: string, isHidden: boolean) => Promise<void>;
+}
+
+const getSessionUserId = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('No authenticated user');
+  }
+  return session.user.id;
+};
+
+/**
+ * Apply placement changes to tabs and queue them for sync. Built-in tabs
+ * get their row the first time they're changed; until then they only
+ * exist in code.
+ */
+const saveTabPlacements = (
+  smartLists: SmartList[],
+  userId: string,
+  changes: { tab: TaskTab; updates: TabPlacement }[]
+): SmartList[] => {
+  const { enqueue } = useOutboxStore.getState();
+  const now = new Date().toISOString();
+  let next = smartLists;
+
+  for (const { tab, updates } of changes) {
+    if (tab.smartList) {
+      next = next.map((list) => (list.id === tab.smartList!.id ? { ...list, ...updates, updated_at: now } : list));
+      enqueue({
+        table: 'smart_lists',
+        operation: 'update',
+        payload: { ...updates, updated_at: now },
+        // Built-in rows may have been created by another device with another id
+        match: tab.builtin ? { user_id: userId, builtin: tab.builtin } : { id: tab.smartList.id },
+        taskId: null,
+      });
+      continue;
+    }
+
+    const builtin = tab.builtin!;
+    const row: SmartList = {
+      id: uuidv4(),
+      user_id: userId,
+      builtin,
+      name: null,
+      icon: null,
+      query: null,
+      position: tab.position,
+      is_pinned: tab.isPinned,
+      is_hidden: tab.isHidden,
+      created_at: now,
+      updated_at: now,
+      ...updates,
+    };
+    next = [...next, row];
+    enqueue({ table: 'smart_lists', operation: 'insert', payload: row, match: { id: row.id }, taskId: null });
+    // If another device got there first the insert is dropped, so also
+    // update the row that won
+    enqueue({
+      table: 'smart_lists',
+      operation: 'update',
+      payload: { ...updates, updated_at: now },
+      match: { user_id: userId, builtin },
+      taskId: null,
+    });
+  }
+
+  return next;
+};
+
+/**
+ * The user's task list tabs: saved filters plus the placement of the
+ * built-in tabs. Cached on the device and written through the outbox.
+ */
+const useSmartListStore = create<SmartListState>()(
+  persist(
+    (set, get) => ({
+      smartLists: [],
+      loading: false,
+      error: null,
+
+      fetchSmartLists: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const userId = await getSessionUserId();
+          const { data, error } = await supabase
+            .from('smart_lists')
+            .select('*')
+            .eq('user_id', userId);
+
+          if (error) throw error;
+
+          // Don't roll back changes that haven't reached the server, whether queued or failed
+          const hasPendingChanges = useOutboxStore.getState().getPendingMutations('smart_lists').length > 0;
+          if (!hasPendingChanges) {
+            set({ smartLists: data ?? [] });
+          }
+
+          debug('Fetched smart lists', { count: data?.length, hasPendingChanges });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch smart lists';
+          debug('Error fetching smart lists', { error: errorMessage });
+          set({ error: errorMessage });
+        } finally {
+          set({ loading: false });
+        }
+      },
+
+      addSmartList: async ({ name, icon, query }) => {
+        set({ error: null });
+
+        try {
+          const userId = await getSessionUserId();
+          const { smartLists } = get();
+          const now = new Date().toISOString();
+          const smartList: SmartList = {
+            id: uuidv4(),
+            user_id: userId,
+            builtin: null,
+            name,
+            icon,
+            query,
+            // New lists go after every existing tab
+            position: Math.max(-1, ...buildTaskTabs(smartLists).map((tab) => tab.position)) + 1,
+            is_pinned: false,
+            is_hidden: false,
+            created_at: now,
+            updated_at: now,
+          };
+
+          set({ smartLists: [...smartLists, smartList] });
+          useOutboxStore.getState().enqueue({
+            table: 'smart_lists',
+            operation: 'insert',
+            payload: smartList,
+            match: { id: smartList.id },
+            taskId: null,
+          });
+
+          debug('Added smart list', { id: smartList.id });
+          return smartList;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to add smart list';
+          debug('Error adding smart list', { error: errorMessage });
+          set({ error: errorMessage });
+          return null;
+        }
+      },
+
+      updateSmartList: async (id, updates) => {
+        const now = new Date().toISOString();
+        set((state) => ({
+          smartLists: state.smartLists.map((list) => (list.id === id ? { ...list, ...updates, updated_at: now } : list)),
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'smart_lists',
+          operation: 'update',
+          payload: { ...updates, updated_at: now },
+          match: { id },
+          taskId: null,
+        });
+        debug('Updated smart list', { id });
+      },
+
+      deleteSmartList: async (id) => {
+        set((state) => ({ smartLists: state.smartLists.filter((list) => list.id !== id) }));
+        useOutboxStore.getState().enqueue({
+          table: 'smart_lists',
+          operation: 'delete',
+          match: { id },
+          taskId: null,
+        });
+        debug('Deleted smart list', { id });
+      },
+
+      moveTab: async (key, direction) => {
+        set({ error: null });
+
+        try {
+          const userId = await getSessionUserId();
+          const tabs = buildTaskTabs(get().smartLists);
+          const index = tabs.findIndex((tab) => tab.key === key);
+          const neighbour = tabs[index + direction];
+
+          // Pinned tabs stay ahead of the rest, so only move within the group
+          if (index === -1 || !neighbour || neighbour.isPinned !== tabs[index].isPinned) return;
+
+          const reordered = [...tabs];
+          reordered[index] = neighbour;
+          reordered[index + direction] = tabs[index];
+
+          const changes = reordered
+            .map((tab, position) => ({ tab, updates: { position } }))
+            .filter(({ tab, updates }) => tab.position !== updates.position || !tab.smartList);
+
+          set({ smartLists: saveTabPlacements(get().smartLists, userId, changes) });
+          debug('Moved tab', { key, direction });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to move tab';
+          debug('Error moving tab', { error: errorMessage });
+          set({ error: errorMessage });
+        }
+      },
+
+      setTabPinned: async (key, isPinned) => {
+        set({ error: null });
+
+        try {
+          const userId = await getSessionUserId();
+          const tab = buildTaskTabs(get().smartLists).find((t) => t.key === key);
+          if (!tab) return;
+
+          set({ smartLists: saveTabPlacements(get().smartLists, userId, [{ tab, updates: { is_pinned: isPinned } }]) });
+          debug('Set tab pinned', { key, isPinned });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to pin tab';
+          debug('Error pinning tab', { error: errorMessage });
+          set({ error: errorMessage });
+        }
+      },
+
+      setTabHidden: async (key, isHidden) => {
+        set({ error: null });
+
+        try {
+          const userId = await getSessionUserId();
+          const tab = buildTaskTabs(get().smartLists).find((t) => t.key === key);
+          if (!tab) return;
+
+          set({ smartLists: saveTabPlacements(get().smartLists, userId, [{ tab, updates: { is_hidden: isHidden } }]) });
+          debug('Set tab hidden', { key, isHidden });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to hide tab';
+          debug('Error hiding tab', { error: errorMessage });
+          set({ error: errorMessage });
+        }
+      },
+    }),
+    {
+      name: 'smart-list-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ smartLists: state.smartLists }),
+    }
+  )
+);
+
+export default useSmartListStore;
@@ -3,9 +3,21 @@ import { createJSONStorage, persist } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '@/data/supabase';
-
-// Define the TaskStatus type based on the database enum
-export type TaskStatus = 'ongoing' | 'completed' | 'cancelled';
+import i18n from '@/i18n/i18n';
+import { useOutboxStore, registerConflictResolver, MutationGuard, NewMutation } from '@/store/outboxStore';
+import { mergeTaskChanges, FieldConflict } from '@/lib/utils/taskMerge';
+import { getNextTaskOccurrence } from '@/lib/utils/recurrence';
+import { getChildren, getDescendants } from '@/lib/utils/subtasks';
+import { TaskQuery, fromTaskQueryRow, getQueryRelations, runTaskQuery, toPostgrestTaskQuery } from '@/lib/utils/taskQuery';
+import { TaskSearchResult, matchTask, searchTasks as searchCachedTasks, tokenizeSearch } from '@/lib/utils/search';
+import type { BackupData } from '@/lib/utils/backup';
+import { getTransitionError, isOpenStatus } from '@/lib/utils/taskStatus';
+import { diffTaskFields, isCurrentValue, isTrackedTaskField } from '@/lib/utils/taskActivity';
+import useHistoryStore, { HistoryEntry, MembershipChange, TaskChange } from '@/store/historyStore';
+
+// The canonical task statuses, matching the task_status database enum;
+// lib/utils/taskStatus defines which changes between them are allowed
+export type TaskStatus = 'ongoing' | 'inprogress' | 'completed' | 'cancelled';
 
 // Define the Task interface based on the database schema
 export interface Task {
@@ -21,7 +33,11 @@ export interface Task {
   is_recursive: boolean;
   recursion_count: number | null;
   recursion_end: string | null;
+  recurrence_rule: string | null;
+  position: number | null;
   is_deleted: boolean;
+  // Set by the database when the task is moved to the trash
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
   status: TaskStatus;
@@ -41,21 +57,99 @@ export interface List {
   id: string;
   user_id: string;
   name: string;
+  color: string | null;
+  icon: string | null;
+  // Manual order, lowest first
+  position: number;
+  // Archived lists keep their tasks but drop out of tabs and pickers
+  is_archived: boolean;
   created_at: string;
 }
 
-// Define filter parameters type
-export interface TaskFilterParams {
-  status?: TaskStatus;
-  date?: Date;
-  dateRange?: {
-    start: Date;
-    end: Date;
-  };
-  listId?: string;
-  weekOf?: Date;
+// Define the TaskReminder interface
+export interface TaskReminder {
+  id: string;
+  task_id: string;
+  reminder_time: string;
+  created_at: string;
+}
+
+// Junction rows linking tasks to lists and tags
+export interface TaskListRelation {
+  task_id: string;
+  list_id: string;
+}
+
+export interface TaskTagRelation {
+  task_id: string;
+  tag_id: string;
+}
+
+// What an activity entry records: a task column's value, or a reminder's time
+export type ActivityValue = string | number | boolean | null;
+
+// A row of task_activity: one field of a task changed, or a tag, list or
+// reminder added to or removed from it
+export interface TaskActivity {
+  id: string;
+  task_id: string;
+  // Who made the change
+  user_id: string;
+  // A task column, or 'tag', 'list' or 'reminder'
+  field: string;
+  // The tag, list or reminder the change is about; null for task columns
+  target_id: string | null;
+  // old_value is null when something was added, new_value when it was removed
+  old_value: ActivityValue;
+  new_value: ActivityValue;
+  created_at: string;
+}
+
+// A row of task_status_history; from_status is null when the task was created
+export interface TaskStatusChange {
+  id: string;
+  task_id: string;
+  // Who made the change
+  user_id: string;
+  from_status: TaskStatus | null;
+  to_status: TaskStatus;
+  changed_at: string;
+}
+
+// Tables mirrored into the store by realtime sync
+export type SyncedTable = 'tasks' | 'tags' | 'lists' | 'task_lists' | 'task_tags' | 'task_reminders';
+
+// A row change pushed by Supabase realtime
+export interface RemoteChange {
+  table: SyncedTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Record<string, any>;
+  old: Record<string, any>;
+}
+
+// Same-field edits from two devices that need the user to pick a winner
+export interface TaskConflict {
+  taskId: string;
+  fields: FieldConflict[];
+  detectedAt: string;
 }
 
+export type ConflictChoice = 'local' | 'remote';
+
+// What to do with open subtasks when their parent is completed
+export type SubtaskCompletion = 'complete' | 'cancel' | 'keep';
+
+// What a bulk action did with each of the tasks it was given
+export interface BulkResult {
+  changed: string[];
+  // Already as asked, so nothing was written for them
+  unchanged: string[];
+  failed: { taskId: string; reason: string }[];
+}
+
+// Most results the database search returns
+const SEARCH_RESULT_LIMIT = 50;
+
 // Debug logging utility
 const debugLog = (action: string, data?: any) => {
   if (__DEV__) {
@@ -63,51 +157,303 @@ const debugLog = (action: string, data?: any) => {
   }
 };
 
+// Resolve the signed-in user from the persisted session so that
+// mutations can still be recorded while the device is offline
+const getSessionUser = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('No authenticated user');
+  }
+  return session.user;
+};
+
+// Keep local copies of tasks that still have unsynced changes in the outbox,
+// so a refresh from the server doesn't roll back edits made offline
+const mergeWithPendingTasks = (serverTasks: Task[], localTasks: Task[]): Task[] => {
+  const pendingIds = useOutboxStore.getState().getPendingTaskIds();
+  if (pendingIds.size === 0) return serverTasks;
+
+  const localById = new Map(localTasks.map((task) => [task.id, task]));
+  const serverIds = new Set(serverTasks.map((task) => task.id));
+
+  const created = localTasks.filter((task) => pendingIds.has(task.id) && !serverIds.has(task.id));
+  const merged = serverTasks
+    .filter((task) => !pendingIds.has(task.id) || localById.has(task.id))
+    .map((task) => (pendingIds.has(task.id) ? localById.get(task.id)! : task));
+
+  return [...created, ...merged];
+};
+
+// Guard a task update on the updated_at the client last saw, remembering
+// the edited fields' values at that point for a three-way merge
+const buildTaskGuard = (snapshot: Partial<Task> | undefined, updates: Partial<Task>): MutationGuard | undefined => {
+  if (!snapshot?.updated_at) return undefined;
+
+  const base: Record<string, any> = {};
+  Object.keys(updates).forEach((field) => {
+    base[field] = snapshot[field as keyof Task] ?? null;
+  });
+
+  return { column: 'updated_at', value: snapshot.updated_at, base };
+};
+
+// Insert or replace a row by id, or drop it when it should no longer be visible
+const upsertById = <T extends { id: string }>(rows: T[], row: T, remove: boolean): T[] => {
+  const without = rows.filter((existing) => existing.id !== row.id);
+  if (remove) return without;
+  return rows.some((existing) => existing.id === row.id)
+    ? rows.map((existing) => (existing.id === row.id ? row : existing))
+    : [row, ...without];
+};
+
+// What the undo snackbar says after a status change
+export const describeStatusChange = (status: TaskStatus) => i18n.t(`history.status_${status}`);
+
+type BulkChange =
+  | 'reopened'
+  | 'started'
+  | 'completed'
+  | 'cancelled'
+  | 'rescheduled'
+  | 'updated'
+  | 'deleted'
+  | 'tagged'
+  | 'untagged'
+  | 'moved';
+
+const STATUS_CHANGE_VERBS: Record<TaskStatus, BulkChange> = {
+  ongoing: 'reopened',
+  inprogress: 'started',
+  completed: 'completed',
+  cancelled: 'cancelled',
+};
+
+// Like "3 tasks completed"
+const describeBulkChange = (count: number, change: BulkChange) => i18n.t(`history.bulk_${change}`, { count });
+
+// Split the ids a bulk action was given into the cached tasks it has to
+// change and the ones it can leave alone, can't change or no longer finds
+const partitionBulk = (
+  ids: string[],
+  tasks: Task[],
+  isUnchanged: (task: Task) => boolean,
+  getFailure: (task: Task) => string | null = () => null
+) => {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const targets: Task[] = [];
+  const result: BulkResult = { changed: [], unchanged: [], failed: [] };
+
+  Array.from(new Set(ids)).forEach((id) => {
+    const task = byId.get(id);
+    const failure = task && getFailure(task);
+    if (!task) {
+      result.failed.push({ taskId: id, reason: 'This task no longer exists' });
+    } else if (failure) {
+      result.failed.push({ taskId: id, reason: failure });
+    } else if (isUnchanged(task)) {
+      result.unchanged.push(id);
+    } else {
+      targets.push(task);
+      result.changed.push(id);
+    }
+  });
+  return { targets, result };
+};
+
+// Status changes made on this device, kept until the database's own rows are
+// fetched. They carry the task's new updated_at, like the rows the database writes.
+const toStatusChanges = (tasks: Task[], status: TaskStatus, changedAt: string): TaskStatusChange[] =>
+  tasks
+    .filter((task) => task.status !== status)
+    .map((task) => ({
+      id: uuidv4(),
+      task_id: task.id,
+      user_id: task.user_id,
+      from_status: task.status,
+      to_status: status,
+      changed_at: changedAt,
+    }));
+
+type ActivityChange = Pick<TaskActivity, 'field' | 'old_value' | 'new_value'> & { target_id?: string | null };
+
+// A tag or list added to a task, or taken off it
+const membershipChange = (field: 'tag' | 'list', targetId: string, added: boolean): ActivityChange => ({
+  field,
+  target_id: targetId,
+  old_value: added ? null : targetId,
+  new_value: added ? targetId : null,
+});
+
+// Activity entries for changes made to one task on this device
+const toActivity = (task: Pick<Task, 'id' | 'user_id'>, changes: ActivityChange[], createdAt = new Date().toISOString()): TaskActivity[] =>
+  changes.map((change) => ({
+    id: uuidv4(),
+    task_id: task.id,
+    user_id: task.user_id,
+    target_id: null,
+    ...change,
+    created_at: createdAt,
+  }));
+
+// Queue one write for a whole batch of tasks. There's no per-task
+// updated_at guard on a batch, so the last write wins.
+const enqueueTaskBatch = (taskIds: string[], mutation: Omit<NewMutation, 'taskId' | 'taskIds'>) => {
+  useOutboxStore.getState().enqueue({ ...mutation, taskId: null, taskIds });
+};
+
+// Tasks that differ between two versions of the task list. Mutations replace
+// the tasks they touch, so an unchanged task is the same object in both.
+const diffTasks = (before: Task[], after: Task[]): TaskChange[] => {
+  const beforeById = new Map(before.map((task) => [task.id, task]));
+  const afterById = new Map(after.map((task) => [task.id, task]));
+  const changes: TaskChange[] = [];
+
+  before.forEach((task) => {
+    if (afterById.get(task.id) !== task) changes.push({ before: task, after: afterById.get(task.id) ?? null });
+  });
+  after.forEach((task) => {
+    if (!beforeById.has(task.id)) changes.push({ before: null, after: task });
+  });
+  return changes;
+};
+
+const membershipKey = (kind: MembershipChange['kind'], taskId: string, targetId: string) => `${kind}:${taskId}:${targetId}`;
+
+const toMemberships = (relations: (TaskTagRelation | TaskListRelation)[]): Map<string, Omit<MembershipChange, 'added'>> =>
+  new Map(
+    relations.map((relation) => {
+      const [kind, targetId] = 'tag_id' in relation ? (['tag', relation.tag_id] as const) : (['list', relation.list_id] as const);
+      return [membershipKey(kind, relation.task_id, targetId), { kind, taskId: relation.task_id, targetId }];
+    })
+  );
+
+// Tags and lists tasks were put in or taken out of between two versions of their relations
+const diffMemberships = (
+  before: (TaskTagRelation | TaskListRelation)[],
+  after: (TaskTagRelation | TaskListRelation)[]
+): MembershipChange[] => {
+  if (before === after) return [];
+  const beforeByKey = toMemberships(before);
+  const afterByKey = toMemberships(after);
+  return [
+    ...Array.from(beforeByKey).filter(([key]) => !afterByKey.has(key)).map(([, membership]) => ({ ...membership, added: false })),
+    ...Array.from(afterByKey).filter(([key]) => !beforeByKey.has(key)).map(([, membership]) => ({ ...membership, added: true })),
+  ];
+};
+
+// Set while a mutation is being recorded, so the mutations it calls join its history entry
+let isRecordingHistory = false;
+
 // Define the store state interface
 interface TaskState {
   tasks: Task[];
   tags: Tag[];
   lists: List[];
-  taskListRelations: { task_id: string; list_id: string }[];
+  taskListRelations: TaskListRelation[];
+  taskTagRelations: TaskTagRelation[];
+  // Whether the memberships were fetched, so having none isn't mistaken for not knowing
+  relationsLoaded: { lists: boolean; tags: boolean };
+  // Bumped whenever taskListRelations or taskTagRelations change, for screens that re-run queries on them
+  relationsVersion: number;
+  reminders: TaskReminder[];
+  statusHistory: TaskStatusChange[];
+  activity: TaskActivity[];
+  conflicts: TaskConflict[];
   isLoading: boolean;
   error: string | null;
   isDebug: boolean;
   
   // Task Actions
   fetchTasks: () => Promise<void>;
-  addTask: (task: Omit<Task, 'id' | 'created_at' | 'updated_at' | 'is_deleted'>) => Promise<void>;
-  updateTask: (id: string, updates: Partial<Task>) => Promise<void>;
+  addTask: (task: Omit<Task, 'id' | 'created_at' | 'updated_at' | 'is_deleted'>) => Promise<Task | null>;
+  updateTask: (id: string, updates: Partial<Task>, options?: { base?: Partial<Task> }) => Promise<void>;
   deleteTask: (id: string) => Promise<void>;
   toggleTaskStatus: (id: string, status: TaskStatus) => Promise<void>;
   clearTasks: () => Promise<void>;
 
+  // Bulk Actions
+  bulkSetStatus: (ids: string[], status: TaskStatus) => Promise<BulkResult>;
+  bulkUpdateTasks: (ids: string[], updates: Partial<Pick<Task, 'priority' | 'deadline'>>) => Promise<BulkResult>;
+  bulkDeleteTasks: (ids: string[]) => Promise<BulkResult>;
+  bulkAddTag: (ids: string[], tagId: string) => Promise<BulkResult>;
+  bulkRemoveTag: (ids: string[], tagId: string) => Promise<BulkResult>;
+  bulkMoveToList: (ids: string[], listId: string | null) => Promise<BulkResult>;
+
   // Helper functions
   areTasksLoaded: () => boolean;
   fetchTaskListRelations: () => Promise<void>;
+  fetchTaskTagRelations: () => Promise<void>;
+  // Forget the memberships, like on sign-out, so the next query fetches them again
+  resetRelations: () => void;
+  fetchReminders: () => Promise<void>;
+
+  // Status History
+  fetchStatusHistory: () => Promise<void>;
+
+  // Activity
+  recordActivity: (entries: TaskActivity[]) => void;
+  fetchTaskActivity: (taskId: string) => Promise<void>;
+  // Undo one change, unless something changed it again since; false when it can't
+  revertActivity: (entry: TaskActivity) => Promise<boolean>;
+
+  // Subtasks
+  addSubtask: (parentId: string, title: string) => Promise<Task | null>;
+  moveSubtask: (id: string, direction: -1 | 1) => Promise<void>;
+  completeTask: (id: string, openSubtasks: SubtaskCompletion) => Promise<void>;
+
+  // Recurrence
+  scheduleNextOccurrence: (task: Task) => Promise<Task | null>;
+
+  // Realtime Sync
+  applyRemoteChange: (change: RemoteChange) => void;
+
+  // Conflict Resolution
+  rebaseTaskUpdate: (taskId: string, serverTask: Task, changes: Record<string, any>, conflicts: FieldConflict[]) => void;
+  resolveConflict: (taskId: string, choices: Record<string, ConflictChoice>) => Promise<void>;
 
   // Unified Filter Action
-  filterTasks: (params: TaskFilterParams) => Promise<Task[]>;
+  filterTasks: (query: TaskQuery) => Promise<Task[]>;
+
+  // Search
+  searchTasks: (query: string) => Promise<TaskSearchResult[]>;
 
   // Tag Actions
   fetchTags: () => Promise<void>;
-  addTag: (tag: Omit<Tag, 'id' | 'created_at'>) => Promise<void>;
+  addTag: (tag: Pick<Tag, 'name' | 'color'>) => Promise<Tag | null>;
   updateTag: (id: string, updates: Partial<Tag>) => Promise<void>;
   deleteTag: (id: string) => Promise<void>;
+  mergeTags: (sourceId: string, targetId: string) => Promise<void>;
   addTaskTag: (taskId: string, tagId: string) => Promise<void>;
   removeTaskTag: (taskId: string, tagId: string) => Promise<void>;
 
   // List Actions
   fetchLists: () => Promise<void>;
-  addList: (list: Omit<List, 'id' | 'created_at'>) => Promise<void>;
+  addList: (list: Pick<List, 'name' | 'color' | 'icon'>) => Promise<List | null>;
   updateList: (id: string, updates: Partial<List>) => Promise<void>;
   deleteList: (id: string) => Promise<void>;
+  reorderLists: (listIds: string[]) => Promise<void>;
   addTaskToList: (taskId: string, listId: string) => Promise<void>;
   removeTaskFromList: (taskId: string, listId: string) => Promise<void>;
+  moveTaskToList: (taskId: string, listId: string | null) => Promise<void>;
 
   // Reminder Actions
   addTaskReminder: (taskId: string, reminderTime: string) => Promise<void>;
+  updateTaskReminder: (reminderId: string, reminderTime: string) => Promise<void>;
   removeTaskReminder: (reminderId: string) => Promise<void>;
 
+  // Backup
+  importBackup: (rows: BackupData) => Promise<void>;
+
+  // Trash
+  restoreTasks: (tasks: Task[]) => Promise<void>;
+  forgetPurgedTasks: (ids: string[]) => void;
+
+  // History
+  trackHistory: <T>(label: string, mutation: () => Promise<T>) => Promise<T>;
+  applyHistoryEntry: (entry: HistoryEntry, side: keyof TaskChange) => void;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+
   // Utility Actions
   setError: (error: string | null) => void;
   setLoading: (isLoading: boolean) => void;
@@ -122,6 +468,13 @@ export const useTaskStore = create<TaskState>()(
       tags: [],
       lists: [],
       taskListRelations: [],
+      taskTagRelations: [],
+      relationsLoaded: { lists: false, tags: false },
+      relationsVersion: 0,
+      reminders: [],
+      statusHistory: [],
+      activity: [],
+      conflicts: [],
       isLoading: false,
       error: null,
       isDebug: __DEV__,
@@ -147,7 +500,7 @@ export const useTaskStore = create<TaskState>()(
           if (error) throw error;
 
           debugLog('Fetched tasks', data);
-          set({ tasks: data || [] });
+          set((state) => ({ tasks: mergeWithPendingTasks(data || [], state.tasks) }));
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to fetch tasks';
           debugLog('Error fetching tasks', errorMessage);
@@ -158,165 +511,496 @@ export const useTaskStore = create<TaskState>()(
       },
 
       addTask: async (task) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+        const { setError } = get();
         setError(null);
 
         try {
-          const { data: { user } } = await supabase.auth.getUser();
-          if (!user) {
-            throw new Error('No authenticated user');
-          }
+          const user = await getSessionUser();
+          const now = new Date().toISOString();
 
-          const newTask = {
+          const newTask: Task = {
             ...task,
+            id: uuidv4(),
             user_id: user.id,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
+            created_at: now,
+            updated_at: now,
             is_deleted: false,
           };
 
-          const { data, error } = await supabase
-            .from('tasks')
-            .insert([newTask])
-            .select()
-            .single();
-
-          if (error) throw error;
-
-          debugLog('Added task', data);
           set((state) => ({
-            tasks: [data, ...state.tasks],
+            tasks: [newTask, ...state.tasks],
           }));
+          useOutboxStore.getState().enqueue({
+            table: 'tasks',
+            operation: 'insert',
+            payload: newTask,
+            taskId: newTask.id,
+          });
+
+          debugLog('Added task', newTask);
+          return newTask;
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to add task';
           debugLog('Error adding task', errorMessage);
           setError(errorMessage);
-        } finally {
-          setLoading(false);
+          return null;
         }
       },
 
-      updateTask: async (id: string, updates: Partial<Task>) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+      updateTask: async (id: string, updates: Partial<Task>, options) => {
+        const { setError } = get();
         setError(null);
 
-        try {
-          const { data, error } = await supabase
-            .from('tasks')
-            .update({
-              ...updates,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', id)
-            .select()
-            .single();
+        // Guard against the copy the caller edited, falling back to the cached one
+        const snapshot = options?.base ?? get().tasks.find((task) => task.id === id);
+        const changes = {
+          ...updates,
+          updated_at: new Date().toISOString(),
+        };
 
-          if (error) throw error;
+        const current = get().tasks.find((task) => task.id === id);
 
-          debugLog('Updated task', data);
-          set((state) => ({
-            tasks: state.tasks.map((task) =>
-              task.id === id ? data : task
-            ),
-          }));
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to update task';
-          debugLog('Error updating task', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
+        const transitionError = current && updates.status ? getTransitionError(current.status, updates.status) : null;
+        if (transitionError) {
+          debugLog('Rejected status change', { id, from: current?.status, to: updates.status });
+          setError(transitionError);
+          return;
+        }
+
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === id ? { ...task, ...changes } : task
+          ),
+          statusHistory: current && updates.status
+            ? [...state.statusHistory, ...toStatusChanges([current], updates.status, changes.updated_at)]
+            : state.statusHistory,
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'tasks',
+          operation: 'update',
+          payload: changes,
+          match: { id },
+          guard: buildTaskGuard(snapshot, updates),
+          taskId: id,
+        });
+        if (current) {
+          get().recordActivity(toActivity(current, diffTaskFields(current, updates), changes.updated_at));
+        }
+
+        debugLog('Updated task', { id, changes });
+
+        // Reminders are stored as absolute times, so move them along with the deadline
+        const shift = current?.deadline && updates.deadline
+          ? new Date(updates.deadline).getTime() - new Date(current.deadline).getTime()
+          : 0;
+        if (shift !== 0) {
+          const { reminders, updateTaskReminder } = get();
+          await Promise.all(
+            reminders
+              .filter((reminder) => reminder.task_id === id)
+              .map((reminder) =>
+                updateTaskReminder(reminder.id, new Date(new Date(reminder.reminder_time).getTime() + shift).toISOString())
+              )
+          );
+        }
+
+        if (current && current.status !== 'completed' && updates.status === 'completed') {
+          await get().scheduleNextOccurrence({ ...current, ...changes });
         }
       },
 
-      deleteTask: async (id: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+      deleteTask: async (id: string) => get().trackHistory(i18n.t('history.task_deleted'), async () => {
+        const { setError } = get();
         setError(null);
 
-        try {
-          const { error } = await supabase
-            .from('tasks')
-            .update({ is_deleted: true, updated_at: new Date().toISOString() })
-            .eq('id', id);
+        set((state) => ({
+          tasks: state.tasks.filter((task) => task.id !== id),
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'tasks',
+          operation: 'update',
+          payload: { is_deleted: true, updated_at: new Date().toISOString() },
+          match: { id },
+          taskId: id,
+        });
+
+        debugLog('Deleted task', { id });
+      }),
+
+      toggleTaskStatus: async (id: string, status: TaskStatus) => get().trackHistory(describeStatusChange(status), async () => {
+        const { setError } = get();
+        setError(null);
 
-          if (error) throw error;
+        const snapshot = get().tasks.find((task) => task.id === id);
+        if (snapshot?.status === status) return;
 
-          debugLog('Deleted task', { id });
-          set((state) => ({
-            tasks: state.tasks.filter((task) => task.id !== id),
-          }));
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to delete task';
-          debugLog('Error deleting task', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
+        const transitionError = snapshot ? getTransitionError(snapshot.status, status) : null;
+        if (transitionError) {
+          debugLog('Rejected status change', { id, from: snapshot?.status, to: status });
+          setError(transitionError);
+          return;
+        }
+
+        const changes = {
+          status,
+          updated_at: new Date().toISOString(),
+        };
+
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === id ? { ...task, ...changes } : task
+          ),
+          statusHistory: snapshot
+            ? [...state.statusHistory, ...toStatusChanges([snapshot], status, changes.updated_at)]
+            : state.statusHistory,
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'tasks',
+          operation: 'update',
+          payload: changes,
+          match: { id },
+          guard: buildTaskGuard(snapshot, { status }),
+          taskId: id,
+        });
+        if (snapshot) {
+          get().recordActivity(toActivity(snapshot, diffTaskFields(snapshot, { status }), changes.updated_at));
+        }
+
+        debugLog('Updated task status', { id, status });
+
+        if (snapshot && snapshot.status !== 'completed' && status === 'completed') {
+          await get().scheduleNextOccurrence({ ...snapshot, ...changes });
         }
+      }),
+
+      addSubtask: async (parentId: string, title: string) => {
+        const parent = get().tasks.find((task) => task.id === parentId);
+        if (!parent) {
+          get().setError('Parent task not found');
+          return null;
+        }
+
+        const siblings = getChildren(parentId, get().tasks);
+        const lastPosition = siblings.reduce((max, task) => Math.max(max, task.position ?? -1), siblings.length - 1);
+
+        return get().addTask({
+          user_id: parent.user_id,
+          parent_task_id: parentId,
+          title,
+          description: null,
+          deadline: null,
+          priority: null,
+          outcome_value: null,
+          difficulty: null,
+          is_recursive: false,
+          recurrence_rule: null,
+          recursion_count: null,
+          recursion_end: null,
+          position: lastPosition + 1,
+          status: 'ongoing',
+        });
       },
 
-      toggleTaskStatus: async (id: string, status: TaskStatus) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
-        setError(null);
+      // Swap a subtask with its neighbour and renumber the siblings that moved
+      moveSubtask: async (id: string, direction: -1 | 1) => {
+        const task = get().tasks.find((t) => t.id === id);
+        if (!task?.parent_task_id) return;
 
-        try {
-          const { data, error } = await supabase
-            .from('tasks')
-            .update({
-              status,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', id)
-            .select()
-            .single();
+        const siblings = getChildren(task.parent_task_id, get().tasks);
+        const from = siblings.findIndex((t) => t.id === id);
+        const to = from + direction;
+        if (to < 0 || to >= siblings.length) return;
 
-          if (error) throw error;
+        const reordered = [...siblings];
+        [reordered[from], reordered[to]] = [reordered[to], reordered[from]];
 
-          debugLog('Updated task status', data);
-          set((state) => ({
-            tasks: state.tasks.map((task) =>
-              task.id === id ? data : task
-            ),
-          }));
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to update task status';
-          debugLog('Error updating task status', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
+        await Promise.all(
+          reordered
+            .map((sibling, position) => ({ sibling, position }))
+            .filter(({ sibling, position }) => sibling.position !== position)
+            .map(({ sibling, position }) => get().updateTask(sibling.id, { position }))
+        );
+
+        debugLog('Moved subtask', { id, direction });
+      },
+
+      completeTask: async (id: string, openSubtasks: SubtaskCompletion) => get().trackHistory(i18n.t('history.task_completed'), async () => {
+        if (openSubtasks !== 'keep') {
+          const status: TaskStatus = openSubtasks === 'complete' ? 'completed' : 'cancelled';
+          const open = getDescendants(id, get().tasks).filter((task) => isOpenStatus(task.status));
+          await Promise.all(open.map((task) => get().toggleTaskStatus(task.id, status)));
         }
+
+        await get().toggleTaskStatus(id, 'completed');
+      }),
+
+      // Create the next task in a recurring series once the current one is completed
+      scheduleNextOccurrence: async (task: Task) => {
+        const next = getNextTaskOccurrence(task);
+        if (!next) return null;
+
+        // Completing, reopening and completing again must not start a second copy
+        const alreadyScheduled = get().tasks.find((existing) =>
+          existing.id !== task.id &&
+          existing.recurrence_rule === task.recurrence_rule &&
+          existing.title === task.title &&
+          existing.deadline !== null &&
+          new Date(existing.deadline).getTime() === next.getTime()
+        );
+        if (alreadyScheduled) return alreadyScheduled;
+
+        const nextTask = await get().addTask({
+          user_id: task.user_id,
+          parent_task_id: task.parent_task_id,
+          title: task.title,
+          description: task.description,
+          deadline: next.toISOString(),
+          priority: task.priority,
+          outcome_value: task.outcome_value,
+          difficulty: task.difficulty,
+          is_recursive: true,
+          recurrence_rule: task.recurrence_rule,
+          recursion_count: task.recursion_count !== null ? task.recursion_count - 1 : null,
+          recursion_end: task.recursion_end,
+          position: task.position,
+          status: 'ongoing',
+        });
+        if (!nextTask) return null;
+
+        // Carry over tags, lists and reminders, moving reminders along with the deadline
+        const { taskTagRelations, taskListRelations, reminders, addTaskTag, addTaskToList, addTaskReminder } = get();
+        const shift = task.deadline ? next.getTime() - new Date(task.deadline).getTime() : 0;
+
+        await Promise.all([
+          ...taskTagRelations
+            .filter((relation) => relation.task_id === task.id)
+            .map((relation) => addTaskTag(nextTask.id, relation.tag_id)),
+          ...taskListRelations
+            .filter((relation) => relation.task_id === task.id)
+            .map((relation) => addTaskToList(nextTask.id, relation.list_id)),
+          ...(shift > 0 ? reminders : [])
+            .filter((reminder) => reminder.task_id === task.id)
+            .map((reminder) =>
+              addTaskReminder(nextTask.id, new Date(new Date(reminder.reminder_time).getTime() + shift).toISOString())
+            ),
+        ]);
+
+        debugLog('Scheduled next occurrence', { from: task.id, to: nextTask.id, deadline: nextTask.deadline });
+        return nextTask;
       },
 
-      clearTasks: async () => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+      clearTasks: async () => get().trackHistory(i18n.t('history.all_tasks_cleared'), async () => {
+        const { setError } = get();
         setError(null);
 
         try {
-          const { data: { user } } = await supabase.auth.getUser();
-          if (!user) {
-            throw new Error('No authenticated user');
-          }
-
-          const { error } = await supabase
-            .from('tasks')
-            .update({ is_deleted: true, updated_at: new Date().toISOString() })
-            .eq('user_id', user.id)
-            .eq('is_deleted', false);
+          const user = await getSessionUser();
 
-          if (error) throw error;
+          set({ tasks: [] });
+          useOutboxStore.getState().enqueue({
+            table: 'tasks',
+            operation: 'update',
+            payload: { is_deleted: true, updated_at: new Date().toISOString() },
+            match: { user_id: user.id, is_deleted: false },
+            taskId: null,
+          });
 
           debugLog('Cleared all tasks');
-          set({ tasks: [] });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to clear tasks';
           debugLog('Error clearing tasks', errorMessage);
           setError(errorMessage);
-        } finally {
-          setLoading(false);
         }
+      }),
+
+      // Each bulk action writes its batch in one request where it can; per-task
+      // follow-ups, like the next occurrence of a recurring task, are queued separately
+      bulkSetStatus: async (ids: string[], status: TaskStatus) => {
+        get().setError(null);
+        const { targets, result } = partitionBulk(
+          ids,
+          get().tasks,
+          (task) => task.status === status,
+          (task) => getTransitionError(task.status, status)
+        );
+        if (targets.length === 0) return result;
+
+        return get().trackHistory(describeBulkChange(targets.length, STATUS_CHANGE_VERBS[status]), async () => {
+          const changes = { status, updated_at: new Date().toISOString() };
+          const changedIds = new Set(result.changed);
+
+          set((state) => ({
+            tasks: state.tasks.map((task) => (changedIds.has(task.id) ? { ...task, ...changes } : task)),
+            statusHistory: [...state.statusHistory, ...toStatusChanges(targets, status, changes.updated_at)],
+          }));
+          enqueueTaskBatch(result.changed, { table: 'tasks', operation: 'update', payload: changes, match: { id: result.changed } });
+          get().recordActivity(targets.flatMap((task) => toActivity(task, diffTaskFields(task, { status }), changes.updated_at)));
+
+          if (status === 'completed') {
+            for (const task of targets) {
+              await get().scheduleNextOccurrence({ ...task, ...changes });
+            }
+          }
+
+          debugLog('Bulk updated task status', { status, count: targets.length });
+          return result;
+        });
+      },
+
+      bulkUpdateTasks: async (ids: string[], updates: Partial<Pick<Task, 'priority' | 'deadline'>>) => {
+        get().setError(null);
+        const fields = Object.keys(updates) as (keyof typeof updates)[];
+        const { targets, result } = partitionBulk(ids, get().tasks, (task) =>
+          fields.every((field) => task[field] === updates[field])
+        );
+        if (targets.length === 0) return result;
+
+        const change = 'deadline' in updates ? 'rescheduled' : 'updated';
+        return get().trackHistory(describeBulkChange(targets.length, change), async () => {
+          const changes = { ...updates, updated_at: new Date().toISOString() };
+          const changedIds = new Set(result.changed);
+
+          set((state) => ({
+            tasks: state.tasks.map((task) => (changedIds.has(task.id) ? { ...task, ...changes } : task)),
+          }));
+          enqueueTaskBatch(result.changed, { table: 'tasks', operation: 'update', payload: changes, match: { id: result.changed } });
+          get().recordActivity(targets.flatMap((task) => toActivity(task, diffTaskFields(task, updates), changes.updated_at)));
+
+          // Reminders are stored as absolute times, so each task's move along with its deadline
+          if (updates.deadline) {
+            const { reminders, updateTaskReminder } = get();
+            const newDeadline = new Date(updates.deadline).getTime();
+            const shifts = new Map(
+              targets
+                .filter((task) => task.deadline)
+                .map((task) => [task.id, newDeadline - new Date(task.deadline!).getTime()])
+            );
+            await Promise.all(
+              reminders
+                .filter((reminder) => shifts.get(reminder.task_id))
+                .map((reminder) =>
+                  updateTaskReminder(
+                    reminder.id,
+                    new Date(new Date(reminder.reminder_time).getTime() + shifts.get(reminder.task_id)!).toISOString()
+                  )
+                )
+            );
+          }
+
+          debugLog('Bulk updated tasks', { fields, count: targets.length });
+          return result;
+        });
+      },
+
+      bulkDeleteTasks: async (ids: string[]) => {
+        get().setError(null);
+        const { targets, result } = partitionBulk(ids, get().tasks, () => false);
+        if (targets.length === 0) return result;
+
+        return get().trackHistory(describeBulkChange(targets.length, 'deleted'), async () => {
+          const deletedIds = new Set(result.changed);
+
+          set((state) => ({
+            tasks: state.tasks.filter((task) => !deletedIds.has(task.id)),
+          }));
+          enqueueTaskBatch(result.changed, {
+            table: 'tasks',
+            operation: 'update',
+            payload: { is_deleted: true, updated_at: new Date().toISOString() },
+            match: { id: result.changed },
+          });
+
+          debugLog('Bulk deleted tasks', { count: targets.length });
+          return result;
+        });
+      },
+
+      bulkAddTag: async (ids: string[], tagId: string) => {
+        get().setError(null);
+        const tagged = new Set(
+          get().taskTagRelations.filter((relation) => relation.tag_id === tagId).map((relation) => relation.task_id)
+        );
+        const { targets, result } = partitionBulk(ids, get().tasks, (task) => tagged.has(task.id));
+        if (targets.length === 0) return result;
+
+        return get().trackHistory(describeBulkChange(targets.length, 'tagged'), async () => {
+          const rows = result.changed.map((taskId) => ({ task_id: taskId, tag_id: tagId }));
+          set((state) => ({
+            taskTagRelations: [...state.taskTagRelations, ...rows],
+            relationsVersion: state.relationsVersion + 1,
+          }));
+          enqueueTaskBatch(result.changed, { table: 'task_tags', operation: 'insert', rows });
+          get().recordActivity(targets.flatMap((task) => toActivity(task, [membershipChange('tag', tagId, true)])));
+
+          debugLog('Bulk added tag', { tagId, count: rows.length });
+          return result;
+        });
+      },
+
+      bulkRemoveTag: async (ids: string[], tagId: string) => {
+        get().setError(null);
+        const tagged = new Set(
+          get().taskTagRelations.filter((relation) => relation.tag_id === tagId).map((relation) => relation.task_id)
+        );
+        const { targets, result } = partitionBulk(ids, get().tasks, (task) => !tagged.has(task.id));
+        if (targets.length === 0) return result;
+
+        return get().trackHistory(describeBulkChange(targets.length, 'untagged'), async () => {
+          const untagged = new Set(result.changed);
+          set((state) => ({
+            taskTagRelations: state.taskTagRelations.filter(
+              (relation) => !(relation.tag_id === tagId && untagged.has(relation.task_id))
+            ),
+            relationsVersion: state.relationsVersion + 1,
+          }));
+          enqueueTaskBatch(result.changed, {
+            table: 'task_tags',
+            operation: 'delete',
+            match: { tag_id: tagId, task_id: result.changed },
+          });
+          get().recordActivity(targets.flatMap((task) => toActivity(task, [membershipChange('tag', tagId, false)])));
+
+          debugLog('Bulk removed tag', { tagId, count: result.changed.length });
+          return result;
+        });
+      },
+
+      // Put every task in exactly one list, or in none when listId is null
+      bulkMoveToList: async (ids: string[], listId: string | null) => {
+        get().setError(null);
+        const { taskListRelations } = get();
+        const isInOnlyThatList = (task: Task) => {
+          const listIds = taskListRelations.filter((relation) => relation.task_id === task.id).map((relation) => relation.list_id);
+          return listId ? listIds.length === 1 && listIds[0] === listId : listIds.length === 0;
+        };
+        const { targets, result } = partitionBulk(ids, get().tasks, isInOnlyThatList);
+        if (targets.length === 0) return result;
+
+        return get().trackHistory(describeBulkChange(targets.length, 'moved'), async () => {
+          const moved = new Set(result.changed);
+          const rows = listId ? result.changed.map((taskId) => ({ task_id: taskId, list_id: listId })) : [];
+          set((state) => ({
+            taskListRelations: [...state.taskListRelations.filter((relation) => !moved.has(relation.task_id)), ...rows],
+            relationsVersion: state.relationsVersion + 1,
+          }));
+
+          // Clear their lists, then add the new one: two requests for the whole batch
+          enqueueTaskBatch(result.changed, { table: 'task_lists', operation: 'delete', match: { task_id: result.changed } });
+          if (rows.length > 0) {
+            enqueueTaskBatch(result.changed, { table: 'task_lists', operation: 'insert', rows });
+          }
+          get().recordActivity(targets.flatMap((task) => toActivity(task, [
+            ...taskListRelations
+              .filter((relation) => relation.task_id === task.id && relation.list_id !== listId)
+              .map((relation) => membershipChange('list', relation.list_id, false)),
+            ...(listId && !taskListRelations.some((relation) => relation.task_id === task.id && relation.list_id === listId)
+              ? [membershipChange('list', listId, true)]
+              : []),
+          ])));
+
+          debugLog('Bulk moved tasks to list', { listId, count: result.changed.length });
+          return result;
+        });
       },
 
       // Helper function to check if tasks are loaded
@@ -357,156 +1041,139 @@ export const useTaskStore = create<TaskState>()(
       },
 
       addTag: async (tag) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+        const { setError } = get();
         setError(null);
 
         try {
-          const { data: { user } } = await supabase.auth.getUser();
-          if (!user) {
-            throw new Error('No authenticated user');
-          }
+          const user = await getSessionUser();
 
-          const newTag = {
+          const newTag: Tag = {
             ...tag,
+            id: uuidv4(),
             user_id: user.id,
             created_at: new Date().toISOString(),
           };
 
-          const { data, error } = await supabase
-            .from('tags')
-            .insert([newTag])
-            .select()
-            .single();
-
-          if (error) throw error;
-
-          debugLog('Added tag', data);
           set((state) => ({
-            tags: [data, ...state.tags],
+            tags: [newTag, ...state.tags],
           }));
+          useOutboxStore.getState().enqueue({
+            table: 'tags',
+            operation: 'insert',
+            payload: newTag,
+            taskId: null,
+          });
+
+          debugLog('Added tag', newTag);
+          return newTag;
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to add tag';
           debugLog('Error adding tag', errorMessage);
           setError(errorMessage);
-        } finally {
-          setLoading(false);
+          return null;
         }
       },
 
       updateTag: async (id: string, updates: Partial<Tag>) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+        const { setError } = get();
         setError(null);
 
-        try {
-          const { data, error } = await supabase
-            .from('tags')
-            .update(updates)
-            .eq('id', id)
-            .select()
-            .single();
-
-          if (error) throw error;
-
-          debugLog('Updated tag', data);
-          set((state) => ({
-            tags: state.tags.map((tag) =>
-              tag.id === id ? data : tag
-            ),
-          }));
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to update tag';
-          debugLog('Error updating tag', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
-        }
+        set((state) => ({
+          tags: state.tags.map((tag) =>
+            tag.id === id ? { ...tag, ...updates } : tag
+          ),
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'tags',
+          operation: 'update',
+          payload: updates,
+          match: { id },
+          taskId: null,
+        });
+
+        debugLog('Updated tag', { id, updates });
       },
 
       deleteTag: async (id: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+        const { setError } = get();
         setError(null);
 
-        try {
-          // First remove all task_tag associations
-          const { error: taskTagError } = await supabase
-            .from('task_tags')
-            .delete()
-            .eq('tag_id', id);
-
-          if (taskTagError) throw taskTagError;
-
-          // Then delete the tag
-          const { error } = await supabase
-            .from('tags')
-            .delete()
-            .eq('id', id);
+        set((state) => ({
+          tags: state.tags.filter((tag) => tag.id !== id),
+          taskTagRelations: state.taskTagRelations.filter((relation) => relation.tag_id !== id),
+          relationsVersion: state.relationsVersion + 1,
+        }));
 
-          if (error) throw error;
+        // First remove all task_tag associations, then the tag itself
+        const { enqueue } = useOutboxStore.getState();
+        enqueue({ table: 'task_tags', operation: 'delete', match: { tag_id: id }, taskId: null });
+        enqueue({ table: 'tags', operation: 'delete', match: { id }, taskId: null });
 
-          debugLog('Deleted tag', { id });
-          set((state) => ({
-            tags: state.tags.filter((tag) => tag.id !== id),
-          }));
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to delete tag';
-          debugLog('Error deleting tag', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
-        }
+        debugLog('Deleted tag', { id });
       },
 
-      addTaskTag: async (taskId: string, tagId: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
-        setError(null);
+      // Move the source tag's tasks onto the target tag, then delete the source
+      mergeTags: async (sourceId: string, targetId: string) => {
+        if (sourceId === targetId) return;
 
-        try {
-          const { error } = await supabase
-            .from('task_tags')
-            .insert([{ task_id: taskId, tag_id: tagId }]);
+        const { taskTagRelations, addTaskTag, deleteTag } = get();
+        const targetTaskIds = new Set(
+          taskTagRelations.filter((relation) => relation.tag_id === targetId).map((relation) => relation.task_id)
+        );
+        const moved = taskTagRelations.filter(
+          (relation) => relation.tag_id === sourceId && !targetTaskIds.has(relation.task_id)
+        );
 
-          if (error) throw error;
+        await Promise.all(moved.map((relation) => addTaskTag(relation.task_id, targetId)));
+        await deleteTag(sourceId);
 
-          debugLog('Added task tag', { taskId, tagId });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to add task tag';
-          debugLog('Error adding task tag', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
-        }
+        debugLog('Merged tags', { sourceId, targetId, moved: moved.length });
+      },
+
+      addTaskTag: async (taskId: string, tagId: string) => {
+        get().setError(null);
+
+        set((state) => ({
+          taskTagRelations: [...state.taskTagRelations, { task_id: taskId, tag_id: tagId }],
+          relationsVersion: state.relationsVersion + 1,
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'task_tags',
+          operation: 'insert',
+          payload: { task_id: taskId, tag_id: tagId },
+          taskId,
+        });
+
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (task) get().recordActivity(toActivity(task, [membershipChange('tag', tagId, true)]));
+
+        debugLog('Added task tag', { taskId, tagId });
       },
 
       removeTaskTag: async (taskId: string, tagId: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
-        setError(null);
-
-        try {
-          const { error } = await supabase
-            .from('task_tags')
-            .delete()
-            .eq('task_id', taskId)
-            .eq('tag_id', tagId);
-
-          if (error) throw error;
-
-          debugLog('Removed task tag', { taskId, tagId });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to remove task tag';
-          debugLog('Error removing task tag', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
-        }
-      },
-
-      // List Actions
-      fetchLists: async () => {
+        get().setError(null);
+
+        set((state) => ({
+          taskTagRelations: state.taskTagRelations.filter(
+            (relation) => !(relation.task_id === taskId && relation.tag_id === tagId)
+          ),
+          relationsVersion: state.relationsVersion + 1,
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'task_tags',
+          operation: 'delete',
+          match: { task_id: taskId, tag_id: tagId },
+          taskId,
+        });
+
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (task) get().recordActivity(toActivity(task, [membershipChange('tag', tagId, false)]));
+
+        debugLog('Removed task tag', { taskId, tagId });
+      },
+
+      // List Actions
+      fetchLists: async () => {
         const { setLoading, setError } = get();
         setLoading(true);
         setError(null);
@@ -521,7 +1188,7 @@ export const useTaskStore = create<TaskState>()(
             .from('lists')
             .select('*')
             .eq('user_id', user.id)
-            .order('created_at', { ascending: false });
+            .order('position', { ascending: true });
 
           if (error) throw error;
 
@@ -537,198 +1204,449 @@ export const useTaskStore = create<TaskState>()(
       },
 
       addList: async (list) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+        const { setError } = get();
         setError(null);
 
         try {
-          const { data: { user } } = await supabase.auth.getUser();
-          if (!user) {
-            throw new Error('No authenticated user');
-          }
+          const user = await getSessionUser();
 
-          const newList = {
+          const newList: List = {
             ...list,
+            id: uuidv4(),
             user_id: user.id,
+            // New lists go last
+            position: Math.max(-1, ...get().lists.map((existing) => existing.position)) + 1,
+            is_archived: false,
             created_at: new Date().toISOString(),
           };
 
-          const { data, error } = await supabase
-            .from('lists')
-            .insert([newList])
-            .select()
-            .single();
-
-          if (error) throw error;
-
-          debugLog('Added list', data);
           set((state) => ({
-            lists: [data, ...state.lists],
+            lists: [...state.lists, newList],
           }));
+          useOutboxStore.getState().enqueue({
+            table: 'lists',
+            operation: 'insert',
+            payload: newList,
+            taskId: null,
+          });
+
+          debugLog('Added list', newList);
+          return newList;
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to add list';
           debugLog('Error adding list', errorMessage);
           setError(errorMessage);
-        } finally {
-          setLoading(false);
+          return null;
         }
       },
 
       updateList: async (id: string, updates: Partial<List>) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+        const { setError } = get();
         setError(null);
 
-        try {
-          const { data, error } = await supabase
-            .from('lists')
-            .update(updates)
-            .eq('id', id)
-            .select()
-            .single();
-
-          if (error) throw error;
-
-          debugLog('Updated list', data);
-          set((state) => ({
-            lists: state.lists.map((list) =>
-              list.id === id ? data : list
-            ),
-          }));
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to update list';
-          debugLog('Error updating list', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
-        }
+        set((state) => ({
+          lists: state.lists.map((list) =>
+            list.id === id ? { ...list, ...updates } : list
+          ),
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'lists',
+          operation: 'update',
+          payload: updates,
+          match: { id },
+          taskId: null,
+        });
+
+        debugLog('Updated list', { id, updates });
       },
 
       deleteList: async (id: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
+        const { setError } = get();
         setError(null);
 
-        try {
-          // First remove all task_list associations
-          const { error: taskListError } = await supabase
-            .from('task_lists')
-            .delete()
-            .eq('list_id', id);
+        set((state) => ({
+          lists: state.lists.filter((list) => list.id !== id),
+          taskListRelations: state.taskListRelations.filter((relation) => relation.list_id !== id),
+          relationsVersion: state.relationsVersion + 1,
+        }));
 
-          if (taskListError) throw taskListError;
+        // First remove all task_list associations, then the list itself
+        const { enqueue } = useOutboxStore.getState();
+        enqueue({ table: 'task_lists', operation: 'delete', match: { list_id: id }, taskId: null });
+        enqueue({ table: 'lists', operation: 'delete', match: { id }, taskId: null });
 
-          // Then delete the list
-          const { error } = await supabase
-            .from('lists')
-            .delete()
-            .eq('id', id);
+        debugLog('Deleted list', { id });
+      },
 
-          if (error) throw error;
+      // Store the given order, writing only the lists whose position changed
+      reorderLists: async (listIds: string[]) => {
+        const { lists, updateList } = get();
 
-          debugLog('Deleted list', { id });
-          set((state) => ({
-            lists: state.lists.filter((list) => list.id !== id),
-          }));
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to delete list';
-          debugLog('Error deleting list', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
-        }
+        await Promise.all(
+          listIds.map((listId, position) => {
+            const list = lists.find((existing) => existing.id === listId);
+            return list && list.position !== position ? updateList(listId, { position }) : undefined;
+          })
+        );
+
+        debugLog('Reordered lists', listIds);
       },
 
       addTaskToList: async (taskId: string, listId: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
-        setError(null);
-
-        try {
-          const { error } = await supabase
-            .from('task_lists')
-            .insert([{ task_id: taskId, list_id: listId }]);
+        get().setError(null);
+
+        set((state) => ({
+          taskListRelations: [...state.taskListRelations, { task_id: taskId, list_id: listId }],
+          relationsVersion: state.relationsVersion + 1,
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'task_lists',
+          operation: 'insert',
+          payload: { task_id: taskId, list_id: listId },
+          taskId,
+        });
+
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (task) get().recordActivity(toActivity(task, [membershipChange('list', listId, true)]));
+
+        debugLog('Added task to list', { taskId, listId });
+      },
 
-          if (error) throw error;
+      removeTaskFromList: async (taskId: string, listId: string) => {
+        get().setError(null);
+
+        set((state) => ({
+          taskListRelations: state.taskListRelations.filter(
+            (relation) => !(relation.task_id === taskId && relation.list_id === listId)
+          ),
+          relationsVersion: state.relationsVersion + 1,
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'task_lists',
+          operation: 'delete',
+          match: { task_id: taskId, list_id: listId },
+          taskId,
+        });
+
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (task) get().recordActivity(toActivity(task, [membershipChange('list', listId, false)]));
+
+        debugLog('Removed task from list', { taskId, listId });
+      },
 
-          debugLog('Added task to list', { taskId, listId });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to add task to list';
-          debugLog('Error adding task to list', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
+      // Put a task in exactly one list, or in none when listId is null
+      moveTaskToList: async (taskId: string, listId: string | null) => {
+        const { taskListRelations, addTaskToList, removeTaskFromList } = get();
+        const currentListIds = taskListRelations
+          .filter((relation) => relation.task_id === taskId)
+          .map((relation) => relation.list_id);
+
+        await Promise.all(
+          currentListIds
+            .filter((currentId) => currentId !== listId)
+            .map((currentId) => removeTaskFromList(taskId, currentId))
+        );
+        if (listId && !currentListIds.includes(listId)) {
+          await addTaskToList(taskId, listId);
         }
+
+        debugLog('Moved task to list', { taskId, listId });
       },
 
-      removeTaskFromList: async (taskId: string, listId: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
-        setError(null);
+      // Reminder Actions
+      addTaskReminder: async (taskId: string, reminderTime: string) => {
+        get().setError(null);
+
+        const reminder: TaskReminder = {
+          id: uuidv4(),
+          task_id: taskId,
+          reminder_time: reminderTime,
+          created_at: new Date().toISOString(),
+        };
+
+        set((state) => ({
+          reminders: [...state.reminders, reminder],
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'task_reminders',
+          operation: 'insert',
+          payload: reminder,
+          taskId,
+        });
+
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (task) {
+          get().recordActivity(toActivity(task, [{ field: 'reminder', target_id: reminder.id, old_value: null, new_value: reminderTime }]));
+        }
 
-        try {
-          const { error } = await supabase
-            .from('task_lists')
-            .delete()
-            .eq('task_id', taskId)
-            .eq('list_id', listId);
+        debugLog('Added task reminder', { taskId, reminderTime });
+      },
 
-          if (error) throw error;
+      updateTaskReminder: async (reminderId: string, reminderTime: string) => {
+        get().setError(null);
+
+        const reminder = get().reminders.find((r) => r.id === reminderId);
+        set((state) => ({
+          reminders: state.reminders.map((r) =>
+            r.id === reminderId ? { ...r, reminder_time: reminderTime } : r
+          ),
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'task_reminders',
+          operation: 'update',
+          payload: { reminder_time: reminderTime },
+          match: { id: reminderId },
+          taskId: reminder?.task_id ?? null,
+        });
+
+        const task = reminder && get().tasks.find((t) => t.id === reminder.task_id);
+        if (task && reminder.reminder_time !== reminderTime) {
+          get().recordActivity(toActivity(task, [
+            { field: 'reminder', target_id: reminderId, old_value: reminder.reminder_time, new_value: reminderTime },
+          ]));
+        }
 
-          debugLog('Removed task from list', { taskId, listId });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to remove task from list';
-          debugLog('Error removing task from list', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
+        debugLog('Updated task reminder', { reminderId, reminderTime });
+      },
+
+      removeTaskReminder: async (reminderId: string) => {
+        get().setError(null);
+
+        const reminder = get().reminders.find((r) => r.id === reminderId);
+        set((state) => ({
+          reminders: state.reminders.filter((r) => r.id !== reminderId),
+        }));
+        useOutboxStore.getState().enqueue({
+          table: 'task_reminders',
+          operation: 'delete',
+          match: { id: reminderId },
+          taskId: reminder?.task_id ?? null,
+        });
+
+        const task = reminder && get().tasks.find((t) => t.id === reminder.task_id);
+        if (task) {
+          get().recordActivity(toActivity(task, [
+            { field: 'reminder', target_id: reminderId, old_value: reminder.reminder_time, new_value: null },
+          ]));
         }
+
+        debugLog('Removed task reminder', { reminderId });
       },
 
-      // Reminder Actions
-      addTaskReminder: async (taskId: string, reminderTime: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
-        setError(null);
+      importBackup: async (rows: BackupData) => {
+        get().setError(null);
+
+        // Deleted tasks are restored on the server only, like deleteTask leaves them
+        set((state) => ({
+          tasks: [...rows.tasks.filter((task) => !task.is_deleted), ...state.tasks],
+          tags: [...state.tags, ...rows.tags],
+          lists: [...state.lists, ...rows.lists],
+          taskTagRelations: [...state.taskTagRelations, ...rows.taskTagRelations],
+          taskListRelations: [...state.taskListRelations, ...rows.taskListRelations],
+          relationsVersion: state.relationsVersion + 1,
+          reminders: [...state.reminders, ...rows.reminders],
+        }));
+
+        // Referenced rows are queued first, and rows are given parents first
+        const { enqueue } = useOutboxStore.getState();
+        rows.tags.forEach((tag) => enqueue({ table: 'tags', operation: 'insert', payload: tag, taskId: null }));
+        rows.lists.forEach((list) => enqueue({ table: 'lists', operation: 'insert', payload: list, taskId: null }));
+        rows.tasks.forEach((task) => enqueue({ table: 'tasks', operation: 'insert', payload: task, taskId: task.id }));
+        rows.taskTagRelations.forEach((relation) =>
+          enqueue({ table: 'task_tags', operation: 'insert', payload: relation, taskId: relation.task_id })
+        );
+        rows.taskListRelations.forEach((relation) =>
+          enqueue({ table: 'task_lists', operation: 'insert', payload: relation, taskId: relation.task_id })
+        );
+        rows.reminders.forEach((reminder) =>
+          enqueue({ table: 'task_reminders', operation: 'insert', payload: reminder, taskId: reminder.task_id })
+        );
+
+        debugLog('Imported backup', {
+          tasks: rows.tasks.length,
+          tags: rows.tags.length,
+          lists: rows.lists.length,
+        });
+      },
 
-        try {
-          const { error } = await supabase
-            .from('task_reminders')
-            .insert([{ task_id: taskId, reminder_time: reminderTime }]);
+      // Bring tasks back from the trash; their tags, lists and reminders never left the cache
+      restoreTasks: async (tasks: Task[]) => get().trackHistory(i18n.t('history.tasks_restored', { count: tasks.length }), async () => {
+        get().setError(null);
+
+        const now = new Date().toISOString();
+        const restored = tasks.map((task) => ({ ...task, is_deleted: false, deleted_at: null, updated_at: now }));
+        const restoredIds = new Set(restored.map((task) => task.id));
+        set((state) => ({
+          tasks: [...restored, ...state.tasks.filter((task) => !restoredIds.has(task.id))],
+        }));
+
+        const { enqueue } = useOutboxStore.getState();
+        restored.forEach(({ id }) => {
+          enqueue({
+            table: 'tasks',
+            operation: 'update',
+            payload: { is_deleted: false, updated_at: now },
+            match: { id },
+            taskId: id,
+          });
+        });
+
+        debugLog('Restored tasks', { count: restored.length });
+      }),
+
+      // Drop what's cached about tasks purged from the trash
+      forgetPurgedTasks: (ids: string[]) => {
+        const purged = new Set(ids);
+        set((state) => ({
+          taskTagRelations: state.taskTagRelations.filter((relation) => !purged.has(relation.task_id)),
+          taskListRelations: state.taskListRelations.filter((relation) => !purged.has(relation.task_id)),
+          relationsVersion: state.relationsVersion + 1,
+          reminders: state.reminders.filter((reminder) => !purged.has(reminder.task_id)),
+          statusHistory: state.statusHistory.filter((change) => !purged.has(change.task_id)),
+          activity: state.activity.filter((entry) => !purged.has(entry.task_id)),
+          tasks: state.tasks.map((task) =>
+            task.parent_task_id && purged.has(task.parent_task_id) ? { ...task, parent_task_id: null } : task
+          ),
+        }));
+        useHistoryStore.getState().forgetTasks(ids);
+
+        debugLog('Forgot purged tasks', { count: ids.length });
+      },
 
-          if (error) throw error;
+      // Run a mutation and record the tasks and memberships it changed as one undoable entry
+      trackHistory: async (label, mutation) => {
+        if (isRecordingHistory) return mutation();
 
-          debugLog('Added task reminder', { taskId, reminderTime });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to add task reminder';
-          debugLog('Error adding task reminder', errorMessage);
-          setError(errorMessage);
+        isRecordingHistory = true;
+        const before = get();
+        try {
+          return await mutation();
         } finally {
-          setLoading(false);
+          isRecordingHistory = false;
+          const after = get();
+          useHistoryStore.getState().record(label, diffTasks(before.tasks, after.tasks), [
+            ...diffMemberships(before.taskTagRelations, after.taskTagRelations),
+            ...diffMemberships(before.taskListRelations, after.taskListRelations),
+          ]);
         }
       },
 
-      removeTaskReminder: async (reminderId: string) => {
-        const { setLoading, setError } = get();
-        setLoading(true);
-        setError(null);
+      // Put every task an entry changed back the way it was before or after it
+      applyHistoryEntry: (entry, side) => {
+        const now = new Date().toISOString();
+        const restored = entry.changes
+          .map((change) => change[side])
+          .filter((task): task is Task => task !== null)
+          .map((task) => ({ ...task, updated_at: now }));
+        const restoredById = new Map(restored.map((task) => [task.id, task]));
+        const removedIds = new Set(
+          entry.changes.filter((change) => change[side] === null).map((change) => (change.before ?? change.after)!.id)
+        );
+
+        // Undoing takes tasks out of what they were put in, and back into what they were taken out of
+        const current = toMemberships([...get().taskTagRelations, ...get().taskListRelations]);
+        const memberships = entry.memberships
+          .map((membership) => ({ ...membership, added: side === 'after' ? membership.added : !membership.added }))
+          .filter((membership) => current.has(membershipKey(membership.kind, membership.taskId, membership.targetId)) !== membership.added);
+        const changedMemberships = new Set(
+          memberships.map((membership) => membershipKey(membership.kind, membership.taskId, membership.targetId))
+        );
+        const addedRows = (kind: MembershipChange['kind']) =>
+          memberships.filter((membership) => membership.kind === kind && membership.added);
+
+        const activity = get().tasks.flatMap((task) => {
+          const restoredTask = restoredById.get(task.id);
+          return [
+            ...(restoredTask ? toActivity(task, diffTaskFields(task, restoredTask), now) : []),
+            ...toActivity(
+              task,
+              memberships
+                .filter((membership) => membership.taskId === task.id)
+                .map((membership) => membershipChange(membership.kind, membership.targetId, membership.added)),
+              now
+            ),
+          ];
+        });
 
-        try {
-          const { error } = await supabase
-            .from('task_reminders')
-            .delete()
-            .eq('id', reminderId);
+        if (memberships.length > 0) {
+          set((state) => ({
+            taskTagRelations: [
+              ...state.taskTagRelations.filter(
+                (relation) => !changedMemberships.has(membershipKey('tag', relation.task_id, relation.tag_id))
+              ),
+              ...addedRows('tag').map((membership) => ({ task_id: membership.taskId, tag_id: membership.targetId })),
+            ],
+            taskListRelations: [
+              ...state.taskListRelations.filter(
+                (relation) => !changedMemberships.has(membershipKey('list', relation.task_id, relation.list_id))
+              ),
+              ...addedRows('list').map((membership) => ({ task_id: membership.taskId, list_id: membership.targetId })),
+            ],
+            relationsVersion: state.relationsVersion + 1,
+          }));
+        }
 
-          if (error) throw error;
+        set((state) => {
+          const existingIds = new Set(state.tasks.map((task) => task.id));
+          const statusChanges = state.tasks.flatMap((task) => {
+            const restoredTask = restoredById.get(task.id);
+            return restoredTask ? toStatusChanges([task], restoredTask.status, now) : [];
+          });
+          return {
+            statusHistory: [...state.statusHistory, ...statusChanges],
+            tasks: [
+              ...restored.filter((task) => !existingIds.has(task.id)),
+              ...state.tasks
+                .filter((task) => !removedIds.has(task.id))
+                .map((task) => restoredById.get(task.id) ?? task),
+            ],
+          };
+        });
+
+        // Deleted tasks are still on the server, so restoring them is an update too
+        const { enqueue } = useOutboxStore.getState();
+        restored.forEach(({ id, user_id: _userId, created_at: _createdAt, ...fields }) => {
+          enqueue({
+            table: 'tasks',
+            operation: 'update',
+            payload: { ...fields, is_deleted: false },
+            match: { id },
+            taskId: id,
+          });
+        });
+        removedIds.forEach((id) => {
+          enqueue({
+            table: 'tasks',
+            operation: 'update',
+            payload: { is_deleted: true, updated_at: now },
+            match: { id },
+            taskId: id,
+          });
+        });
+        memberships.forEach(({ kind, taskId, targetId, added }) => {
+          const row: Record<string, string> = { task_id: taskId, [kind === 'tag' ? 'tag_id' : 'list_id']: targetId };
+          const table = kind === 'tag' ? 'task_tags' : 'task_lists';
+          enqueue(added ? { table, operation: 'insert', payload: row, taskId } : { table, operation: 'delete', match: row, taskId });
+        });
+        get().recordActivity(activity);
+      },
 
-          debugLog('Removed task reminder', { reminderId });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to remove task reminder';
-          debugLog('Error removing task reminder', errorMessage);
-          setError(errorMessage);
-        } finally {
-          setLoading(false);
-        }
+      undo: async () => {
+        const entry = useHistoryStore.getState().takeUndo();
+        if (!entry) return false;
+
+        get().applyHistoryEntry(entry, 'before');
+        debugLog('Undid', { label: entry.label, tasks: entry.changes.length });
+        return true;
+      },
+
+      redo: async () => {
+        const entry = useHistoryStore.getState().takeRedo();
+        if (!entry) return false;
+
+        get().applyHistoryEntry(entry, 'after');
+        debugLog('Redid', { label: entry.label, tasks: entry.changes.length });
+        return true;
       },
 
       // Utility Actions
@@ -747,172 +1665,180 @@ export const useTaskStore = create<TaskState>()(
         set({ isDebug });
       },
       // Unified Filter Implementation
-      filterTasks: async (params: TaskFilterParams): Promise<Task[]> => {
-        const { setLoading, setError, areTasksLoaded, tasks, taskListRelations, fetchTaskListRelations } = get();
+      filterTasks: async (query: TaskQuery): Promise<Task[]> => {
+        const { setLoading, setError, areTasksLoaded, fetchTaskListRelations, fetchTaskTagRelations } = get();
         setLoading(true);
         setError(null);
 
         try {
-          // If tasks are loaded, filter locally
+          // If tasks are loaded, run the query against the local cache
           if (areTasksLoaded()) {
-            debugLog('Using local tasks for filtering', params);
-            // Start with all non-deleted tasks
-            let filteredTasks = tasks.filter(task => !task.is_deleted);
-
-            // If no params provided, return all non-deleted tasks
-            if (Object.keys(params).length === 0) {
-              return filteredTasks;
-            }
+            debugLog('Using local tasks for filtering', query);
 
-            // Filter by status
-            if (params.status) {
-              filteredTasks = filteredTasks.filter(task => task.status === params.status);
+            // Memberships are only needed, and fetched once, for queries on lists or tags
+            const uses = getQueryRelations(query);
+            if (uses.lists && !get().relationsLoaded.lists) {
+              await fetchTaskListRelations();
             }
-
-            // Filter by specific date
-            if (params.date) {
-              const startOfDay = new Date(params.date);
-              startOfDay.setHours(0, 0, 0, 0);
-              const endOfDay = new Date(params.date);
-              endOfDay.setHours(23, 59, 59, 999);
-
-              filteredTasks = filteredTasks.filter(task => {
-                if (!task.deadline) return false;
-                const taskDate = new Date(task.deadline);
-                return taskDate >= startOfDay && taskDate <= endOfDay;
-              });
-            }
-
-            // Filter by date range
-            if (params.dateRange) {
-              filteredTasks = filteredTasks.filter(task => {
-                if (!task.deadline) return false;
-                const taskDate = new Date(task.deadline);
-                return taskDate >= params.dateRange!.start && taskDate <= params.dateRange!.end;
-              });
+            if (uses.tags && !get().relationsLoaded.tags) {
+              await fetchTaskTagRelations();
             }
 
-            // Filter by week
-            if (params.weekOf) {
-              const startOfWeek = new Date(params.weekOf);
-              startOfWeek.setDate(params.weekOf.getDate() - params.weekOf.getDay());
-              startOfWeek.setHours(0, 0, 0, 0);
-
-              const endOfWeek = new Date(startOfWeek);
-              endOfWeek.setDate(startOfWeek.getDate() + 6);
-              endOfWeek.setHours(23, 59, 59, 999);
-
-              filteredTasks = filteredTasks.filter(task => {
-                if (!task.deadline) return false;
-                const taskDate = new Date(task.deadline);
-                return taskDate >= startOfWeek && taskDate <= endOfWeek;
-              });
-            }
-
-            // Filter by list
-            if (params.listId) {
-              if (taskListRelations.length === 0) {
-                await fetchTaskListRelations();
-              }
-
-              const taskIdsInList = taskListRelations
-                .filter(relation => relation.list_id === params.listId)
-                .map(relation => relation.task_id);
-
-              filteredTasks = filteredTasks.filter(task => 
-                taskIdsInList.includes(task.id)
-              );
-            }
-
-            return filteredTasks;
+            const { tasks, taskListRelations, taskTagRelations } = get();
+            return runTaskQuery(tasks, query, { taskListRelations, taskTagRelations });
           }
 
-          // If tasks are not loaded, fetch from database with appropriate filters
-          debugLog('Fetching filtered tasks from database', params);
+          // Otherwise translate it into a single request on the task_query_rows view
+          debugLog('Fetching filtered tasks from database', query);
           const { data: { user } } = await supabase.auth.getUser();
           if (!user) {
             throw new Error('No authenticated user');
           }
 
-          // Base query for tasks
-          const baseQuery = supabase
-            .from('tasks')
+          const { filter, order, range } = toPostgrestTaskQuery(query);
+          let request = supabase
+            .from('task_query_rows')
             .select('*')
             .eq('user_id', user.id)
             .eq('is_deleted', false);
 
-          // If list ID is provided, we need to join with task_lists
-          if (params.listId) {
-            const { data: listData, error: listError } = await supabase
-              .from('tasks')
-              .select('*, task_lists!inner(*)')
-              .eq('user_id', user.id)
-              .eq('is_deleted', false)
-              .eq('task_lists.list_id', params.listId)
-              .order('created_at', { ascending: false });
-
-            if (listError) throw listError;
-            return (listData || []) as Task[];
+          if (filter) {
+            request = request.or(filter);
           }
-
-          // If no params provided, return all non-deleted tasks
-          if (Object.keys(params).length === 0) {
-            const { data, error } = await baseQuery.order('created_at', { ascending: false });
-            if (error) throw error;
-            return data || [];
+          order.forEach(({ column, ascending }) => {
+            request = request.order(column, { ascending, nullsFirst: false });
+          });
+          if (range) {
+            request = request.range(range.from, range.to);
           }
 
-          let query = baseQuery;
+          const { data, error } = await request;
+          if (error) throw error;
+          return (data || []).map(fromTaskQueryRow);
 
-          // Apply filters to query
-          if (params.status) {
-            query = query.eq('status', params.status);
-          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to filter tasks';
+          setError(errorMessage);
+          return [];
+        } finally {
+          setLoading(false);
+        }
+      },
 
-          if (params.date) {
-            const startOfDay = new Date(params.date);
-            startOfDay.setHours(0, 0, 0, 0);
-            const endOfDay = new Date(params.date);
-            endOfDay.setHours(23, 59, 59, 999);
-            query = query
-              .gte('deadline', startOfDay.toISOString())
-              .lte('deadline', endOfDay.toISOString());
-          }
+      // Search the local cache, or the database with full-text search while the cache is cold
+      searchTasks: async (query: string): Promise<TaskSearchResult[]> => {
+        const { areTasksLoaded, tasks, tags, lists, taskTagRelations, taskListRelations, setError } = get();
+        const sources = { tags, lists, taskTagRelations, taskListRelations };
+
+        if (areTasksLoaded()) {
+          return searchCachedTasks(tasks, query, sources);
+        }
+
+        const terms = tokenizeSearch(query);
+        if (terms.length === 0) return [];
+
+        try {
+          debugLog('Searching tasks in database', { query });
+          const { data, error } = await supabase.rpc('search_tasks', {
+            search_query: query,
+            result_limit: SEARCH_RESULT_LIMIT,
+          });
+          if (error) throw error;
+
+          // Keep the database ranking; matches are filled in from whatever relations are cached
+          const rows = (data || []) as Task[];
+          return rows.map((task, index) => ({
+            ...(matchTask(task, terms, sources) ?? { task, matches: [] }),
+            score: rows.length - index,
+          }));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to search tasks';
+          debugLog('Error searching tasks', errorMessage);
+          setError(errorMessage);
+          return [];
+        }
+      },
 
-          if (params.dateRange) {
-            query = query
-              .gte('deadline', params.dateRange.start.toISOString())
-              .lte('deadline', params.dateRange.end.toISOString());
+      fetchTaskListRelations: async () => {
+        const { setLoading, setError } = get();
+        setLoading(true);
+        setError(null);
+
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) {
+            throw new Error('No authenticated user');
           }
 
-          if (params.weekOf) {
-            const startOfWeek = new Date(params.weekOf);
-            startOfWeek.setDate(params.weekOf.getDate() - params.weekOf.getDay());
-            startOfWeek.setHours(0, 0, 0, 0);
+          // Junction rows carry no user_id, so scope them through the owning task
+          const { data, error } = await supabase
+            .from('task_lists')
+            .select('task_id, list_id, tasks!inner(user_id)')
+            .eq('tasks.user_id', user.id);
 
-            const endOfWeek = new Date(startOfWeek);
-            endOfWeek.setDate(startOfWeek.getDate() + 6);
-            endOfWeek.setHours(23, 59, 59, 999);
+          if (error) throw error;
 
-            query = query
-              .gte('deadline', startOfWeek.toISOString())
-              .lte('deadline', endOfWeek.toISOString());
+          debugLog('Fetched task-list relations', data);
+          const rows = (data || []).map(({ task_id, list_id }) => ({ task_id, list_id }));
+          set((state) => ({
+            relationsLoaded: { ...state.relationsLoaded, lists: true },
+            // Keep an empty array as it is, so screens depending on it don't re-run for nothing
+            ...(rows.length === 0 && state.taskListRelations.length === 0
+              ? {}
+              : { taskListRelations: rows, relationsVersion: state.relationsVersion + 1 }),
+          }));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch task-list relations';
+          setError(errorMessage);
+        } finally {
+          setLoading(false);
+        }
+      },
+
+      fetchTaskTagRelations: async () => {
+        const { setLoading, setError } = get();
+        setLoading(true);
+        setError(null);
+
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) {
+            throw new Error('No authenticated user');
           }
 
-          const { data, error } = await query.order('created_at', { ascending: false });
+          const { data, error } = await supabase
+            .from('task_tags')
+            .select('task_id, tag_id, tasks!inner(user_id)')
+            .eq('tasks.user_id', user.id);
+
           if (error) throw error;
-          return data || [];
 
+          debugLog('Fetched task-tag relations', data);
+          const rows = (data || []).map(({ task_id, tag_id }) => ({ task_id, tag_id }));
+          set((state) => ({
+            relationsLoaded: { ...state.relationsLoaded, tags: true },
+            ...(rows.length === 0 && state.taskTagRelations.length === 0
+              ? {}
+              : { taskTagRelations: rows, relationsVersion: state.relationsVersion + 1 }),
+          }));
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to filter tasks';
+          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch task-tag relations';
           setError(errorMessage);
-          return [];
         } finally {
           setLoading(false);
         }
       },
 
-      fetchTaskListRelations: async () => {
+      resetRelations: () => {
+        set({
+          taskListRelations: [],
+          taskTagRelations: [],
+          relationsLoaded: { lists: false, tags: false },
+          relationsVersion: 0,
+        });
+      },
+
+      fetchReminders: async () => {
         const { setLoading, setError } = get();
         setLoading(true);
         setError(null);
@@ -924,25 +1850,327 @@ export const useTaskStore = create<TaskState>()(
           }
 
           const { data, error } = await supabase
-            .from('task_lists')
-            .select('*')
-            .eq('user_id', user.id);
+            .from('task_reminders')
+            .select('id, task_id, reminder_time, created_at, tasks!inner(user_id)')
+            .eq('tasks.user_id', user.id);
 
           if (error) throw error;
 
-          debugLog('Fetched task-list relations', data);
-          set({ taskListRelations: data || [] });
+          debugLog('Fetched reminders', data);
+          set({
+            reminders: (data || []).map(({ id, task_id, reminder_time, created_at }) => ({
+              id,
+              task_id,
+              reminder_time,
+              created_at,
+            })),
+          });
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch task-list relations';
+          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch reminders';
           setError(errorMessage);
         } finally {
           setLoading(false);
         }
       },
+
+      // Load the status history, keeping changes made here that haven't synced yet
+      fetchStatusHistory: async () => {
+        get().setError(null);
+
+        try {
+          const { data, error } = await supabase
+            .from('task_status_history')
+            .select('id, task_id, user_id, from_status, to_status, changed_at')
+            .order('changed_at', { ascending: true });
+          if (error) throw error;
+
+          const rows = (data || []) as TaskStatusChange[];
+          const changeKey = (change: TaskStatusChange) =>
+            `${change.task_id}:${change.to_status}:${new Date(change.changed_at).getTime()}`;
+          const synced = new Set(rows.map(changeKey));
+          const pendingIds = useOutboxStore.getState().getPendingTaskIds();
+
+          set((state) => ({
+            statusHistory: [
+              ...rows,
+              ...state.statusHistory.filter((change) => pendingIds.has(change.task_id) && !synced.has(changeKey(change))),
+            ],
+          }));
+          debugLog('Fetched status history', { count: rows.length });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch status history';
+          debugLog('Error fetching status history', errorMessage);
+          get().setError(errorMessage);
+        }
+      },
+
+      // Activity Actions
+      recordActivity: (entries: TaskActivity[]) => {
+        if (entries.length === 0) return;
+
+        set((state) => ({ activity: [...state.activity, ...entries] }));
+        const taskIds = Array.from(new Set(entries.map((entry) => entry.task_id)));
+        if (taskIds.length === 1) {
+          useOutboxStore.getState().enqueue({ table: 'task_activity', operation: 'insert', rows: entries, taskId: taskIds[0] });
+        } else {
+          enqueueTaskBatch(taskIds, { table: 'task_activity', operation: 'insert', rows: entries });
+        }
+
+        debugLog('Recorded activity', { count: entries.length });
+      },
+
+      // Load one task's activity, keeping entries made here that haven't synced yet
+      fetchTaskActivity: async (taskId: string) => {
+        get().setError(null);
+
+        try {
+          const { data, error } = await supabase
+            .from('task_activity')
+            .select('*')
+            .eq('task_id', taskId)
+            .order('created_at', { ascending: true });
+          if (error) throw error;
+
+          const rows = (data || []) as TaskActivity[];
+          const synced = new Set(rows.map((entry) => entry.id));
+          const isPending = useOutboxStore.getState().getPendingTaskIds().has(taskId);
+
+          set((state) => ({
+            activity: [
+              ...state.activity.filter((entry) => entry.task_id !== taskId),
+              ...rows,
+              ...(isPending ? state.activity.filter((entry) => entry.task_id === taskId && !synced.has(entry.id)) : []),
+            ],
+          }));
+          debugLog('Fetched task activity', { taskId, count: rows.length });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch activity';
+          debugLog('Error fetching task activity', errorMessage);
+          get().setError(errorMessage);
+        }
+      },
+
+      revertActivity: async (entry: TaskActivity) => get().trackHistory(i18n.t('history.change_reverted'), async () => {
+        const { setError, tasks, taskTagRelations, taskListRelations, reminders } = get();
+        setError(null);
+
+        const task = tasks.find((t) => t.id === entry.task_id);
+        if (!task) {
+          setError('This task no longer exists');
+          return false;
+        }
+        const changedSince = () => {
+          setError('This has changed again since. Revert the later change first.');
+          return false;
+        };
+        const added = entry.old_value === null;
+
+        switch (entry.field) {
+          case 'tag': {
+            const hasTag = taskTagRelations.some((r) => r.task_id === task.id && r.tag_id === entry.target_id);
+            if (hasTag !== added) return changedSince();
+            await (added ? get().removeTaskTag(task.id, entry.target_id!) : get().addTaskTag(task.id, entry.target_id!));
+            break;
+          }
+          case 'list': {
+            const inList = taskListRelations.some((r) => r.task_id === task.id && r.list_id === entry.target_id);
+            if (inList !== added) return changedSince();
+            await (added ? get().removeTaskFromList(task.id, entry.target_id!) : get().addTaskToList(task.id, entry.target_id!));
+            break;
+          }
+          case 'reminder': {
+            const reminder = reminders.find((r) => r.id === entry.target_id);
+            if (entry.new_value === null) {
+              // A removed reminder comes back as a new one at the same time
+              if (reminder) return changedSince();
+              await get().addTaskReminder(task.id, String(entry.old_value));
+            } else if (!reminder || new Date(reminder.reminder_time).getTime() !== new Date(String(entry.new_value)).getTime()) {
+              return changedSince();
+            } else if (added) {
+              await get().removeTaskReminder(reminder.id);
+            } else {
+              await get().updateTaskReminder(reminder.id, String(entry.old_value));
+            }
+            break;
+          }
+          default: {
+            if (!isTrackedTaskField(entry.field)) {
+              setError("This change can't be reverted");
+              return false;
+            }
+            if (!isCurrentValue(task, entry)) return changedSince();
+            await get().updateTask(task.id, { [entry.field]: entry.old_value } as Partial<Task>);
+            // updateTask refuses status changes the state machine doesn't allow
+            if (get().error) return false;
+          }
+        }
+
+        debugLog('Reverted activity', { id: entry.id, field: entry.field });
+        return true;
+      }),
+
+      // Conflict Resolution
+      rebaseTaskUpdate: (taskId, serverTask, changes, conflicts) => {
+        debugLog('Rebasing task update', { taskId, merged: Object.keys(changes), conflicts: conflicts.length });
+
+        set((state) => {
+          const local = state.tasks.find((task) => task.id === taskId);
+
+          // Keep showing the user's own values for contested fields until they choose
+          const contested: Record<string, any> = {};
+          conflicts.forEach(({ field, local: value }) => {
+            contested[field] = value;
+          });
+
+          const rebased = { ...serverTask, ...changes, ...contested, updated_at: changes.updated_at ?? serverTask.updated_at };
+          const existing = state.conflicts.find((conflict) => conflict.taskId === taskId);
+          const fields = [
+            ...(existing?.fields ?? []).filter((f) => !conflicts.some((c) => c.field === f.field)),
+            ...conflicts,
+          ];
+
+          return {
+            tasks: local
+              ? state.tasks.map((task) => (task.id === taskId ? rebased : task))
+              : state.tasks,
+            conflicts: conflicts.length === 0
+              ? state.conflicts
+              : [
+                  ...state.conflicts.filter((conflict) => conflict.taskId !== taskId),
+                  { taskId, fields, detectedAt: new Date().toISOString() },
+                ],
+          };
+        });
+      },
+
+      resolveConflict: async (taskId, choices) => {
+        const conflict = get().conflicts.find((c) => c.taskId === taskId);
+        if (!conflict) return;
+
+        // Start from the server's values, then re-apply the ones the user wants to keep
+        const remoteValues: Record<string, any> = {};
+        const keptValues: Record<string, any> = {};
+        conflict.fields.forEach(({ field, local, remote }) => {
+          remoteValues[field] = remote;
+          if (choices[field] === 'local') {
+            keptValues[field] = local;
+          }
+        });
+
+        debugLog('Resolving conflict', { taskId, choices });
+        set((state) => ({
+          conflicts: state.conflicts.filter((c) => c.taskId !== taskId),
+          tasks: state.tasks.map((task) => (task.id === taskId ? { ...task, ...remoteValues } : task)),
+        }));
+
+        if (Object.keys(keptValues).length > 0) {
+          await get().updateTask(taskId, keptValues);
+        }
+      },
+
+      // Realtime Sync
+      applyRemoteChange: (change: RemoteChange) => {
+        const { table, eventType } = change;
+        const row = eventType === 'DELETE' ? change.old : change.new;
+        const isDelete = eventType === 'DELETE';
+
+        // Local edits that haven't synced yet win over the server copy
+        const pendingTaskIds = useOutboxStore.getState().getPendingTaskIds();
+        if (row.task_id && pendingTaskIds.has(row.task_id)) return;
+        if (table === 'tasks' && pendingTaskIds.has(row.id)) return;
+
+        debugLog('Applying remote change', { table, eventType, id: row.id ?? row.task_id });
+
+        switch (table) {
+          case 'tasks':
+            set((state) => ({
+              tasks: upsertById(state.tasks, row as Task, isDelete || row.is_deleted === true),
+            }));
+            break;
+
+          case 'tags':
+            set((state) => ({ tags: upsertById(state.tags, row as Tag, isDelete) }));
+            break;
+
+          case 'lists':
+            set((state) => ({ lists: upsertById(state.lists, row as List, isDelete) }));
+            break;
+
+          case 'task_reminders':
+            set((state) => ({
+              reminders: upsertById(state.reminders, row as TaskReminder, isDelete),
+            }));
+            break;
+
+          case 'task_lists':
+            set((state) => {
+              const others = state.taskListRelations.filter(
+                (relation) => !(relation.task_id === row.task_id && relation.list_id === row.list_id)
+              );
+              return {
+                taskListRelations: isDelete
+                  ? others
+                  : [...others, { task_id: row.task_id, list_id: row.list_id }],
+                relationsVersion: state.relationsVersion + 1,
+              };
+            });
+            break;
+
+          case 'task_tags':
+            set((state) => {
+              const others = state.taskTagRelations.filter(
+                (relation) => !(relation.task_id === row.task_id && relation.tag_id === row.tag_id)
+              );
+              return {
+                taskTagRelations: isDelete
+                  ? others
+                  : [...others, { task_id: row.task_id, tag_id: row.tag_id }],
+                relationsVersion: state.relationsVersion + 1,
+              };
+            });
+            break;
+        }
+      },
     }),
     {
       name: 'task-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      // Whether memberships are loaded only holds for this session, and the activity log
+      // and status history grow with every edit, so the screens showing them fetch them instead
+      partialize: ({
+        relationsLoaded: _relationsLoaded,
+        relationsVersion: _relationsVersion,
+        activity: _activity,
+        statusHistory: _statusHistory,
+        ...state
+      }) => state,
     }
   )
-); 
+);
+
+// Merge conflicting task updates field by field; the outbox calls this when a
+// guarded update finds the row was changed since the client read it
+registerConflictResolver('tasks', (mutation, serverRow) => {
+  const { guard, payload } = mutation;
+  if (!guard || !payload || !mutation.taskId) return null;
+
+  const { changes, conflicts } = mergeTaskChanges(guard.base, payload, serverRow);
+  const hasChanges = Object.keys(changes).length > 0;
+
+  // Reuse the original timestamp so later queued edits still match the guard
+  const rebasedChanges = hasChanges ? { ...changes, updated_at: payload.updated_at } : {};
+  useTaskStore.getState().rebaseTaskUpdate(mutation.taskId, serverRow as Task, rebasedChanges, conflicts);
+
+  if (!hasChanges) return null;
+
+  const base: Record<string, any> = {};
+  Object.keys(changes).forEach((field) => {
+    base[field] = serverRow[field] ?? null;
+  });
+
+  return {
+    ...mutation,
+    payload: rebasedChanges,
+    guard: { column: 'updated_at', value: serverRow.updated_at, base },
+  };
+}); 
@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Days a deleted task stays in the trash; null keeps it until it's purged by hand
+export type TrashRetention = number | null;
+
+export const TRASH_RETENTION_OPTIONS: TrashRetention[] = [7, 30, 90, null];
+
+export const DEFAULT_TRASH_RETENTION: TrashRetention = 30;
+
+interface TrashState {
+  retentionDays: TrashRetention;
+  // When expired tasks were last purged, so it happens at most once a day
+  lastPurgedAt: string | null;
+  setRetentionDays: (days: TrashRetention) => void;
+  setLastPurgedAt: (date: string) => void;
+}
+
+const useTrashStore = create<TrashState>()(
+  persist(
+    (set) => ({
+      retentionDays: DEFAULT_TRASH_RETENTION,
+      lastPurgedAt: null,
+      // A new period applies right away instead of after the next daily purge
+      setRetentionDays: (days) => set({ retentionDays: days, lastPurgedAt: null }),
+      setLastPurgedAt: (date) => set({ lastPurgedAt: date }),
+    }),
+    {
+      name: 'trash-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useTrashStore;